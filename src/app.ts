@@ -1,4 +1,5 @@
 import express, { Application, Request, Response } from 'express';
+import path from 'path';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -10,6 +11,7 @@ import swaggerSpec from './config/swagger';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { apiLimiter } from './middleware/rateLimiter';
+import { AVATAR_DIRECTORY, AVATAR_URL_PREFIX } from './constants/profile';
 import logger, { stream } from './utils/logger';
 
 const app: Application = express();
@@ -65,6 +67,17 @@ app.use('/api/', apiLimiter);
 // API routes
 app.use(`/api/${config.apiVersion}`, routes);
 
+// Uploaded profile pictures (only the avatars directory is public)
+app.use(
+  AVATAR_URL_PREFIX,
+  express.static(path.join(config.upload.uploadPath, AVATAR_DIRECTORY), {
+    setHeaders: (res) => {
+      // Allow the frontend (another origin) to embed the images
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    },
+  })
+);
+
 // Root endpoint
 app.get('/', (_req: Request, res: Response) => {
   res.json({
@@ -25,6 +25,54 @@ interface DatabaseConfig {
 interface JwtConfig {
   secret: string;
   expiresIn: string;
+  refreshSecret: string;
+  refreshExpiresIn: string;
+}
+
+type EmailVerificationEnforcement = 'none' | 'routes' | 'login';
+
+interface EmailVerificationConfig {
+  enforcement: EmailVerificationEnforcement;
+  expiryMinutes: number;
+}
+
+interface OtpConfig {
+  hashSecret: string;
+}
+
+interface InvitationConfig {
+  expiresIn: string;
+  passwordChangeExpiresIn: string;
+}
+
+interface TwoFactorConfig {
+  issuer: string;
+  encryptionKey: string;
+  challengeExpiresIn: string;
+}
+
+interface PermissionCacheConfig {
+  ttlSeconds: number;
+  maxEntries: number;
+}
+
+interface ImpersonationConfig {
+  expiresIn: string;
+}
+
+interface ParishDeletionConfig {
+  gracePeriodDays: number;
+}
+
+interface SubscriptionConfig {
+  gracePeriodDays: number;
+  reminderDays: number[];
+}
+
+interface AccountLockoutConfig {
+  maxFailedAttempts: number;
+  baseLockMinutes: number;
+  maxLockMinutes: number;
 }
 
 interface CorsConfig {
@@ -40,6 +88,9 @@ interface RateLimitConfig {
 interface UploadConfig {
   maxFileSize: number;
   uploadPath: string;
+  publicUrl: string;
+  maxAvatarSize: number;
+  allowedImageMimeTypes: string[];
   allowedMimeTypes: string[];
 }
 
@@ -67,6 +118,15 @@ interface Config {
   apiVersion: string;
   database: DatabaseConfig;
   jwt: JwtConfig;
+  emailVerification: EmailVerificationConfig;
+  otp: OtpConfig;
+  invitation: InvitationConfig;
+  twoFactor: TwoFactorConfig;
+  accountLockout: AccountLockoutConfig;
+  impersonation: ImpersonationConfig;
+  parishDeletion: ParishDeletionConfig;
+  subscription: SubscriptionConfig;
+  permissionCache: PermissionCacheConfig;
   cors: CorsConfig;
   rateLimit: RateLimitConfig;
   upload: UploadConfig;
@@ -105,7 +165,67 @@ const config: Config = {
   // JWT configuration
   jwt: {
     secret: process.env.JWT_SECRET || 'default_secret_change_in_production',
-    expiresIn: process.env.JWT_EXPIRES_IN || '30d', // 3 minutes for testing (change back to '30d' for production)
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m', // Short-lived; clients renew via /auth/refresh
+    refreshSecret: process.env.JWT_REFRESH_SECRET || 'default_refresh_secret_change_in_production',
+    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
+  },
+
+  // Email verification
+  // none: never enforced, routes: guarded routes require a verified email, login: unverified users cannot log in
+  emailVerification: {
+    enforcement: (process.env.EMAIL_VERIFICATION_ENFORCEMENT || 'none') as EmailVerificationEnforcement,
+    expiryMinutes: parseInt(process.env.EMAIL_VERIFICATION_EXPIRY_MINUTES || '1440', 10), // 24 hours
+  },
+
+  // One-time passwords (codes are stored as salted HMAC hashes)
+  otp: {
+    hashSecret: process.env.OTP_HASH_SECRET || 'default_otp_secret_change_in_production',
+  },
+
+  // Account invitations (members created by admins set their own password)
+  invitation: {
+    expiresIn: process.env.INVITATION_EXPIRES_IN || '7d',
+    passwordChangeExpiresIn: process.env.PASSWORD_CHANGE_TOKEN_EXPIRES_IN || '15m',
+  },
+
+  // Two-factor authentication (TOTP)
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Parish Nexus',
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || 'default_2fa_key_change_in_production',
+    challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+  },
+
+  // Account lockout (lock duration doubles with each consecutive lockout)
+  accountLockout: {
+    maxFailedAttempts: parseInt(process.env.LOCKOUT_MAX_FAILED_ATTEMPTS || '5', 10),
+    baseLockMinutes: parseInt(process.env.LOCKOUT_BASE_MINUTES || '15', 10),
+    maxLockMinutes: parseInt(process.env.LOCKOUT_MAX_MINUTES || '1440', 10), // 24 hours
+  },
+
+  // Super admin impersonation ("view as user") - tokens cannot be refreshed
+  impersonation: {
+    expiresIn: process.env.IMPERSONATION_EXPIRES_IN || '15m',
+  },
+
+  // Deleted parishes can be restored until the grace period ends, then they are purged
+  parishDeletion: {
+    gracePeriodDays: parseInt(process.env.PARISH_DELETION_GRACE_DAYS || '30', 10),
+  },
+
+  // Expired subscriptions are read-only for the grace period, then suspended until renewed
+  // The primary admin is reminded the given number of days before expiry (0: on expiry)
+  subscription: {
+    gracePeriodDays: parseInt(process.env.SUBSCRIPTION_GRACE_DAYS || '14', 10),
+    reminderDays: (process.env.SUBSCRIPTION_REMINDER_DAYS || '30,7,1,0')
+      .split(',')
+      .map((days) => parseInt(days.trim(), 10))
+      .filter((days) => !Number.isNaN(days)),
+  },
+
+  // Effective permissions are cached per user (in memory, per process)
+  permissionCache: {
+    ttlSeconds: parseInt(process.env.PERMISSION_CACHE_TTL_SECONDS || '60', 10),
+    maxEntries: parseInt(process.env.PERMISSION_CACHE_MAX_ENTRIES || '10000', 10),
   },
 
   // CORS configuration
@@ -124,6 +244,9 @@ const config: Config = {
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB
     uploadPath: process.env.UPLOAD_PATH || './uploads',
+    publicUrl: process.env.UPLOAD_PUBLIC_URL || '', // e.g. https://api.example.com - empty keeps URLs relative
+    maxAvatarSize: parseInt(process.env.MAX_AVATAR_SIZE || '2097152', 10), // 2MB
+    allowedImageMimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
     allowedMimeTypes: [
       'image/jpeg',
       'image/jpg',
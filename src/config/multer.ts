@@ -1,5 +1,9 @@
 import multer from 'multer';
 import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import config from './index';
+import { AVATAR_DIRECTORY } from '../constants/profile';
 import { ApiError } from '../utils/apiError';
 
 // Configure storage
@@ -38,4 +42,40 @@ export const uploadCSV = multer({
   },
 });
 
+// Avatar storage: random file names, so URLs cannot be guessed from the user
+const avatarStorage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    const avatarPath = path.join(config.upload.uploadPath, AVATAR_DIRECTORY);
+    fs.mkdirSync(avatarPath, { recursive: true });
+    cb(null, avatarPath);
+  },
+  filename: (_req, file, cb) => {
+    cb(null, crypto.randomBytes(16).toString('hex') + path.extname(file.originalname).toLowerCase());
+  },
+});
+
+// File filter for images only
+const imageFileFilter = (_req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback): void => {
+  const allowedExts = ['.jpg', '.jpeg', '.png', '.gif', '.webp'];
+
+  const ext = path.extname(file.originalname).toLowerCase();
+  const mimeOk = config.upload.allowedImageMimeTypes.includes(file.mimetype);
+  const extOk = allowedExts.includes(ext);
+
+  if (mimeOk && extOk) {
+    cb(null, true);
+  } else {
+    cb(new ApiError(400, 'Only JPEG, PNG, GIF or WebP images are allowed'));
+  }
+};
+
+// Create multer upload instance for profile pictures
+export const uploadAvatar = multer({
+  storage: avatarStorage,
+  fileFilter: imageFileFilter,
+  limits: {
+    fileSize: config.upload.maxAvatarSize,
+  },
+});
+
 export default uploadCSV;
@@ -0,0 +1,376 @@
+import { TargetResolver, targetFrom } from '../middleware/permission';
+
+export interface IPermissionDefinition {
+  permission_name: string;
+  module: string;
+  action: string;
+  description: string;
+}
+
+/**
+ * Every permission code a route can require.
+ * Codes missing from the permissions table are created at startup (see RoutePermissionService).
+ */
+export const PERMISSIONS = {
+  // Parishes
+  VIEW_PARISHES: {
+    permission_name: 'View Parishes',
+    module: 'Parishes',
+    action: 'view',
+    description: 'Can view parish information',
+  },
+  CREATE_PARISH: {
+    permission_name: 'Create Parish',
+    module: 'Parishes',
+    action: 'create',
+    description: 'Can create new parishes',
+  },
+  EDIT_PARISH: {
+    permission_name: 'Edit Parish',
+    module: 'Parishes',
+    action: 'edit',
+    description: 'Can edit parish information',
+  },
+  DELETE_PARISH: {
+    permission_name: 'Delete Parish',
+    module: 'Parishes',
+    action: 'delete',
+    description: 'Can delete parishes',
+  },
+
+  // Dioceses
+  VIEW_DIOCESES: {
+    permission_name: 'View Dioceses',
+    module: 'Dioceses',
+    action: 'view',
+    description: 'Can view dioceses they administer and statistics of their parishes',
+  },
+  MANAGE_DIOCESES: {
+    permission_name: 'Manage Dioceses',
+    module: 'Dioceses',
+    action: 'manage',
+    description: 'Can create dioceses and assign their parishes and administrators',
+  },
+
+  // Wards
+  VIEW_WARDS: {
+    permission_name: 'View Wards',
+    module: 'Wards',
+    action: 'view',
+    description: 'Can view ward information',
+  },
+  CREATE_WARD: {
+    permission_name: 'Create Ward',
+    module: 'Wards',
+    action: 'create',
+    description: 'Can create new wards',
+  },
+  EDIT_WARD: {
+    permission_name: 'Edit Ward',
+    module: 'Wards',
+    action: 'edit',
+    description: 'Can edit ward information',
+  },
+  DELETE_WARD: {
+    permission_name: 'Delete Ward',
+    module: 'Wards',
+    action: 'delete',
+    description: 'Can delete wards',
+  },
+  MANAGE_WARDS: {
+    permission_name: 'Manage Wards',
+    module: 'Wards',
+    action: 'manage',
+    description: 'Full management of wards',
+  },
+
+  // Families
+  VIEW_FAMILIES: {
+    permission_name: 'View Families',
+    module: 'Families',
+    action: 'view',
+    description: 'Can view family records',
+  },
+  EDIT_FAMILY: {
+    permission_name: 'Edit Family',
+    module: 'Families',
+    action: 'edit',
+    description: 'Can edit family records',
+  },
+  MANAGE_FAMILIES: {
+    permission_name: 'Manage Families',
+    module: 'Families',
+    action: 'manage',
+    description: 'Full management of family records',
+  },
+
+  // Parishioners
+  VIEW_PARISHIONERS: {
+    permission_name: 'View Parishioners',
+    module: 'Parishioners',
+    action: 'view',
+    description: 'Can view parishioner records',
+  },
+  CREATE_PARISHIONER: {
+    permission_name: 'Create Parishioner',
+    module: 'Parishioners',
+    action: 'create',
+    description: 'Can create parishioner records',
+  },
+  EDIT_PARISHIONER: {
+    permission_name: 'Edit Parishioner',
+    module: 'Parishioners',
+    action: 'edit',
+    description: 'Can edit parishioner records',
+  },
+  DELETE_PARISHIONER: {
+    permission_name: 'Delete Parishioner',
+    module: 'Parishioners',
+    action: 'delete',
+    description: 'Can delete parishioner records',
+  },
+
+  // Prayer requests
+  VIEW_PRAYER_REQUESTS: {
+    permission_name: 'View Prayer Requests',
+    module: 'Prayers',
+    action: 'view',
+    description: 'Can view prayer requests',
+  },
+  CREATE_PRAYER_REQUEST: {
+    permission_name: 'Create Prayer Request',
+    module: 'Prayers',
+    action: 'create',
+    description: 'Can submit prayer requests',
+  },
+  MANAGE_PRAYER_REQUESTS: {
+    permission_name: 'Manage Prayer Requests',
+    module: 'Prayers',
+    action: 'manage',
+    description: 'Full prayer request management',
+  },
+
+  // Roles & permissions (used by the role management API)
+  'roles.create': {
+    permission_name: 'Create Roles',
+    module: 'Roles',
+    action: 'create',
+    description: 'Can create parish roles, including from templates and by cloning',
+  },
+  'roles.update': {
+    permission_name: 'Update Roles',
+    module: 'Roles',
+    action: 'edit',
+    description: 'Can edit parish roles',
+  },
+  'roles.delete': {
+    permission_name: 'Delete Roles',
+    module: 'Roles',
+    action: 'delete',
+    description: 'Can delete parish roles',
+  },
+  'roles.assign': {
+    permission_name: 'Assign Roles',
+    module: 'Roles',
+    action: 'assign',
+    description: 'Can assign roles to users and remove them',
+  },
+  'permissions.manage': {
+    permission_name: 'Manage Role Permissions',
+    module: 'Permissions',
+    action: 'manage',
+    description: 'Can change the permissions of roles and users',
+  },
+  'users.view': {
+    permission_name: 'View User Access',
+    module: 'Users',
+    action: 'view',
+    description: 'Can view the roles and permissions of users',
+  },
+} satisfies Record<string, IPermissionDefinition>;
+
+export type PermissionCode = keyof typeof PERMISSIONS;
+
+export interface IRoutePermission {
+  permissions: PermissionCode[];
+  match?: 'all' | 'any'; // With several permissions: require all of them (default) or any one
+  target?: TargetResolver; // Parish/ward the check applies to (defaults to the parish in the request)
+}
+
+/**
+ * Permissions required by each permission-guarded route, keyed by "METHOD /path" relative to /api/v1.
+ * Routes mount their check with permissionGuard('<key>'); GET /roles/permissions/route-coverage
+ * lists every route that is not in here.
+ */
+export const ROUTE_PERMISSIONS: Record<string, IRoutePermission> = {
+  // Parishes
+  'GET /parishes': { permissions: ['VIEW_PARISHES'] },
+  'GET /parishes/search': { permissions: ['VIEW_PARISHES'] },
+  'GET /parishes/:id': { permissions: ['VIEW_PARISHES'], target: targetFrom.param('id') },
+  'GET /parishes/:id/stats': { permissions: ['VIEW_PARISHES'], target: targetFrom.param('id') },
+  'GET /parishes/:id/subscription': { permissions: ['VIEW_PARISHES'], target: targetFrom.param('id') },
+  'GET /parishes/:id/settings': { permissions: ['VIEW_PARISHES'], target: targetFrom.param('id') },
+  'PUT /parishes/:id/settings': { permissions: ['EDIT_PARISH'], target: targetFrom.param('id') },
+  'GET /parishes/:id/admins': { permissions: ['VIEW_PARISHES'], target: targetFrom.param('id') },
+  'POST /parishes/:id/admins': { permissions: ['EDIT_PARISH'], target: targetFrom.param('id') },
+  'POST /parishes/:id/admins/transfer-primary': { permissions: ['EDIT_PARISH'], target: targetFrom.param('id') },
+  'PUT /parishes/:id/admins/:adminId': { permissions: ['EDIT_PARISH'], target: targetFrom.param('id') },
+  'DELETE /parishes/:id/admins/:adminId': { permissions: ['EDIT_PARISH'], target: targetFrom.param('id') },
+  'POST /parishes': { permissions: ['CREATE_PARISH'] },
+  'PUT /parishes/:id': { permissions: ['EDIT_PARISH'], target: targetFrom.param('id') },
+  'DELETE /parishes/:id': { permissions: ['DELETE_PARISH'], target: targetFrom.param('id') },
+  'GET /parishes/pending-deletion': { permissions: ['DELETE_PARISH'] },
+  'POST /parishes/:id/restore': { permissions: ['DELETE_PARISH'], target: targetFrom.param('id') },
+
+  // Dioceses (diocese admins are limited to their own dioceses by DioceseService)
+  'GET /dioceses': { permissions: ['VIEW_DIOCESES'] },
+  'POST /dioceses': { permissions: ['MANAGE_DIOCESES'] },
+  'GET /dioceses/:id': { permissions: ['VIEW_DIOCESES'] },
+  'PUT /dioceses/:id': { permissions: ['MANAGE_DIOCESES'] },
+  'GET /dioceses/:id/parishes': { permissions: ['VIEW_DIOCESES'] },
+  'POST /dioceses/:id/parishes': { permissions: ['MANAGE_DIOCESES'] },
+  'DELETE /dioceses/:id/parishes/:parishId': { permissions: ['MANAGE_DIOCESES'] },
+  'GET /dioceses/:id/stats': { permissions: ['VIEW_DIOCESES'] },
+  'GET /dioceses/:id/admins': { permissions: ['MANAGE_DIOCESES'] },
+  'POST /dioceses/:id/admins': { permissions: ['MANAGE_DIOCESES'] },
+  'DELETE /dioceses/:id/admins/:userId': { permissions: ['MANAGE_DIOCESES'] },
+
+  // Wards
+  'GET /wards/role-types': { permissions: ['VIEW_WARDS'] },
+  'POST /wards/role-types': { permissions: ['CREATE_WARD'] },
+  'PUT /wards/roles/:wardRoleId': {
+    permissions: ['EDIT_WARD'],
+    target: targetFrom.wardRole('wardRoleId'),
+  },
+  'DELETE /wards/roles/:wardRoleId': {
+    permissions: ['DELETE_WARD'],
+    target: targetFrom.wardRole('wardRoleId'),
+  },
+  'GET /wards/parish/:parishId': { permissions: ['VIEW_WARDS'] },
+  'GET /wards/parish/:parishId/all': { permissions: ['VIEW_WARDS'] },
+  'GET /wards/parish/:parishId/search': { permissions: ['VIEW_WARDS'] },
+  'GET /wards/:id': { permissions: ['VIEW_WARDS'], target: targetFrom.ward('id') },
+  'POST /wards': { permissions: ['CREATE_WARD'] },
+  'PUT /wards/:id': { permissions: ['EDIT_WARD'], target: targetFrom.ward('id') },
+  'DELETE /wards/:id': { permissions: ['DELETE_WARD'], target: targetFrom.ward('id') },
+  'PATCH /wards/:id/counts': { permissions: ['EDIT_WARD'], target: targetFrom.ward('id') },
+  'GET /wards/:wardId/roles': { permissions: ['VIEW_WARDS'], target: targetFrom.ward('wardId') },
+  'POST /wards/:wardId/roles': { permissions: ['MANAGE_WARDS'], target: targetFrom.ward('wardId') },
+  'GET /wards/:wardId/roles/:roleId/members': {
+    permissions: ['VIEW_WARDS'],
+    target: targetFrom.ward('wardId'),
+  },
+
+  // Families
+  'GET /families/parish/:parishId': { permissions: ['VIEW_FAMILIES'] },
+  'GET /families/parish/:parishId/all': { permissions: ['VIEW_FAMILIES'] },
+  'GET /families/parish/:parishId/search': { permissions: ['VIEW_FAMILIES'] },
+  'GET /families/ward/:wardId': {
+    permissions: ['VIEW_FAMILIES'],
+    target: targetFrom.ward('wardId'),
+  },
+  'GET /families/:id': { permissions: ['VIEW_FAMILIES'], target: targetFrom.family('id') },
+  'POST /families/bulk-create': { permissions: ['MANAGE_FAMILIES'] },
+  'POST /families/bulk-upload-csv': { permissions: ['MANAGE_FAMILIES'] },
+  'POST /families': { permissions: ['MANAGE_FAMILIES'] },
+  'PUT /families/:id': {
+    permissions: ['MANAGE_FAMILIES', 'EDIT_FAMILY'],
+    match: 'any',
+    target: targetFrom.family('id'),
+  },
+  'DELETE /families/:id': { permissions: ['MANAGE_FAMILIES'], target: targetFrom.family('id') },
+
+  // Parishioners
+  'GET /parishioners/parish/:parishId': { permissions: ['VIEW_PARISHIONERS'] },
+  'GET /parishioners/parish/:parishId/all': { permissions: ['VIEW_PARISHIONERS'] },
+  'GET /parishioners/parish/:parishId/search': { permissions: ['VIEW_PARISHIONERS'] },
+  'GET /parishioners/ward/:wardId': {
+    permissions: ['VIEW_PARISHIONERS'],
+    target: targetFrom.ward('wardId'),
+  },
+  'GET /parishioners/family/:familyId': {
+    permissions: ['VIEW_PARISHIONERS'],
+    target: targetFrom.family('familyId'),
+  },
+  'GET /parishioners/:id': {
+    permissions: ['VIEW_PARISHIONERS'],
+    target: targetFrom.parishioner('id'),
+  },
+  'POST /parishioners': { permissions: ['CREATE_PARISHIONER'] },
+  'PUT /parishioners/:id': {
+    permissions: ['EDIT_PARISHIONER'],
+    target: targetFrom.parishioner('id'),
+  },
+  'DELETE /parishioners/:id': {
+    permissions: ['DELETE_PARISHIONER'],
+    target: targetFrom.parishioner('id'),
+  },
+  'GET /parishioners/:parishionerId/ward-roles': {
+    permissions: ['VIEW_PARISHIONERS'],
+    target: targetFrom.parishioner('parishionerId'),
+  },
+
+  // Prayer requests
+  'GET /prayer-requests/parish/:parishId/active': { permissions: ['VIEW_PRAYER_REQUESTS'] },
+  'GET /prayer-requests/parish/:parishId/past': { permissions: ['VIEW_PRAYER_REQUESTS'] },
+  'POST /prayer-requests': { permissions: ['CREATE_PRAYER_REQUEST'] },
+  'PATCH /prayer-requests/:id/approve': {
+    permissions: ['MANAGE_PRAYER_REQUESTS'],
+    target: targetFrom.prayerRequest('id'),
+  },
+  'PATCH /prayer-requests/:id/close': {
+    permissions: ['MANAGE_PRAYER_REQUESTS'],
+    target: targetFrom.prayerRequest('id'),
+  },
+  'POST /prayer-requests/auto-archive': { permissions: ['MANAGE_PRAYER_REQUESTS'] },
+
+  // Roles & permissions
+  'POST /roles': { permissions: ['roles.create'] },
+  'PUT /roles/:roleId': { permissions: ['roles.update'], target: targetFrom.role('roleId') },
+  'DELETE /roles/:roleId': { permissions: ['roles.delete'], target: targetFrom.role('roleId') },
+  'POST /roles/:roleId/permissions': {
+    permissions: ['permissions.manage'],
+    target: targetFrom.role('roleId'),
+  },
+  'DELETE /roles/:roleId/permissions/:permissionId': {
+    permissions: ['permissions.manage'],
+    target: targetFrom.role('roleId'),
+  },
+  'POST /roles/:roleId/clone': { permissions: ['roles.create'] },
+  'GET /roles/:roleId/users': { permissions: ['users.view'], target: targetFrom.role('roleId') },
+  'GET /roles/parish/:parishId/permission-matrix': {
+    permissions: ['permissions.manage'],
+    target: targetFrom.param('parishId'),
+  },
+  'PUT /roles/parish/:parishId/permission-matrix': {
+    permissions: ['permissions.manage'],
+    target: targetFrom.param('parishId'),
+  },
+  'GET /roles/user/:userId/roles': {
+    permissions: ['users.view'],
+    target: targetFrom.user('userId'),
+  },
+  'GET /roles/user/:userId/permissions': {
+    permissions: ['users.view'],
+    target: targetFrom.user('userId'),
+  },
+  'POST /roles/user/:userId/roles': {
+    permissions: ['roles.assign'],
+    target: targetFrom.user('userId'),
+  },
+  'DELETE /roles/user/:userId/roles/:roleId': {
+    permissions: ['roles.assign'],
+    target: targetFrom.user('userId'),
+  },
+  'POST /roles/user/:userId/permissions/grant': {
+    permissions: ['permissions.manage'],
+    target: targetFrom.user('userId'),
+  },
+  'POST /roles/user/:userId/permissions/revoke': {
+    permissions: ['permissions.manage'],
+    target: targetFrom.user('userId'),
+  },
+
+  // Role templates
+  'POST /role-templates/:templateId/instantiate': { permissions: ['roles.create'] },
+};
@@ -33,14 +33,38 @@ const swaggerDefinition = {
       name: 'Authentication',
       description: 'User authentication and authorization endpoints',
     },
+    {
+      name: 'Two-Factor Authentication',
+      description: 'Authenticator app (TOTP) enrolment and login verification for administrators',
+    },
     {
       name: 'Users',
       description: 'User management endpoints',
     },
+    {
+      name: 'Role Templates',
+      description: 'Role templates shared by all parishes',
+    },
+    {
+      name: 'Delegations',
+      description: 'Temporary delegation of permissions by church admins',
+    },
+    {
+      name: 'Audit Logs',
+      description: 'History of changes to parish data',
+    },
+    {
+      name: 'Data Privacy',
+      description: 'Personal data exports and account erasure requests',
+    },
     {
       name: 'Parishes',
       description: 'Parish management endpoints',
     },
+    {
+      name: 'Dioceses',
+      description: 'Dioceses, their administrators and statistics across their parishes',
+    },
     {
       name: 'Wards',
       description: 'Ward (geographical division) management endpoints',
@@ -140,7 +164,7 @@ const swaggerDefinition = {
           },
           user_type: {
             type: 'string',
-            enum: ['SUPER_ADMIN', 'CHURCH_ADMIN', 'parishioner'],
+            enum: ['SUPER_ADMIN', 'CHURCH_ADMIN', 'DIOCESE_ADMIN', 'parishioner'],
             example: 'parishioner',
           },
           is_active: {
@@ -199,7 +223,7 @@ const swaggerDefinition = {
           },
           user_type: {
             type: 'string',
-            enum: ['SUPER_ADMIN', 'CHURCH_ADMIN', 'parishioner'],
+            enum: ['SUPER_ADMIN', 'CHURCH_ADMIN', 'DIOCESE_ADMIN', 'parishioner'],
             example: 'parishioner',
           },
           parish_id: {
@@ -242,7 +266,25 @@ const swaggerDefinition = {
               token: {
                 type: 'string',
                 example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
-                description: 'JWT token valid for 30 days',
+                description: 'Short-lived JWT access token (default 15 minutes)',
+              },
+              expires_in: {
+                type: 'integer',
+                example: 900,
+                description: 'Access token lifetime in seconds',
+              },
+              expires_at: {
+                type: 'string',
+                format: 'date-time',
+              },
+              refresh_token: {
+                type: 'string',
+                example: '3f9c1d...e07a',
+                description: 'Opaque refresh token, rotated on every use of /auth/refresh',
+              },
+              refresh_expires_at: {
+                type: 'string',
+                format: 'date-time',
               },
               user: {
                 type: 'object',
@@ -273,200 +315,1185 @@ const swaggerDefinition = {
           },
         },
       },
-      ChangePassword: {
+      TwoFactorChallenge: {
         type: 'object',
-        required: ['currentPassword', 'newPassword'],
         properties: {
-          currentPassword: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          message: {
             type: 'string',
-            format: 'password',
-            example: 'OldPass123!',
+            example: 'Two-factor authentication required',
           },
-          newPassword: {
+          data: {
+            type: 'object',
+            properties: {
+              two_factor_required: {
+                type: 'boolean',
+                example: true,
+              },
+              two_factor_setup_required: {
+                type: 'boolean',
+                example: false,
+                description: 'True when the parish requires 2FA and the user has not enrolled yet',
+              },
+              two_factor_token: {
+                type: 'string',
+                description: 'Short-lived token for /auth/2fa/verify (or /auth/2fa/setup and /auth/2fa/enable when setup is required)',
+              },
+              expires_in: {
+                type: 'integer',
+                example: 300,
+              },
+              expires_at: {
+                type: 'string',
+                format: 'date-time',
+              },
+            },
+          },
+        },
+      },
+      PasswordChangeChallenge: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          message: {
             type: 'string',
-            format: 'password',
-            minLength: 8,
-            example: 'NewPass123!',
+            example: 'You must set a new password before continuing',
+          },
+          data: {
+            type: 'object',
+            properties: {
+              password_change_required: {
+                type: 'boolean',
+                example: true,
+              },
+              password_change_token: {
+                type: 'string',
+                description: 'Short-lived token for /auth/accept-invite',
+              },
+              expires_in: {
+                type: 'integer',
+                example: 900,
+              },
+              expires_at: {
+                type: 'string',
+                format: 'date-time',
+              },
+            },
           },
         },
       },
-      Parish: {
+      ProfileUpdate: {
         type: 'object',
+        minProperties: 1,
         properties: {
-          parish_id: {
-            type: 'integer',
-            example: 1,
+          first_name: {
+            type: 'string',
+            example: 'John',
           },
-          parish_name: {
+          last_name: {
             type: 'string',
-            example: 'St. Mary Parish',
+            example: 'Doe',
           },
-          diocese: {
+          middle_name: {
             type: 'string',
-            example: 'Diocese of Springfield',
+            nullable: true,
+          },
+          phone: {
+            type: 'string',
+            nullable: true,
+            example: '+1234567890',
           },
           address_line1: {
             type: 'string',
-            example: '123 Church Street',
+            nullable: true,
           },
           address_line2: {
             type: 'string',
-            example: 'Suite 100',
+            nullable: true,
           },
           city: {
             type: 'string',
-            example: 'Springfield',
+            nullable: true,
           },
           state: {
             type: 'string',
-            example: 'Illinois',
+            nullable: true,
           },
           country: {
             type: 'string',
-            example: 'USA',
+            nullable: true,
           },
           postal_code: {
             type: 'string',
-            example: '62701',
+            nullable: true,
           },
-          phone: {
+          emergency_contact_name: {
             type: 'string',
-            example: '+1234567890',
+            nullable: true,
           },
-          email: {
+          emergency_contact_phone: {
             type: 'string',
-            format: 'email',
-            example: 'info@stmary.org',
+            nullable: true,
           },
-          website_url: {
-            type: 'string',
-            format: 'uri',
-            example: 'https://www.stmary.org',
+        },
+      },
+      SelfProfileResponse: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
           },
-          established_date: {
+          message: {
             type: 'string',
-            format: 'date',
-            example: '1950-01-15',
           },
-          patron_saint: {
-            type: 'string',
-            example: 'St. Mary',
+          data: {
+            type: 'object',
+            properties: {
+              user: {
+                $ref: '#/components/schemas/User',
+              },
+              parishioner: {
+                type: 'object',
+                nullable: true,
+                description: 'Parishioner record (null for users without one)',
+              },
+              locked_fields: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                },
+                description: 'Fields your parish does not allow you to edit',
+              },
+            },
           },
-          timezone: {
+        },
+      },
+      DataErasureRequest: {
+        type: 'object',
+        properties: {
+          request_id: {
+            type: 'integer',
+            example: 1,
+          },
+          user_id: {
+            type: 'integer',
+            example: 42,
+          },
+          parish_id: {
+            type: 'integer',
+            nullable: true,
+          },
+          status: {
             type: 'string',
-            example: 'America/Chicago',
+            enum: ['pending', 'completed', 'rejected', 'cancelled'],
           },
-          subscription_plan: {
+          reason: {
             type: 'string',
-            example: 'premium',
+            nullable: true,
           },
-          subscription_expiry: {
+          requested_at: {
             type: 'string',
-            format: 'date',
-            example: '2025-12-31',
+            format: 'date-time',
           },
-          is_active: {
-            type: 'boolean',
-            example: true,
+          reviewed_by: {
+            type: 'integer',
+            nullable: true,
           },
-          created_at: {
+          reviewed_at: {
             type: 'string',
             format: 'date-time',
+            nullable: true,
           },
-          updated_at: {
+          review_notes: {
             type: 'string',
-            format: 'date-time',
+            nullable: true,
           },
         },
       },
-      CreateParish: {
+      RoleTemplate: {
         type: 'object',
-        required: ['parish_name'],
         properties: {
-          parish_name: {
-            type: 'string',
-            minLength: 2,
-            maxLength: 200,
-            example: 'St. Mary Parish',
-            description: 'Name of the parish',
+          template_id: {
+            type: 'integer',
+            example: 1,
           },
-          diocese: {
+          template_name: {
             type: 'string',
-            maxLength: 200,
-            example: 'Diocese of Springfield',
-            description: 'Diocese the parish belongs to',
+            example: 'Parish Council Secretary',
           },
-          address_line1: {
+          template_code: {
             type: 'string',
-            maxLength: 200,
-            example: '123 Church Street',
-            description: 'Primary address line',
+            example: 'PARISH_COUNCIL_SECRETARY',
           },
-          address_line2: {
+          description: {
             type: 'string',
-            maxLength: 200,
-            example: 'Suite 100',
-            description: 'Secondary address line',
+            nullable: true,
           },
-          city: {
-            type: 'string',
-            maxLength: 100,
-            example: 'Springfield',
+          priority: {
+            type: 'integer',
           },
-          state: {
-            type: 'string',
-            maxLength: 100,
-            example: 'Illinois',
+          is_active: {
+            type: 'boolean',
           },
-          country: {
-            type: 'string',
-            maxLength: 100,
-            example: 'USA',
+          permission_count: {
+            type: 'integer',
           },
-          postal_code: {
-            type: 'string',
-            maxLength: 20,
-            example: '62701',
+          derived_role_count: {
+            type: 'integer',
+            description: 'Active parish roles created from the template',
           },
-          phone: {
-            type: 'string',
-            maxLength: 20,
-            example: '+1234567890',
+        },
+      },
+      PermissionDelegation: {
+        type: 'object',
+        properties: {
+          delegation_id: {
+            type: 'integer',
+            example: 1,
           },
-          email: {
+          parish_id: {
+            type: 'integer',
+          },
+          delegator_user_id: {
+            type: 'integer',
+          },
+          delegate_user_id: {
+            type: 'integer',
+          },
+          delegator_name: {
             type: 'string',
-            format: 'email',
-            example: 'info@stmary.org',
           },
-          website_url: {
+          delegate_name: {
             type: 'string',
-            format: 'uri',
-            example: 'https://www.stmary.org',
           },
-          established_date: {
+          reason: {
             type: 'string',
-            format: 'date',
-            example: '1950-01-15',
-            description: 'Date the parish was established',
+            example: 'Parish priest on retreat',
           },
-          patron_saint: {
+          starts_at: {
             type: 'string',
-            maxLength: 200,
-            example: 'St. Mary',
-            description: 'Patron saint of the parish',
+            format: 'date-time',
           },
-          timezone: {
+          ends_at: {
             type: 'string',
-            maxLength: 50,
-            example: 'America/Chicago',
-            default: 'UTC',
-            description: 'Timezone for the parish',
+            format: 'date-time',
           },
-          subscription_plan: {
+          status: {
             type: 'string',
-            maxLength: 50,
-            example: 'premium',
-            description: 'Subscription plan (e.g., basic, premium, enterprise)',
+            enum: ['ACTIVE', 'REVOKED', 'EXPIRED'],
+          },
+          revoked_by: {
+            type: 'integer',
+            nullable: true,
+          },
+          revoked_at: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+          permissions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                permission_id: {
+                  type: 'integer',
+                },
+                permission_code: {
+                  type: 'string',
+                  example: 'MANAGE_FAMILIES',
+                },
+                permission_name: {
+                  type: 'string',
+                },
+              },
+            },
+          },
+        },
+      },
+      AuditLog: {
+        type: 'object',
+        properties: {
+          log_id: {
+            type: 'integer',
+            example: 1,
+          },
+          parish_id: {
+            type: 'integer',
+            example: 1,
+          },
+          user_id: {
+            type: 'integer',
+            description: 'User who made the change',
+          },
+          user_name: {
+            type: 'string',
+            example: 'Mary Thomas',
+          },
+          user_email: {
+            type: 'string',
+            format: 'email',
+          },
+          action: {
+            type: 'string',
+            enum: ['CREATE', 'UPDATE', 'DELETE', 'BULK_CREATE', 'RESTORE'],
+          },
+          table_name: {
+            type: 'string',
+            example: 'families',
+          },
+          record_id: {
+            type: 'integer',
+            example: 42,
+          },
+          old_values: {
+            type: 'string',
+            description: 'JSON of the record before the change',
+          },
+          new_values: {
+            type: 'string',
+            description: 'JSON of the record after the change',
+          },
+          ip_address: {
+            type: 'string',
+          },
+          timestamp: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      PaginatedAuditLogResponse: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          data: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/AuditLog',
+            },
+          },
+          pagination: {
+            type: 'object',
+            properties: {
+              currentPage: {
+                type: 'integer',
+                example: 1,
+              },
+              pageSize: {
+                type: 'integer',
+                example: 20,
+              },
+              totalRecords: {
+                type: 'integer',
+                example: 150,
+              },
+              totalPages: {
+                type: 'integer',
+                example: 8,
+              },
+            },
+          },
+        },
+      },
+      PermissionMatrix: {
+        type: 'object',
+        properties: {
+          parish_id: {
+            type: 'integer',
+            example: 1,
+          },
+          roles: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                role_id: {
+                  type: 'integer',
+                },
+                parish_id: {
+                  type: 'integer',
+                  nullable: true,
+                },
+                role_name: {
+                  type: 'string',
+                },
+                role_code: {
+                  type: 'string',
+                },
+                is_system_role: {
+                  type: 'boolean',
+                },
+                editable: {
+                  type: 'boolean',
+                  description: 'Whether the current user may change the permissions of this role',
+                },
+              },
+            },
+          },
+          modules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                module: {
+                  type: 'string',
+                  example: 'Parishioners',
+                },
+                permissions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      permission_id: {
+                        type: 'integer',
+                      },
+                      permission_name: {
+                        type: 'string',
+                      },
+                      permission_code: {
+                        type: 'string',
+                      },
+                      description: {
+                        type: 'string',
+                      },
+                      action: {
+                        type: 'string',
+                      },
+                      granted_role_ids: {
+                        type: 'array',
+                        items: {
+                          type: 'integer',
+                        },
+                        description: 'Roles that have this permission',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      ChangePassword: {
+        type: 'object',
+        required: ['currentPassword', 'newPassword'],
+        properties: {
+          currentPassword: {
+            type: 'string',
+            format: 'password',
+            example: 'OldPass123!',
+          },
+          newPassword: {
+            type: 'string',
+            format: 'password',
+            minLength: 8,
+            example: 'NewPass123!',
+          },
+        },
+      },
+      Parish: {
+        type: 'object',
+        properties: {
+          parish_id: {
+            type: 'integer',
+            example: 1,
+          },
+          parish_name: {
+            type: 'string',
+            example: 'St. Mary Parish',
+          },
+          diocese: {
+            type: 'string',
+            example: 'Diocese of Springfield',
+            description: 'Name of the diocese; kept in line with diocese_id when one is assigned',
+          },
+          diocese_id: {
+            type: 'integer',
+            nullable: true,
+            example: 1,
+          },
+          address_line1: {
+            type: 'string',
+            example: '123 Church Street',
+          },
+          address_line2: {
+            type: 'string',
+            example: 'Suite 100',
+          },
+          city: {
+            type: 'string',
+            example: 'Springfield',
+          },
+          state: {
+            type: 'string',
+            example: 'Illinois',
+          },
+          country: {
+            type: 'string',
+            example: 'USA',
+          },
+          postal_code: {
+            type: 'string',
+            example: '62701',
+          },
+          phone: {
+            type: 'string',
+            example: '+1234567890',
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'info@stmary.org',
+          },
+          website_url: {
+            type: 'string',
+            format: 'uri',
+            example: 'https://www.stmary.org',
+          },
+          established_date: {
+            type: 'string',
+            format: 'date',
+            example: '1950-01-15',
+          },
+          patron_saint: {
+            type: 'string',
+            example: 'St. Mary',
+          },
+          timezone: {
+            type: 'string',
+            example: 'America/Chicago',
+          },
+          subscription_plan: {
+            type: 'string',
+            example: 'premium',
+          },
+          subscription_expiry: {
+            type: 'string',
+            format: 'date',
+            example: '2025-12-31',
+          },
+          require_admin_2fa: {
+            type: 'boolean',
+            example: false,
+            description: 'Whether church admins of this parish must use two-factor authentication',
+          },
+          locked_profile_fields: {
+            type: 'string',
+            example: 'first_name,last_name',
+            description: 'Comma-separated profile fields members cannot edit themselves',
+          },
+          is_active: {
+            type: 'boolean',
+            example: true,
+          },
+          deletion_requested_at: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+          deletion_requested_by: {
+            type: 'integer',
+            nullable: true,
+          },
+          deletion_scheduled_for: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'When a parish pending deletion will be purged; it can be restored until then',
+          },
+          deletion_reason: {
+            type: 'string',
+            nullable: true,
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      ParishSettings: {
+        type: 'object',
+        properties: {
+          prayer_request_archive_days: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 365,
+            example: 10,
+            description: 'Open prayer requests older than this are archived automatically',
+          },
+          bible_translation: {
+            type: 'string',
+            maxLength: 20,
+            example: 'kjv',
+            description: 'Default translation of daily readings',
+          },
+          login_url: {
+            type: 'string',
+            format: 'uri',
+            nullable: true,
+            example: 'https://stmarys.example.org/login',
+            description: 'Sign-in link in emails; null uses the default app login page',
+          },
+          currency: {
+            type: 'string',
+            example: 'USD',
+            description: 'ISO 4217 code of account amounts',
+          },
+        },
+      },
+      UpdateParishSettings: {
+        type: 'object',
+        description: 'Any subset of the settings; null returns a setting to its default',
+        properties: {
+          prayer_request_archive_days: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 365,
+            nullable: true,
+            example: 14,
+          },
+          bible_translation: {
+            type: 'string',
+            maxLength: 20,
+            nullable: true,
+            example: 'mal-irv',
+          },
+          login_url: {
+            type: 'string',
+            format: 'uri',
+            nullable: true,
+          },
+          currency: {
+            type: 'string',
+            nullable: true,
+            example: 'INR',
+          },
+        },
+      },
+      ParishSettingsView: {
+        type: 'object',
+        properties: {
+          parish_id: {
+            type: 'integer',
+            example: 1,
+          },
+          settings: {
+            $ref: '#/components/schemas/ParishSettings',
+          },
+          defaults: {
+            $ref: '#/components/schemas/ParishSettings',
+          },
+          overridden: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            example: ['currency'],
+            description: 'Settings the parish has changed from the default',
+          },
+        },
+      },
+      ChurchAdmin: {
+        type: 'object',
+        properties: {
+          church_admin_id: {
+            type: 'integer',
+            example: 1,
+          },
+          user_id: {
+            type: 'integer',
+            example: 12,
+          },
+          parish_id: {
+            type: 'integer',
+            example: 1,
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'secretary@stmarys.org',
+          },
+          first_name: {
+            type: 'string',
+            example: 'Anna',
+          },
+          last_name: {
+            type: 'string',
+            example: 'Joseph',
+          },
+          phone: {
+            type: 'string',
+          },
+          role: {
+            type: 'string',
+            example: 'Parish Secretary',
+          },
+          department: {
+            type: 'string',
+          },
+          hire_date: {
+            type: 'string',
+            format: 'date',
+          },
+          is_primary_admin: {
+            type: 'boolean',
+            example: false,
+          },
+          invitation_pending: {
+            type: 'boolean',
+            description: 'The admin has not set a password from their invitation yet',
+          },
+          last_login: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      InviteChurchAdmin: {
+        type: 'object',
+        required: ['email', 'first_name', 'last_name'],
+        properties: {
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'secretary@stmarys.org',
+          },
+          first_name: {
+            type: 'string',
+            example: 'Anna',
+          },
+          last_name: {
+            type: 'string',
+            example: 'Joseph',
+          },
+          phone: {
+            type: 'string',
+          },
+          role: {
+            type: 'string',
+            example: 'Parish Secretary',
+            description: 'Staff role (defaults to Administrator)',
+          },
+          department: {
+            type: 'string',
+          },
+          hire_date: {
+            type: 'string',
+            format: 'date',
+          },
+        },
+      },
+      Diocese: {
+        type: 'object',
+        properties: {
+          diocese_id: {
+            type: 'integer',
+            example: 1,
+          },
+          diocese_name: {
+            type: 'string',
+            example: 'Diocese of Springfield',
+          },
+          bishop_name: {
+            type: 'string',
+            example: 'Most Rev. John Smith',
+          },
+          country: {
+            type: 'string',
+            example: 'USA',
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'office@dioceseofspringfield.org',
+          },
+          phone: {
+            type: 'string',
+            example: '+1-555-0100',
+          },
+          website_url: {
+            type: 'string',
+            example: 'https://dioceseofspringfield.org',
+          },
+          is_active: {
+            type: 'boolean',
+            example: true,
+          },
+          parish_count: {
+            type: 'integer',
+            example: 12,
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      CreateDiocese: {
+        type: 'object',
+        required: ['diocese_name'],
+        properties: {
+          diocese_name: {
+            type: 'string',
+            example: 'Diocese of Springfield',
+          },
+          bishop_name: {
+            type: 'string',
+          },
+          country: {
+            type: 'string',
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+          },
+          phone: {
+            type: 'string',
+          },
+          website_url: {
+            type: 'string',
+          },
+        },
+      },
+      UpdateDiocese: {
+        type: 'object',
+        properties: {
+          diocese_name: {
+            type: 'string',
+          },
+          bishop_name: {
+            type: 'string',
+          },
+          country: {
+            type: 'string',
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+          },
+          phone: {
+            type: 'string',
+          },
+          website_url: {
+            type: 'string',
+          },
+          is_active: {
+            type: 'boolean',
+          },
+        },
+      },
+      DioceseAdmin: {
+        type: 'object',
+        properties: {
+          diocese_admin_id: {
+            type: 'integer',
+            example: 1,
+          },
+          diocese_id: {
+            type: 'integer',
+            example: 1,
+          },
+          user_id: {
+            type: 'integer',
+            example: 42,
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+          },
+          first_name: {
+            type: 'string',
+          },
+          last_name: {
+            type: 'string',
+          },
+          assigned_by: {
+            type: 'integer',
+          },
+          assigned_at: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      DioceseStats: {
+        type: 'object',
+        properties: {
+          diocese_id: {
+            type: 'integer',
+            example: 1,
+          },
+          diocese_name: {
+            type: 'string',
+            example: 'Diocese of Springfield',
+          },
+          start_date: {
+            type: 'string',
+            format: 'date',
+            nullable: true,
+          },
+          end_date: {
+            type: 'string',
+            format: 'date',
+            nullable: true,
+          },
+          totals: {
+            type: 'object',
+            description: 'Sacraments count parishioners whose sacrament date falls in the date range',
+            properties: {
+              parishes: {
+                type: 'integer',
+                example: 12,
+              },
+              parishioners: {
+                type: 'integer',
+                example: 18450,
+              },
+              active_parishioners: {
+                type: 'integer',
+                example: 17210,
+              },
+              families: {
+                type: 'integer',
+                example: 4630,
+              },
+              wards: {
+                type: 'integer',
+                example: 96,
+              },
+              baptisms: {
+                type: 'integer',
+                example: 240,
+              },
+              first_communions: {
+                type: 'integer',
+                example: 310,
+              },
+              confirmations: {
+                type: 'integer',
+                example: 280,
+              },
+              marriages: {
+                type: 'integer',
+                example: 95,
+              },
+            },
+          },
+          finances: {
+            type: 'array',
+            description: 'Account totals of the parishes, one entry per currency',
+            items: {
+              type: 'object',
+              properties: {
+                currency: {
+                  type: 'string',
+                  example: 'USD',
+                },
+                total_income: {
+                  type: 'number',
+                  example: 250000,
+                },
+                total_expenses: {
+                  type: 'number',
+                  example: 180000,
+                },
+                net: {
+                  type: 'number',
+                  example: 70000,
+                },
+              },
+            },
+          },
+          parishes: {
+            type: 'array',
+            description: 'The same figures for each parish, with its account totals and currency',
+            items: {
+              type: 'object',
+            },
+          },
+        },
+      },
+      ParishSubscription: {
+        type: 'object',
+        properties: {
+          parish_id: {
+            type: 'integer',
+            example: 1,
+          },
+          plan: {
+            type: 'string',
+            enum: ['basic', 'premium', 'enterprise'],
+            example: 'premium',
+            description: 'Parishes without a plan are on basic',
+          },
+          expires_on: {
+            type: 'string',
+            format: 'date',
+            nullable: true,
+            example: '2025-12-31',
+          },
+          days_until_expiry: {
+            type: 'integer',
+            nullable: true,
+            example: 45,
+            description: 'Negative once expired',
+          },
+          state: {
+            type: 'string',
+            enum: ['active', 'read_only', 'suspended'],
+            example: 'active',
+            description: 'read_only: expired, members can only read during the grace period. suspended: grace period over',
+          },
+          grace_days_remaining: {
+            type: 'integer',
+            nullable: true,
+            example: null,
+          },
+          features: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['ACCOUNTS_CSV', 'AUDIOBOOKS'],
+            },
+          },
+          quotas: {
+            type: 'object',
+            description: 'null means unlimited',
+            properties: {
+              max_parishioners: {
+                type: 'integer',
+                nullable: true,
+                example: 5000,
+              },
+              audiobook_storage_mb: {
+                type: 'number',
+                nullable: true,
+                example: 10240,
+              },
+            },
+          },
+          usage: {
+            type: 'object',
+            properties: {
+              parishioners: {
+                type: 'integer',
+                example: 812,
+              },
+              audiobook_storage_mb: {
+                type: 'number',
+                example: 1536.5,
+              },
+            },
+          },
+        },
+      },
+      CreateParish: {
+        type: 'object',
+        required: ['parish_name'],
+        properties: {
+          parish_name: {
+            type: 'string',
+            minLength: 2,
+            maxLength: 200,
+            example: 'St. Mary Parish',
+            description: 'Name of the parish',
+          },
+          diocese: {
+            type: 'string',
+            maxLength: 200,
+            example: 'Diocese of Springfield',
+            description: 'Diocese the parish belongs to',
+          },
+          address_line1: {
+            type: 'string',
+            maxLength: 200,
+            example: '123 Church Street',
+            description: 'Primary address line',
+          },
+          address_line2: {
+            type: 'string',
+            maxLength: 200,
+            example: 'Suite 100',
+            description: 'Secondary address line',
+          },
+          city: {
+            type: 'string',
+            maxLength: 100,
+            example: 'Springfield',
+          },
+          state: {
+            type: 'string',
+            maxLength: 100,
+            example: 'Illinois',
+          },
+          country: {
+            type: 'string',
+            maxLength: 100,
+            example: 'USA',
+          },
+          postal_code: {
+            type: 'string',
+            maxLength: 20,
+            example: '62701',
+          },
+          phone: {
+            type: 'string',
+            maxLength: 20,
+            example: '+1234567890',
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'info@stmary.org',
+          },
+          website_url: {
+            type: 'string',
+            format: 'uri',
+            example: 'https://www.stmary.org',
+          },
+          established_date: {
+            type: 'string',
+            format: 'date',
+            example: '1950-01-15',
+            description: 'Date the parish was established',
+          },
+          patron_saint: {
+            type: 'string',
+            maxLength: 200,
+            example: 'St. Mary',
+            description: 'Patron saint of the parish',
+          },
+          timezone: {
+            type: 'string',
+            maxLength: 50,
+            example: 'America/Chicago',
+            default: 'UTC',
+            description: 'Timezone for the parish',
+          },
+          subscription_plan: {
+            type: 'string',
+            enum: ['basic', 'premium', 'enterprise'],
+            example: 'premium',
+            description: 'Subscription plan',
           },
           subscription_expiry: {
             type: 'string',
@@ -597,13 +1624,43 @@ const swaggerDefinition = {
           },
           subscription_plan: {
             type: 'string',
-            maxLength: 50,
+            enum: ['basic', 'premium', 'enterprise'],
             example: 'premium',
+            description: 'Super Admin only',
           },
           subscription_expiry: {
             type: 'string',
             format: 'date',
             example: '2025-12-31',
+            description: 'Super Admin only',
+          },
+          require_admin_2fa: {
+            type: 'boolean',
+            example: false,
+            description: 'Whether church admins of this parish must use two-factor authentication',
+          },
+          locked_profile_fields: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: [
+                'first_name',
+                'last_name',
+                'phone',
+                'profile_image_url',
+                'middle_name',
+                'address_line1',
+                'address_line2',
+                'city',
+                'state',
+                'country',
+                'postal_code',
+                'emergency_contact_name',
+                'emergency_contact_phone',
+              ],
+            },
+            example: ['first_name', 'last_name'],
+            description: 'Profile fields members cannot edit themselves. Send an empty array to unlock all fields',
           },
           is_active: {
             type: 'boolean',
@@ -0,0 +1,26 @@
+/**
+ * Parish Settings Constants
+ *
+ * Behaviour each parish can tune through /parishes/:id/settings. Values are stored
+ * in parish_settings only when a parish overrides the default.
+ *
+ * @module constants/parishSettings
+ */
+
+export interface IParishSettings {
+  prayer_request_archive_days: number; // Open prayer requests older than this are archived by the scheduler
+  bible_translation: string; // Default translation of daily readings
+  login_url: string | null; // Sign-in link in emails; null uses FRONTEND_URL/login
+  currency: string; // ISO 4217 code of account amounts
+}
+
+export type ParishSettingKey = keyof IParishSettings;
+
+export const PARISH_SETTING_DEFAULTS: IParishSettings = {
+  prayer_request_archive_days: 10,
+  bible_translation: 'kjv',
+  login_url: null,
+  currency: 'USD',
+};
+
+export const PARISH_SETTING_KEYS = Object.keys(PARISH_SETTING_DEFAULTS) as ParishSettingKey[];
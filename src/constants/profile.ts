@@ -0,0 +1,41 @@
+/**
+ * Self-Service Profile Constants
+ *
+ * Fields users can edit on their own profile (PATCH /auth/profile, avatar upload).
+ * Parish admins can lock any of these via parishes.locked_profile_fields.
+ *
+ * @module constants/profile
+ */
+
+/**
+ * Fields stored on the users table
+ */
+export const USER_PROFILE_FIELDS = ['first_name', 'last_name', 'phone', 'profile_image_url'] as const;
+
+/**
+ * Fields stored on the parishioners table
+ */
+export const PARISHIONER_PROFILE_FIELDS = [
+  'middle_name',
+  'address_line1',
+  'address_line2',
+  'city',
+  'state',
+  'country',
+  'postal_code',
+  'emergency_contact_name',
+  'emergency_contact_phone',
+] as const;
+
+/**
+ * Every field a parish admin can lock
+ */
+export const LOCKABLE_PROFILE_FIELDS = [...USER_PROFILE_FIELDS, ...PARISHIONER_PROFILE_FIELDS] as const;
+
+export type ProfileField = (typeof LOCKABLE_PROFILE_FIELDS)[number];
+
+/**
+ * Avatar image sub-directory (inside the upload path) and its public URL prefix
+ */
+export const AVATAR_DIRECTORY = 'avatars';
+export const AVATAR_URL_PREFIX = '/uploads/avatars';
@@ -20,6 +20,9 @@ export const SYSTEM_ROLES = {
   /** Church Administrator - Parish-level administration */
   CHURCH_ADMIN: 'CHURCH_ADMIN',
 
+  /** Diocese Administrator - Read-only access to the parishes of a diocese */
+  DIOCESE_ADMIN: 'DIOCESE_ADMIN',
+
   /** Family Member - Default role for parishioners */
   FAMILY_MEMBER: 'FAMILY_MEMBER',
 } as const;
@@ -51,6 +54,7 @@ export const WARD_ROLES = {
 export const USER_TYPE_DEFAULT_ROLES: Record<UserType, string> = {
   [UserType.SUPER_ADMIN]: SYSTEM_ROLES.SUPER_ADMIN,
   [UserType.CHURCH_ADMIN]: SYSTEM_ROLES.CHURCH_ADMIN,
+  [UserType.DIOCESE_ADMIN]: SYSTEM_ROLES.DIOCESE_ADMIN,
   [UserType.PARISHIONER]: SYSTEM_ROLES.FAMILY_MEMBER,
 };
 
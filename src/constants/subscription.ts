@@ -0,0 +1,51 @@
+/**
+ * Subscription Plan Constants
+ *
+ * Features and quotas of each plan stored in parishes.subscription_plan.
+ * Parishes without a plan are treated as basic; a null quota means unlimited.
+ *
+ * @module constants/subscription
+ */
+
+export const SUBSCRIPTION_PLANS = ['basic', 'premium', 'enterprise'] as const;
+
+export type SubscriptionPlan = (typeof SUBSCRIPTION_PLANS)[number];
+
+export const DEFAULT_SUBSCRIPTION_PLAN: SubscriptionPlan = 'basic';
+
+/**
+ * Features only some plans include
+ */
+export const PLAN_FEATURES = {
+  ACCOUNTS_CSV: 'Accounts CSV import and export',
+  AUDIOBOOKS: 'Audiobooks',
+} as const;
+
+export type PlanFeature = keyof typeof PLAN_FEATURES;
+
+export interface IPlanQuotas {
+  max_parishioners: number | null;
+  audiobook_storage_mb: number | null; // Sum of audiobooks.file_size_mb of active audiobooks
+}
+
+export type PlanQuota = keyof IPlanQuotas;
+
+export interface IPlanDefinition {
+  features: PlanFeature[];
+  quotas: IPlanQuotas;
+}
+
+export const PLAN_DEFINITIONS: Record<SubscriptionPlan, IPlanDefinition> = {
+  basic: {
+    features: [],
+    quotas: { max_parishioners: 500, audiobook_storage_mb: 0 },
+  },
+  premium: {
+    features: ['ACCOUNTS_CSV', 'AUDIOBOOKS'],
+    quotas: { max_parishioners: 5000, audiobook_storage_mb: 10240 },
+  },
+  enterprise: {
+    features: ['ACCOUNTS_CSV', 'AUDIOBOOKS'],
+    quotas: { max_parishioners: null, audiobook_storage_mb: null },
+  },
+};
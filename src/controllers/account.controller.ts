@@ -2,6 +2,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { AccountModel } from '../models/Account';
 import { AccountCategoryModel } from '../models/AccountCategory';
+import { AccountJournalService } from '../services/accountJournal.service';
+import { ParishSettingsService } from '../services/parishSettings.service';
 import { ApiError } from '../utils/apiError';
 import { IAuthRequest } from '../types';
 import Papa from 'papaparse';
@@ -178,7 +180,7 @@ export class AccountController {
   }
 
   /**
-   * Get account summary (total income, expenses, balance)
+   * Get account summary (total income, expenses, balance) in the parish's currency
    */
   public static async getSummary(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -189,10 +191,11 @@ export class AccountController {
       }
 
       const summary = await AccountModel.getSummary(parishId);
+      const currency = await ParishSettingsService.getSetting(parishId, 'currency');
 
       res.json({
         success: true,
-        data: summary,
+        data: { ...summary, currency },
       });
     } catch (error) {
       next(error);
@@ -338,7 +341,7 @@ export class AccountController {
 
       const updates = req.body;
 
-      const transaction = await AccountModel.update(accountId, updates);
+      const transaction = await AccountModel.update(accountId, updates, req.user?.user_id);
 
       res.json({
         success: true,
@@ -362,7 +365,7 @@ export class AccountController {
         throw ApiError.badRequest('Invalid account ID');
       }
 
-      await AccountModel.delete(accountId);
+      await AccountModel.delete(accountId, req.user?.user_id);
 
       res.json({
         success: true,
@@ -389,6 +392,7 @@ export class AccountController {
       }
 
       const transactions = await AccountModel.getAllForExport(parishId);
+      const currency = await ParishSettingsService.getSetting(parishId, 'currency');
 
       // Convert to CSV format
       const csvData = transactions.map((t: any) => ({
@@ -396,6 +400,7 @@ export class AccountController {
         Type: t.transaction_type,
         Category: t.category_name,
         Amount: t.amount,
+        Currency: currency,
         Description: t.description,
         Reference: t.reference_number || '',
         'Payment Method': t.payment_method || '',
@@ -479,6 +484,39 @@ export class AccountController {
       next(error);
     }
   }
+
+  // =====================================================
+  // JOURNAL
+  // =====================================================
+
+  /**
+   * Verify the parish's hash-chained journal of transaction changes
+   */
+  public static async verifyJournal(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishId = parseInt(req.params.parishId);
+
+      if (isNaN(parishId)) {
+        throw ApiError.badRequest('Invalid parish ID');
+      }
+
+      const verification = await AccountJournalService.verify(parishId, req.user);
+
+      res.json({
+        success: true,
+        message: verification.valid
+          ? 'The books match the journal'
+          : 'The books do not match the journal',
+        data: verification,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default AccountController;
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { AudiobookModel } from '../models/Audiobook';
+import { SubscriptionService } from '../services/subscription.service';
 import { ApiError } from '../utils/apiError';
 import { IAuthRequest } from '../types';
 
@@ -176,6 +177,8 @@ export class AudiobookController {
     try {
       const audiobookData = req.body;
 
+      await SubscriptionService.assertAudiobookStorageQuota(audiobookData.parish_id, audiobookData.file_size_mb);
+
       // Add created_by from authenticated user
       if (req.user) {
         audiobookData.created_by = req.user.user_id;
@@ -206,6 +209,18 @@ export class AudiobookController {
 
       const updates = req.body;
 
+      // A new file size or reactivating the audiobook counts towards the storage quota
+      if (updates.file_size_mb || updates.is_active === true) {
+        const existing = await AudiobookModel.findById(audiobookId);
+        if (existing) {
+          await SubscriptionService.assertAudiobookStorageQuota(
+            existing.parish_id,
+            updates.file_size_mb ?? existing.file_size_mb,
+            audiobookId
+          );
+        }
+      }
+
       const audiobook = await AudiobookModel.update(audiobookId, updates);
 
       res.json({
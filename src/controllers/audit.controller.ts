@@ -0,0 +1,75 @@
+import { Response, NextFunction } from 'express';
+import { AuditService } from '../services/audit.service';
+import { AuditAction, IAuditLogFilters } from '../models/AuditLog';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest } from '../types';
+
+export class AuditController {
+  /**
+   * List audit log entries, newest first
+   */
+  public static async getAll(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const { logs, totalRecords } = await AuditService.listLogs(
+        AuditController.parseFilters(req),
+        req.user,
+        page,
+        limit
+      );
+      const totalPages = Math.ceil(totalRecords / limit);
+
+      res.json({
+        success: true,
+        data: logs,
+        pagination: {
+          currentPage: page,
+          pageSize: limit,
+          totalRecords,
+          totalPages,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download audit log entries as CSV
+   */
+  public static async exportCSV(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const csv = await AuditService.exportCsv(AuditController.parseFilters(req), req.user);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=audit_logs_${new Date().toISOString().split('T')[0]}.csv`);
+      res.send(csv);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private static parseFilters(req: IAuthRequest): IAuditLogFilters {
+    return {
+      parish_id: req.query.parish_id ? Number(req.query.parish_id) : undefined,
+      user_id: req.query.user_id ? Number(req.query.user_id) : undefined,
+      table_name: req.query.table_name as string | undefined,
+      record_id: req.query.record_id ? Number(req.query.record_id) : undefined,
+      action: req.query.action as AuditAction | undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+    };
+  }
+}
+
+export default AuditController;
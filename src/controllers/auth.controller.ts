@@ -4,8 +4,14 @@ import { UserModel } from '../models/User';
 import { ParishModel } from '../models/Parish';
 import { RoleModel, UserRoleModel, PermissionModel } from '../models/Role';
 import { PasswordUtil } from '../utils/password';
-import { JwtUtil } from '../utils/jwt';
+import { SessionService } from '../services/session.service';
+import { EmailVerificationService } from '../services/emailVerification.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { LoginSecurityService } from '../services/loginSecurity.service';
+import { InvitationService } from '../services/invitation.service';
+import { ProfileService } from '../services/profile.service';
 import { ApiError } from '../utils/apiError';
+import { LoginAttemptModel } from '../models/LoginAttempt';
 import { IAuthRequest, IAuthResponse, UserType } from '../types';
 import { getDefaultRoleForUserType } from '../constants/roles';
 import logger from '../utils/logger';
@@ -141,15 +147,49 @@ export class AuthController {
         );
       }
 
-      // Generate token
+      // Send email verification code (registration still succeeds if the email fails)
+      try {
+        await EmailVerificationService.sendVerification(user);
+      } catch (verificationError) {
+        logger.warn('Failed to send email verification after registration', {
+          userId: user.user_id,
+          email: user.email,
+          error: verificationError instanceof Error ? verificationError.message : String(verificationError),
+        });
+      }
+
+      // No session until the email address is verified
+      if (EmailVerificationService.isLoginBlocked(user)) {
+        logger.info('User registration completed, awaiting email verification', {
+          userId: user.user_id,
+          email: user.email,
+        });
+
+        res.status(201).json({
+          success: true,
+          message: 'Registration successful. Please verify your email address to log in',
+          data: {
+            email_verification_required: true,
+            user: {
+              user_id: user.user_id,
+              email: user.email,
+              first_name: user.first_name,
+              last_name: user.last_name,
+              user_type: user.user_type,
+            },
+          },
+        });
+        return;
+      }
+
+      // Start session and generate tokens
       const tokenPayload = {
-        user_id: user.user_id,
-        email: user.email,
-        user_type: user.user_type,
+        ...SessionService.buildTokenPayload(user),
         parish_id,
       };
 
-const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPayload);
+      const { token, expires_in, expires_at, refresh_token, refresh_expires_at } =
+        await SessionService.createSession(tokenPayload, SessionService.getRequestContext(req));
 
       const response: IAuthResponse = {
         success: true,
@@ -157,6 +197,8 @@ const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPaylo
           token,
           expires_in,
           expires_at,
+          refresh_token,
+          refresh_expires_at,
           user: {
             user_id: user.user_id,
             email: user.email,
@@ -185,35 +227,67 @@ const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPaylo
   public static async login(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { email, password } = req.body;
+      const context = SessionService.getRequestContext(req);
 
       // Find user
       const user = await UserModel.findByEmail(email);
       if (!user) {
+        await LoginSecurityService.recordAttempt(email, 'password', 'unknown_user', context);
         throw ApiError.unauthorized('Invalid email or password');
       }
 
       // Check if user is active
       if (!user.is_active) {
+        await LoginSecurityService.recordAttempt(email, 'password', 'account_disabled', context, user);
         throw ApiError.unauthorized('Account is disabled');
       }
 
+      // Check lockout before the password, so a locked account cannot be guessed further
+      await LoginSecurityService.assertNotLocked(user, 'password', context);
+
       // Verify password
       const isValidPassword = await PasswordUtil.compare(password, user.password_hash);
       if (!isValidPassword) {
+        await LoginSecurityService.registerFailure(user, 'password', 'invalid_password', context);
         throw ApiError.unauthorized('Invalid email or password');
       }
 
+      // Check email verification
+      if (EmailVerificationService.isLoginBlocked(user)) {
+        throw ApiError.forbidden('Please verify your email address before logging in');
+      }
+
+      // Accounts created with an admin-set password must choose their own via /auth/accept-invite
+      const passwordChangeChallenge = InvitationService.getPasswordChangeChallenge(user);
+      if (passwordChangeChallenge) {
+        res.json({
+          success: true,
+          message: 'You must set a new password before continuing',
+          data: passwordChangeChallenge,
+        });
+        return;
+      }
+
+      // Admins with 2FA (or a parish that mandates it) complete login via /auth/2fa
+      const twoFactorChallenge = await TwoFactorService.getLoginChallenge(user);
+      if (twoFactorChallenge) {
+        res.json({
+          success: true,
+          message: twoFactorChallenge.two_factor_setup_required
+            ? 'Two-factor authentication setup is required'
+            : 'Two-factor authentication required',
+          data: twoFactorChallenge,
+        });
+        return;
+      }
+
       // Update last login
       await UserModel.updateLastLogin(user.user_id);
+      await LoginSecurityService.registerSuccess(user, 'password', context);
 
-      // Generate token
-      const tokenPayload = {
-        user_id: user.user_id,
-        email: user.email,
-        user_type: user.user_type,
-      };
-
-    const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPayload);
+      // Start session and generate tokens
+      const { token, expires_in, expires_at, refresh_token, refresh_expires_at } =
+        await SessionService.createSession(SessionService.buildTokenPayload(user), context);
 
       const response: IAuthResponse = {
         success: true,
@@ -221,6 +295,8 @@ const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPaylo
           token,
           expires_in,
           expires_at,
+          refresh_token,
+          refresh_expires_at,
           user: {
             user_id: user.user_id,
             email: user.email,
@@ -406,6 +482,53 @@ const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPaylo
     }
   }
 
+  /**
+   * Update own profile (name, phone, address, emergency contact)
+   * Fields locked by the parish can only be changed by an admin
+   */
+  public static async updateProfile(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const profile = await ProfileService.updateProfile(req.user.user_id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Profile updated successfully',
+        data: profile,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload own profile picture
+   */
+  public static async uploadAvatar(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      if (!req.file) {
+        throw ApiError.badRequest('No image uploaded');
+      }
+
+      const profile = await ProfileService.updateAvatar(req.user.user_id, req.file);
+
+      res.json({
+        success: true,
+        message: 'Profile picture updated successfully',
+        data: profile,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Change password
    */
@@ -439,7 +562,10 @@ const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPaylo
       const password_hash = await PasswordUtil.hash(newPassword);
 
       // Update password
-      await UserModel.update(user.user_id, { password_hash });
+      await UserModel.update(user.user_id, { password_hash, must_change_password: false });
+
+      // Sign out every other device; the current session stays active
+      await SessionService.revokeAllSessions(user.user_id, 'password_changed', req.user.session_id);
 
       res.json({
         success: true,
@@ -449,6 +575,336 @@ const { token, expires_in, expires_at } = JwtUtil.generateAccessToken(tokenPaylo
       next(error);
     }
   }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   */
+  public static async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refresh_token } = req.body;
+
+      const { tokens, user } = await SessionService.refreshSession(refresh_token);
+
+      const response: IAuthResponse = {
+        success: true,
+        data: {
+          token: tokens.token,
+          expires_in: tokens.expires_in,
+          expires_at: tokens.expires_at,
+          refresh_token: tokens.refresh_token,
+          refresh_expires_at: tokens.refresh_expires_at,
+          user: {
+            user_id: user.user_id,
+            email: user.email,
+            first_name: user.first_name,
+            last_name: user.last_name,
+            user_type: user.user_type,
+          },
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Logout - revoke the current session
+   */
+  public static async logout(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.session_id) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await SessionService.revokeSession(req.user.user_id, req.user.session_id, 'logout');
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Logout from all devices - revoke every session of the current user
+   */
+  public static async logoutAll(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const revokedCount = await SessionService.revokeAllSessions(req.user.user_id, 'logout_all');
+
+      res.json({
+        success: true,
+        message: 'Logged out from all devices successfully',
+        data: { revoked_sessions: revokedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get active sessions (devices) of the current user
+   */
+  public static async getSessions(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const currentSessionId = req.user.session_id;
+      const sessions = await SessionService.getActiveSessions(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: sessions.map((session) => ({
+          ...session,
+          is_current: session.session_id === currentSessionId,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke one of the current user's sessions (e.g. a lost device)
+   */
+  public static async revokeSession(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const { sessionId } = req.params;
+
+      await SessionService.revokeSession(req.user.user_id, sessionId, 'revoked_by_user');
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke all sessions of any user (Super Admin only)
+   * Used when a device is lost or an account is compromised
+   */
+  public static async revokeUserSessions(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw ApiError.notFound('User not found');
+      }
+
+      const revokedCount = await SessionService.revokeAllSessions(userId, 'revoked_by_admin');
+
+      logger.info('User sessions revoked by admin', {
+        userId,
+        revokedBy: req.user?.user_id,
+        revokedCount,
+      });
+
+      res.json({
+        success: true,
+        message: 'User sessions revoked successfully',
+        data: { revoked_sessions: revokedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get login attempt history (Church Admin: own parish, Super Admin: any parish)
+   */
+  public static async getLoginAttempts(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const parishId = await LoginSecurityService.resolveScopeParishId(
+        req.user.user_id,
+        req.user.user_type === UserType.SUPER_ADMIN,
+        req.query.parish_id ? parseInt(req.query.parish_id as string) : undefined
+      );
+
+      const filters = {
+        parish_id: parishId,
+        user_id: req.query.user_id ? parseInt(req.query.user_id as string) : undefined,
+        failed_only: String(req.query.failed_only) !== 'false',
+        days: req.query.days ? parseInt(req.query.days as string) : undefined,
+      };
+
+      const attempts = await LoginAttemptModel.find(filters, page, limit);
+      const totalRecords = await LoginAttemptModel.count(filters);
+      const totalPages = Math.ceil(totalRecords / limit);
+
+      res.json({
+        success: true,
+        data: attempts,
+        pagination: {
+          currentPage: page,
+          pageSize: limit,
+          totalRecords,
+          totalPages,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get currently locked accounts (Church Admin: own parish, Super Admin: any parish)
+   */
+  public static async getLockedAccounts(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishId = await LoginSecurityService.resolveScopeParishId(
+        req.user.user_id,
+        req.user.user_type === UserType.SUPER_ADMIN,
+        req.query.parish_id ? parseInt(req.query.parish_id as string) : undefined
+      );
+
+      const lockedAccounts = await LoginAttemptModel.findLockedAccounts(parishId);
+
+      res.json({
+        success: true,
+        data: lockedAccounts,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lift the lockout of a user (Church Admin: own parish, Super Admin: any user)
+   */
+  public static async unlockUser(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const userId = parseInt(req.params.userId);
+
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw ApiError.notFound('User not found');
+      }
+
+      if (req.user.user_type !== UserType.SUPER_ADMIN) {
+        const adminParishId = await LoginSecurityService.resolveScopeParishId(req.user.user_id, false);
+        const userParishId = await UserModel.findParishId(userId);
+
+        if (userParishId !== adminParishId) {
+          throw ApiError.forbidden('You can only unlock users of your own parish');
+        }
+      }
+
+      await LoginSecurityService.unlock(user, `admin:${req.user.user_id}`);
+
+      res.json({
+        success: true,
+        message: 'User account unlocked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set a password from an emailed invitation (or the password change step of login)
+   */
+  public static async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, password } = req.body;
+
+      const user = await InvitationService.acceptInvitation(token, password);
+
+      res.json({
+        success: true,
+        message: 'Password set successfully. You can now log in',
+        data: {
+          email: user.email,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a new invitation to a member who has not set a password yet
+   * (Church Admin: own parish, Super Admin: any user)
+   */
+  public static async resendInvitation(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const userId = parseInt(req.params.userId);
+
+      const user = await UserModel.findById(userId);
+      if (!user || !user.is_active) {
+        throw ApiError.notFound('User not found');
+      }
+
+      const userParishId = await UserModel.findParishId(userId);
+
+      if (req.user.user_type !== UserType.SUPER_ADMIN) {
+        const adminParishId = await LoginSecurityService.resolveScopeParishId(req.user.user_id, false);
+
+        if (userParishId !== adminParishId) {
+          throw ApiError.forbidden('You can only invite users of your own parish');
+        }
+      }
+
+      if (!user.must_change_password) {
+        throw ApiError.conflict('User has already set a password');
+      }
+
+      const parish = userParishId ? await ParishModel.findById(userParishId) : null;
+
+      try {
+        await InvitationService.sendInvitation(user, {
+          parishId: parish?.parish_id,
+          parishName: parish?.parish_name || 'Parish Nexus',
+        });
+      } catch (emailError) {
+        logger.error('Failed to resend invitation', { emailError });
+        throw ApiError.internal('Failed to send invitation. Please try again.');
+      }
+
+      res.json({
+        success: true,
+        message: 'Invitation sent successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default AuthController;
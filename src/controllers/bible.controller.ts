@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { BibleModel } from '../models/Bible';
 import { BibleAPIService } from '../services/bibleApi.service';
+import { ParishSettingsService } from '../services/parishSettings.service';
 import { ApiError } from '../utils/apiError';
 import { IAuthRequest } from '../types';
 
@@ -311,13 +312,18 @@ export class BibleController {
     try {
       const readingData = req.body;
 
+      // Each parish chooses the translation its readings default to
+      if (!readingData.translation) {
+        readingData.translation = await ParishSettingsService.getSetting(readingData.parish_id, 'bible_translation');
+      }
+
       // Fetch Bible content from API
       const bibleContent = await BibleAPIService.getVerses(
         readingData.book_name,
         readingData.chapter,
         readingData.verse_start,
         readingData.verse_end,
-        readingData.translation || 'kjv'
+        readingData.translation
       );
 
       // Cache the content - API.Bible returns different format
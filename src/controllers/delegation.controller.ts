@@ -0,0 +1,97 @@
+import { Response, NextFunction } from 'express';
+import { PermissionDelegationService } from '../services/permissionDelegation.service';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest } from '../types';
+
+export class DelegationController {
+  /**
+   * Delegate permissions to a user for a date range
+   */
+  public static async create(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const delegation = await PermissionDelegationService.delegate(req.body, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Permissions delegated successfully',
+        data: delegation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List delegations of the admin's parish
+   */
+  public static async getAll(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const delegations = await PermissionDelegationService.listDelegations(
+        {
+          parish_id: req.query.parish_id ? Number(req.query.parish_id) : undefined,
+          delegate_user_id: req.query.delegate_user_id ? Number(req.query.delegate_user_id) : undefined,
+          status: req.query.status as 'ACTIVE' | 'REVOKED' | 'EXPIRED' | undefined,
+        },
+        req.user
+      );
+
+      res.json({
+        success: true,
+        data: delegations,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a delegation with its permissions
+   */
+  public static async getById(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const delegation = await PermissionDelegationService.getDelegation(parseInt(req.params.delegationId), req.user);
+
+      res.json({
+        success: true,
+        data: delegation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End a delegation before its end date
+   */
+  public static async revoke(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const delegation = await PermissionDelegationService.revoke(parseInt(req.params.delegationId), req.user);
+
+      res.json({
+        success: true,
+        message: 'Delegation revoked successfully',
+        data: delegation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default DelegationController;
@@ -0,0 +1,229 @@
+import { Response, NextFunction } from 'express';
+import { DioceseService } from '../services/diocese.service';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest } from '../types';
+
+export class DioceseController {
+  /**
+   * List dioceses (all for super admins, their own for diocese admins)
+   */
+  public static async getAll(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const dioceses = await DioceseService.listDioceses(req.user);
+
+      res.json({
+        success: true,
+        data: dioceses,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a diocese
+   */
+  public static async getById(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const diocese = await DioceseService.getDiocese(parseInt(req.params.id), req.user);
+
+      res.json({
+        success: true,
+        data: diocese,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a diocese (Super Admin only)
+   */
+  public static async create(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const diocese = await DioceseService.createDiocese(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Diocese created successfully',
+        data: diocese,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a diocese (Super Admin only)
+   */
+  public static async update(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const diocese = await DioceseService.updateDiocese(parseInt(req.params.id), req.body);
+
+      res.json({
+        success: true,
+        message: 'Diocese updated successfully',
+        data: diocese,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the parishes of a diocese
+   */
+  public static async getParishes(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishes = await DioceseService.getParishes(parseInt(req.params.id), req.user);
+
+      res.json({
+        success: true,
+        data: parishes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Assign a parish to a diocese (Super Admin only)
+   */
+  public static async assignParish(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishes = await DioceseService.assignParish(parseInt(req.params.id), req.body.parish_id, req.user);
+
+      res.json({
+        success: true,
+        message: 'Parish assigned to diocese successfully',
+        data: parishes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a parish from a diocese (Super Admin only)
+   */
+  public static async removeParish(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await DioceseService.removeParish(parseInt(req.params.id), parseInt(req.params.parishId), req.user);
+
+      res.json({
+        success: true,
+        message: 'Parish removed from diocese successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get statistics across the parishes of a diocese
+   */
+  public static async getStats(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const stats = await DioceseService.getStats(
+        parseInt(req.params.id),
+        req.user,
+        req.query.from ? new Date(req.query.from as string) : undefined,
+        req.query.to ? new Date(req.query.to as string) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the administrators of a diocese (Super Admin only)
+   */
+  public static async getAdmins(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const admins = await DioceseService.getAdmins(parseInt(req.params.id), req.user);
+
+      res.json({
+        success: true,
+        data: admins,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Make a diocese admin user an administrator of a diocese (Super Admin only)
+   */
+  public static async addAdmin(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const admins = await DioceseService.addAdmin(parseInt(req.params.id), req.body.user_id, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Diocese admin added successfully',
+        data: admins,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove an administrator from a diocese (Super Admin only)
+   */
+  public static async removeAdmin(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await DioceseService.removeAdmin(parseInt(req.params.id), parseInt(req.params.userId), req.user);
+
+      res.json({
+        success: true,
+        message: 'Diocese admin removed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default DioceseController;
@@ -7,14 +7,15 @@ import { ParishionerModel } from '../models/Parishioner';
 import { UserModel } from '../models/User';
 import { RoleModel, UserRoleModel } from '../models/Role';
 import { ApiError } from '../utils/apiError';
-import { IAuthRequest, UserType } from '../types';
+import { IAuthRequest, IUser, UserType } from '../types';
 import { SYSTEM_ROLES } from '../constants/roles';
 import PasswordUtil from '../utils/password';
 import database from '../config/database';
 import Papa from 'papaparse';
 import fs from 'fs';
 import logger from '../utils/logger';
-import { emailService } from '../services/email/email.service';
+import { InvitationService } from '../services/invitation.service';
+import { SubscriptionService } from '../services/subscription.service';
 
 export class FamilyController {
   /**
@@ -356,6 +357,8 @@ export class FamilyController {
         throw ApiError.notFound('Parish not found');
       }
 
+      await SubscriptionService.assertParishionerQuota(parish_id, members.length);
+
       await transaction.begin();
 
       let wardId: number | undefined;
@@ -444,9 +447,10 @@ export class FamilyController {
           throw ApiError.conflict(`Email ${member.email} already exists`);
         }
 
-        // Generate default password if not provided
-        const password = member.password || 'Parish@123';
-        const password_hash = await PasswordUtil.hash(password);
+        // Members without an admin-set password activate their account through the invitation
+        const password_hash = member.password
+          ? await PasswordUtil.hash(member.password)
+          : await InvitationService.createPlaceholderPasswordHash();
 
         // ✅ STEP 1: Verify FAMILY_MEMBER role exists BEFORE creating user
         const familyMemberRole = await RoleModel.getRoleByCode(SYSTEM_ROLES.FAMILY_MEMBER);
@@ -464,6 +468,7 @@ export class FamilyController {
           phone: member.phone,
           profile_image_url: member.profile_image_url,
           user_type: UserType.PARISHIONER,
+          must_change_password: true,
         });
 
         // ✅ STEP 3: Assign FAMILY_MEMBER role
@@ -523,32 +528,14 @@ export class FamilyController {
           primaryContactId = newParishioner.parishioner_id;
         }
 
-        // ✅ STEP 5: Send welcome email (async, don't wait for it)
+        // ✅ STEP 5: Send invitation email (async, don't wait for it)
         // Get family name for email
         FamilyModel.findById(familyId).then((familyData) => {
-          emailService
-            .sendTemplateEmail({
-              to: newUser.email,
-              templateCode: 'welcome_parishioner',
-              variables: {
-                firstName: newUser.first_name,
-                lastName: newUser.last_name,
-                email: newUser.email,
-                recipientName: `${newUser.first_name} ${newUser.last_name}`,
-                parishName: parish.parish_name,
-                parishAddress: '',
-                familyName: familyData?.family_name || 'Parish Family',
-                wardName: '',
-                loginUrl: `${process.env.FRONTEND_URL || 'https://parishnexus.com'}/login`,
-              },
-            })
-            .then(() => {
-              logger.info(`Welcome email sent to ${newUser.email}`);
-            })
-            .catch((emailError) => {
-              logger.error(`Failed to send welcome email to ${newUser.email}`, { emailError });
-              // Don't throw error - email failure shouldn't block user creation
-            });
+          InvitationService.sendInvitationInBackground(newUser, {
+            parishId: parish.parish_id,
+            parishName: parish.parish_name,
+            familyName: familyData?.family_name,
+          });
         });
       }
 
@@ -645,6 +632,9 @@ export class FamilyController {
         throw ApiError.badRequest('CSV file is empty');
       }
 
+      // Every row is a member
+      await SubscriptionService.assertParishionerQuota(parishIdNum, rows.length);
+
       // Group rows by family
       const familiesMap = new Map<string, any[]>();
 
@@ -670,6 +660,7 @@ export class FamilyController {
         createdMembers: [] as any[],
         errors: [] as any[],
       };
+      const invitations: { user: IUser; familyName: string }[] = [];
 
       try {
         // Process each family
@@ -759,9 +750,11 @@ export class FamilyController {
                   continue;
                 }
 
-                // ✅ STEP 2: Create user
-                const password = member.password?.trim() || 'Parish@123';
-                const password_hash = await PasswordUtil.hash(password);
+                // ✅ STEP 2: Create user (activated through the invitation unless a password was provided)
+                const password = member.password?.trim();
+                const password_hash = password
+                  ? await PasswordUtil.hash(password)
+                  : await InvitationService.createPlaceholderPasswordHash();
 
                 const newUser = await UserModel.create({
                   email: member.email.trim(),
@@ -771,6 +764,7 @@ export class FamilyController {
                   phone: member.phone?.trim(),
                   profile_image_url: member.profile_image_url?.trim(),
                   user_type: UserType.PARISHIONER,
+                  must_change_password: true,
                 });
 
                 // ✅ STEP 3: Assign FAMILY_MEMBER role
@@ -836,6 +830,7 @@ export class FamilyController {
                   email: member.email,
                   family: familyName,
                 });
+                invitations.push({ user: newUser, familyName });
 
                 // Set first member as primary contact
                 if (i === 0 || member.is_primary_contact?.toLowerCase() === 'true') {
@@ -875,6 +870,15 @@ export class FamilyController {
         // Commit transaction
         await transaction.commit();
 
+        // Send invitation emails (async, don't wait for them)
+        for (const invitation of invitations) {
+          InvitationService.sendInvitationInBackground(invitation.user, {
+            parishId: parish.parish_id,
+            parishName: parish.parish_name,
+            familyName: invitation.familyName,
+          });
+        }
+
         // Clean up uploaded file
         if (filePath) {
           fs.unlinkSync(filePath);
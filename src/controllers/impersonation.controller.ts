@@ -0,0 +1,122 @@
+import { Response, NextFunction } from 'express';
+import { ImpersonationService } from '../services/impersonation.service';
+import { SessionService } from '../services/session.service';
+import { ImpersonationSessionModel, ImpersonationAuditModel } from '../models/Impersonation';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest } from '../types';
+
+export class ImpersonationController {
+  /**
+   * Start viewing as another user (Super Admin only)
+   */
+  public static async start(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const { user_id, reason, read_only } = req.body;
+
+      const impersonation = await ImpersonationService.start(
+        req.user,
+        user_id,
+        reason,
+        read_only,
+        SessionService.getRequestContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: read_only
+          ? 'Impersonation started in read-only mode'
+          : 'Impersonation started. Changes you make will be saved as this user',
+        data: impersonation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List impersonation sessions (Super Admin only)
+   */
+  public static async getAll(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const filters = {
+        impersonator_user_id: req.query.impersonator_user_id
+          ? parseInt(req.query.impersonator_user_id as string)
+          : undefined,
+        target_user_id: req.query.target_user_id ? parseInt(req.query.target_user_id as string) : undefined,
+        active_only: String(req.query.active_only) === 'true',
+      };
+
+      const sessions = await ImpersonationSessionModel.find(filters, page, limit);
+      const totalRecords = await ImpersonationSessionModel.count(filters);
+      const totalPages = Math.ceil(totalRecords / limit);
+
+      res.json({
+        success: true,
+        data: sessions,
+        pagination: {
+          currentPage: page,
+          pageSize: limit,
+          totalRecords,
+          totalPages,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an impersonation session with every request made during it (Super Admin only)
+   */
+  public static async getById(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { impersonationId } = req.params;
+
+      const session = await ImpersonationSessionModel.findById(impersonationId);
+      if (!session) {
+        throw ApiError.notFound('Impersonation session not found');
+      }
+
+      const requests = await ImpersonationAuditModel.findByImpersonation(impersonationId);
+
+      res.json({
+        success: true,
+        data: {
+          ...session,
+          requests,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End an impersonation session (Super Admin only)
+   */
+  public static async end(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await ImpersonationService.end(req.params.impersonationId, req.user);
+
+      res.json({
+        success: true,
+        message: 'Impersonation ended successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default ImpersonationController;
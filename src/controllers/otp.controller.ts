@@ -1,30 +1,36 @@
 /**
  * OTP Controller
  *
- * Handles OTP generation, sending, and verification for:
+ * Handles OTP generation, sending (email or SMS), and verification for:
  * - Login authentication
  * - Password reset
- * - Email/Phone verification
+ * - Email verification
  */
 
 import { Request, Response } from 'express';
 import { OtpModel } from '../models/Otp';
 import { UserModel } from '../models/User';
 import { emailService } from '../services/email/email.service';
+import { smsService } from '../services/sms/sms.service';
 import { OtpUtil } from '../utils/otp.util';
-import { JwtUtil } from '../utils/jwt';
+import { SessionService } from '../services/session.service';
+import { EmailVerificationService } from '../services/emailVerification.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { InvitationService } from '../services/invitation.service';
+import { LoginSecurityService } from '../services/loginSecurity.service';
 import { ApiError } from '../utils/apiError';
+import { IUser } from '../types';
 import logger from '../utils/logger';
 import jwt from 'jsonwebtoken'; // Still needed for password reset token
 
 export class OtpController {
   /**
-   * Request OTP for login (email only)
+   * Request OTP for login (delivered by email or SMS)
    * POST /api/v1/otp/request-login
    */
   static async requestLoginOTP(req: Request, res: Response): Promise<void> {
     try {
-      const { email } = req.body;
+      const { email, delivery_method = 'email' } = req.body;
 
       // Find user by email
       const user = await UserModel.findByEmail(email);
@@ -46,6 +52,8 @@ export class OtpController {
         );
       }
 
+      const phone = OtpController.getSmsRecipient(user, delivery_method);
+
       // Generate OTP
       const otpCode = OtpUtil.generateOTP(6);
       const expiresAt = OtpUtil.calculateExpiryTime(10); // 10 minutes
@@ -55,11 +63,32 @@ export class OtpController {
         user_id: user.user_id,
         otp_code: otpCode,
         otp_type: 'login',
-        delivery_method: 'email',
-        email: user.email,
+        delivery_method,
+        email: phone ? undefined : user.email,
+        phone: phone || undefined,
         expires_at: expiresAt,
       });
 
+      if (phone) {
+        await OtpController.sendOtpSms(
+          phone,
+          `${otpCode} is your Parish Nexus login code. It expires in 10 minutes. Do not share this code with anyone.`
+        );
+
+        logger.info(`Login OTP sent by SMS to user: ${user.email}`);
+
+        res.json({
+          success: true,
+          message: `An OTP has been sent to ${OtpUtil.maskPhone(phone)}`,
+          data: {
+            phone: OtpUtil.maskPhone(phone),
+            delivery_method,
+            expiresIn: '10 minutes',
+          },
+        });
+        return;
+      }
+
       // Send OTP via email
       try {
         await emailService.sendTemplateEmail({
@@ -86,6 +115,7 @@ export class OtpController {
         message: `An OTP has been sent to ${OtpUtil.maskEmail(user.email)}`,
         data: {
           email: OtpUtil.maskEmail(user.email),
+          delivery_method,
           expiresIn: '10 minutes',
         },
       });
@@ -101,15 +131,16 @@ export class OtpController {
    */
   static async verifyLoginOTP(req: Request, res: Response): Promise<void> {
     logger.info('========== VERIFY LOGIN OTP CALLED ==========');
-    logger.info('Request body:', req.body);
 
     try {
       const { email, otp_code } = req.body;
-      logger.info(`Extracted values - email: ${email}, otp_code: ${otp_code}`);
+      logger.info(`Extracted values - email: ${email}`);
+      const context = SessionService.getRequestContext(req);
 
       // Find user by email
       const user = await UserModel.findByEmail(email);
       if (!user) {
+        await LoginSecurityService.recordAttempt(email, 'otp', 'unknown_user', context);
         throw ApiError.unauthorized('Invalid email or OTP');
       }
 
@@ -121,7 +152,6 @@ export class OtpController {
       if (latestOtp) {
         logger.info(`Latest OTP details:`, {
           otp_id: latestOtp.otp_id,
-          otp_code: latestOtp.otp_code,
           is_verified: latestOtp.is_verified,
           expires_at: latestOtp.expires_at,
           attempts: latestOtp.attempts,
@@ -129,34 +159,65 @@ export class OtpController {
       }
 
       // Verify OTP
-      logger.info(`Attempting to verify OTP: ${otp_code} for user ${user.user_id}`);
+      logger.info(`Attempting to verify OTP for user ${user.user_id}`);
       const otpRecord = await OtpModel.verify(user.user_id, otp_code, 'login');
       logger.info(`Verification result - otpRecord is null: ${otpRecord === null}`);
 
       if (!otpRecord) {
-        logger.warn(`OTP verification failed for user ${user.user_id}, code: ${otp_code}`);
+        logger.warn(`OTP verification failed for user ${user.user_id}`);
         // Increment attempts on the latest OTP if it exists
         if (latestOtp) {
           await OtpModel.incrementAttempts(latestOtp.otp_id);
           logger.info(`Incremented attempts for OTP ${latestOtp.otp_id}`);
         }
+        await LoginSecurityService.recordAttempt(user.email, 'otp', 'invalid_otp', context, user);
         throw ApiError.unauthorized('Invalid or expired OTP');
       }
 
       // Mark OTP as verified
       await OtpModel.markAsVerified(otpRecord.otp_id);
 
+      // A code delivered by email proves the address, so it is now verified (an SMS code proves nothing about it)
+      if (otpRecord.delivery_method === 'email' && !user.email_verified) {
+        await UserModel.verifyEmail(user.user_id);
+      }
+
+      // Proving access to the account's mailbox or phone lifts a lockout from failed password attempts
+      if (user.locked_until || user.failed_login_attempts) {
+        await LoginSecurityService.unlock(user, 'otp');
+      }
+
+      // Invited accounts must choose their own password via /auth/accept-invite, as with a password login
+      const passwordChangeChallenge = InvitationService.getPasswordChangeChallenge(user);
+      if (passwordChangeChallenge) {
+        res.json({
+          success: true,
+          message: 'You must set a new password before continuing',
+          data: passwordChangeChallenge,
+        });
+        return;
+      }
+
+      // Admins with 2FA (or a parish that mandates it) complete login via /auth/2fa
+      const twoFactorChallenge = await TwoFactorService.getLoginChallenge(user);
+      if (twoFactorChallenge) {
+        res.json({
+          success: true,
+          message: twoFactorChallenge.two_factor_setup_required
+            ? 'Two-factor authentication setup is required'
+            : 'Two-factor authentication required',
+          data: twoFactorChallenge,
+        });
+        return;
+      }
+
       // Update last login (same as normal login)
       await UserModel.updateLastLogin(user.user_id);
+      await LoginSecurityService.recordAttempt(user.email, 'otp', 'success', context, user);
 
-      // Generate token using JwtUtil (same as normal login)
-      const tokenPayload = {
-        user_id: user.user_id,
-        email: user.email,
-        user_type: user.user_type,
-      };
-
-      const token = JwtUtil.generateAccessToken(tokenPayload);
+      // Start session and generate tokens (same as normal login)
+      const { token, expires_in, expires_at, refresh_token, refresh_expires_at } =
+        await SessionService.createSession(SessionService.buildTokenPayload(user), context);
 
       logger.info(`User logged in via OTP: ${user.email}`);
 
@@ -165,6 +226,10 @@ export class OtpController {
         success: true,
         data: {
           token,
+          expires_in,
+          expires_at,
+          refresh_token,
+          refresh_expires_at,
           user: {
             user_id: user.user_id,
             email: user.email,
@@ -186,7 +251,7 @@ export class OtpController {
    */
   static async requestPasswordResetOTP(req: Request, res: Response): Promise<void> {
     try {
-      const { email } = req.body;
+      const { email, delivery_method = 'email' } = req.body;
 
       // Find user by email
       const user = await UserModel.findByEmail(email);
@@ -208,6 +273,8 @@ export class OtpController {
         );
       }
 
+      const phone = OtpController.getSmsRecipient(user, delivery_method);
+
       // Generate OTP
       const otpCode = OtpUtil.generateOTP(6);
       const expiresAt = OtpUtil.calculateExpiryTime(15); // 15 minutes for password reset
@@ -217,11 +284,32 @@ export class OtpController {
         user_id: user.user_id,
         otp_code: otpCode,
         otp_type: 'password_reset',
-        delivery_method: 'email',
-        email: user.email,
+        delivery_method,
+        email: phone ? undefined : user.email,
+        phone: phone || undefined,
         expires_at: expiresAt,
       });
 
+      if (phone) {
+        await OtpController.sendOtpSms(
+          phone,
+          `${otpCode} is your Parish Nexus password reset code. It expires in 15 minutes. If you did not request this, ignore this message.`
+        );
+
+        logger.info(`Password reset OTP sent by SMS to user: ${user.email}`);
+
+        res.json({
+          success: true,
+          message: `A password reset OTP has been sent to ${OtpUtil.maskPhone(phone)}`,
+          data: {
+            phone: OtpUtil.maskPhone(phone),
+            delivery_method,
+            expiresIn: '15 minutes',
+          },
+        });
+        return;
+      }
+
       // Send OTP via email using PASSWORD_RESET template
       try {
         await emailService.sendTemplateEmail({
@@ -249,6 +337,7 @@ export class OtpController {
         message: `A password reset OTP has been sent to ${OtpUtil.maskEmail(user.email)}`,
         data: {
           email: OtpUtil.maskEmail(user.email),
+          delivery_method,
           expiresIn: '15 minutes',
         },
       });
@@ -307,6 +396,66 @@ export class OtpController {
     }
   }
 
+  /**
+   * Request email verification OTP
+   * POST /api/v1/otp/request-verification
+   */
+  static async requestEmailVerificationOTP(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      // Find user by email
+      const user = await UserModel.findByEmail(email);
+      if (!user) {
+        logger.warn(`Email verification OTP requested for non-existent email: ${email}`);
+      } else if (user.email_verified) {
+        logger.info(`Email verification OTP requested for already verified email: ${email}`);
+      } else {
+        try {
+          await EmailVerificationService.sendVerification(user);
+        } catch (sendError) {
+          // Rate limits and delivery failures only happen for registered addresses, so they are logged instead
+          logger.warn(`Email verification OTP not sent to ${email}`, { error: sendError });
+        }
+      }
+
+      // Don't reveal whether the email is registered or already verified (security)
+      res.json({
+        success: true,
+        message: 'If this email is registered and not yet verified, a verification OTP has been sent.',
+      });
+    } catch (error) {
+      logger.error('Error in requestEmailVerificationOTP', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Verify email address with OTP
+   * POST /api/v1/otp/verify-email
+   */
+  static async verifyEmailOTP(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, otp_code } = req.body;
+
+      // Find user by email
+      const user = await UserModel.findByEmail(email);
+      if (!user) {
+        throw ApiError.unauthorized('Invalid email or OTP');
+      }
+
+      await EmailVerificationService.verify(user, otp_code);
+
+      res.json({
+        success: true,
+        message: 'Email verified successfully',
+      });
+    } catch (error) {
+      logger.error('Error in verifyEmailOTP', { error });
+      throw error;
+    }
+  }
+
   /**
    * Resend OTP
    * POST /api/v1/otp/resend
@@ -316,7 +465,7 @@ export class OtpController {
       const { otp_type } = req.body;
 
       // Validate otp_type
-      if (!['login', 'password_reset'].includes(otp_type)) {
+      if (!['login', 'password_reset', 'verification'].includes(otp_type)) {
         throw ApiError.badRequest('Invalid OTP type');
       }
 
@@ -325,6 +474,8 @@ export class OtpController {
         await OtpController.requestLoginOTP(req, res);
       } else if (otp_type === 'password_reset') {
         await OtpController.requestPasswordResetOTP(req, res);
+      } else if (otp_type === 'verification') {
+        await OtpController.requestEmailVerificationOTP(req, res);
       }
     } catch (error) {
       logger.error('Error in resendOTP', { error });
@@ -351,4 +502,30 @@ export class OtpController {
       throw error;
     }
   }
+
+  /**
+   * Phone number to send the OTP to, or null when delivering by email
+   */
+  private static getSmsRecipient(user: IUser, deliveryMethod: 'email' | 'sms'): string | null {
+    if (deliveryMethod !== 'sms') {
+      return null;
+    }
+
+    if (!user.phone) {
+      throw ApiError.badRequest('No phone number is registered for this account. Please request the OTP by email.');
+    }
+
+    return user.phone;
+  }
+
+  /**
+   * Send an OTP text message
+   */
+  private static async sendOtpSms(phone: string, message: string): Promise<void> {
+    const result = await smsService.sendSms(phone, message);
+    if (!result.success) {
+      logger.error('Failed to send OTP SMS', { provider: result.provider, error: result.error });
+      throw ApiError.internal('Failed to send OTP. Please try again.');
+    }
+  }
 }
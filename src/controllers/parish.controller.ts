@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { ParishModel } from '../models/Parish';
+import { ParishDeletionService } from '../services/parishDeletion.service';
+import { SubscriptionService } from '../services/subscription.service';
+import { ParishSettingsService } from '../services/parishSettings.service';
+import { ChurchAdminService } from '../services/churchAdmin.service';
 import { UserModel } from '../models/User';
 import { ChurchAdminModel } from '../models/ChurchAdmin';
 import { RoleModel, UserRoleModel } from '../models/Role';
@@ -197,7 +201,7 @@ export class ParishController {
           });
 
           // If admin creation fails, delete the parish we just created
-          await ParishModel.delete(parish.parish_id);
+          await ParishModel.purge(parish.parish_id);
           throw adminError;
         }
       }
@@ -240,6 +244,12 @@ export class ParishController {
 
       const updates = req.body;
 
+      // Only super admins can change a parish's subscription
+      const changesSubscription = updates.subscription_plan !== undefined || updates.subscription_expiry !== undefined;
+      if (changesSubscription && req.user?.user_type !== UserType.SUPER_ADMIN) {
+        throw ApiError.forbidden('Only a super admin can change the subscription plan or expiry');
+      }
+
       const parish = await ParishModel.update(parishId, updates);
 
       res.json({
@@ -253,20 +263,71 @@ export class ParishController {
   }
 
   /**
-   * Delete parish (soft delete - Super Admin only)
+   * Delete parish (Super Admin only). The parish is purged after the grace period unless restored.
    */
   public static async delete(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
       const parishId = parseInt(req.params.id);
 
       if (isNaN(parishId)) {
         throw ApiError.badRequest('Invalid parish ID');
       }
-      await ParishModel.delete(parishId, req.user?.user_id);
+
+      const parish = await ParishDeletionService.scheduleDeletion(parishId, req.user, req.body?.reason);
 
       res.json({
         success: true,
-        message: 'Parish deleted successfully',
+        message: `Parish scheduled for deletion. It can be restored until ${new Date(
+          parish.deletion_scheduled_for as Date
+        ).toISOString()}`,
+        data: parish,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Restore a parish pending deletion (Super Admin only)
+   */
+  public static async restore(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishId = parseInt(req.params.id);
+
+      if (isNaN(parishId)) {
+        throw ApiError.badRequest('Invalid parish ID');
+      }
+
+      const parish = await ParishDeletionService.restore(parishId, req.user);
+
+      res.json({
+        success: true,
+        message: 'Parish restored successfully',
+        data: parish,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List parishes pending deletion (Super Admin only)
+   */
+  public static async getPendingDeletion(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parishes = await ParishDeletionService.listPending();
+
+      res.json({
+        success: true,
+        data: parishes,
       });
     } catch (error) {
       next(error);
@@ -306,6 +367,190 @@ export class ParishController {
       next(error);
     }
   }
+
+  /**
+   * Get a parish's subscription: plan, expiry state, features, quotas and their usage
+   */
+  public static async getSubscription(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishId = parseInt(req.params.id);
+
+      if (isNaN(parishId)) {
+        throw ApiError.badRequest('Invalid parish ID');
+      }
+
+      const subscription = await SubscriptionService.getOverview(parishId, req.user);
+
+      res.json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a parish's settings with their defaults
+   */
+  public static async getSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parishId = parseInt(req.params.id);
+
+      if (isNaN(parishId)) {
+        throw ApiError.badRequest('Invalid parish ID');
+      }
+
+      const settings = await ParishSettingsService.getView(parishId);
+
+      res.json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a parish's settings (Super Admin or Church Admin of that parish)
+   */
+  public static async updateSettings(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parishId = parseInt(req.params.id);
+
+      if (isNaN(parishId)) {
+        throw ApiError.badRequest('Invalid parish ID');
+      }
+
+      const settings = await ParishSettingsService.update(parishId, req.body, req.user?.user_id);
+
+      res.json({
+        success: true,
+        message: 'Parish settings updated successfully',
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the church admins of a parish
+   */
+  public static async getAdmins(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const admins = await ChurchAdminService.listAdmins(parseInt(req.params.id));
+
+      res.json({
+        success: true,
+        data: admins,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Invite a church admin to a parish (Super Admin or Church Admin of that parish)
+   */
+  public static async inviteAdmin(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const admin = await ChurchAdminService.inviteAdmin(parseInt(req.params.id), req.body, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Church admin invited successfully. An invitation email has been sent.',
+        data: admin,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a church admin's role, department or hire date (Super Admin or Church Admin of that parish)
+   */
+  public static async updateAdmin(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const admin = await ChurchAdminService.updateAdmin(
+        parseInt(req.params.id),
+        parseInt(req.params.adminId),
+        req.body,
+        req.user
+      );
+
+      res.json({
+        success: true,
+        message: 'Church admin updated successfully',
+        data: admin,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate a church admin (Super Admin or Church Admin of that parish)
+   */
+  public static async deactivateAdmin(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await ChurchAdminService.deactivateAdmin(
+        parseInt(req.params.id),
+        parseInt(req.params.adminId),
+        req.user,
+        req.body?.successor_admin_id
+      );
+
+      res.json({
+        success: true,
+        message: 'Church admin deactivated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Make another church admin the primary admin of a parish (primary admin or Super Admin)
+   */
+  public static async transferPrimaryAdmin(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const admins = await ChurchAdminService.transferPrimary(
+        parseInt(req.params.id),
+        req.body.church_admin_id,
+        req.user
+      );
+
+      res.json({
+        success: true,
+        message: 'Primary admin transferred successfully',
+        data: admins,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default ParishController;
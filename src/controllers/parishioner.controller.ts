@@ -10,6 +10,7 @@ import { ApiError } from '../utils/apiError';
 import { IAuthRequest, UserType } from '../types';
 import { SYSTEM_ROLES } from '../constants/roles';
 import { PasswordUtil } from '../utils/password';
+import { SubscriptionService } from '../services/subscription.service';
 import logger from '../utils/logger';
 
 export class ParishionerController {
@@ -208,6 +209,8 @@ export class ParishionerController {
         throw ApiError.badRequest('Parish not found');
       }
 
+      await SubscriptionService.assertParishionerQuota(parish_id, 1);
+
       // If ward_id is provided, verify it exists and belongs to the same parish
       if (ward_id) {
         const ward = await WardModel.findById(ward_id);
@@ -136,7 +136,8 @@ export class PrayerRequestController {
    */
   public static async manualArchive(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const daysOld = parseInt(req.query.daysOld as string) || 10;
+      // Without daysOld each parish's prayer_request_archive_days setting applies
+      const daysOld = parseInt(req.query.daysOld as string) || undefined;
 
       const archivedCount = await PrayerRequestModel.autoArchiveOldRequests(daysOld);
 
@@ -145,7 +146,7 @@ export class PrayerRequestController {
         message: `Auto-archive completed: ${archivedCount} prayer requests archived`,
         data: {
           archived_count: archivedCount,
-          days_threshold: daysOld,
+          days_threshold: daysOld ?? null, // null: each parish's setting applied
         },
       });
     } catch (error) {
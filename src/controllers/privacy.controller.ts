@@ -0,0 +1,207 @@
+import { Response, NextFunction } from 'express';
+import { DataPrivacyService, ExportFormat, IExportFile } from '../services/dataPrivacy.service';
+import { LoginSecurityService } from '../services/loginSecurity.service';
+import { DataErasureRequestModel, ErasureRequestStatus } from '../models/DataErasureRequest';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest, UserType } from '../types';
+
+export class PrivacyController {
+  /**
+   * Download the current user's personal data
+   */
+  public static async exportOwnData(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const file = await DataPrivacyService.buildExportFile(req.user.user_id, req.query.format as ExportFormat);
+
+      PrivacyController.sendFile(res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a user's personal data on their behalf (Church Admin or Super Admin)
+   */
+  public static async exportUserData(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const userId = parseInt(req.params.userId);
+      await DataPrivacyService.assertCanManageUser(req.user, userId);
+
+      const file = await DataPrivacyService.buildExportFile(userId, req.query.format as ExportFormat);
+
+      PrivacyController.sendFile(res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Request erasure of the current user's account
+   */
+  public static async requestErasure(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const request = await DataPrivacyService.requestErasure(req.user.user_id, req.body.reason);
+
+      res.status(201).json({
+        success: true,
+        message: 'Erasure request submitted. Your parish will review it shortly',
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the current user's erasure requests
+   */
+  public static async getOwnErasureRequests(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const requests = await DataErasureRequestModel.findByUser(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: requests,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw a pending erasure request
+   */
+  public static async cancelErasureRequest(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await DataPrivacyService.cancelErasure(req.user.user_id, parseInt(req.params.requestId));
+
+      res.json({
+        success: true,
+        message: 'Erasure request cancelled successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List erasure requests (Church Admin or Super Admin)
+   */
+  public static async getErasureRequests(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const parishId = await LoginSecurityService.resolveScopeParishId(
+        req.user.user_id,
+        req.user.user_type === UserType.SUPER_ADMIN,
+        req.query.parish_id ? parseInt(req.query.parish_id as string) : undefined
+      );
+
+      const filters = {
+        parish_id: parishId,
+        status: req.query.status as ErasureRequestStatus | undefined,
+      };
+
+      const requests = await DataErasureRequestModel.find(filters, page, limit);
+      const totalRecords = await DataErasureRequestModel.count(filters);
+      const totalPages = Math.ceil(totalRecords / limit);
+
+      res.json({
+        success: true,
+        data: requests,
+        pagination: {
+          currentPage: page,
+          pageSize: limit,
+          totalRecords,
+          totalPages,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve an erasure request and anonymise the account
+   */
+  public static async approveErasureRequest(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const request = await DataPrivacyService.approveErasure(
+        parseInt(req.params.requestId),
+        req.user,
+        req.body.notes
+      );
+
+      res.json({
+        success: true,
+        message: 'Personal data erased successfully',
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reject an erasure request
+   */
+  public static async rejectErasureRequest(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const request = await DataPrivacyService.rejectErasure(
+        parseInt(req.params.requestId),
+        req.user,
+        req.body.notes
+      );
+
+      res.json({
+        success: true,
+        message: 'Erasure request rejected',
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private static sendFile(res: Response, file: IExportFile): void {
+    res.setHeader('Content-Type', file.content_type);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.file_name}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(file.content);
+  }
+}
+
+export default PrivacyController;
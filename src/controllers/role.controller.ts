@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
-import { RoleModel, PermissionModel, UserRoleModel } from '../models/Role';
+import { RoleModel, PermissionModel, UserRoleModel, IRole } from '../models/Role';
+import { PermissionCacheService } from '../services/permissionCache.service';
+import { PermissionMatrixService } from '../services/permissionMatrix.service';
+import { RoleTemplateService } from '../services/roleTemplate.service';
+import { RoutePermissionService } from '../services/routePermission.service';
 import { ApiError } from '../utils/apiError';
-import { IAuthRequest } from '../types';
+import { UserModel } from '../models/User';
+import { IAuthRequest, UserType } from '../types';
 import database from '../config/database';
 import sql from 'mssql';
 
@@ -120,7 +125,10 @@ export class RoleController {
         throw ApiError.forbidden('Cannot update system roles');
       }
 
+      RoleController.assertEditableRole(existingRole, req);
+
       const updatedRole = await RoleModel.updateRole(roleId, req.body);
+      PermissionCacheService.invalidateAll();
 
       res.json({
         success: true,
@@ -135,7 +143,7 @@ export class RoleController {
   /**
    * Delete role
    */
-  public static async deleteRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+  public static async deleteRole(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const roleId = parseInt(req.params.roleId);
 
@@ -153,7 +161,10 @@ export class RoleController {
         throw ApiError.forbidden('Cannot delete system roles');
       }
 
+      RoleController.assertEditableRole(role, req);
+
       await RoleModel.deleteRole(roleId);
+      PermissionCacheService.invalidateAll();
 
       res.json({
         success: true,
@@ -176,11 +187,18 @@ export class RoleController {
         throw ApiError.badRequest('Invalid role ID or permission ID');
       }
 
+      const role = await RoleModel.getRoleById(roleId);
+      if (!role) {
+        throw ApiError.notFound('Role not found');
+      }
+      RoleController.assertEditableRole(role, req);
+
       const rolePermission = await RoleModel.assignPermissionToRole(
         roleId,
         permission_id,
         req.user?.user_id
       );
+      PermissionCacheService.invalidateAll();
 
       res.status(201).json({
         success: true,
@@ -195,7 +213,7 @@ export class RoleController {
   /**
    * Remove permission from role
    */
-  public static async removePermissionFromRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+  public static async removePermissionFromRole(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const roleId = parseInt(req.params.roleId);
       const permissionId = parseInt(req.params.permissionId);
@@ -204,7 +222,14 @@ export class RoleController {
         throw ApiError.badRequest('Invalid role ID or permission ID');
       }
 
+      const role = await RoleModel.getRoleById(roleId);
+      if (!role) {
+        throw ApiError.notFound('Role not found');
+      }
+      RoleController.assertEditableRole(role, req);
+
       await RoleModel.removePermissionFromRole(roleId, permissionId);
+      PermissionCacheService.invalidateAll();
 
       res.json({
         success: true,
@@ -215,6 +240,73 @@ export class RoleController {
     }
   }
 
+  /**
+   * Clone a role and its permissions into a parish
+   */
+  public static async cloneRole(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const roleId = parseInt(req.params.roleId);
+      const { parish_id, role_name, role_code } = req.body;
+
+      const role = await RoleTemplateService.cloneRole(roleId, parish_id, { role_name, role_code }, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role cloned successfully',
+        data: role,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the role-permission matrix of a parish, grouped by module
+   */
+  public static async getPermissionMatrix(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishId = parseInt(req.params.parishId);
+      const matrix = await PermissionMatrixService.getMatrix(parishId, req.user);
+
+      res.json({
+        success: true,
+        data: matrix,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Apply a batch of role-permission changes from the permission grid
+   */
+  public static async updatePermissionMatrix(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const parishId = parseInt(req.params.parishId);
+      const result = await PermissionMatrixService.applyChanges(parishId, req.body.changes, req.user);
+
+      res.json({
+        success: true,
+        message: `Permission matrix updated: ${result.granted} granted, ${result.revoked} removed`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get users with a specific role
    */
@@ -287,6 +379,22 @@ export class RoleController {
     }
   }
 
+  /**
+   * Report which API routes are guarded by a permission, a user type check, authentication only, or nothing
+   */
+  public static async getRouteCoverage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = RoutePermissionService.getCoverageReport(req.app);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // =====================================================
   // USER ROLE MANAGEMENT
   // =====================================================
@@ -334,7 +442,7 @@ export class RoleController {
   }
 
   /**
-   * Get user's permissions
+   * Get user's permissions with the assignments they come from (roles, grants, ward offices, delegations)
    */
   public static async getUserPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -344,7 +452,7 @@ export class RoleController {
         throw ApiError.badRequest('Invalid user ID');
       }
 
-      const permissions = await PermissionModel.getUserPermissions(userId);
+      const permissions = await PermissionModel.getUserPermissionsWithSources(userId);
 
       res.json({
         success: true,
@@ -387,6 +495,21 @@ export class RoleController {
         throw ApiError.badRequest('Invalid user ID or role ID');
       }
 
+      const role = await RoleModel.getRoleById(role_id);
+      if (!role) {
+        throw ApiError.notFound('Role not found');
+      }
+
+      // The route guard only scopes the target user; the role must belong to the same parish,
+      // and roles that reach beyond a parish (GLOBAL, DIOCESE) are assigned by super admins only
+      if (role.parish_id && Number(role.parish_id) !== (await UserModel.findParishId(userId))) {
+        throw ApiError.badRequest('The role belongs to a different parish than the user');
+      }
+      const reachesBeyondParish = !role.parish_id && ['GLOBAL', 'DIOCESE'].includes(role.role_scope || 'GLOBAL');
+      if (reachesBeyondParish && req.user?.user_type !== UserType.SUPER_ADMIN) {
+        throw ApiError.forbidden('Only super admins can assign this role');
+      }
+
       // Get church_admin_id if the current user is a church admin
       // The FK constraint requires church_admin_id, not user_id
       let assignedByChurchAdminId: number | undefined;
@@ -404,6 +527,7 @@ export class RoleController {
         assignedByChurchAdminId,  // Pass church_admin_id, not user_id
         expires_at ? new Date(expires_at) : undefined
       );
+      PermissionCacheService.invalidateUser(userId);
 
       res.status(201).json({
         success: true,
@@ -428,6 +552,7 @@ export class RoleController {
       }
 
       await UserRoleModel.removeRoleFromUser(userId, roleId);
+      PermissionCacheService.invalidateUser(userId);
 
       res.json({
         success: true,
@@ -457,6 +582,7 @@ export class RoleController {
         reason,
         expires_at ? new Date(expires_at) : undefined
       );
+      PermissionCacheService.invalidateUser(userId);
 
       res.status(201).json({
         success: true,
@@ -486,6 +612,7 @@ export class RoleController {
         req.user?.user_id,
         reason
       );
+      PermissionCacheService.invalidateUser(userId);
 
       res.json({
         success: true,
@@ -522,6 +649,18 @@ export class RoleController {
       next(error);
     }
   }
+
+  /**
+   * Permissions of system roles never change, and roles shared by every parish only change through super admins
+   * (the route guard only scopes roles that belong to a parish)
+   */
+  private static assertEditableRole(role: IRole, req: IAuthRequest): void {
+    if (!req.user || !PermissionMatrixService.canEditRole(role, req.user)) {
+      throw ApiError.forbidden(
+        role.is_system_role ? 'Cannot change system roles' : 'Only super admins can change roles shared by every parish'
+      );
+    }
+  }
 }
 
 export default RoleController;
@@ -0,0 +1,159 @@
+import { Response, NextFunction } from 'express';
+import { RoleTemplateService } from '../services/roleTemplate.service';
+import { RoleTemplateModel } from '../models/RoleTemplate';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest } from '../types';
+
+export class RoleTemplateController {
+  /**
+   * Get all role templates
+   */
+  public static async getAll(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const includeInactive = String(req.query.include_inactive) === 'true';
+
+      const templates = await RoleTemplateModel.findAll(includeInactive);
+
+      res.json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a role template with its permissions and derived roles
+   */
+  public static async getById(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const templateId = parseInt(req.params.templateId);
+
+      const template = await RoleTemplateService.getTemplate(templateId);
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a role template (Super Admin only)
+   */
+  public static async create(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const { permission_ids, ...data } = req.body;
+
+      const template = await RoleTemplateService.createTemplate(data, permission_ids, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role template created successfully',
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a role template, optionally syncing its derived roles (Super Admin only)
+   */
+  public static async update(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const templateId = parseInt(req.params.templateId);
+      const { permission_ids, sync, ...data } = req.body;
+
+      const result = await RoleTemplateService.updateTemplate(templateId, data, permission_ids, sync, req.user);
+
+      res.json({
+        success: true,
+        message: result.sync
+          ? `Role template updated and synced to ${result.sync.roles} roles`
+          : 'Role template updated successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate a role template (Super Admin only)
+   */
+  public static async delete(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      await RoleTemplateService.deleteTemplate(parseInt(req.params.templateId), req.user);
+
+      res.json({
+        success: true,
+        message: 'Role template deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Push the template's permissions to every role created from it (Super Admin only)
+   */
+  public static async sync(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const result = await RoleTemplateService.syncTemplate(parseInt(req.params.templateId), req.user);
+
+      res.json({
+        success: true,
+        message: `Role template synced to ${result.roles} roles`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a parish role from a template
+   */
+  public static async instantiate(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized('User not authenticated');
+      }
+
+      const templateId = parseInt(req.params.templateId);
+      const { parish_id, role_name, role_code } = req.body;
+
+      const role = await RoleTemplateService.instantiate(templateId, parish_id, { role_name, role_code }, req.user);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created from template successfully',
+        data: role,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default RoleTemplateController;
@@ -0,0 +1,218 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserModel } from '../models/User';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { SessionService } from '../services/session.service';
+import { LoginSecurityService } from '../services/loginSecurity.service';
+import { JwtUtil } from '../utils/jwt';
+import { ApiError } from '../utils/apiError';
+import { IAuthRequest, IAuthResponse, IUser } from '../types';
+import logger from '../utils/logger';
+
+export class TwoFactorController {
+  /**
+   * Get 2FA status of the current user
+   */
+  public static async getStatus(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await TwoFactorController.resolveUser(req);
+      const status = await TwoFactorService.getStatus(user);
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start 2FA enrolment - returns the secret and otpauth:// URI to render as a QR code
+   * Works with an access token, or with the setup token returned by login when 2FA is mandatory
+   */
+  public static async setup(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await TwoFactorController.resolveUser(req);
+      const setup = await TwoFactorService.beginSetup(user);
+
+      res.json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app and confirm with a code',
+        data: setup,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm enrolment with the first code and receive recovery codes
+   * When enrolling during login (setup token), a session is started as well
+   */
+  public static async enable(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await TwoFactorController.resolveUser(req);
+      const recoveryCodes = await TwoFactorService.enable(user, req.body.code);
+
+      if (req.user) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication enabled. Store your recovery codes in a safe place',
+          data: { recovery_codes: recoveryCodes },
+        });
+        return;
+      }
+
+      await UserModel.updateLastLogin(user.user_id);
+      await LoginSecurityService.registerSuccess(user, 'two_factor', SessionService.getRequestContext(req));
+      const response = await TwoFactorController.startSession(req, user);
+
+      res.json({
+        ...response,
+        message: 'Two-factor authentication enabled. Store your recovery codes in a safe place',
+        data: { ...response.data, recovery_codes: recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Second login step - exchange the challenge token and a code for a session
+   */
+  public static async verify(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { two_factor_token, code, recovery_code } = req.body;
+      const context = SessionService.getRequestContext(req);
+
+      const user = await TwoFactorController.findActiveUser(
+        TwoFactorController.verifyChallengeToken(two_factor_token, 'two_factor_login')
+      );
+
+      await LoginSecurityService.assertNotLocked(user, 'two_factor', context);
+
+      try {
+        await TwoFactorService.verify(user, code, recovery_code);
+      } catch (verifyError) {
+        if (verifyError instanceof ApiError && verifyError.statusCode === 401) {
+          await LoginSecurityService.registerFailure(user, 'two_factor', 'invalid_two_factor', context);
+        }
+        throw verifyError;
+      }
+
+      await UserModel.updateLastLogin(user.user_id);
+      await LoginSecurityService.registerSuccess(user, 'two_factor', context);
+      const response = await TwoFactorController.startSession(req, user);
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace recovery codes (requires a current authenticator code)
+   */
+  public static async regenerateRecoveryCodes(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await TwoFactorController.resolveUser(req);
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(user, req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated successfully',
+        data: { recovery_codes: recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Disable 2FA for the current user
+   */
+  public static async disable(req: IAuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await TwoFactorController.resolveUser(req);
+      const { code, recovery_code } = req.body;
+
+      await TwoFactorService.disable(user, code, recovery_code);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the acting user from the access token, or from a 2FA setup token
+   */
+  private static async resolveUser(req: IAuthRequest): Promise<IUser> {
+    if (req.user) {
+      return TwoFactorController.findActiveUser(req.user.user_id);
+    }
+
+    const { two_factor_token } = req.body || {};
+    if (!two_factor_token) {
+      throw ApiError.unauthorized('No token provided');
+    }
+
+    return TwoFactorController.findActiveUser(
+      TwoFactorController.verifyChallengeToken(two_factor_token, 'two_factor_setup')
+    );
+  }
+
+  private static verifyChallengeToken(token: string, purpose: 'two_factor_login' | 'two_factor_setup'): number {
+    try {
+      return JwtUtil.verifyTwoFactorToken(token, purpose);
+    } catch (error) {
+      throw ApiError.unauthorized('Invalid or expired two-factor token');
+    }
+  }
+
+  private static async findActiveUser(userId: number): Promise<IUser> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if (!user.is_active) {
+      throw ApiError.unauthorized('Account is disabled');
+    }
+
+    return user;
+  }
+
+  private static async startSession(req: Request, user: IUser): Promise<IAuthResponse> {
+    const { token, expires_in, expires_at, refresh_token, refresh_expires_at } =
+      await SessionService.createSession(
+        SessionService.buildTokenPayload(user),
+        SessionService.getRequestContext(req)
+      );
+
+    logger.info(`User logged in with two-factor authentication: ${user.email}`);
+
+    return {
+      success: true,
+      data: {
+        token,
+        expires_in,
+        expires_at,
+        refresh_token,
+        refresh_expires_at,
+        user: {
+          user_id: user.user_id,
+          email: user.email,
+          first_name: user.first_name,
+          last_name: user.last_name,
+          user_type: user.user_type,
+        },
+      },
+    };
+  }
+}
+
+export default TwoFactorController;
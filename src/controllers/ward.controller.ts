@@ -4,6 +4,7 @@ import { ParishModel } from '../models/Parish';
 import { ParishionerModel } from '../models/Parishioner';
 import { WardRoleModel } from '../models/WardRole';
 import { RoleModel } from '../models/Role';
+import { PermissionCacheService } from '../services/permissionCache.service';
 import { ApiError } from '../utils/apiError';
 import { IAuthRequest } from '../types';
 
@@ -411,6 +412,9 @@ export class WardController {
         notes,
       });
 
+      // Ward offices grant permissions for the ward
+      PermissionCacheService.invalidateUser(parishioner.user_id);
+
       res.status(201).json({
         success: true,
         message: 'Ward role assigned successfully',
@@ -441,6 +445,8 @@ export class WardController {
         is_active,
       });
 
+      PermissionCacheService.invalidateAll();
+
       res.json({
         success: true,
         message: 'Ward role updated successfully',
@@ -463,6 +469,7 @@ export class WardController {
       }
 
       await WardRoleModel.removeRole(wardRoleId);
+      PermissionCacheService.invalidateAll();
 
       res.json({
         success: true,
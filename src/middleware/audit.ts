@@ -0,0 +1,156 @@
+import { Response, NextFunction } from 'express';
+import { IAuthRequest } from '../types';
+import { AuditService, AuditedTable } from '../services/audit.service';
+import { AuditAction } from '../models/AuditLog';
+import { RoleTemplateModel } from '../models/RoleTemplate';
+import logger from '../utils/logger';
+
+/**
+ * Resolves the records a request changes, when there are several of them
+ */
+export type RecordsResolver = (req: IAuthRequest) => Promise<number[]>;
+
+export interface IAuditTrailOptions {
+  idParam?: string; // Route parameter holding the record ID (updates and deletes)
+  bulk?: boolean; // The request creates many records; the response summary is recorded once
+  parishParam?: string; // Route parameter holding the parish of a bulk create (defaults to body.parish_id)
+  action?: AuditAction; // Recorded instead of the action implied by the HTTP method (e.g. RESTORE)
+  reload?: boolean; // Record the record as loaded after the change instead of the response data
+  recordIds?: RecordsResolver; // The request changes several records; each is reloaded and recorded
+}
+
+const actionFor = (method: string, bulk: boolean): AuditAction | null => {
+  switch (method) {
+    case 'POST':
+      return bulk ? 'BULK_CREATE' : 'CREATE';
+    case 'PUT':
+    case 'PATCH':
+      return 'UPDATE';
+    case 'DELETE':
+      return 'DELETE';
+    default:
+      return null;
+  }
+};
+
+const loadRecord = async (table: AuditedTable, recordId: number): Promise<object | null> => {
+  try {
+    return await AuditService.loadRecord(table, recordId);
+  } catch (error) {
+    logger.warn('Could not load record for audit log', { table, recordId, error });
+    return null;
+  }
+};
+
+const findRecordIds = async (
+  table: AuditedTable,
+  req: IAuthRequest,
+  options: IAuditTrailOptions
+): Promise<number[]> => {
+  if (!options.recordIds) {
+    return [options.idParam ? parseInt(req.params[options.idParam], 10) : NaN];
+  }
+
+  try {
+    return await options.recordIds(req);
+  } catch (error) {
+    logger.warn('Could not find records for audit log', { table, error });
+    return [];
+  }
+};
+
+/**
+ * Record resolvers for routes that change several records
+ */
+export const recordsFrom = {
+  // Roles whose permissions a permission matrix update changes
+  matrixRoles: async (req: IAuthRequest): Promise<number[]> => {
+    const changes: Array<{ role_id: number }> = Array.isArray(req.body?.changes)
+      ? req.body.changes
+      : [];
+    return [...new Set(changes.map((change) => Number(change.role_id)))];
+  },
+
+  // Active roles created from the role template in the route
+  templateRoles: async (req: IAuthRequest): Promise<number[]> => {
+    const roles = await RoleTemplateModel.getDerivedRoles(parseInt(req.params.templateId, 10));
+    return roles.map((role) => Number(role.role_id));
+  },
+
+  // Roles created from the role template, when a template update also syncs them
+  syncedTemplateRoles: async (req: IAuthRequest): Promise<number[]> => {
+    return req.body?.sync === true ? recordsFrom.templateRoles(req) : [];
+  },
+};
+
+/**
+ * Middleware to write an audit log entry for a successful create, update or delete.
+ * Mount it after the permission checks: the record is loaded before the handler runs (old values)
+ * and the `data` of the JSON response is recorded as the new values, unless the record is reloaded.
+ * @param table - Audited table the route changes
+ * @param options - Where to find the record ID(s)
+ */
+export const auditTrail = (table: AuditedTable, options: IAuditTrailOptions = {}) => {
+  return async (req: IAuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    const action = options.action || actionFor(req.method, options.bulk === true);
+    if (!action) {
+      return next();
+    }
+
+    const recordIds = await findRecordIds(table, req, options);
+    const reload = options.reload === true || options.recordIds !== undefined;
+    const bulkParishId = options.bulk
+      ? parseInt(options.parishParam ? req.params[options.parishParam] : req.body?.parish_id, 10)
+      : NaN;
+    const oldValues = new Map<number, object | null>();
+
+    for (const recordId of recordIds) {
+      if (!Number.isNaN(recordId) && action !== 'CREATE') {
+        oldValues.set(recordId, await loadRecord(table, recordId));
+      }
+    }
+
+    let responseBody: { success?: boolean; data?: unknown } | undefined;
+    const json = res.json.bind(res);
+    res.json = (body): Response => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400 || responseBody?.success === false) {
+        return;
+      }
+
+      for (const recordId of recordIds) {
+        void (async (): Promise<void> => {
+          let newValues: unknown;
+          if (action !== 'DELETE') {
+            newValues =
+              reload && !Number.isNaN(recordId)
+                ? await loadRecord(table, recordId)
+                : responseBody?.data;
+          }
+
+          await AuditService.recordChange({
+            table,
+            action,
+            record_id: Number.isNaN(recordId) ? undefined : recordId,
+            parish_id: Number.isNaN(bulkParishId) ? undefined : bulkParishId,
+            old_values: oldValues.get(recordId) ?? null,
+            new_values: newValues,
+            user_id: req.user?.user_id,
+            ip_address: req.ip,
+          });
+        })();
+      }
+    });
+
+    next();
+  };
+};
+
+export default {
+  auditTrail,
+  recordsFrom,
+};
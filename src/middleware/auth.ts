@@ -2,11 +2,23 @@ import { Response, NextFunction } from 'express';
 import { IAuthRequest, UserType } from '../types';
 import { JwtUtil } from '../utils/jwt';
 import { ApiError } from '../utils/apiError';
+import { SessionService } from '../services/session.service';
+import { ImpersonationService } from '../services/impersonation.service';
+import { EmailVerificationService } from '../services/emailVerification.service';
+import { SubscriptionService } from '../services/subscription.service';
+import { UserModel } from '../models/User';
 
 /**
  * Middleware to authenticate JWT token
+ * The token's session must still be active, so revoked devices are rejected immediately
+ * Impersonation tokens are also checked against their impersonation session and audited
+ * Requests of members of a parish with an expired subscription are restricted (see SubscriptionService)
  */
-export const authenticate = (req: IAuthRequest, _res: Response, next: NextFunction): void => {
+export const authenticate = async (
+  req: IAuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
     // Get token from header
     const authHeader = req.headers.authorization;
@@ -20,12 +32,24 @@ export const authenticate = (req: IAuthRequest, _res: Response, next: NextFuncti
     // Verify token
     const payload = JwtUtil.verifyAccessToken(token);
 
+    // Reject tokens whose session was revoked (logout, sign out of all devices)
+    if (!payload.session_id || !(await SessionService.isSessionActive(payload.session_id))) {
+      throw ApiError.unauthorized('Session has been revoked. Please log in again');
+    }
+
+    if (payload.impersonation) {
+      await ImpersonationService.authorizeRequest(req, res, payload.impersonation);
+    }
+
+    // Members of a parish with an expired subscription can only read (grace period), then nothing
+    await SubscriptionService.assertRequestAllowed(payload, req.method, req.baseUrl);
+
     // Attach user to request
     req.user = payload;
 
     next();
   } catch (error) {
-    next(ApiError.unauthorized('Invalid or expired token'));
+    next(error instanceof ApiError ? error : ApiError.unauthorized('Invalid or expired token'));
   }
 };
 
@@ -72,6 +96,35 @@ export const requireChurchAdmin = (
   authorize(UserType.SUPER_ADMIN, UserType.CHURCH_ADMIN)(req, _res, next);
 };
 
+/**
+ * Middleware to require a verified email address
+ * Only enforced when EMAIL_VERIFICATION_ENFORCEMENT is 'routes' or 'login'
+ */
+export const requireVerifiedEmail = async (
+  req: IAuthRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized('Authentication required');
+    }
+
+    const user = await UserModel.findById(req.user.user_id);
+    if (!user) {
+      throw ApiError.unauthorized('User not found');
+    }
+
+    if (EmailVerificationService.isAccessRestricted(user)) {
+      throw ApiError.forbidden('Please verify your email address to access this resource');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Middleware to check if user belongs to the same parish
  */
@@ -105,18 +158,32 @@ export const requireSameParish = (req: IAuthRequest, _res: Response, next: NextF
 /**
  * Optional authentication - doesn't fail if no token provided
  */
-export const optionalAuth = (req: IAuthRequest, _res: Response, next: NextFunction): void => {
+export const optionalAuth = async (
+  req: IAuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
 
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       const payload = JwtUtil.verifyAccessToken(token);
-      req.user = payload;
+      if (payload.session_id && (await SessionService.isSessionActive(payload.session_id))) {
+        if (payload.impersonation) {
+          await ImpersonationService.authorizeRequest(req, res, payload.impersonation);
+        }
+        req.user = payload;
+      }
     }
 
     next();
   } catch (error) {
+    // Rejected impersonation requests must not continue as anonymous requests
+    if (error instanceof ApiError) {
+      return next(error);
+    }
+
     // Continue without user if token is invalid
     next();
   }
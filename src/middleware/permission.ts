@@ -1,13 +1,136 @@
 import { Response, NextFunction } from 'express';
 import { IAuthRequest } from '../types';
-import { PermissionModel } from '../models/Role';
+import { PermissionModel, RoleModel } from '../models/Role';
+import { UserModel } from '../models/User';
+import { WardModel } from '../models/Ward';
+import { FamilyModel } from '../models/Family';
+import { ParishionerModel } from '../models/Parishioner';
+import { PrayerRequestModel } from '../models/PrayerRequest';
+import { WardRoleModel } from '../models/WardRole';
+import { AudiobookModel } from '../models/Audiobook';
+import { PermissionCacheService, IPermissionTarget } from '../services/permissionCache.service';
 import { ApiError } from '../utils/apiError';
 
+/**
+ * Resolves the parish (and ward) a request targets. Returning an empty target leaves the check
+ * unscoped (e.g. the entity does not exist and the controller will answer 404).
+ */
+export type TargetResolver = (req: IAuthRequest) => Promise<IPermissionTarget>;
+
+const toId = (value: unknown): number | undefined => {
+  const id = parseInt(String(value), 10);
+  return Number.isNaN(id) ? undefined : id;
+};
+
+const toOptionalId = (value: number | string | null | undefined): number | undefined => {
+  return value === null || value === undefined ? undefined : Number(value);
+};
+
+/**
+ * Ward office bearers may edit records of their ward, but moving a record elsewhere needs a parish-wide grant
+ */
+const staysInWard = (req: IAuthRequest, fields: Record<string, number | string | null | undefined>): boolean => {
+  return Object.entries(fields).every(([field, current]) => {
+    const requested = req.body?.[field];
+    return requested === undefined || toId(requested) === toOptionalId(current);
+  });
+};
+
+const wardTarget = async (wardId: number | undefined): Promise<IPermissionTarget> => {
+  const ward = wardId === undefined ? null : await WardModel.findById(wardId);
+  return ward ? { parish_id: toOptionalId(ward.parish_id), ward_id: toOptionalId(ward.ward_id) } : {};
+};
+
+/**
+ * Target resolvers for routes that target an entity instead of a parish
+ */
+export const targetFrom = {
+  param: (name: string): TargetResolver => async (req) => ({ parish_id: toId(req.params[name]) }),
+
+  user: (name: string): TargetResolver => async (req) => {
+    const userId = toId(req.params[name]);
+    return userId === undefined ? {} : { parish_id: toOptionalId(await UserModel.findParishId(userId)) };
+  },
+
+  ward: (name: string): TargetResolver => async (req) => wardTarget(toId(req.params[name])),
+
+  family: (name: string): TargetResolver => async (req) => {
+    const familyId = toId(req.params[name]);
+    const family = familyId === undefined ? null : await FamilyModel.findById(familyId);
+    if (!family) {
+      return {};
+    }
+
+    return {
+      parish_id: toOptionalId(family.parish_id),
+      ward_id: staysInWard(req, { ward_id: family.ward_id }) ? toOptionalId(family.ward_id) : undefined,
+    };
+  },
+
+  parishioner: (name: string): TargetResolver => async (req) => {
+    const parishionerId = toId(req.params[name]);
+    const parishioner = parishionerId === undefined ? null : await ParishionerModel.findById(parishionerId);
+    if (!parishioner) {
+      return {};
+    }
+
+    const current = { ward_id: parishioner.ward_id, family_id: parishioner.family_id };
+    return {
+      parish_id: toOptionalId(parishioner.parish_id),
+      ward_id: staysInWard(req, current) ? toOptionalId(parishioner.ward_id) : undefined,
+    };
+  },
+
+  prayerRequest: (name: string): TargetResolver => async (req) => {
+    const prayerRequestId = toId(req.params[name]);
+    const prayerRequest = prayerRequestId === undefined ? null : await PrayerRequestModel.findById(prayerRequestId);
+    return prayerRequest ? { parish_id: toOptionalId(prayerRequest.parish_id) } : {};
+  },
+
+  wardRole: (name: string): TargetResolver => async (req) => {
+    const wardRoleId = toId(req.params[name]);
+    const wardRole = wardRoleId === undefined ? null : await WardRoleModel.getWardRoleById(wardRoleId);
+    return wardRole ? wardTarget(toOptionalId(wardRole.ward_id)) : {};
+  },
+
+  role: (name: string): TargetResolver => async (req) => {
+    const roleId = toId(req.params[name]);
+    const role = roleId === undefined ? null : await RoleModel.getRoleById(roleId);
+    if (!role) {
+      return {};
+    }
+    // Roles without a parish (system and shared roles) apply to every parish
+    return role.parish_id ? { parish_id: toOptionalId(role.parish_id) } : { shared: true };
+  },
+
+  audiobook: (name: string): TargetResolver => async (req) => {
+    const audiobookId = toId(req.params[name]);
+    const audiobook = audiobookId === undefined ? null : await AudiobookModel.findById(audiobookId);
+    return audiobook ? { parish_id: toOptionalId(audiobook.parish_id) } : {};
+  },
+};
+
+/**
+ * Default resolver: the parishId route param, else parish_id from the body or query string
+ */
+export const resolveRequestParish: TargetResolver = async (req) => {
+  if (req.params.parishId !== undefined) {
+    return { parish_id: toId(req.params.parishId) };
+  }
+
+  if (req.body?.parish_id !== undefined) {
+    return { parish_id: toId(req.body.parish_id) };
+  }
+
+  return { parish_id: req.query.parish_id !== undefined ? toId(req.query.parish_id) : undefined };
+};
+
 /**
  * Middleware to check if user has required permission
  * @param permissionCode - The permission code to check (e.g., 'events.create')
+ * @param resolveTarget - Resolves the targeted parish/ward; only roles of that parish, its ward or GLOBAL roles count
  */
-export const requirePermission = (permissionCode: string) => {
+export const requirePermission = (permissionCode: string, resolveTarget: TargetResolver = resolveRequestParish) => {
   return async (req: IAuthRequest, _res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
@@ -19,9 +142,10 @@ export const requirePermission = (permissionCode: string) => {
         return next();
       }
 
-      const hasPermission = await PermissionModel.userHasPermission(
+      const hasPermission = await PermissionCacheService.hasPermission(
         req.user.user_id,
-        permissionCode
+        permissionCode,
+        await resolveTarget(req)
       );
 
       if (!hasPermission) {
@@ -38,8 +162,12 @@ export const requirePermission = (permissionCode: string) => {
 /**
  * Middleware to check if user has ANY of the required permissions
  * @param permissionCodes - Array of permission codes
+ * @param resolveTarget - Resolves the targeted parish/ward; only roles of that parish, its ward or GLOBAL roles count
  */
-export const requireAnyPermission = (permissionCodes: string[]) => {
+export const requireAnyPermission = (
+  permissionCodes: string[],
+  resolveTarget: TargetResolver = resolveRequestParish
+) => {
   return async (req: IAuthRequest, _res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
@@ -52,15 +180,8 @@ export const requireAnyPermission = (permissionCodes: string[]) => {
       }
 
       // Check if user has at least one of the permissions
-      for (const permissionCode of permissionCodes) {
-        const hasPermission = await PermissionModel.userHasPermission(
-          req.user.user_id,
-          permissionCode
-        );
-
-        if (hasPermission) {
-          return next();
-        }
+      if (await PermissionCacheService.hasAnyPermission(req.user.user_id, permissionCodes, await resolveTarget(req))) {
+        return next();
       }
 
       throw ApiError.forbidden(`Permission denied. Required one of: ${permissionCodes.join(', ')}`);
@@ -73,8 +194,12 @@ export const requireAnyPermission = (permissionCodes: string[]) => {
 /**
  * Middleware to check if user has ALL of the required permissions
  * @param permissionCodes - Array of permission codes
+ * @param resolveTarget - Resolves the targeted parish/ward; only roles of that parish, its ward or GLOBAL roles count
  */
-export const requireAllPermissions = (permissionCodes: string[]) => {
+export const requireAllPermissions = (
+  permissionCodes: string[],
+  resolveTarget: TargetResolver = resolveRequestParish
+) => {
   return async (req: IAuthRequest, _res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
@@ -87,15 +212,14 @@ export const requireAllPermissions = (permissionCodes: string[]) => {
       }
 
       // Check if user has all permissions
-      for (const permissionCode of permissionCodes) {
-        const hasPermission = await PermissionModel.userHasPermission(
-          req.user.user_id,
-          permissionCode
-        );
-
-        if (!hasPermission) {
-          throw ApiError.forbidden(`Permission denied: ${permissionCode}`);
-        }
+      const missing = await PermissionCacheService.getMissingPermissions(
+        req.user.user_id,
+        permissionCodes,
+        await resolveTarget(req)
+      );
+
+      if (missing.length > 0) {
+        throw ApiError.forbidden(`Permission denied: ${missing[0]}`);
       }
 
       next();
@@ -133,9 +257,14 @@ export const attachUserPermissions = async (
 /**
  * Helper function to check permission in controllers
  * Can be used when you need to check permission conditionally
+ * Pass a target to only honour roles scoped to that parish/ward or GLOBAL roles
  */
-export const checkPermission = async (userId: number, permissionCode: string): Promise<boolean> => {
-  return await PermissionModel.userHasPermission(userId, permissionCode);
+export const checkPermission = async (
+  userId: number,
+  permissionCode: string,
+  target: IPermissionTarget = {}
+): Promise<boolean> => {
+  return await PermissionCacheService.hasPermission(userId, permissionCode, target);
 };
 
 /**
@@ -145,10 +274,11 @@ export const checkPermissions = async (
   userId: number,
   permissionCodes: string[]
 ): Promise<Record<string, boolean>> => {
+  const codes = await PermissionCacheService.getPermissionCodes(userId);
   const results: Record<string, boolean> = {};
 
   for (const code of permissionCodes) {
-    results[code] = await PermissionModel.userHasPermission(userId, code);
+    results[code] = codes.has(code);
   }
 
   return results;
@@ -161,4 +291,6 @@ export default {
   attachUserPermissions,
   checkPermission,
   checkPermissions,
+  targetFrom,
+  resolveRequestParish,
 };
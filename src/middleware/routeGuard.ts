@@ -0,0 +1,41 @@
+import { RequestHandler } from 'express';
+import { ROUTE_PERMISSIONS } from '../config/routePermissions';
+import { requirePermission, requireAnyPermission, requireAllPermissions } from './permission';
+
+// Guards created from the registry, so the route coverage report can recognise them
+const guards = new WeakMap<RequestHandler, string>();
+
+/**
+ * Mount the permission check registered for a route in ROUTE_PERMISSIONS
+ * @param routeKey - "METHOD /path" relative to /api/v1, e.g. 'PUT /families/:id'
+ */
+export const permissionGuard = (routeKey: string): RequestHandler => {
+  const entry = ROUTE_PERMISSIONS[routeKey];
+  if (!entry) {
+    throw new Error(`No permissions registered for route: ${routeKey}`);
+  }
+
+  const [firstPermission] = entry.permissions;
+  let guard: RequestHandler;
+
+  if (entry.permissions.length === 1) {
+    guard = requirePermission(firstPermission, entry.target) as RequestHandler;
+  } else if (entry.match === 'any') {
+    guard = requireAnyPermission(entry.permissions, entry.target) as RequestHandler;
+  } else {
+    guard = requireAllPermissions(entry.permissions, entry.target) as RequestHandler;
+  }
+
+  guards.set(guard, routeKey);
+  return guard;
+};
+
+/**
+ * Registry key of a guard created by permissionGuard (undefined for any other middleware)
+ */
+export const getGuardRouteKey = (handler: RequestHandler): string | undefined => guards.get(handler);
+
+export default {
+  permissionGuard,
+  getGuardRouteKey,
+};
@@ -0,0 +1,34 @@
+import { Response, NextFunction } from 'express';
+import { IAuthRequest, UserType } from '../types';
+import { TargetResolver, resolveRequestParish } from './permission';
+import { SubscriptionService } from '../services/subscription.service';
+import { PlanFeature } from '../constants/subscription';
+
+/**
+ * Middleware to require a feature of the targeted parish's subscription plan
+ * @param feature - Plan feature the route belongs to
+ * @param resolveTarget - Resolves the targeted parish (defaults to the parishId param, then parish_id in the body or query)
+ */
+export const requirePlanFeature = (feature: PlanFeature, resolveTarget: TargetResolver = resolveRequestParish) => {
+  return async (req: IAuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // Super admins can manage every parish regardless of its plan
+      if (req.user?.user_type === UserType.SUPER_ADMIN) {
+        return next();
+      }
+
+      const { parish_id } = await resolveTarget(req);
+      if (parish_id !== undefined) {
+        await SubscriptionService.assertFeature(parish_id, feature);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export default {
+  requirePlanFeature,
+};
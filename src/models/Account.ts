@@ -1,6 +1,8 @@
 import database from '../config/database';
+import sql from 'mssql';
 import { IAccount, IAccountSummary } from '../types';
 import { ApiError } from '../utils/apiError';
+import { AccountJournalModel } from './AccountJournal';
 
 export class AccountModel {
   /**
@@ -223,14 +225,40 @@ export class AccountModel {
     const fieldNames = fields.join(', ');
     const fieldParams = fields.map((f) => `@${f}`).join(', ');
 
-    const result = await database.executeQuery<{ account_id: number }>(
-      `INSERT INTO accounts (${fieldNames})
-       OUTPUT INSERTED.account_id
-       VALUES (${fieldParams})`,
-      params
-    );
+    // The insert and its journal entry are written together
+    const transaction = await database.beginTransaction();
+    let accountId: number;
+
+    try {
+      await AccountJournalModel.openChain(transaction, accountData.parish_id);
+
+      const request = transaction.request();
+      Object.keys(params).forEach((key) => {
+        request.input(key, params[key]);
+      });
+
+      const result = await request.query<{ account_id: number }>(
+        `INSERT INTO accounts (${fieldNames})
+         OUTPUT INSERTED.account_id
+         VALUES (${fieldParams})`
+      );
+      accountId = result.recordset[0].account_id;
+
+      const created = await this.findByIdInTransaction(transaction, accountId);
+      await AccountJournalModel.append(
+        transaction,
+        accountData.parish_id,
+        'CREATE',
+        created ? [created] : [],
+        accountData.created_by
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
 
-    const accountId = result.recordset[0].account_id;
     const account = await this.findById(accountId);
 
     if (!account) {
@@ -245,7 +273,8 @@ export class AccountModel {
    */
   public static async update(
     accountId: number,
-    updates: Partial<Omit<IAccount, 'account_id' | 'parish_id' | 'created_at' | 'updated_at' | 'balance_after'>>
+    updates: Partial<Omit<IAccount, 'account_id' | 'parish_id' | 'created_at' | 'updated_at' | 'balance_after'>>,
+    updatedBy?: number
   ): Promise<IAccount> {
     const existingAccount = await this.findById(accountId);
     if (!existingAccount) {
@@ -266,11 +295,36 @@ export class AccountModel {
       return existingAccount;
     }
 
-    await database.executeQuery(
-      `UPDATE accounts SET ${updateFields.join(', ')}, updated_at = GETDATE()
-       WHERE account_id = @accountId`,
-      params
-    );
+    // The update and its journal entry are written together
+    const transaction = await database.beginTransaction();
+
+    try {
+      await AccountJournalModel.openChain(transaction, existingAccount.parish_id);
+
+      const request = transaction.request();
+      Object.keys(params).forEach((key) => {
+        request.input(key, params[key]);
+      });
+
+      await request.query(
+        `UPDATE accounts SET ${updateFields.join(', ')}, updated_at = GETDATE()
+         WHERE account_id = @accountId`
+      );
+
+      const changed = await this.findByIdInTransaction(transaction, accountId);
+      await AccountJournalModel.append(
+        transaction,
+        existingAccount.parish_id,
+        'UPDATE',
+        changed ? [changed] : [],
+        updatedBy
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
 
     const updatedAccount = await this.findById(accountId);
     if (!updatedAccount) {
@@ -284,16 +338,42 @@ export class AccountModel {
   /**
    * Delete account transaction
    */
-  public static async delete(accountId: number): Promise<void> {
+  public static async delete(accountId: number, deletedBy?: number): Promise<void> {
     const account = await this.findById(accountId);
     if (!account) {
       throw ApiError.notFound('Account transaction not found');
     }
 
-    await database.executeQuery(
-      `DELETE FROM accounts WHERE account_id = @accountId`,
-      { accountId }
-    );
+    // The journal keeps the deleted transaction
+    const transaction = await database.beginTransaction();
+
+    try {
+      await AccountJournalModel.openChain(transaction, account.parish_id);
+
+      const deleted = await this.findByIdInTransaction(transaction, accountId);
+
+      await transaction.request()
+        .input('accountId', sql.BigInt, accountId)
+        .query('DELETE FROM accounts WHERE account_id = @accountId');
+
+      await AccountJournalModel.append(transaction, account.parish_id, 'DELETE', deleted ? [deleted] : [], deletedBy);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  private static async findByIdInTransaction(
+    transaction: sql.Transaction,
+    accountId: number
+  ): Promise<IAccount | null> {
+    const result = await transaction.request()
+      .input('accountId', sql.BigInt, accountId)
+      .query<IAccount>('SELECT * FROM accounts WHERE account_id = @accountId');
+
+    return result.recordset[0] || null;
   }
 
   /**
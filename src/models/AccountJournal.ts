@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import database from '../config/database';
+import sql from 'mssql';
+import { IAccount } from '../types';
+
+export type JournalOperation = 'OPENING' | 'CREATE' | 'UPDATE' | 'DELETE';
+
+export interface IAccountJournalEntry {
+  entry_id: number;
+  parish_id: number;
+  sequence_no: number;
+  account_id: number;
+  operation: JournalOperation;
+  snapshot: string; // JSON of the transaction after the change (before it, for deletes)
+  performed_by?: number;
+  recorded_at: Date;
+  previous_hash: string;
+  entry_hash: string;
+}
+
+// previous_hash of the first entry of every parish
+export const GENESIS_HASH = '0'.repeat(64);
+
+export class AccountJournalModel {
+  /**
+   * Canonical JSON of a transaction, as stored in the journal and compared by verification
+   */
+  public static snapshot(account: IAccount): string {
+    return JSON.stringify({
+      account_id: Number(account.account_id),
+      parish_id: Number(account.parish_id),
+      transaction_date: account.transaction_date ? new Date(account.transaction_date).toISOString() : null,
+      transaction_type: account.transaction_type,
+      category_id: Number(account.category_id),
+      amount: Number(account.amount),
+      description: account.description ?? null,
+      reference_number: account.reference_number ?? null,
+      payment_method: account.payment_method ?? null,
+      balance_after: account.balance_after === null || account.balance_after === undefined ? null : Number(account.balance_after),
+      created_by: account.created_by ? Number(account.created_by) : null,
+    });
+  }
+
+  /**
+   * SHA-256 over the entry's contents and the hash of the entry before it
+   */
+  public static computeHash(entry: Omit<IAccountJournalEntry, 'entry_id' | 'entry_hash'>): string {
+    return crypto
+      .createHash('sha256')
+      .update(
+        [
+          entry.previous_hash,
+          Number(entry.parish_id),
+          Number(entry.sequence_no),
+          Number(entry.account_id),
+          entry.operation,
+          entry.snapshot,
+          entry.performed_by ? Number(entry.performed_by) : '',
+          new Date(entry.recorded_at).toISOString(),
+        ].join('|')
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Lock the parish's journal until the transaction ends. The first time a parish's books change,
+   * its existing transactions are journaled as OPENING entries so the chain covers them.
+   * Call before changing accounts, in the same transaction.
+   */
+  public static async openChain(transaction: sql.Transaction, parishId: number): Promise<void> {
+    const head = await this.lockHead(transaction, parishId);
+    if (head) {
+      return;
+    }
+
+    const existing = await transaction.request()
+      .input('parishId', sql.BigInt, parishId)
+      .query('SELECT * FROM accounts WHERE parish_id = @parishId ORDER BY account_id');
+
+    await this.append(transaction, parishId, 'OPENING', existing.recordset);
+  }
+
+  /**
+   * Append entries for changed transactions to the parish's chain
+   */
+  public static async append(
+    transaction: sql.Transaction,
+    parishId: number,
+    operation: JournalOperation,
+    accounts: IAccount[],
+    performedBy?: number
+  ): Promise<void> {
+    const head = await this.lockHead(transaction, parishId);
+    let sequenceNo = head ? Number(head.sequence_no) : 0;
+    let previousHash = head ? head.entry_hash : GENESIS_HASH;
+
+    for (const account of accounts) {
+      sequenceNo++;
+      const entry = {
+        parish_id: parishId,
+        sequence_no: sequenceNo,
+        account_id: Number(account.account_id),
+        operation,
+        snapshot: this.snapshot(account),
+        performed_by: performedBy,
+        recorded_at: new Date(),
+        previous_hash: previousHash,
+      };
+      const entryHash = this.computeHash(entry);
+
+      await transaction.request()
+        .input('parishId', sql.BigInt, entry.parish_id)
+        .input('sequenceNo', sql.BigInt, entry.sequence_no)
+        .input('accountId', sql.BigInt, entry.account_id)
+        .input('operation', sql.VarChar(20), entry.operation)
+        .input('snapshot', sql.NVarChar(sql.MAX), entry.snapshot)
+        .input('performedBy', sql.BigInt, entry.performed_by || null)
+        .input('recordedAt', sql.DateTime2, entry.recorded_at)
+        .input('previousHash', sql.Char(64), entry.previous_hash)
+        .input('entryHash', sql.Char(64), entryHash)
+        .query(`
+          INSERT INTO account_journal (
+            parish_id, sequence_no, account_id, operation, snapshot, performed_by, recorded_at, previous_hash, entry_hash
+          )
+          VALUES (
+            @parishId, @sequenceNo, @accountId, @operation, @snapshot, @performedBy, @recordedAt, @previousHash, @entryHash
+          )
+        `);
+
+      previousHash = entryHash;
+    }
+  }
+
+  /**
+   * Get a parish's journal in chain order
+   */
+  public static async findByParish(parishId: number): Promise<IAccountJournalEntry[]> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId)
+      .query(`
+        SELECT * FROM account_journal
+        WHERE parish_id = @parishId
+        ORDER BY sequence_no ASC
+      `);
+
+    return result.recordset;
+  }
+
+  private static async lockHead(
+    transaction: sql.Transaction,
+    parishId: number
+  ): Promise<Pick<IAccountJournalEntry, 'sequence_no' | 'entry_hash'> | null> {
+    const result = await transaction.request()
+      .input('parishId', sql.BigInt, parishId)
+      .query(`
+        SELECT TOP 1 sequence_no, entry_hash FROM account_journal WITH (UPDLOCK, HOLDLOCK)
+        WHERE parish_id = @parishId
+        ORDER BY sequence_no DESC
+      `);
+
+    return result.recordset[0] || null;
+  }
+}
+
+export default AccountJournalModel;
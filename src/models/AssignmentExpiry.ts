@@ -0,0 +1,174 @@
+import database from '../config/database';
+import sql from 'mssql';
+
+export type AssignmentType = 'USER_ROLE' | 'USER_PERMISSION' | 'WARD_ROLE';
+
+export interface IExpiringAssignment {
+  assignment_type: AssignmentType;
+  assignment_id: number;
+  user_id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  assignment_name: string; // Role name, permission name or ward office
+  ward_name: string | null;
+  parish_id: number | null;
+  parish_name: string | null;
+  expires_at: Date;
+}
+
+export interface IExpiredAssignment {
+  assignment_type: AssignmentType;
+  assignment_id: number;
+  user_id: number | null;
+}
+
+const REMINDER_TABLES: Record<AssignmentType, { table: string; key: string }> = {
+  USER_ROLE: { table: 'user_roles', key: 'user_role_id' },
+  USER_PERMISSION: { table: 'user_permissions', key: 'user_permission_id' },
+  WARD_ROLE: { table: 'ward_roles', key: 'ward_role_id' },
+};
+
+/**
+ * Expiry of time-bound assignments: user_roles, user_permissions and ward_roles
+ */
+export class AssignmentExpiryModel {
+  /**
+   * Active assignments expiring within the given number of days whose holder has not been reminded yet.
+   * Roles without a parish and direct grants are reported against the holder's own parish.
+   */
+  public static async findExpiringSoon(days: number): Promise<IExpiringAssignment[]> {
+    const result = await database.getPool().request()
+      .input('days', sql.Int, days)
+      .query(`
+        SELECT e.assignment_type, e.assignment_id, e.user_id, u.email, u.first_name, u.last_name,
+               e.assignment_name, e.ward_name, e.parish_id, pr.parish_name, e.expires_at
+        FROM (
+          SELECT 'USER_ROLE' AS assignment_type, ur.user_role_id AS assignment_id, ur.user_id,
+                 r.role_name AS assignment_name, CAST(NULL AS NVARCHAR(200)) AS ward_name,
+                 COALESCE(r.parish_id, hp.parish_id) AS parish_id, ur.expires_at
+          FROM user_roles ur
+          INNER JOIN roles r ON ur.role_id = r.role_id
+          OUTER APPLY (
+            SELECT TOP 1 parish_id FROM (
+              SELECT parish_id, 1 AS priority FROM church_admins WHERE user_id = ur.user_id AND is_active = 1
+              UNION ALL
+              SELECT parish_id, 2 AS priority FROM parishioners WHERE user_id = ur.user_id
+            ) user_parishes
+            ORDER BY priority
+          ) hp
+          WHERE ur.is_active = 1
+            AND ur.expiry_reminder_sent_at IS NULL
+            AND ur.expires_at > GETDATE()
+            AND ur.expires_at <= DATEADD(DAY, @days, GETDATE())
+
+          UNION ALL
+
+          SELECT 'USER_PERMISSION', up.user_permission_id, up.user_id,
+                 p.permission_name, NULL, hp.parish_id, up.expires_at
+          FROM user_permissions up
+          INNER JOIN permissions p ON up.permission_id = p.permission_id
+          OUTER APPLY (
+            SELECT TOP 1 parish_id FROM (
+              SELECT parish_id, 1 AS priority FROM church_admins WHERE user_id = up.user_id AND is_active = 1
+              UNION ALL
+              SELECT parish_id, 2 AS priority FROM parishioners WHERE user_id = up.user_id
+            ) user_parishes
+            ORDER BY priority
+          ) hp
+          WHERE up.permission_type = 'GRANT'
+            AND up.is_active = 1
+            AND up.expiry_reminder_sent_at IS NULL
+            AND up.expires_at > GETDATE()
+            AND up.expires_at <= DATEADD(DAY, @days, GETDATE())
+
+          UNION ALL
+
+          SELECT 'WARD_ROLE', wr.ward_role_id, pa.user_id,
+                 wr.role_name, w.ward_name, w.parish_id, wr.expires_at
+          FROM ward_roles wr
+          INNER JOIN parishioners pa ON wr.parishioner_id = pa.parishioner_id
+          INNER JOIN wards w ON wr.ward_id = w.ward_id
+          WHERE wr.is_active = 1
+            AND wr.expiry_reminder_sent_at IS NULL
+            AND wr.expires_at > GETDATE()
+            AND wr.expires_at <= DATEADD(DAY, @days, GETDATE())
+        ) e
+        INNER JOIN users u ON e.user_id = u.user_id
+        LEFT JOIN parishes pr ON e.parish_id = pr.parish_id
+        ORDER BY e.parish_id, e.expires_at
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Record that the holder of an assignment has been reminded of its expiry
+   */
+  public static async markReminderSent(type: AssignmentType, assignmentId: number): Promise<void> {
+    const { table, key } = REMINDER_TABLES[type];
+
+    await database.getPool().request()
+      .input('assignmentId', sql.BigInt, assignmentId)
+      .query(`UPDATE ${table} SET expiry_reminder_sent_at = GETDATE() WHERE ${key} = @assignmentId`);
+  }
+
+  /**
+   * Deactivate every expired assignment and write a permission audit entry for each, in one transaction
+   */
+  public static async deactivateExpired(): Promise<IExpiredAssignment[]> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request().query(`
+        DECLARE @expired TABLE (
+          entity_type VARCHAR(50) NOT NULL,
+          entity_id BIGINT NOT NULL,
+          user_id BIGINT,
+          description NVARCHAR(500)
+        );
+
+        UPDATE ur
+        SET ur.is_active = 0
+        OUTPUT 'USER_ROLE', INSERTED.user_role_id, INSERTED.user_id,
+               CONCAT('Role ', r.role_code, ' of user ', INSERTED.user_id, ' expired')
+        INTO @expired (entity_type, entity_id, user_id, description)
+        FROM user_roles ur
+        INNER JOIN roles r ON ur.role_id = r.role_id
+        WHERE ur.is_active = 1 AND ur.expires_at <= GETDATE();
+
+        UPDATE up
+        SET up.is_active = 0
+        OUTPUT 'USER_PERMISSION', INSERTED.user_permission_id, INSERTED.user_id,
+               CONCAT(INSERTED.permission_type, ' of ', p.permission_code, ' for user ', INSERTED.user_id, ' expired')
+        INTO @expired (entity_type, entity_id, user_id, description)
+        FROM user_permissions up
+        INNER JOIN permissions p ON up.permission_id = p.permission_id
+        WHERE up.is_active = 1 AND up.expires_at <= GETDATE();
+
+        UPDATE wr
+        SET wr.is_active = 0, wr.updated_at = GETDATE()
+        OUTPUT 'WARD_ROLE', INSERTED.ward_role_id, pa.user_id,
+               CONCAT(INSERTED.role_name, ' of ward ', INSERTED.ward_id, ' (parishioner ', INSERTED.parishioner_id, ') expired')
+        INTO @expired (entity_type, entity_id, user_id, description)
+        FROM ward_roles wr
+        INNER JOIN parishioners pa ON wr.parishioner_id = pa.parishioner_id
+        WHERE wr.is_active = 1 AND wr.expires_at <= GETDATE();
+
+        INSERT INTO permission_audit_logs (action_type, entity_type, entity_id, old_value, new_value, description)
+        SELECT 'EXPIRED', entity_type, entity_id, '{"is_active":true}', '{"is_active":false}', description
+        FROM @expired;
+
+        SELECT entity_type AS assignment_type, entity_id AS assignment_id, user_id FROM @expired;
+      `);
+
+      await transaction.commit();
+      return result.recordset;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
+
+export default AssignmentExpiryModel;
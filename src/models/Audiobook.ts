@@ -63,6 +63,20 @@ export class AudiobookModel {
     return result.recordset[0].count;
   }
 
+  /**
+   * Total file size of a parish's active audiobooks in MB
+   */
+  public static async getStorageUsedMb(parishId: number, excludeAudiobookId?: number): Promise<number> {
+    const result = await database.executeQuery<{ used_mb: number }>(
+      `SELECT ISNULL(SUM(file_size_mb), 0) as used_mb FROM audiobooks
+       WHERE parish_id = @parishId AND is_active = 1
+         AND (@excludeAudiobookId IS NULL OR audiobook_id <> @excludeAudiobookId)`,
+      { parishId, excludeAudiobookId: excludeAudiobookId || null }
+    );
+
+    return Number(result.recordset[0].used_mb);
+  }
+
   /**
    * Create a new audiobook
    */
@@ -0,0 +1,103 @@
+import database from '../config/database';
+import sql from 'mssql';
+import { IAuditLog } from '../types';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'BULK_CREATE' | 'RESTORE';
+
+export type ICreateAuditLog = Omit<IAuditLog, 'log_id' | 'timestamp' | 'user_email' | 'user_name'>;
+
+export interface IAuditLogFilters {
+  parish_id?: number;
+  user_id?: number;
+  table_name?: string;
+  record_id?: number;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+}
+
+export class AuditLogModel {
+  /**
+   * Record a change to an audited table
+   */
+  public static async create(entry: ICreateAuditLog): Promise<void> {
+    await database.getPool().request()
+      .input('parishId', sql.BigInt, entry.parish_id || null)
+      .input('userId', sql.BigInt, entry.user_id || null)
+      .input('action', sql.VarChar(20), entry.action)
+      .input('tableName', sql.VarChar(100), entry.table_name || null)
+      .input('recordId', sql.BigInt, entry.record_id || null)
+      .input('oldValues', sql.NVarChar(sql.MAX), entry.old_values || null)
+      .input('newValues', sql.NVarChar(sql.MAX), entry.new_values || null)
+      .input('ipAddress', sql.VarChar(50), entry.ip_address || null)
+      .query(`
+        INSERT INTO audit_logs (parish_id, user_id, action, table_name, record_id, old_values, new_values, ip_address)
+        VALUES (@parishId, @userId, @action, @tableName, @recordId, @oldValues, @newValues, @ipAddress)
+      `);
+  }
+
+  /**
+   * Find audit log entries, newest first, with the name of the user who made the change
+   */
+  public static async find(
+    filters: IAuditLogFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<IAuditLog[]> {
+    const offset = (page - 1) * limit;
+
+    const result = await this.buildFilteredRequest(filters)
+      .input('offset', sql.Int, offset)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT l.*,
+               u.email as user_email,
+               CONCAT(u.first_name, ' ', u.last_name) as user_name
+        FROM audit_logs l
+        LEFT JOIN users u ON l.user_id = u.user_id
+        ${this.buildWhereClause()}
+        ORDER BY l.timestamp DESC, l.log_id DESC
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Count audit log entries matching the filters
+   */
+  public static async count(filters: IAuditLogFilters): Promise<number> {
+    const result = await this.buildFilteredRequest(filters).query(`
+      SELECT COUNT(*) as count
+      FROM audit_logs l
+      ${this.buildWhereClause()}
+    `);
+
+    return result.recordset[0].count;
+  }
+
+  private static buildFilteredRequest(filters: IAuditLogFilters): sql.Request {
+    return database.getPool().request()
+      .input('parishId', sql.BigInt, filters.parish_id || null)
+      .input('userId', sql.BigInt, filters.user_id || null)
+      .input('tableName', sql.VarChar(100), filters.table_name || null)
+      .input('recordId', sql.BigInt, filters.record_id || null)
+      .input('action', sql.VarChar(20), filters.action || null)
+      .input('from', sql.DateTime2, filters.from || null)
+      .input('to', sql.DateTime2, filters.to || null);
+  }
+
+  private static buildWhereClause(): string {
+    return `
+      WHERE (@parishId IS NULL OR l.parish_id = @parishId)
+        AND (@userId IS NULL OR l.user_id = @userId)
+        AND (@tableName IS NULL OR l.table_name = @tableName)
+        AND (@recordId IS NULL OR l.record_id = @recordId)
+        AND (@action IS NULL OR l.action = @action)
+        AND (@from IS NULL OR l.timestamp >= @from)
+        AND (@to IS NULL OR l.timestamp <= @to)
+    `;
+  }
+}
+
+export default AuditLogModel;
@@ -1,8 +1,25 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import database from '../config/database';
+import sql from 'mssql';
 import { IChurchAdmin } from '../types';
 import { ApiError } from '../utils/apiError';
 
+export interface IChurchAdminContact {
+  user_id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+}
+
+export interface IChurchAdminDetails extends IChurchAdmin {
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone?: string;
+  invitation_pending: boolean; // Has not set a password from the invitation yet
+  last_login?: Date;
+}
+
 export class ChurchAdminModel {
 
   public static async findById(churchAdminId: number): Promise<IChurchAdmin | null> {
@@ -32,6 +49,43 @@ export class ChurchAdminModel {
     return result.recordset;
   }
 
+  public static async findDetailsByParishId(parishId: number): Promise<IChurchAdminDetails[]> {
+    const result = await database.executeQuery<IChurchAdminDetails>(
+      `SELECT ca.*, u.email, u.first_name, u.last_name, u.phone, u.must_change_password AS invitation_pending, u.last_login
+       FROM church_admins ca
+       INNER JOIN users u ON ca.user_id = u.user_id
+       WHERE ca.parish_id = @parishId AND ca.is_active = 1
+       ORDER BY ca.is_primary_admin DESC, u.last_name, u.first_name`,
+      { parishId }
+    );
+
+    return result.recordset;
+  }
+
+  public static async findContactsByParishId(parishId: number): Promise<IChurchAdminContact[]> {
+    const result = await database.executeQuery<IChurchAdminContact>(
+      `SELECT u.user_id, u.email, u.first_name, u.last_name
+       FROM church_admins ca
+       INNER JOIN users u ON ca.user_id = u.user_id
+       WHERE ca.parish_id = @parishId AND ca.is_active = 1 AND u.is_active = 1`,
+      { parishId }
+    );
+
+    return result.recordset;
+  }
+
+  public static async findPrimaryContactByParishId(parishId: number): Promise<IChurchAdminContact | null> {
+    const result = await database.executeQuery<IChurchAdminContact>(
+      `SELECT TOP 1 u.user_id, u.email, u.first_name, u.last_name
+       FROM church_admins ca
+       INNER JOIN users u ON ca.user_id = u.user_id
+       WHERE ca.parish_id = @parishId AND ca.is_primary_admin = 1 AND ca.is_active = 1 AND u.is_active = 1`,
+      { parishId }
+    );
+
+    return result.recordset[0] || null;
+  }
+
   public static async create(adminData: {
     user_id: number;
     parish_id: number;
@@ -130,6 +184,90 @@ export class ChurchAdminModel {
     return updated;
   }
 
+  /**
+   * Make an admin the primary admin of their parish, in place of the current one
+   */
+  public static async transferPrimary(parishId: number, churchAdminId: number): Promise<void> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      await transaction.request()
+        .input('parishId', sql.BigInt, parishId)
+        .input('churchAdminId', sql.BigInt, churchAdminId)
+        .query(`
+          UPDATE church_admins
+          SET is_primary_admin = CASE WHEN church_admin_id = @churchAdminId THEN 1 ELSE 0 END, updated_at = GETDATE()
+          WHERE parish_id = @parishId
+            AND (is_primary_admin = 1 OR church_admin_id = @churchAdminId)
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate an admin and their user account, optionally handing the primary admin role to a successor first
+   */
+  public static async deactivate(churchAdminId: number, successorAdminId?: number): Promise<void> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      if (successorAdminId) {
+        await transaction.request()
+          .input('successorAdminId', sql.BigInt, successorAdminId)
+          .query(`
+            UPDATE church_admins SET is_primary_admin = 1, updated_at = GETDATE()
+            WHERE church_admin_id = @successorAdminId
+          `);
+      }
+
+      await transaction.request()
+        .input('churchAdminId', sql.BigInt, churchAdminId)
+        .query(`
+          UPDATE church_admins SET is_active = 0, is_primary_admin = 0, updated_at = GETDATE()
+          WHERE church_admin_id = @churchAdminId;
+
+          UPDATE users SET is_active = 0, updated_at = GETDATE()
+          WHERE user_id = (SELECT user_id FROM church_admins WHERE church_admin_id = @churchAdminId);
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Reactivate a deactivated admin and their user account
+   */
+  public static async reactivate(churchAdminId: number, updates: { role: string; department?: string }): Promise<void> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      await transaction.request()
+        .input('churchAdminId', sql.BigInt, churchAdminId)
+        .input('role', sql.NVarChar(100), updates.role)
+        .input('department', sql.NVarChar(100), updates.department || null)
+        .query(`
+          UPDATE church_admins
+          SET is_active = 1, role = @role, department = @department, updated_at = GETDATE()
+          WHERE church_admin_id = @churchAdminId;
+
+          UPDATE users SET is_active = 1, updated_at = GETDATE()
+          WHERE user_id = (SELECT user_id FROM church_admins WHERE church_admin_id = @churchAdminId);
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
   public static async delete(churchAdminId: number): Promise<void> {
     const admin = await this.findById(churchAdminId);
     if (!admin) {
@@ -141,13 +279,6 @@ export class ChurchAdminModel {
       { churchAdminId }
     );
   }
-
-  public static async hardDeleteByParishId(parishId: number): Promise<void> {
-    await database.executeQuery(
-      `DELETE FROM church_admins WHERE parish_id = @parishId`,
-      { parishId }
-    );
-  }
 }
 
 export default ChurchAdminModel;
@@ -0,0 +1,165 @@
+import database from '../config/database';
+import sql from 'mssql';
+
+export type ErasureRequestStatus = 'pending' | 'completed' | 'rejected' | 'cancelled';
+
+export interface IDataErasureRequest {
+  request_id: number;
+  user_id: number;
+  parish_id?: number;
+  status: ErasureRequestStatus;
+  reason?: string;
+  requested_at: Date;
+  reviewed_by?: number;
+  reviewed_at?: Date;
+  review_notes?: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export interface IDataErasureRequestFilters {
+  parish_id?: number;
+  status?: ErasureRequestStatus;
+}
+
+export class DataErasureRequestModel {
+  /**
+   * Create a pending erasure request
+   */
+  public static async create(userId: number, parishId: number | null, reason?: string): Promise<IDataErasureRequest> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .input('parishId', sql.BigInt, parishId)
+      .input('reason', sql.NVarChar(1000), reason || null)
+      .query(`
+        INSERT INTO data_erasure_requests (user_id, parish_id, reason)
+        OUTPUT INSERTED.*
+        VALUES (@userId, @parishId, @reason)
+      `);
+
+    return result.recordset[0];
+  }
+
+  /**
+   * Find an erasure request
+   */
+  public static async findById(requestId: number): Promise<IDataErasureRequest | null> {
+    const result = await database.getPool().request()
+      .input('requestId', sql.BigInt, requestId)
+      .query(`
+        SELECT der.*, u.email, u.first_name, u.last_name
+        FROM data_erasure_requests der
+        INNER JOIN users u ON der.user_id = u.user_id
+        WHERE der.request_id = @requestId
+      `);
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Get all erasure requests made by a user
+   */
+  public static async findByUser(userId: number): Promise<IDataErasureRequest[]> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        SELECT * FROM data_erasure_requests
+        WHERE user_id = @userId
+        ORDER BY requested_at DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Find the open request of a user, if any
+   */
+  public static async findPendingByUser(userId: number): Promise<IDataErasureRequest | null> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        SELECT TOP 1 * FROM data_erasure_requests
+        WHERE user_id = @userId AND status = 'pending'
+        ORDER BY requested_at DESC
+      `);
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Find erasure requests, optionally limited to a parish and status
+   */
+  public static async find(
+    filters: IDataErasureRequestFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<IDataErasureRequest[]> {
+    const offset = (page - 1) * limit;
+
+    const result = await this.buildFilteredRequest(filters)
+      .input('offset', sql.Int, offset)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT der.*, u.email, u.first_name, u.last_name
+        FROM data_erasure_requests der
+        INNER JOIN users u ON der.user_id = u.user_id
+        ${this.buildWhereClause()}
+        ORDER BY der.requested_at DESC
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Count erasure requests matching the filters
+   */
+  public static async count(filters: IDataErasureRequestFilters): Promise<number> {
+    const result = await this.buildFilteredRequest(filters).query(`
+      SELECT COUNT(*) as count
+      FROM data_erasure_requests der
+      ${this.buildWhereClause()}
+    `);
+
+    return result.recordset[0].count;
+  }
+
+  /**
+   * Close a pending request. Returns false if it was already closed.
+   */
+  public static async close(
+    requestId: number,
+    status: Exclude<ErasureRequestStatus, 'pending'>,
+    reviewedBy: number | null,
+    notes?: string
+  ): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('requestId', sql.BigInt, requestId)
+      .input('status', sql.VarChar(20), status)
+      .input('reviewedBy', sql.BigInt, reviewedBy)
+      .input('notes', sql.NVarChar(1000), notes || null)
+      .query(`
+        UPDATE data_erasure_requests
+        SET status = @status, reviewed_by = @reviewedBy, reviewed_at = GETDATE(), review_notes = @notes
+        WHERE request_id = @requestId AND status = 'pending'
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  private static buildFilteredRequest(filters: IDataErasureRequestFilters): sql.Request {
+    return database.getPool().request()
+      .input('parishId', sql.BigInt, filters.parish_id || null)
+      .input('status', sql.VarChar(20), filters.status || null);
+  }
+
+  private static buildWhereClause(): string {
+    return `
+      WHERE (@parishId IS NULL OR der.parish_id = @parishId)
+        AND (@status IS NULL OR der.status = @status)
+    `;
+  }
+}
+
+export default DataErasureRequestModel;
@@ -0,0 +1,298 @@
+import database from '../config/database';
+import sql from 'mssql';
+import { IParish } from '../types';
+
+export interface IDiocese {
+  diocese_id: number;
+  diocese_name: string;
+  bishop_name?: string;
+  country?: string;
+  email?: string;
+  phone?: string;
+  website_url?: string;
+  is_active: boolean;
+  parish_count?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DioceseData = Partial<Omit<IDiocese, 'diocese_id' | 'parish_count' | 'created_at' | 'updated_at'>>;
+
+export interface IDioceseAdmin {
+  diocese_admin_id: number;
+  diocese_id: number;
+  user_id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  is_active: boolean;
+  assigned_by?: number;
+  assigned_at: Date;
+}
+
+export interface IDioceseParishStats {
+  parish_id: number;
+  parish_name: string;
+  is_active: boolean;
+  parishioners: number;
+  active_parishioners: number;
+  families: number;
+  wards: number;
+  baptisms: number;
+  first_communions: number;
+  confirmations: number;
+  marriages: number;
+  total_income: number;
+  total_expenses: number;
+}
+
+const DIOCESE_COLUMNS = `
+  d.*,
+  (SELECT COUNT(*) FROM parishes p WHERE p.diocese_id = d.diocese_id AND p.deletion_requested_at IS NULL) AS parish_count
+`;
+
+const EDITABLE_COLUMNS: (keyof DioceseData)[] = [
+  'diocese_name',
+  'bishop_name',
+  'country',
+  'email',
+  'phone',
+  'website_url',
+  'is_active',
+];
+
+// Parishioners whose sacrament (date column) falls in @startDate..@endDate; an open end is unbounded
+const countSacrament = (column: string, alias: string): string =>
+  `ISNULL(SUM(CASE WHEN pa.${column} >= ISNULL(@startDate, pa.${column}) ` +
+  `AND pa.${column} <= ISNULL(@endDate, pa.${column}) THEN 1 ELSE 0 END), 0) AS ${alias}`;
+
+export class DioceseModel {
+  public static async findById(dioceseId: number): Promise<IDiocese | null> {
+    const result = await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .query(`SELECT ${DIOCESE_COLUMNS} FROM dioceses d WHERE d.diocese_id = @dioceseId`);
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Get dioceses, optionally only those a diocese admin is assigned to
+   */
+  public static async findAll(adminUserId?: number): Promise<IDiocese[]> {
+    const result = await database.getPool().request()
+      .input('adminUserId', sql.BigInt, adminUserId ?? null)
+      .query(`
+        SELECT ${DIOCESE_COLUMNS}
+        FROM dioceses d
+        WHERE @adminUserId IS NULL
+           OR d.diocese_id IN (
+             SELECT diocese_id FROM diocese_admins WHERE user_id = @adminUserId AND is_active = 1
+           )
+        ORDER BY d.diocese_name
+      `);
+
+    return result.recordset;
+  }
+
+  public static async create(data: DioceseData & { diocese_name: string }): Promise<IDiocese> {
+    const result = await database.getPool().request()
+      .input('dioceseName', sql.NVarChar(200), data.diocese_name)
+      .input('bishopName', sql.NVarChar(200), data.bishop_name || null)
+      .input('country', sql.NVarChar(100), data.country || null)
+      .input('email', sql.NVarChar(255), data.email || null)
+      .input('phone', sql.NVarChar(20), data.phone || null)
+      .input('websiteUrl', sql.NVarChar(500), data.website_url || null)
+      .query(`
+        INSERT INTO dioceses (diocese_name, bishop_name, country, email, phone, website_url)
+        OUTPUT INSERTED.diocese_id
+        VALUES (@dioceseName, @bishopName, @country, @email, @phone, @websiteUrl)
+      `);
+
+    return (await this.findById(result.recordset[0].diocese_id)) as IDiocese;
+  }
+
+  /**
+   * Update a diocese. A new name is copied to parishes.diocese of its parishes.
+   */
+  public static async update(dioceseId: number, updates: DioceseData): Promise<IDiocese | null> {
+    const fields = EDITABLE_COLUMNS.filter((field) => updates[field] !== undefined);
+
+    if (fields.length > 0) {
+      const params: Record<string, unknown> = { dioceseId };
+      for (const field of fields) {
+        params[field] = updates[field];
+      }
+
+      await database.executeQuery(
+        `UPDATE dioceses SET ${fields.map((field) => `${field} = @${field}`).join(', ')}, updated_at = GETDATE()
+         WHERE diocese_id = @dioceseId;
+
+         UPDATE parishes SET diocese = (SELECT diocese_name FROM dioceses WHERE diocese_id = @dioceseId)
+         WHERE diocese_id = @dioceseId;`,
+        params
+      );
+    }
+
+    return this.findById(dioceseId);
+  }
+
+  /**
+   * Get the parishes of a diocese (parishes pending deletion excluded)
+   */
+  public static async findParishes(dioceseId: number): Promise<IParish[]> {
+    const result = await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .query(`
+        SELECT *
+        FROM parishes
+        WHERE diocese_id = @dioceseId AND deletion_requested_at IS NULL
+        ORDER BY parish_name
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Assign a parish to a diocese, or remove it from its diocese (null)
+   */
+  public static async setParishDiocese(parishId: number, dioceseId: number | null): Promise<void> {
+    await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId)
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .query(`
+        UPDATE parishes
+        SET diocese_id = @dioceseId,
+            diocese = COALESCE((SELECT diocese_name FROM dioceses WHERE diocese_id = @dioceseId), diocese),
+            updated_at = GETDATE()
+        WHERE parish_id = @parishId
+      `);
+  }
+
+  /**
+   * Get the figures of each parish of a diocese. Sacraments and account totals can be limited to a date range.
+   */
+  public static async getParishStats(
+    dioceseId: number,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<IDioceseParishStats[]> {
+    const result = await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .input('startDate', sql.Date, startDate || null)
+      .input('endDate', sql.Date, endDate || null)
+      .query(`
+        SELECT
+          p.parish_id,
+          p.parish_name,
+          p.is_active,
+          members.parishioners,
+          members.active_parishioners,
+          members.baptisms,
+          members.first_communions,
+          members.confirmations,
+          members.marriages,
+          (SELECT COUNT(*) FROM families f WHERE f.parish_id = p.parish_id AND f.is_active = 1) AS families,
+          (SELECT COUNT(*) FROM wards w WHERE w.parish_id = p.parish_id AND w.is_active = 1) AS wards,
+          finances.total_income,
+          finances.total_expenses
+        FROM parishes p
+        CROSS APPLY (
+          SELECT
+            COUNT(*) AS parishioners,
+            ISNULL(SUM(CASE WHEN pa.is_active = 1 AND pa.member_status = 'active' THEN 1 ELSE 0 END), 0) AS active_parishioners,
+            ${countSacrament('baptism_date', 'baptisms')},
+            ${countSacrament('first_communion_date', 'first_communions')},
+            ${countSacrament('confirmation_date', 'confirmations')},
+            ${countSacrament('marriage_date', 'marriages')}
+          FROM parishioners pa
+          WHERE pa.parish_id = p.parish_id
+        ) members
+        CROSS APPLY (
+          SELECT
+            ISNULL(SUM(CASE WHEN a.transaction_type = 'income' THEN a.amount ELSE 0 END), 0) AS total_income,
+            ISNULL(SUM(CASE WHEN a.transaction_type = 'expense' THEN a.amount ELSE 0 END), 0) AS total_expenses
+          FROM accounts a
+          WHERE a.parish_id = p.parish_id
+            AND (@startDate IS NULL OR a.transaction_date >= @startDate)
+            AND (@endDate IS NULL OR a.transaction_date <= @endDate)
+        ) finances
+        WHERE p.diocese_id = @dioceseId AND p.deletion_requested_at IS NULL
+        ORDER BY p.parish_name
+      `);
+
+    return result.recordset.map((row: IDioceseParishStats) => ({
+      ...row,
+      parish_id: Number(row.parish_id),
+      total_income: Number(row.total_income),
+      total_expenses: Number(row.total_expenses),
+    }));
+  }
+
+  public static async findAdmins(dioceseId: number): Promise<IDioceseAdmin[]> {
+    const result = await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .query(`
+        SELECT da.*, u.email, u.first_name, u.last_name
+        FROM diocese_admins da
+        INNER JOIN users u ON da.user_id = u.user_id
+        WHERE da.diocese_id = @dioceseId AND da.is_active = 1
+        ORDER BY u.last_name, u.first_name
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Check whether a user is an active admin of a diocese
+   */
+  public static async isAdmin(dioceseId: number, userId: number): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        SELECT 1 AS is_admin
+        FROM diocese_admins
+        WHERE diocese_id = @dioceseId AND user_id = @userId AND is_active = 1
+      `);
+
+    return result.recordset.length > 0;
+  }
+
+  /**
+   * Make a user an admin of a diocese (reactivates a removed assignment)
+   */
+  public static async addAdmin(dioceseId: number, userId: number, assignedBy?: number): Promise<void> {
+    await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .input('userId', sql.BigInt, userId)
+      .input('assignedBy', sql.BigInt, assignedBy || null)
+      .query(`
+        MERGE diocese_admins AS target
+        USING (SELECT @dioceseId AS diocese_id, @userId AS user_id) AS source
+        ON target.diocese_id = source.diocese_id AND target.user_id = source.user_id
+        WHEN MATCHED THEN
+          UPDATE SET is_active = 1, assigned_by = @assignedBy, assigned_at = GETDATE()
+        WHEN NOT MATCHED THEN
+          INSERT (diocese_id, user_id, assigned_by)
+          VALUES (@dioceseId, @userId, @assignedBy);
+      `);
+  }
+
+  /**
+   * Remove a user as admin of a diocese. Returns false if the user was not an admin.
+   */
+  public static async removeAdmin(dioceseId: number, userId: number): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('dioceseId', sql.BigInt, dioceseId)
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        UPDATE diocese_admins
+        SET is_active = 0
+        WHERE diocese_id = @dioceseId AND user_id = @userId AND is_active = 1
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+}
+
+export default DioceseModel;
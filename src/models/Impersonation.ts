@@ -0,0 +1,219 @@
+import database from '../config/database';
+import sql from 'mssql';
+
+export interface IImpersonationSession {
+  impersonation_id: string;
+  impersonator_user_id: number;
+  target_user_id: number;
+  session_id: string;
+  reason: string;
+  read_only: boolean;
+  ip_address?: string;
+  user_agent?: string;
+  started_at: Date;
+  expires_at: Date;
+  ended_at?: Date;
+  impersonator_email?: string;
+  target_email?: string;
+  request_count?: number;
+}
+
+export interface ICreateImpersonationSession {
+  impersonation_id: string;
+  impersonator_user_id: number;
+  target_user_id: number;
+  session_id: string;
+  reason: string;
+  read_only: boolean;
+  expires_in_seconds: number;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface IImpersonationSessionFilters {
+  impersonator_user_id?: number;
+  target_user_id?: number;
+  active_only?: boolean;
+}
+
+export interface IImpersonationAuditLog {
+  audit_id: number;
+  impersonation_id: string;
+  method: string;
+  path: string;
+  status_code: number;
+  blocked: boolean;
+  ip_address?: string;
+  created_at: Date;
+}
+
+export type ICreateImpersonationAuditLog = Omit<IImpersonationAuditLog, 'audit_id' | 'created_at'>;
+
+export class ImpersonationSessionModel {
+  /**
+   * Start an impersonation session
+   */
+  public static async create(session: ICreateImpersonationSession): Promise<IImpersonationSession> {
+    const result = await database.getPool().request()
+      .input('impersonationId', sql.VarChar(36), session.impersonation_id)
+      .input('impersonatorUserId', sql.BigInt, session.impersonator_user_id)
+      .input('targetUserId', sql.BigInt, session.target_user_id)
+      .input('sessionId', sql.VarChar(36), session.session_id)
+      .input('reason', sql.NVarChar(500), session.reason)
+      .input('readOnly', sql.Bit, session.read_only ? 1 : 0)
+      .input('expirySeconds', sql.Int, session.expires_in_seconds)
+      .input('ipAddress', sql.VarChar(50), session.ip_address || null)
+      .input('userAgent', sql.NVarChar(500), session.user_agent || null)
+      .query(`
+        INSERT INTO impersonation_sessions (
+          impersonation_id, impersonator_user_id, target_user_id, session_id, reason, read_only,
+          ip_address, user_agent, expires_at
+        )
+        OUTPUT INSERTED.*
+        VALUES (
+          @impersonationId, @impersonatorUserId, @targetUserId, @sessionId, @reason, @readOnly,
+          @ipAddress, @userAgent, DATEADD(SECOND, @expirySeconds, GETDATE())
+        )
+      `);
+
+    return result.recordset[0];
+  }
+
+  /**
+   * Get an impersonation session by ID
+   */
+  public static async findById(impersonationId: string): Promise<IImpersonationSession | null> {
+    const result = await database.getPool().request()
+      .input('impersonationId', sql.VarChar(36), impersonationId)
+      .query('SELECT * FROM impersonation_sessions WHERE impersonation_id = @impersonationId');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Check whether an impersonation session is still usable (not ended, not expired)
+   */
+  public static async isActive(impersonationId: string): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('impersonationId', sql.VarChar(36), impersonationId)
+      .query(`
+        SELECT COUNT(*) as count FROM impersonation_sessions
+        WHERE impersonation_id = @impersonationId
+          AND ended_at IS NULL
+          AND expires_at > GETDATE()
+      `);
+
+    return result.recordset[0].count > 0;
+  }
+
+  /**
+   * Find impersonation sessions with the number of requests made in each
+   */
+  public static async find(
+    filters: IImpersonationSessionFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<IImpersonationSession[]> {
+    const offset = (page - 1) * limit;
+
+    const result = await this.buildFilteredRequest(filters)
+      .input('offset', sql.Int, offset)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT s.*,
+               admin.email as impersonator_email,
+               target.email as target_email,
+               (SELECT COUNT(*) FROM impersonation_audit_logs a WHERE a.impersonation_id = s.impersonation_id) as request_count
+        FROM impersonation_sessions s
+        INNER JOIN users admin ON s.impersonator_user_id = admin.user_id
+        INNER JOIN users target ON s.target_user_id = target.user_id
+        ${this.buildWhereClause()}
+        ORDER BY s.started_at DESC
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Count impersonation sessions matching the filters
+   */
+  public static async count(filters: IImpersonationSessionFilters): Promise<number> {
+    const result = await this.buildFilteredRequest(filters).query(`
+      SELECT COUNT(*) as count
+      FROM impersonation_sessions s
+      ${this.buildWhereClause()}
+    `);
+
+    return result.recordset[0].count;
+  }
+
+  /**
+   * End an impersonation session. Returns false if it had already ended.
+   */
+  public static async end(impersonationId: string): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('impersonationId', sql.VarChar(36), impersonationId)
+      .query(`
+        UPDATE impersonation_sessions
+        SET ended_at = GETDATE()
+        WHERE impersonation_id = @impersonationId AND ended_at IS NULL
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  private static buildFilteredRequest(filters: IImpersonationSessionFilters): sql.Request {
+    return database.getPool().request()
+      .input('impersonatorUserId', sql.BigInt, filters.impersonator_user_id || null)
+      .input('targetUserId', sql.BigInt, filters.target_user_id || null)
+      .input('activeOnly', sql.Bit, filters.active_only ? 1 : 0);
+  }
+
+  private static buildWhereClause(): string {
+    return `
+      WHERE (@impersonatorUserId IS NULL OR s.impersonator_user_id = @impersonatorUserId)
+        AND (@targetUserId IS NULL OR s.target_user_id = @targetUserId)
+        AND (@activeOnly = 0 OR (s.ended_at IS NULL AND s.expires_at > GETDATE()))
+    `;
+  }
+}
+
+export class ImpersonationAuditModel {
+  /**
+   * Record a request made with an impersonation token
+   */
+  public static async create(entry: ICreateImpersonationAuditLog): Promise<void> {
+    await database.getPool().request()
+      .input('impersonationId', sql.VarChar(36), entry.impersonation_id)
+      .input('method', sql.VarChar(10), entry.method)
+      .input('path', sql.NVarChar(500), entry.path)
+      .input('statusCode', sql.Int, entry.status_code)
+      .input('blocked', sql.Bit, entry.blocked ? 1 : 0)
+      .input('ipAddress', sql.VarChar(50), entry.ip_address || null)
+      .query(`
+        INSERT INTO impersonation_audit_logs (impersonation_id, method, path, status_code, blocked, ip_address)
+        VALUES (@impersonationId, @method, @path, @statusCode, @blocked, @ipAddress)
+      `);
+  }
+
+  /**
+   * Get the requests made during an impersonation session
+   */
+  public static async findByImpersonation(impersonationId: string): Promise<IImpersonationAuditLog[]> {
+    const result = await database.getPool().request()
+      .input('impersonationId', sql.VarChar(36), impersonationId)
+      .query(`
+        SELECT * FROM impersonation_audit_logs
+        WHERE impersonation_id = @impersonationId
+        ORDER BY created_at ASC
+      `);
+
+    return result.recordset;
+  }
+}
+
+export default {
+  ImpersonationSessionModel,
+  ImpersonationAuditModel,
+};
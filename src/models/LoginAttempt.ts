@@ -0,0 +1,165 @@
+import database from '../config/database';
+import sql from 'mssql';
+
+export type LoginMethod = 'password' | 'otp' | 'two_factor';
+
+export type LoginOutcome =
+  | 'success'
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'invalid_otp'
+  | 'invalid_two_factor'
+  | 'account_disabled'
+  | 'account_locked';
+
+export interface ILoginAttempt {
+  attempt_id: number;
+  user_id?: number;
+  email: string;
+  ip_address?: string;
+  user_agent?: string;
+  login_method: LoginMethod;
+  outcome: LoginOutcome;
+  created_at: Date;
+  first_name?: string;
+  last_name?: string;
+  user_type?: string;
+}
+
+export interface ICreateLoginAttempt {
+  user_id?: number;
+  email: string;
+  ip_address?: string;
+  user_agent?: string;
+  login_method: LoginMethod;
+  outcome: LoginOutcome;
+}
+
+export interface ILoginAttemptFilters {
+  parish_id?: number;
+  user_id?: number;
+  failed_only?: boolean;
+  days?: number;
+}
+
+export interface ILockedAccount {
+  user_id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  user_type: string;
+  locked_until: Date;
+  lockout_count: number;
+}
+
+export class LoginAttemptModel {
+  /**
+   * Record a login attempt
+   */
+  public static async create(attempt: ICreateLoginAttempt): Promise<void> {
+    await database.getPool().request()
+      .input('userId', sql.BigInt, attempt.user_id || null)
+      .input('email', sql.NVarChar(255), attempt.email)
+      .input('ipAddress', sql.VarChar(50), attempt.ip_address || null)
+      .input('userAgent', sql.NVarChar(500), attempt.user_agent || null)
+      .input('loginMethod', sql.VarChar(20), attempt.login_method)
+      .input('outcome', sql.VarChar(30), attempt.outcome)
+      .query(`
+        INSERT INTO login_attempts (user_id, email, ip_address, user_agent, login_method, outcome)
+        VALUES (@userId, @email, @ipAddress, @userAgent, @loginMethod, @outcome)
+      `);
+  }
+
+  /**
+   * Find login attempts, optionally limited to the users of a parish
+   */
+  public static async find(
+    filters: ILoginAttemptFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<ILoginAttempt[]> {
+    const offset = (page - 1) * limit;
+
+    const result = await this.buildFilteredRequest(filters)
+      .input('offset', sql.Int, offset)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT la.*, u.first_name, u.last_name, u.user_type
+        FROM login_attempts la
+        LEFT JOIN users u ON la.user_id = u.user_id
+        ${this.buildWhereClause()}
+        ORDER BY la.created_at DESC
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Count login attempts matching the filters
+   */
+  public static async count(filters: ILoginAttemptFilters): Promise<number> {
+    const result = await this.buildFilteredRequest(filters).query(`
+      SELECT COUNT(*) as count
+      FROM login_attempts la
+      ${this.buildWhereClause()}
+    `);
+
+    return result.recordset[0].count;
+  }
+
+  /**
+   * Get currently locked accounts, optionally limited to the users of a parish
+   */
+  public static async findLockedAccounts(parishId?: number): Promise<ILockedAccount[]> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId || null)
+      .query(`
+        SELECT u.user_id, u.email, u.first_name, u.last_name, u.user_type, u.locked_until, u.lockout_count
+        FROM users u
+        WHERE u.locked_until > GETDATE()
+          AND (@parishId IS NULL OR u.user_id IN (
+            SELECT user_id FROM parishioners WHERE parish_id = @parishId
+            UNION
+            SELECT user_id FROM church_admins WHERE parish_id = @parishId
+          ))
+        ORDER BY u.locked_until DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Delete attempts older than the retention period
+   */
+  public static async cleanupOld(retentionDays: number = 90): Promise<number> {
+    const result = await database.getPool().request()
+      .input('days', sql.Int, retentionDays)
+      .query('DELETE FROM login_attempts WHERE created_at < DATEADD(day, -@days, GETDATE())');
+
+    return result.rowsAffected[0];
+  }
+
+  private static buildFilteredRequest(filters: ILoginAttemptFilters): sql.Request {
+    return database.getPool().request()
+      .input('parishId', sql.BigInt, filters.parish_id || null)
+      .input('userId', sql.BigInt, filters.user_id || null)
+      .input('failedOnly', sql.Bit, filters.failed_only ? 1 : 0)
+      .input('days', sql.Int, filters.days || null);
+  }
+
+  private static buildWhereClause(): string {
+    return `
+      WHERE (@userId IS NULL OR la.user_id = @userId)
+        AND (@failedOnly = 0 OR la.outcome <> 'success')
+        AND (@days IS NULL OR la.created_at >= DATEADD(day, -@days, GETDATE()))
+        AND (@parishId IS NULL OR la.user_id IN (
+          SELECT user_id FROM parishioners WHERE parish_id = @parishId
+          UNION
+          SELECT user_id FROM church_admins WHERE parish_id = @parishId
+        ))
+    `;
+  }
+}
+
+export default LoginAttemptModel;
@@ -1,10 +1,12 @@
 import database from '../config/database';
 import sql from 'mssql';
+import { OtpUtil } from '../utils/otp.util';
 
 export interface IOtp {
   otp_id: number;
   user_id: number;
-  otp_code: string;
+  otp_hash: string;
+  otp_salt: string;
   otp_type: 'login' | 'password_reset' | 'verification';
   delivery_method: 'sms' | 'email';
   phone?: string;
@@ -19,7 +21,7 @@ export interface IOtp {
 
 export interface ICreateOtp {
   user_id: number;
-  otp_code: string;
+  otp_code: string; // Plaintext code - hashed before it is stored
   otp_type: 'login' | 'password_reset' | 'verification';
   delivery_method: 'sms' | 'email';
   phone?: string;
@@ -31,17 +33,19 @@ export interface ICreateOtp {
 
 export class OtpModel {
   /**
-   * Create new OTP
+   * Create new OTP (only a salted hash of the code is stored)
    */
   public static async create(otp: ICreateOtp): Promise<IOtp> {
     // Use SQL Server's DATEADD to avoid timezone issues
     // Calculate minutes from now by comparing expires_at with current time
     const now = new Date();
     const minutesUntilExpiry = Math.round((otp.expires_at.getTime() - now.getTime()) / 60000);
+    const otpSalt = OtpUtil.generateSalt();
 
     const result = await database.getPool().request()
       .input('userId', sql.BigInt, otp.user_id)
-      .input('otpCode', sql.VarChar(6), otp.otp_code)
+      .input('otpHash', sql.VarChar(64), OtpUtil.hashOTP(otp.otp_code, otpSalt))
+      .input('otpSalt', sql.VarChar(32), otpSalt)
       .input('otpType', sql.VarChar(20), otp.otp_type)
       .input('deliveryMethod', sql.VarChar(10), otp.delivery_method)
       .input('phone', sql.VarChar(20), otp.phone || null)
@@ -50,11 +54,11 @@ export class OtpModel {
       .input('ipAddress', sql.VarChar(50), otp.ip_address || null)
       .query(`
         INSERT INTO otp_codes (
-          user_id, otp_code, otp_type, delivery_method, phone, email, expires_at, ip_address
+          user_id, otp_hash, otp_salt, otp_type, delivery_method, phone, email, expires_at, ip_address
         )
         OUTPUT INSERTED.*
         VALUES (
-          @userId, @otpCode, @otpType, @deliveryMethod, @phone, @email,
+          @userId, @otpHash, @otpSalt, @otpType, @deliveryMethod, @phone, @email,
           DATEADD(MINUTE, @expiryMinutes, GETDATE()), @ipAddress
         )
       `);
@@ -83,16 +87,15 @@ export class OtpModel {
 
   /**
    * Verify OTP code
+   * Hashes are compared in constant time against every pending code of the user
    */
   public static async verify(userId: number, otpCode: string, otpType: string = 'login'): Promise<IOtp | null> {
     const result = await database.getPool().request()
       .input('userId', sql.BigInt, userId)
-      .input('otpCode', sql.VarChar(6), otpCode)
       .input('otpType', sql.VarChar(20), otpType)
       .query(`
-        SELECT TOP 1 * FROM otp_codes
+        SELECT * FROM otp_codes
         WHERE user_id = @userId
-          AND otp_code = @otpCode
           AND otp_type = @otpType
           AND is_verified = 0
           AND expires_at > GETDATE()
@@ -100,7 +103,15 @@ export class OtpModel {
         ORDER BY created_at DESC
       `);
 
-    return result.recordset[0] || null;
+    let match: IOtp | null = null;
+    for (const otp of result.recordset as IOtp[]) {
+      // No early exit, so timing does not reveal which code matched
+      if (OtpUtil.compareOTP(otpCode, otp.otp_salt, otp.otp_hash) && !match) {
+        match = otp;
+      }
+    }
+
+    return match;
   }
 
   /**
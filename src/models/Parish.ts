@@ -1,8 +1,23 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import database from '../config/database';
+import sql from 'mssql';
 import { IParish } from '../types';
 import { ApiError } from '../utils/apiError';
-import { ChurchAdminModel } from './ChurchAdmin';
+
+export interface IParishSubscription {
+  parish_id: number;
+  parish_name: string;
+  subscription_plan: string | null;
+  subscription_expiry: Date | null;
+  days_until_expiry: number | null; // Negative once expired
+  reminder_days_before_expiry: number | null; // When the last renewal reminder was sent, relative to the expiry
+}
+
+const SUBSCRIPTION_COLUMNS = `
+  parish_id, parish_name, subscription_plan, subscription_expiry,
+  DATEDIFF(DAY, CAST(GETDATE() AS DATE), subscription_expiry) AS days_until_expiry,
+  DATEDIFF(DAY, CAST(subscription_reminder_sent_at AS DATE), subscription_expiry) AS reminder_days_before_expiry
+`;
 
 export class ParishModel {
   /**
@@ -121,64 +136,205 @@ export class ParishModel {
   }
 
   /**
-   * Delete parish (soft delete)
+   * Mark a parish pending deletion. It is hidden (is_active = 0) and purged once the grace period ends.
+   * Returns false if the parish is already pending deletion.
    */
+  public static async markPendingDeletion(
+    parishId: number,
+    requestedBy: number,
+    graceDays: number,
+    reason?: string
+  ): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId)
+      .input('requestedBy', sql.BigInt, requestedBy)
+      .input('graceDays', sql.Int, graceDays)
+      .input('reason', sql.NVarChar(255), reason || null)
+      .query(`
+        UPDATE parishes
+        SET is_active = 0,
+            deletion_requested_at = GETDATE(),
+            deletion_requested_by = @requestedBy,
+            deletion_scheduled_for = DATEADD(DAY, @graceDays, GETDATE()),
+            deletion_reason = @reason,
+            updated_at = GETDATE()
+        WHERE parish_id = @parishId AND deletion_scheduled_for IS NULL
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
   /**
-   * Permanently delete parish and archive it into deleted_parishes table
+   * Cancel a pending deletion. Returns false if the parish is not pending deletion.
    */
-  public static async delete(parishId: number, deletedBy?: number): Promise<void> {
-    const parish = await this.findById(parishId);
-    if (!parish) {
-      throw ApiError.notFound('Parish not found');
-    }
+  public static async restore(parishId: number): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId)
+      .query(`
+        UPDATE parishes
+        SET is_active = 1,
+            deletion_requested_at = NULL,
+            deletion_requested_by = NULL,
+            deletion_scheduled_for = NULL,
+            deletion_reason = NULL,
+            updated_at = GETDATE()
+        WHERE parish_id = @parishId AND deletion_scheduled_for IS NOT NULL
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Get parishes pending deletion, soonest purge first
+   */
+  public static async findPendingDeletion(): Promise<IParish[]> {
+    const result = await database.executeQuery<IParish>(
+      `SELECT * FROM parishes
+       WHERE deletion_scheduled_for IS NOT NULL
+       ORDER BY deletion_scheduled_for ASC`
+    );
+
+    return result.recordset;
+  }
+
+  /**
+   * Get IDs of parishes whose grace period has ended
+   */
+  public static async findDueForPurge(): Promise<number[]> {
+    const result = await database.executeQuery<{ parish_id: number }>(
+      `SELECT parish_id FROM parishes
+       WHERE deletion_scheduled_for IS NOT NULL AND deletion_scheduled_for <= GETDATE()`
+    );
+
+    return result.recordset.map((row) => Number(row.parish_id));
+  }
+
+  /**
+   * Get a parish's subscription (expiry computed in SQL to avoid timezone issues)
+   */
+  public static async findSubscription(parishId: number): Promise<IParishSubscription | null> {
+    const result = await database.executeQuery<IParishSubscription>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM parishes WHERE parish_id = @parishId`,
+      { parishId }
+    );
 
-    // Step 1: Delete associated ChurchAdmin records
-    await ChurchAdminModel.hardDeleteByParishId(parishId);
-
-    // Step 2: Insert deleted parish data into deleted_parishes
- await database.executeQuery(
-  `INSERT INTO deleted_parish (
-    parish_id, parish_name, diocese, address_line1, address_line2, city, state, country,
-    postal_code, phone, email, website_url, established_date, patron_saint, timezone,
-    subscription_plan, subscription_expiry, deleted_by, created_at, updated_at
-  )
-  VALUES (
-    @parish_id, @parish_name, @diocese, @address_line1, @address_line2, @city, @state, @country,
-    @postal_code, @phone, @email, @website_url, @established_date, @patron_saint, @timezone,
-    @subscription_plan, @subscription_expiry, @deleted_by, @created_at, @updated_at
-  )`,
-  {
-    parish_id: parish.parish_id,
-    parish_name: parish.parish_name,
-    diocese: parish.diocese,
-    address_line1: parish.address_line1,
-    address_line2: parish.address_line2,
-    city: parish.city,
-    state: parish.state,
-    country: parish.country,
-    postal_code: parish.postal_code,
-    phone: parish.phone,
-    email: parish.email,
-    website_url: parish.website_url,
-    established_date: parish.established_date,
-    patron_saint: parish.patron_saint,
-    timezone: parish.timezone,
-    subscription_plan: parish.subscription_plan,
-    subscription_expiry: parish.subscription_expiry,
-    deleted_by: deletedBy || null,
-    created_at: parish.created_at,
-    updated_at: parish.updated_at,
+    return result.recordset[0] || null;
   }
-);
 
+  /**
+   * Get the subscription of the parish a user administers or belongs to
+   */
+  public static async findSubscriptionByUser(userId: number): Promise<IParishSubscription | null> {
+    const result = await database.executeQuery<IParishSubscription>(
+      `SELECT TOP 1 ${SUBSCRIPTION_COLUMNS}
+       FROM parishes
+       INNER JOIN (
+         SELECT parish_id AS user_parish_id, 1 AS priority FROM church_admins WHERE user_id = @userId AND is_active = 1
+         UNION ALL
+         SELECT parish_id AS user_parish_id, 2 AS priority FROM parishioners WHERE user_id = @userId
+       ) user_parishes ON parishes.parish_id = user_parishes.user_parish_id
+       ORDER BY user_parishes.priority`,
+      { userId }
+    );
 
-    // Step 2: Delete from main parishes table
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Get active parishes whose subscription expires within the given days or expired within the given days
+   */
+  public static async findSubscriptionsExpiring(
+    daysAhead: number,
+    daysExpired: number
+  ): Promise<IParishSubscription[]> {
+    const result = await database.executeQuery<IParishSubscription>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM parishes
+       WHERE is_active = 1
+         AND subscription_expiry IS NOT NULL
+         AND subscription_expiry BETWEEN DATEADD(DAY, -@daysExpired, CAST(GETDATE() AS DATE))
+                                     AND DATEADD(DAY, @daysAhead, CAST(GETDATE() AS DATE))
+       ORDER BY subscription_expiry ASC`,
+      { daysAhead, daysExpired }
+    );
+
+    return result.recordset;
+  }
+
+  /**
+   * Record that the renewal reminder for the current expiry stage was sent
+   */
+  public static async markRenewalReminderSent(parishId: number): Promise<void> {
     await database.executeQuery(
-      `DELETE FROM parishes WHERE parish_id = @parish_id`,
-      { parish_id: parishId }
+      `UPDATE parishes SET subscription_reminder_sent_at = GETDATE() WHERE parish_id = @parishId`,
+      { parishId }
     );
   }
 
+  /**
+   * Permanently delete a parish with everything that belongs to it, archiving the parish row
+   * into deleted_parish. Users, the audit log and the account journal are kept.
+   */
+  public static async purge(parishId: number, deletedBy?: number): Promise<void> {
+    const parish = await this.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    const transaction = await database.beginTransaction();
+
+    try {
+      await transaction.request()
+        .input('parishId', sql.BigInt, parishId)
+        .input('deletedBy', sql.BigInt, deletedBy || parish.deletion_requested_by || null)
+        .input('reason', sql.NVarChar(255), parish.deletion_reason || null)
+        .query(`
+          INSERT INTO deleted_parish (
+            parish_id, parish_name, diocese, address_line1, address_line2, city, state, country,
+            postal_code, phone, email, website_url, established_date, patron_saint, timezone,
+            subscription_plan, subscription_expiry, deleted_reason, deleted_by, created_at, updated_at
+          )
+          SELECT
+            parish_id, parish_name, diocese, address_line1, address_line2, city, state, country,
+            postal_code, phone, email, website_url, established_date, patron_saint, timezone,
+            subscription_plan, subscription_expiry, @reason, @deletedBy, created_at, updated_at
+          FROM parishes
+          WHERE parish_id = @parishId
+        `);
+
+      // Dependents first, in foreign key order
+      await transaction.request()
+        .input('parishId', sql.BigInt, parishId)
+        .query(`
+          DELETE FROM permission_delegations WHERE parish_id = @parishId;
+
+          DELETE FROM ward_roles
+          WHERE ward_id IN (SELECT ward_id FROM wards WHERE parish_id = @parishId)
+             OR role_id IN (SELECT role_id FROM roles WHERE parish_id = @parishId);
+
+          DELETE FROM prayer_requests WHERE parish_id = @parishId;
+          UPDATE families SET primary_contact_id = NULL WHERE parish_id = @parishId;
+          DELETE FROM parishioners WHERE parish_id = @parishId;
+          DELETE FROM families WHERE parish_id = @parishId;
+          DELETE FROM wards WHERE parish_id = @parishId;
+          DELETE FROM accounts WHERE parish_id = @parishId;
+          DELETE FROM daily_bible_readings WHERE parish_id = @parishId;
+          DELETE FROM audiobooks WHERE parish_id = @parishId;
+          DELETE FROM data_erasure_requests WHERE parish_id = @parishId;
+          DELETE FROM parish_settings WHERE parish_id = @parishId;
+
+          DELETE FROM user_roles WHERE role_id IN (SELECT role_id FROM roles WHERE parish_id = @parishId);
+          DELETE FROM roles WHERE parish_id = @parishId;
+
+          DELETE FROM church_admins WHERE parish_id = @parishId;
+          DELETE FROM parishes WHERE parish_id = @parishId;
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
 
   /**
    * Count all parishes
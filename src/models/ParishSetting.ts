@@ -0,0 +1,72 @@
+import database from '../config/database';
+import sql from 'mssql';
+import { ParishSettingKey } from '../constants/parishSettings';
+
+export interface IParishSetting {
+  parish_id: number;
+  setting_key: ParishSettingKey;
+  setting_value: string; // JSON
+  updated_by?: number;
+  updated_at: Date;
+}
+
+export class ParishSettingModel {
+  /**
+   * Get the settings a parish overrides
+   */
+  public static async findByParishId(parishId: number): Promise<IParishSetting[]> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId)
+      .query('SELECT * FROM parish_settings WHERE parish_id = @parishId');
+
+    return result.recordset;
+  }
+
+  /**
+   * Save and reset settings of a parish in one transaction
+   * @param values - JSON of each setting to save
+   * @param resetKeys - Settings to return to their default
+   */
+  public static async save(
+    parishId: number,
+    values: Partial<Record<ParishSettingKey, string>>,
+    resetKeys: ParishSettingKey[],
+    updatedBy?: number
+  ): Promise<void> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      for (const [key, value] of Object.entries(values)) {
+        await transaction.request()
+          .input('parishId', sql.BigInt, parishId)
+          .input('key', sql.VarChar(100), key)
+          .input('value', sql.NVarChar(sql.MAX), value)
+          .input('updatedBy', sql.BigInt, updatedBy || null)
+          .query(`
+            MERGE parish_settings AS target
+            USING (SELECT @parishId AS parish_id, @key AS setting_key) AS source
+            ON target.parish_id = source.parish_id AND target.setting_key = source.setting_key
+            WHEN MATCHED THEN
+              UPDATE SET setting_value = @value, updated_by = @updatedBy, updated_at = GETDATE()
+            WHEN NOT MATCHED THEN
+              INSERT (parish_id, setting_key, setting_value, updated_by)
+              VALUES (@parishId, @key, @value, @updatedBy);
+          `);
+      }
+
+      for (const key of resetKeys) {
+        await transaction.request()
+          .input('parishId', sql.BigInt, parishId)
+          .input('key', sql.VarChar(100), key)
+          .query('DELETE FROM parish_settings WHERE parish_id = @parishId AND setting_key = @key');
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
+
+export default ParishSettingModel;
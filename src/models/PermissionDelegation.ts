@@ -0,0 +1,224 @@
+import database from '../config/database';
+import sql from 'mssql';
+import { IPermission } from './Role';
+
+export type DelegationStatus = 'ACTIVE' | 'REVOKED' | 'EXPIRED';
+
+export interface IPermissionDelegation {
+  delegation_id: number;
+  parish_id: number;
+  delegator_user_id: number;
+  delegate_user_id: number;
+  reason: string;
+  starts_at: Date;
+  ends_at: Date;
+  status: DelegationStatus;
+  revoked_by?: number;
+  revoked_at?: Date;
+  created_at: Date;
+  delegator_name?: string;
+  delegate_name?: string;
+  delegate_email?: string;
+  permissions?: IPermission[];
+}
+
+export interface ICreatePermissionDelegation {
+  parish_id: number;
+  delegator_user_id: number;
+  delegate_user_id: number;
+  reason: string;
+  starts_at: Date;
+  ends_at: Date;
+}
+
+export interface IPermissionDelegationFilters {
+  parish_id?: number;
+  delegate_user_id?: number;
+  status?: DelegationStatus;
+}
+
+export class PermissionDelegationModel {
+  /**
+   * Create a delegation with its permissions and a permission audit entry, in one transaction
+   */
+  public static async create(
+    delegation: ICreatePermissionDelegation,
+    permissionIds: number[]
+  ): Promise<IPermissionDelegation> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request()
+        .input('parishId', sql.BigInt, delegation.parish_id)
+        .input('delegatorUserId', sql.BigInt, delegation.delegator_user_id)
+        .input('delegateUserId', sql.BigInt, delegation.delegate_user_id)
+        .input('reason', sql.NVarChar(500), delegation.reason)
+        .input('startsAt', sql.DateTime2, delegation.starts_at)
+        .input('endsAt', sql.DateTime2, delegation.ends_at)
+        .query(`
+          INSERT INTO permission_delegations (parish_id, delegator_user_id, delegate_user_id, reason, starts_at, ends_at)
+          OUTPUT INSERTED.*
+          VALUES (@parishId, @delegatorUserId, @delegateUserId, @reason, @startsAt, @endsAt)
+        `);
+
+      const created: IPermissionDelegation = result.recordset[0];
+
+      for (const permissionId of permissionIds) {
+        await transaction.request()
+          .input('delegationId', sql.BigInt, created.delegation_id)
+          .input('permissionId', sql.BigInt, permissionId)
+          .query(`
+            INSERT INTO permission_delegation_permissions (delegation_id, permission_id)
+            VALUES (@delegationId, @permissionId)
+          `);
+      }
+
+      await transaction.request()
+        .input('delegationId', sql.BigInt, created.delegation_id)
+        .input('performedBy', sql.BigInt, delegation.delegator_user_id)
+        .input('newValue', sql.NVarChar(sql.MAX), JSON.stringify({ ...created, permission_ids: permissionIds }))
+        .input('description', sql.NVarChar(500), `Permissions delegated to user ${delegation.delegate_user_id}`)
+        .query(`
+          INSERT INTO permission_audit_logs (action_type, entity_type, entity_id, performed_by, new_value, description)
+          VALUES ('DELEGATED', 'DELEGATION', @delegationId, @performedBy, @newValue, @description)
+        `);
+
+      await transaction.commit();
+      return created;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Get delegation by ID
+   */
+  public static async findById(delegationId: number): Promise<IPermissionDelegation | null> {
+    const result = await database.getPool().request()
+      .input('delegationId', sql.BigInt, delegationId)
+      .query(`
+        SELECT pd.*,
+               CONCAT(dr.first_name, ' ', dr.last_name) AS delegator_name,
+               CONCAT(de.first_name, ' ', de.last_name) AS delegate_name,
+               de.email AS delegate_email
+        FROM permission_delegations pd
+        INNER JOIN users dr ON pd.delegator_user_id = dr.user_id
+        INNER JOIN users de ON pd.delegate_user_id = de.user_id
+        WHERE pd.delegation_id = @delegationId
+      `);
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Find delegations, newest first
+   */
+  public static async find(filters: IPermissionDelegationFilters): Promise<IPermissionDelegation[]> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, filters.parish_id || null)
+      .input('delegateUserId', sql.BigInt, filters.delegate_user_id || null)
+      .input('status', sql.VarChar(20), filters.status || null)
+      .query(`
+        SELECT pd.*,
+               CONCAT(dr.first_name, ' ', dr.last_name) AS delegator_name,
+               CONCAT(de.first_name, ' ', de.last_name) AS delegate_name,
+               de.email AS delegate_email
+        FROM permission_delegations pd
+        INNER JOIN users dr ON pd.delegator_user_id = dr.user_id
+        INNER JOIN users de ON pd.delegate_user_id = de.user_id
+        WHERE (@parishId IS NULL OR pd.parish_id = @parishId)
+          AND (@delegateUserId IS NULL OR pd.delegate_user_id = @delegateUserId)
+          AND (@status IS NULL OR pd.status = @status)
+        ORDER BY pd.created_at DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Get the permissions of a delegation
+   */
+  public static async getPermissions(delegationId: number): Promise<IPermission[]> {
+    const result = await database.getPool().request()
+      .input('delegationId', sql.BigInt, delegationId)
+      .query(`
+        SELECT p.*
+        FROM permissions p
+        INNER JOIN permission_delegation_permissions pdp ON p.permission_id = pdp.permission_id
+        WHERE pdp.delegation_id = @delegationId
+        ORDER BY p.module, p.action
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * End an active delegation early. Returns false if it was no longer active.
+   */
+  public static async revoke(delegationId: number, revokedBy: number): Promise<boolean> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request()
+        .input('delegationId', sql.BigInt, delegationId)
+        .input('revokedBy', sql.BigInt, revokedBy)
+        .query(`
+          UPDATE permission_delegations
+          SET status = 'REVOKED', revoked_by = @revokedBy, revoked_at = GETDATE()
+          WHERE delegation_id = @delegationId AND status = 'ACTIVE'
+        `);
+
+      if (result.rowsAffected[0] > 0) {
+        await transaction.request()
+          .input('delegationId', sql.BigInt, delegationId)
+          .input('performedBy', sql.BigInt, revokedBy)
+          .query(`
+            INSERT INTO permission_audit_logs (action_type, entity_type, entity_id, performed_by, old_value, new_value, description)
+            VALUES ('REVOKED', 'DELEGATION', @delegationId, @performedBy,
+                    '{"status":"ACTIVE"}', '{"status":"REVOKED"}', 'Delegation revoked before its end date')
+          `);
+      }
+
+      await transaction.commit();
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Mark every delegation past its end date as expired and audit each one.
+   * Returns the delegates whose permissions changed.
+   */
+  public static async expireEnded(): Promise<number[]> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request().query(`
+        DECLARE @expired TABLE (delegation_id BIGINT NOT NULL, delegate_user_id BIGINT NOT NULL);
+
+        UPDATE permission_delegations
+        SET status = 'EXPIRED'
+        OUTPUT INSERTED.delegation_id, INSERTED.delegate_user_id INTO @expired
+        WHERE status = 'ACTIVE' AND ends_at <= GETDATE();
+
+        INSERT INTO permission_audit_logs (action_type, entity_type, entity_id, old_value, new_value, description)
+        SELECT 'EXPIRED', 'DELEGATION', delegation_id, '{"status":"ACTIVE"}', '{"status":"EXPIRED"}',
+               CONCAT('Delegation to user ', delegate_user_id, ' reached its end date')
+        FROM @expired;
+
+        SELECT DISTINCT delegate_user_id FROM @expired;
+      `);
+
+      await transaction.commit();
+      return result.recordset.map((row: { delegate_user_id: number }) => Number(row.delegate_user_id));
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
+
+export default PermissionDelegationModel;
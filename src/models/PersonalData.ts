@@ -0,0 +1,252 @@
+import database from '../config/database';
+import sql from 'mssql';
+import { IBibleBookmark, IBibleReadingHistory, IPrayerRequest, IWardRole } from '../types';
+
+export interface IWardRoleRecord extends IWardRole {
+  ward_name: string;
+  role_code: string;
+}
+
+export interface IEmailLogRecord {
+  log_id: number;
+  template_id?: number;
+  recipient_email: string;
+  recipient_name?: string;
+  subject: string;
+  status: string;
+  sent_at?: Date;
+  delivered_at?: Date;
+  opened_at?: Date;
+  clicked_at?: Date;
+  created_at: Date;
+}
+
+export interface IAnonymiseUser {
+  user_id: number;
+  parishioner_id: number | null;
+  email: string;
+  erased_email: string;
+  password_hash: string;
+}
+
+// Replaces the record values of audit log entries about an erased user
+const ERASED_AUDIT_VALUES = JSON.stringify({ erased: true });
+
+/**
+ * Personal Data Model
+ * Everything stored about one user across tables, for data export and erasure requests
+ */
+export class PersonalDataModel {
+  /**
+   * All ward roles of a parishioner, including ended ones
+   */
+  public static async getWardRoles(parishionerId: number): Promise<IWardRoleRecord[]> {
+    const result = await database.getPool().request()
+      .input('parishionerId', sql.BigInt, parishionerId)
+      .query(`
+        SELECT wr.*, w.ward_name, r.role_code
+        FROM ward_roles wr
+        INNER JOIN wards w ON wr.ward_id = w.ward_id
+        INNER JOIN roles r ON wr.role_id = r.role_id
+        WHERE wr.parishioner_id = @parishionerId
+        ORDER BY wr.assigned_at DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * All prayer requests made by a parishioner
+   */
+  public static async getPrayerRequests(parishionerId: number): Promise<IPrayerRequest[]> {
+    const result = await database.getPool().request()
+      .input('parishionerId', sql.BigInt, parishionerId)
+      .query(`
+        SELECT * FROM prayer_requests
+        WHERE requested_by = @parishionerId
+        ORDER BY created_at DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * All bible bookmarks of a user
+   */
+  public static async getBookmarks(userId: number): Promise<IBibleBookmark[]> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('SELECT * FROM bible_bookmarks WHERE user_id = @userId ORDER BY created_at DESC');
+
+    return result.recordset;
+  }
+
+  /**
+   * Full bible reading history of a user
+   */
+  public static async getReadingHistory(userId: number): Promise<IBibleReadingHistory[]> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('SELECT * FROM bible_reading_history WHERE user_id = @userId ORDER BY created_at DESC');
+
+    return result.recordset;
+  }
+
+  /**
+   * Emails sent to an address. Bodies and template variables are left out:
+   * they can contain invitation links and codes that are still valid.
+   */
+  public static async getEmailLogs(email: string): Promise<IEmailLogRecord[]> {
+    const result = await database.getPool().request()
+      .input('email', sql.VarChar(255), email)
+      .query(`
+        SELECT log_id, template_id, recipient_email, recipient_name, subject, status,
+               sent_at, delivered_at, opened_at, clicked_at, created_at
+        FROM email_logs
+        WHERE recipient_email = @email
+        ORDER BY created_at DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Anonymise a user in a single transaction.
+   * The users and parishioners rows are kept (financial entries and sacramental records
+   * reference them), but contact details and personal content are removed. A parishioner's
+   * name and date of birth are only kept when a sacramental date is recorded.
+   * Audit log entries keep who changed what and when, but the record values of the
+   * parishioner (and any entry mentioning the email address) are replaced with a marker.
+   */
+  public static async anonymise(target: IAnonymiseUser): Promise<void> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      await transaction.request()
+        .input('userId', sql.BigInt, target.user_id)
+        .input('erasedEmail', sql.NVarChar(255), target.erased_email)
+        .input('passwordHash', sql.NVarChar(255), target.password_hash)
+        .query(`
+          UPDATE users
+          SET email = @erasedEmail,
+              password_hash = @passwordHash,
+              first_name = 'Erased',
+              last_name = 'User',
+              phone = NULL,
+              profile_image_url = NULL,
+              is_active = 0,
+              email_verified = 0,
+              must_change_password = 0,
+              last_login = NULL,
+              failed_login_attempts = 0,
+              lockout_count = 0,
+              locked_until = NULL,
+              erased_at = GETDATE(),
+              updated_at = GETDATE()
+          WHERE user_id = @userId
+        `);
+
+      if (target.parishioner_id) {
+        await transaction.request()
+          .input('parishionerId', sql.BigInt, target.parishioner_id)
+          .input('erasedValues', sql.NVarChar(sql.MAX), ERASED_AUDIT_VALUES)
+          .query(`
+            UPDATE parishioners
+            SET first_name = CASE WHEN COALESCE(baptism_date, first_communion_date, confirmation_date, marriage_date) IS NULL
+                                  THEN 'Erased' ELSE first_name END,
+                last_name = CASE WHEN COALESCE(baptism_date, first_communion_date, confirmation_date, marriage_date) IS NULL
+                                 THEN 'Parishioner' ELSE last_name END,
+                middle_name = CASE WHEN COALESCE(baptism_date, first_communion_date, confirmation_date, marriage_date) IS NULL
+                                   THEN NULL ELSE middle_name END,
+                date_of_birth = CASE WHEN COALESCE(baptism_date, first_communion_date, confirmation_date, marriage_date) IS NULL
+                                     THEN NULL ELSE date_of_birth END,
+                gender = NULL,
+                marital_status = NULL,
+                occupation = NULL,
+                photo_url = NULL,
+                address_line1 = NULL,
+                address_line2 = NULL,
+                city = NULL,
+                state = NULL,
+                country = NULL,
+                postal_code = NULL,
+                emergency_contact_name = NULL,
+                emergency_contact_phone = NULL,
+                notes = NULL,
+                phone = NULL,
+                email = NULL,
+                member_status = 'inactive',
+                is_active = 0,
+                updated_at = GETDATE()
+            WHERE parishioner_id = @parishionerId;
+
+            UPDATE families SET primary_contact_id = NULL, updated_at = GETDATE()
+            WHERE primary_contact_id = @parishionerId;
+
+            UPDATE ward_roles SET is_active = 0, notes = NULL, updated_at = GETDATE()
+            WHERE parishioner_id = @parishionerId;
+
+            UPDATE audit_logs
+            SET old_values = CASE WHEN old_values IS NULL THEN NULL ELSE @erasedValues END,
+                new_values = CASE WHEN new_values IS NULL THEN NULL ELSE @erasedValues END
+            WHERE table_name = 'parishioners' AND record_id = @parishionerId;
+
+            UPDATE prayer_requests
+            SET requested_by = NULL,
+                requester_name = 'Anonymous',
+                subject = '[erased]',
+                description = '[erased]',
+                notes = NULL,
+                is_anonymous = 1,
+                is_public = 0,
+                updated_at = GETDATE()
+            WHERE requested_by = @parishionerId;
+          `);
+      }
+
+      await transaction.request()
+        .input('userId', sql.BigInt, target.user_id)
+        .input('email', sql.NVarChar(255), target.email)
+        .input('erasedEmail', sql.NVarChar(255), target.erased_email)
+        .input('erasedValues', sql.NVarChar(sql.MAX), ERASED_AUDIT_VALUES)
+        .query(`
+          DELETE FROM bible_bookmarks WHERE user_id = @userId;
+          DELETE FROM bible_reading_history WHERE user_id = @userId;
+          DELETE FROM otp_codes WHERE user_id = @userId;
+          DELETE FROM user_sessions WHERE user_id = @userId;
+          DELETE FROM user_recovery_codes WHERE user_id = @userId;
+          DELETE FROM user_two_factor WHERE user_id = @userId;
+          DELETE FROM login_attempts WHERE user_id = @userId OR email = @email;
+          DELETE FROM email_queue WHERE recipient_email = @email;
+
+          UPDATE email_logs
+          SET recipient_email = @erasedEmail,
+              recipient_name = NULL,
+              body_html = NULL,
+              body_text = NULL,
+              variables = NULL,
+              ip_address = NULL,
+              user_agent = NULL
+          WHERE recipient_email = @email;
+
+          -- Family and bulk-create entries can include the user among other members
+          UPDATE audit_logs
+          SET old_values = CASE WHEN CHARINDEX(@email, old_values) > 0 THEN @erasedValues ELSE old_values END,
+              new_values = CASE WHEN CHARINDEX(@email, new_values) > 0 THEN @erasedValues ELSE new_values END
+          WHERE CHARINDEX(@email, old_values) > 0 OR CHARINDEX(@email, new_values) > 0;
+
+          UPDATE audit_logs SET ip_address = NULL WHERE user_id = @userId;
+
+          UPDATE user_roles SET is_active = 0 WHERE user_id = @userId;
+          UPDATE user_permissions SET is_active = 0, reason = NULL WHERE user_id = @userId;
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
+
+export default PersonalDataModel;
@@ -2,6 +2,7 @@
 import database from '../config/database';
 import { IPrayerRequest } from '../types';
 import { ApiError } from '../utils/apiError';
+import { PARISH_SETTING_DEFAULTS } from '../constants/parishSettings';
 
 export class PrayerRequestModel {
   public static async getChurchAdminId(userId: number): Promise<number | undefined> {
@@ -430,19 +431,32 @@ export class PrayerRequestModel {
     return stats;
   }
 
-  public static async autoArchiveOldRequests(daysOld: number = 10): Promise<number> {
+  /**
+   * Archive open prayer requests older than daysOld, or when not given, older than each parish's
+   * prayer_request_archive_days setting
+   */
+  public static async autoArchiveOldRequests(daysOld?: number): Promise<number> {
     const result = await database.executeQuery<{ affected_rows: number }>(
-      `UPDATE prayer_requests
+      `UPDATE pr
        SET status = 'completed',
            notes = CASE
-             WHEN notes IS NULL OR notes = ''
-             THEN 'Auto-archived after ${daysOld} days'
-             ELSE notes + ' (Auto-archived after ${daysOld} days)'
+             WHEN pr.notes IS NULL OR pr.notes = ''
+             THEN 'Auto-archived after ' + CAST(archive.days AS VARCHAR(10)) + ' days'
+             ELSE pr.notes + ' (Auto-archived after ' + CAST(archive.days AS VARCHAR(10)) + ' days)'
            END,
            updated_at = GETDATE()
-       WHERE status IN ('pending', 'confirmed')
-         AND created_at <= DATEADD(day, -@daysOld, GETDATE())`,
-      { daysOld }
+       FROM prayer_requests pr
+       CROSS APPLY (
+         SELECT COALESCE(
+           @daysOld,
+           (SELECT TRY_CAST(setting_value AS INT) FROM parish_settings
+            WHERE parish_id = pr.parish_id AND setting_key = 'prayer_request_archive_days'),
+           @defaultDaysOld
+         ) AS days
+       ) archive
+       WHERE pr.status IN ('pending', 'confirmed')
+         AND pr.created_at <= DATEADD(day, -archive.days, GETDATE())`,
+      { daysOld: daysOld ?? null, defaultDaysOld: PARISH_SETTING_DEFAULTS.prayer_request_archive_days }
     );
 
     return result.rowsAffected[0] || 0;
@@ -10,6 +10,9 @@ export interface IRole {
   is_system_role: boolean;
   is_active: boolean;
   priority: number;
+  role_scope?: string;
+  is_ward_role?: boolean;
+  template_id?: number; // Template the role was created from; "sync from template" updates its permissions
   created_by?: number;
   created_at: Date;
   updated_at: Date;
@@ -34,6 +37,15 @@ export interface IRolePermission {
   granted_at: Date;
 }
 
+export interface IRolePermissionPair {
+  role_id: number;
+  permission_id: number;
+}
+
+export interface IRolePermissionChange extends IRolePermissionPair {
+  granted: boolean; // false removes the permission from the role
+}
+
 export interface IUserRole {
   user_role_id: number;
   user_id: number;
@@ -56,6 +68,36 @@ export interface IUserPermission {
   is_active: boolean;
 }
 
+export interface IEffectivePermission {
+  permission_code: string;
+  parish_id: number | null; // Parish the permission applies to (null when global or the user has no parish)
+  ward_id: number | null; // Set when the permission comes from a ward office and applies to that ward only
+  is_global: boolean;
+}
+
+export type PermissionSourceType = 'ROLE' | 'DIRECT' | 'WARD_ROLE' | 'DELEGATION';
+
+export interface IPermissionSource {
+  source_type: PermissionSourceType;
+  source_id: number; // user_role_id, user_permission_id, ward_role_id or delegation_id
+  source_name: string; // Role name, ward office or delegator name
+  parish_id: number | null;
+  ward_id: number | null;
+  reason: string | null;
+  expires_at: Date | null;
+}
+
+export interface IUserPermissionWithSources extends IPermission {
+  sources: IPermissionSource[];
+}
+
+interface IEffectivePermissionRow {
+  permission_code: string;
+  parish_id: number | string | null;
+  ward_id: number | string | null;
+  is_global: number;
+}
+
 export interface IPermissionAuditLog {
   audit_id: number;
   action_type: string;
@@ -78,7 +120,7 @@ export class RoleModel {
 
     let query = `
       SELECT role_id, parish_id, role_name, role_code, description,
-             is_system_role, is_active, priority, created_by, created_at, updated_at
+             is_system_role, is_active, priority, template_id, created_by, created_at, updated_at
       FROM roles
       WHERE is_active = 1
     `;
@@ -104,7 +146,7 @@ export class RoleModel {
       .input('roleId', sql.BigInt, roleId)
       .query(`
         SELECT role_id, parish_id, role_name, role_code, description,
-               is_system_role, is_active, priority, created_by, created_at, updated_at
+               is_system_role, is_active, priority, template_id, created_by, created_at, updated_at
         FROM roles
         WHERE role_id = @roleId
       `);
@@ -144,10 +186,12 @@ export class RoleModel {
       .input('isSystemRole', sql.Bit, roleData.is_system_role || 0)
       .input('priority', sql.Int, roleData.priority || 0)
       .input('createdBy', sql.BigInt, roleData.created_by || null)
+      // Roles of a parish apply to that parish unless another scope (e.g. WARD) is given
+      .input('roleScope', sql.VarChar(50), roleData.role_scope || (roleData.parish_id ? 'PARISH' : 'GLOBAL'))
       .query(`
-        INSERT INTO roles (parish_id, role_name, role_code, description, is_system_role, priority, created_by)
+        INSERT INTO roles (parish_id, role_name, role_code, description, is_system_role, priority, created_by, role_scope)
         OUTPUT INSERTED.*
-        VALUES (@parishId, @roleName, @roleCode, @description, @isSystemRole, @priority, @createdBy)
+        VALUES (@parishId, @roleName, @roleCode, @description, @isSystemRole, @priority, @createdBy, @roleScope)
       `);
 
     return result.recordset[0];
@@ -238,6 +282,127 @@ export class RoleModel {
       .query('DELETE FROM role_permissions WHERE role_id = @roleId AND permission_id = @permissionId');
   }
 
+  /**
+   * Copy a role and its permissions into a parish
+   */
+  public static async cloneRole(
+    source: IRole,
+    parishId: number,
+    roleName: string,
+    roleCode: string,
+    createdBy?: number
+  ): Promise<IRole> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request()
+        .input('sourceRoleId', sql.BigInt, source.role_id)
+        .input('parishId', sql.BigInt, parishId)
+        .input('roleName', sql.VarChar(100), roleName)
+        .input('roleCode', sql.VarChar(50), roleCode)
+        .input('createdBy', sql.BigInt, createdBy || null)
+        .query(`
+          INSERT INTO roles (parish_id, role_name, role_code, description, is_system_role, priority,
+                             role_scope, is_ward_role, template_id, created_by)
+          OUTPUT INSERTED.*
+          SELECT @parishId, @roleName, @roleCode, description, 0, priority,
+                 CASE WHEN role_scope = 'WARD' THEN 'WARD' ELSE 'PARISH' END, is_ward_role, template_id, @createdBy
+          FROM roles
+          WHERE role_id = @sourceRoleId
+        `);
+
+      const role: IRole = result.recordset[0];
+
+      await transaction.request()
+        .input('roleId', sql.BigInt, role.role_id)
+        .input('sourceRoleId', sql.BigInt, source.role_id)
+        .input('grantedBy', sql.BigInt, createdBy || null)
+        .query(`
+          INSERT INTO role_permissions (role_id, permission_id, granted_by)
+          SELECT @roleId, permission_id, @grantedBy
+          FROM role_permissions
+          WHERE role_id = @sourceRoleId
+        `);
+
+      await transaction.commit();
+      return role;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Get the role-permission pairs of every role visible to a parish (parish roles and shared roles)
+   */
+  public static async getRolePermissionPairs(parishId?: number): Promise<IRolePermissionPair[]> {
+    const request = database.getPool().request();
+
+    let query = `
+      SELECT rp.role_id, rp.permission_id
+      FROM role_permissions rp
+      INNER JOIN roles r ON rp.role_id = r.role_id
+      WHERE r.is_active = 1
+    `;
+
+    if (parishId) {
+      query += ' AND (r.parish_id = @parishId OR r.parish_id IS NULL)';
+      request.input('parishId', sql.BigInt, parishId);
+    } else {
+      query += ' AND r.parish_id IS NULL';
+    }
+
+    const result = await request.query(query);
+    return result.recordset.map((row: IRolePermissionPair) => ({
+      role_id: Number(row.role_id),
+      permission_id: Number(row.permission_id),
+    }));
+  }
+
+  /**
+   * Grant and remove role permissions in a single transaction
+   */
+  public static async applyPermissionChanges(
+    changes: IRolePermissionChange[],
+    grantedBy?: number
+  ): Promise<{ granted: number; revoked: number }> {
+    const transaction = await database.beginTransaction();
+    let granted = 0;
+    let revoked = 0;
+
+    try {
+      for (const change of changes) {
+        const request = transaction.request()
+          .input('roleId', sql.BigInt, change.role_id)
+          .input('permissionId', sql.BigInt, change.permission_id);
+
+        if (change.granted) {
+          const result = await request
+            .input('grantedBy', sql.BigInt, grantedBy || null)
+            .query(`
+              INSERT INTO role_permissions (role_id, permission_id, granted_by)
+              SELECT @roleId, @permissionId, @grantedBy
+              WHERE NOT EXISTS (
+                SELECT 1 FROM role_permissions WHERE role_id = @roleId AND permission_id = @permissionId
+              )
+            `);
+          granted += result.rowsAffected[0] || 0;
+        } else {
+          const result = await request
+            .query('DELETE FROM role_permissions WHERE role_id = @roleId AND permission_id = @permissionId');
+          revoked += result.rowsAffected[0] || 0;
+        }
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return { granted, revoked };
+  }
+
   /**
    * Get all users with a specific role
    */
@@ -356,6 +521,17 @@ export class PermissionModel {
               AND up.permission_type = 'GRANT'
               AND up.is_active = 1
               AND (up.expires_at IS NULL OR up.expires_at > GETDATE())
+
+            UNION
+
+            -- Temporarily delegated permissions
+            SELECT pdp.permission_id
+            FROM permission_delegation_permissions pdp
+            INNER JOIN permission_delegations pd ON pdp.delegation_id = pd.delegation_id
+            WHERE pd.delegate_user_id = @userId
+              AND pd.status = 'ACTIVE'
+              AND pd.starts_at <= GETDATE()
+              AND pd.ends_at > GETDATE()
           )
           AND p.permission_id NOT IN (
             -- Exclude revoked permissions
@@ -372,6 +548,229 @@ export class PermissionModel {
     return result.recordset;
   }
 
+  /**
+   * Get user's effective permissions, each with every assignment it comes from
+   * (role, direct grant, ward office or delegation). Revoked permissions are left out.
+   */
+  public static async getUserPermissionsWithSources(userId: number): Promise<IUserPermissionWithSources[]> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        WITH sources AS (
+          SELECT rp.permission_id, 'ROLE' AS source_type, ur.user_role_id AS source_id,
+                 r.role_name AS source_name, r.parish_id, CAST(NULL AS BIGINT) AS ward_id,
+                 CAST(NULL AS NVARCHAR(500)) AS reason, ur.expires_at
+          FROM role_permissions rp
+          INNER JOIN user_roles ur ON rp.role_id = ur.role_id
+          INNER JOIN roles r ON ur.role_id = r.role_id
+          WHERE ur.user_id = @userId
+            AND ur.is_active = 1
+            AND (ur.expires_at IS NULL OR ur.expires_at > GETDATE())
+            AND r.is_active = 1
+
+          UNION ALL
+
+          SELECT up.permission_id, 'DIRECT', up.user_permission_id,
+                 'Direct grant', NULL, NULL, CAST(up.reason AS NVARCHAR(500)), up.expires_at
+          FROM user_permissions up
+          WHERE up.user_id = @userId
+            AND up.permission_type = 'GRANT'
+            AND up.is_active = 1
+            AND (up.expires_at IS NULL OR up.expires_at > GETDATE())
+
+          UNION ALL
+
+          SELECT rp.permission_id, 'WARD_ROLE', wr.ward_role_id,
+                 CONCAT(wr.role_name, ' (', w.ward_name, ')'), w.parish_id, wr.ward_id, NULL, wr.expires_at
+          FROM ward_roles wr
+          INNER JOIN parishioners pa ON wr.parishioner_id = pa.parishioner_id
+          INNER JOIN wards w ON wr.ward_id = w.ward_id
+          INNER JOIN roles r ON wr.role_id = r.role_id
+          INNER JOIN role_permissions rp ON r.role_id = rp.role_id
+          WHERE pa.user_id = @userId
+            AND wr.is_active = 1
+            AND (wr.expires_at IS NULL OR wr.expires_at > GETDATE())
+            AND w.is_active = 1
+            AND r.is_active = 1
+
+          UNION ALL
+
+          SELECT pdp.permission_id, 'DELEGATION', pd.delegation_id,
+                 CONCAT('Delegated by ', u.first_name, ' ', u.last_name), pd.parish_id, NULL, pd.reason, pd.ends_at
+          FROM permission_delegation_permissions pdp
+          INNER JOIN permission_delegations pd ON pdp.delegation_id = pd.delegation_id
+          INNER JOIN users u ON pd.delegator_user_id = u.user_id
+          WHERE pd.delegate_user_id = @userId
+            AND pd.status = 'ACTIVE'
+            AND pd.starts_at <= GETDATE()
+            AND pd.ends_at > GETDATE()
+        )
+        SELECT p.permission_id, p.permission_name, p.permission_code,
+               CAST(p.description AS VARCHAR(MAX)) AS description, p.module, p.action, p.is_active, p.created_at,
+               s.source_type, s.source_id, s.source_name, s.parish_id, s.ward_id, s.reason, s.expires_at
+        FROM sources s
+        INNER JOIN permissions p ON s.permission_id = p.permission_id
+        WHERE p.is_active = 1
+          AND NOT EXISTS (
+            SELECT 1
+            FROM user_permissions up
+            WHERE up.permission_id = p.permission_id
+              AND up.user_id = @userId
+              AND up.permission_type = 'REVOKE'
+              AND up.is_active = 1
+              AND (up.expires_at IS NULL OR up.expires_at > GETDATE())
+          )
+        ORDER BY p.module, p.action, s.source_type
+      `);
+
+    const permissions = new Map<number, IUserPermissionWithSources>();
+    for (const row of result.recordset) {
+      const permissionId = Number(row.permission_id);
+      if (!permissions.has(permissionId)) {
+        permissions.set(permissionId, {
+          permission_id: permissionId,
+          permission_name: row.permission_name,
+          permission_code: row.permission_code,
+          description: row.description,
+          module: row.module,
+          action: row.action,
+          is_active: row.is_active,
+          created_at: row.created_at,
+          sources: [],
+        });
+      }
+
+      permissions.get(permissionId)?.sources.push({
+        source_type: row.source_type,
+        source_id: Number(row.source_id),
+        source_name: row.source_name,
+        parish_id: row.parish_id ? Number(row.parish_id) : null,
+        ward_id: row.ward_id ? Number(row.ward_id) : null,
+        reason: row.reason,
+        expires_at: row.expires_at,
+      });
+    }
+
+    return [...permissions.values()];
+  }
+
+  /**
+   * Get every permission a user effectively has, in a single query, with the parish or ward it applies to:
+   * - roles tied to a parish apply to that parish, GLOBAL roles without a parish apply everywhere
+   * - PARISH/WARD roles without a parish (system roles) and direct grants apply to the user's own parish
+   * - DIOCESE roles (diocese admins) also apply to every parish of the dioceses the user administers
+   * - active ward_roles assignments (ward office bearers) apply to that ward only
+   * - active delegations apply to the parish they were made in, between their start and end date
+   * - active revokes remove the permission everywhere
+   */
+  public static async getEffectivePermissions(userId: number): Promise<IEffectivePermission[]> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        WITH home_parish AS (
+          SELECT TOP 1 parish_id FROM (
+            SELECT parish_id, 1 AS priority FROM church_admins WHERE user_id = @userId AND is_active = 1
+            UNION ALL
+            SELECT parish_id, 2 AS priority FROM parishioners WHERE user_id = @userId
+          ) user_parishes
+          ORDER BY priority
+        ),
+        grants AS (
+          -- Granted via role
+          SELECT rp.permission_id,
+                 CASE
+                   WHEN r.parish_id IS NOT NULL THEN r.parish_id
+                   WHEN r.role_scope = 'GLOBAL' THEN NULL
+                   ELSE (SELECT parish_id FROM home_parish)
+                 END AS parish_id,
+                 CAST(NULL AS BIGINT) AS ward_id,
+                 CASE WHEN r.parish_id IS NULL AND r.role_scope = 'GLOBAL' THEN 1 ELSE 0 END AS is_global
+          FROM role_permissions rp
+          INNER JOIN user_roles ur ON rp.role_id = ur.role_id
+          INNER JOIN roles r ON ur.role_id = r.role_id
+          WHERE ur.user_id = @userId
+            AND ur.is_active = 1
+            AND (ur.expires_at IS NULL OR ur.expires_at > GETDATE())
+            AND r.is_active = 1
+
+          UNION
+
+          -- Granted via diocese role, for each parish of the user's dioceses
+          SELECT rp.permission_id, p.parish_id, NULL, 0
+          FROM role_permissions rp
+          INNER JOIN user_roles ur ON rp.role_id = ur.role_id
+          INNER JOIN roles r ON ur.role_id = r.role_id
+          INNER JOIN diocese_admins da ON ur.user_id = da.user_id
+          INNER JOIN dioceses d ON da.diocese_id = d.diocese_id
+          INNER JOIN parishes p ON d.diocese_id = p.diocese_id
+          WHERE ur.user_id = @userId
+            AND ur.is_active = 1
+            AND (ur.expires_at IS NULL OR ur.expires_at > GETDATE())
+            AND r.is_active = 1
+            AND r.role_scope = 'DIOCESE'
+            AND da.is_active = 1
+            AND d.is_active = 1
+
+          UNION
+
+          -- Directly granted
+          SELECT up.permission_id, (SELECT parish_id FROM home_parish), NULL, 0
+          FROM user_permissions up
+          WHERE up.user_id = @userId
+            AND up.permission_type = 'GRANT'
+            AND up.is_active = 1
+            AND (up.expires_at IS NULL OR up.expires_at > GETDATE())
+
+          UNION
+
+          -- Granted via ward office
+          SELECT rp.permission_id, w.parish_id, wr.ward_id, 0
+          FROM ward_roles wr
+          INNER JOIN parishioners pa ON wr.parishioner_id = pa.parishioner_id
+          INNER JOIN wards w ON wr.ward_id = w.ward_id
+          INNER JOIN roles r ON wr.role_id = r.role_id
+          INNER JOIN role_permissions rp ON r.role_id = rp.role_id
+          WHERE pa.user_id = @userId
+            AND wr.is_active = 1
+            AND (wr.expires_at IS NULL OR wr.expires_at > GETDATE())
+            AND w.is_active = 1
+            AND r.is_active = 1
+
+          UNION
+
+          -- Delegated by a church admin
+          SELECT pdp.permission_id, pd.parish_id, NULL, 0
+          FROM permission_delegation_permissions pdp
+          INNER JOIN permission_delegations pd ON pdp.delegation_id = pd.delegation_id
+          WHERE pd.delegate_user_id = @userId
+            AND pd.status = 'ACTIVE'
+            AND pd.starts_at <= GETDATE()
+            AND pd.ends_at > GETDATE()
+        )
+        SELECT DISTINCT p.permission_code, g.parish_id, g.ward_id, g.is_global
+        FROM grants g
+        INNER JOIN permissions p ON g.permission_id = p.permission_id
+        WHERE p.is_active = 1
+          AND NOT EXISTS (
+            -- Revokes win over grants
+            SELECT 1
+            FROM user_permissions up
+            WHERE up.permission_id = p.permission_id
+              AND up.user_id = @userId
+              AND up.permission_type = 'REVOKE'
+              AND up.is_active = 1
+              AND (up.expires_at IS NULL OR up.expires_at > GETDATE())
+          )
+      `);
+
+    return result.recordset.map((row: IEffectivePermissionRow) => ({
+      permission_code: row.permission_code,
+      parish_id: row.parish_id ? Number(row.parish_id) : null,
+      ward_id: row.ward_id ? Number(row.ward_id) : null,
+      is_global: row.is_global === 1,
+    }));
+  }
+
   /**
    * Check if user has specific permission
    */
@@ -404,6 +803,18 @@ export class PermissionModel {
               AND up.is_active = 1
               AND (up.expires_at IS NULL OR up.expires_at > GETDATE())
           )
+          OR EXISTS (
+            -- Check if delegated
+            SELECT 1
+            FROM permissions p
+            INNER JOIN permission_delegation_permissions pdp ON p.permission_id = pdp.permission_id
+            INNER JOIN permission_delegations pd ON pdp.delegation_id = pd.delegation_id
+            WHERE pd.delegate_user_id = @userId
+              AND p.permission_code = @permissionCode
+              AND pd.status = 'ACTIVE'
+              AND pd.starts_at <= GETDATE()
+              AND pd.ends_at > GETDATE()
+          )
           THEN CAST(1 AS BIT)
           ELSE CAST(0 AS BIT)
         END AS has_permission
@@ -488,7 +899,8 @@ export class UserRoleModel {
         ON target.user_id = source.user_id AND target.permission_id = source.permission_id
         WHEN MATCHED THEN
           UPDATE SET permission_type = 'GRANT', is_active = 1, assigned_by = @assignedBy,
-                     reason = @reason, expires_at = @expiresAt, assigned_at = GETDATE()
+                     reason = @reason, expires_at = @expiresAt, assigned_at = GETDATE(),
+                     expiry_reminder_sent_at = NULL
         WHEN NOT MATCHED THEN
           INSERT (user_id, permission_id, permission_type, assigned_by, reason, expires_at)
           VALUES (@userId, @permissionId, 'GRANT', @assignedBy, @reason, @expiresAt)
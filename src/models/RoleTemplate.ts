@@ -0,0 +1,308 @@
+import database from '../config/database';
+import sql from 'mssql';
+import { IRole, IPermission } from './Role';
+
+export interface IRoleTemplate {
+  template_id: number;
+  template_name: string;
+  template_code: string;
+  description?: string;
+  priority: number;
+  is_active: boolean;
+  created_by?: number;
+  created_at: Date;
+  updated_at: Date;
+  permission_count?: number;
+  derived_role_count?: number;
+}
+
+export interface IRoleTemplateInput {
+  template_name?: string;
+  template_code?: string;
+  description?: string;
+  priority?: number;
+  created_by?: number;
+}
+
+export interface IRoleInstance {
+  parish_id: number;
+  role_name: string;
+  role_code: string;
+  created_by?: number;
+}
+
+export interface ITemplateSyncResult {
+  roles: number;
+  granted: number;
+  revoked: number;
+}
+
+export class RoleTemplateModel {
+  /**
+   * Get all templates with their permission and derived role counts
+   */
+  public static async findAll(includeInactive = false): Promise<IRoleTemplate[]> {
+    const result = await database.getPool().request()
+      .input('includeInactive', sql.Bit, includeInactive)
+      .query(`
+        SELECT rt.*,
+               (SELECT COUNT(*) FROM role_template_permissions rtp WHERE rtp.template_id = rt.template_id) AS permission_count,
+               (SELECT COUNT(*) FROM roles r WHERE r.template_id = rt.template_id AND r.is_active = 1) AS derived_role_count
+        FROM role_templates rt
+        WHERE @includeInactive = 1 OR rt.is_active = 1
+        ORDER BY rt.priority DESC, rt.template_name ASC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Get template by ID
+   */
+  public static async findById(templateId: number): Promise<IRoleTemplate | null> {
+    const result = await database.getPool().request()
+      .input('templateId', sql.BigInt, templateId)
+      .query('SELECT * FROM role_templates WHERE template_id = @templateId');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Get template by code
+   */
+  public static async findByCode(templateCode: string): Promise<IRoleTemplate | null> {
+    const result = await database.getPool().request()
+      .input('templateCode', sql.VarChar(50), templateCode)
+      .query('SELECT * FROM role_templates WHERE template_code = @templateCode');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Get the permissions of a template
+   */
+  public static async getPermissions(templateId: number): Promise<IPermission[]> {
+    const result = await database.getPool().request()
+      .input('templateId', sql.BigInt, templateId)
+      .query(`
+        SELECT p.*
+        FROM permissions p
+        INNER JOIN role_template_permissions rtp ON p.permission_id = rtp.permission_id
+        WHERE rtp.template_id = @templateId
+        ORDER BY p.module, p.action
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Get the active roles created from a template
+   */
+  public static async getDerivedRoles(templateId: number): Promise<IRole[]> {
+    const result = await database.getPool().request()
+      .input('templateId', sql.BigInt, templateId)
+      .query(`
+        SELECT role_id, parish_id, role_name, role_code, description,
+               is_system_role, is_active, priority, template_id, created_by, created_at, updated_at
+        FROM roles
+        WHERE template_id = @templateId AND is_active = 1
+        ORDER BY parish_id, role_name
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Create a template with its permission set
+   */
+  public static async create(data: IRoleTemplateInput, permissionIds: number[]): Promise<IRoleTemplate> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request()
+        .input('templateName', sql.VarChar(100), data.template_name)
+        .input('templateCode', sql.VarChar(50), data.template_code)
+        .input('description', sql.Text, data.description || null)
+        .input('priority', sql.Int, data.priority || 0)
+        .input('createdBy', sql.BigInt, data.created_by || null)
+        .query(`
+          INSERT INTO role_templates (template_name, template_code, description, priority, created_by)
+          OUTPUT INSERTED.*
+          VALUES (@templateName, @templateCode, @description, @priority, @createdBy)
+        `);
+
+      const template: IRoleTemplate = result.recordset[0];
+
+      for (const permissionId of permissionIds) {
+        await transaction.request()
+          .input('templateId', sql.BigInt, template.template_id)
+          .input('permissionId', sql.BigInt, permissionId)
+          .query('INSERT INTO role_template_permissions (template_id, permission_id) VALUES (@templateId, @permissionId)');
+      }
+
+      await transaction.commit();
+      return template;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template. When permissionIds is given, it replaces the template's permission set.
+   */
+  public static async update(
+    templateId: number,
+    data: IRoleTemplateInput,
+    permissionIds?: number[]
+  ): Promise<IRoleTemplate> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request()
+        .input('templateId', sql.BigInt, templateId)
+        .input('templateName', sql.VarChar(100), data.template_name || null)
+        .input('description', sql.Text, data.description || null)
+        .input('priority', sql.Int, data.priority === undefined ? null : data.priority)
+        .query(`
+          UPDATE role_templates
+          SET template_name = COALESCE(@templateName, template_name),
+              description = COALESCE(@description, description),
+              priority = COALESCE(@priority, priority),
+              updated_at = GETDATE()
+          OUTPUT INSERTED.*
+          WHERE template_id = @templateId
+        `);
+
+      if (permissionIds) {
+        await transaction.request()
+          .input('templateId', sql.BigInt, templateId)
+          .query('DELETE FROM role_template_permissions WHERE template_id = @templateId');
+
+        for (const permissionId of permissionIds) {
+          await transaction.request()
+            .input('templateId', sql.BigInt, templateId)
+            .input('permissionId', sql.BigInt, permissionId)
+            .query('INSERT INTO role_template_permissions (template_id, permission_id) VALUES (@templateId, @permissionId)');
+        }
+      }
+
+      await transaction.commit();
+      return result.recordset[0];
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a template (derived roles keep their permissions)
+   */
+  public static async deactivate(templateId: number): Promise<void> {
+    await database.getPool().request()
+      .input('templateId', sql.BigInt, templateId)
+      .query(`
+        UPDATE role_templates
+        SET is_active = 0, updated_at = GETDATE()
+        WHERE template_id = @templateId
+      `);
+  }
+
+  /**
+   * Create a parish role from a template, including the template's permissions
+   */
+  public static async instantiate(template: IRoleTemplate, instance: IRoleInstance): Promise<IRole> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const result = await transaction.request()
+        .input('templateId', sql.BigInt, template.template_id)
+        .input('parishId', sql.BigInt, instance.parish_id)
+        .input('roleName', sql.VarChar(100), instance.role_name)
+        .input('roleCode', sql.VarChar(50), instance.role_code)
+        .input('description', sql.Text, template.description || null)
+        .input('priority', sql.Int, template.priority || 0)
+        .input('createdBy', sql.BigInt, instance.created_by || null)
+        .query(`
+          INSERT INTO roles (parish_id, role_name, role_code, description, is_system_role, priority, role_scope, template_id, created_by)
+          OUTPUT INSERTED.*
+          VALUES (@parishId, @roleName, @roleCode, @description, 0, @priority, 'PARISH', @templateId, @createdBy)
+        `);
+
+      const role: IRole = result.recordset[0];
+
+      await transaction.request()
+        .input('roleId', sql.BigInt, role.role_id)
+        .input('templateId', sql.BigInt, template.template_id)
+        .input('grantedBy', sql.BigInt, instance.created_by || null)
+        .query(`
+          INSERT INTO role_permissions (role_id, permission_id, granted_by)
+          SELECT @roleId, permission_id, @grantedBy
+          FROM role_template_permissions
+          WHERE template_id = @templateId
+        `);
+
+      await transaction.commit();
+      return role;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Make the permissions of every active derived role match the template
+   */
+  public static async syncDerivedRoles(templateId: number, syncedBy?: number): Promise<ITemplateSyncResult> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      const revoked = await transaction.request()
+        .input('templateId', sql.BigInt, templateId)
+        .query(`
+          DELETE rp
+          FROM role_permissions rp
+          INNER JOIN roles r ON rp.role_id = r.role_id
+          WHERE r.template_id = @templateId
+            AND r.is_active = 1
+            AND NOT EXISTS (
+              SELECT 1 FROM role_template_permissions rtp
+              WHERE rtp.template_id = @templateId AND rtp.permission_id = rp.permission_id
+            )
+        `);
+
+      const granted = await transaction.request()
+        .input('templateId', sql.BigInt, templateId)
+        .input('grantedBy', sql.BigInt, syncedBy || null)
+        .query(`
+          INSERT INTO role_permissions (role_id, permission_id, granted_by)
+          SELECT r.role_id, rtp.permission_id, @grantedBy
+          FROM roles r
+          INNER JOIN role_template_permissions rtp ON rtp.template_id = r.template_id
+          WHERE r.template_id = @templateId
+            AND r.is_active = 1
+            AND NOT EXISTS (
+              SELECT 1 FROM role_permissions rp
+              WHERE rp.role_id = r.role_id AND rp.permission_id = rtp.permission_id
+            )
+        `);
+
+      const roles = await transaction.request()
+        .input('templateId', sql.BigInt, templateId)
+        .query('SELECT COUNT(*) AS total FROM roles WHERE template_id = @templateId AND is_active = 1');
+
+      await transaction.commit();
+
+      return {
+        roles: roles.recordset[0].total,
+        granted: granted.rowsAffected[0] || 0,
+        revoked: revoked.rowsAffected[0] || 0,
+      };
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
+
+export default RoleTemplateModel;
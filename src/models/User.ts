@@ -26,9 +26,10 @@ export class UserModel {
     password_hash: string;
     first_name: string;
     last_name: string;
-    phone: string;
+    phone?: string;
     profile_image_url?: string;
     user_type: UserType;
+    must_change_password?: boolean;
   }): Promise<IUser> {
     // Check if email already exists
     const existingUser = await this.findByEmail(userData.email);
@@ -36,10 +37,10 @@ export class UserModel {
       throw ApiError.conflict('Email already exists');
     }
     const result = await database.executeQuery<{ user_id: number }>(
-      `INSERT INTO users (email, password_hash, first_name, last_name, phone, profile_image_url, user_type)
+      `INSERT INTO users (email, password_hash, first_name, last_name, phone, profile_image_url, user_type, must_change_password)
        OUTPUT INSERTED.user_id
-       VALUES (@email, @password_hash, @first_name, @last_name, @phone, @profile_image_url, @user_type)`,
-      userData
+       VALUES (@email, @password_hash, @first_name, @last_name, @phone, @profile_image_url, @user_type, @must_change_password)`,
+      { ...userData, must_change_password: userData.must_change_password ? 1 : 0 }
     );
 
     const userId = result.recordset[0].user_id;
@@ -115,6 +116,83 @@ export class UserModel {
     );
   }
 
+  /**
+   * Parish a user belongs to (as church admin or parishioner)
+   */
+  public static async findParishId(userId: number): Promise<number | null> {
+    const result = await database.executeQuery<{ parish_id: number }>(
+      `SELECT TOP 1 parish_id FROM (
+         SELECT parish_id, 1 AS priority FROM church_admins WHERE user_id = @userId AND is_active = 1
+         UNION ALL
+         SELECT parish_id, 2 AS priority FROM parishioners WHERE user_id = @userId
+       ) user_parishes
+       ORDER BY priority`,
+      { userId }
+    );
+
+    const parishId = result.recordset[0]?.parish_id;
+    return parishId ? Number(parishId) : null;
+  }
+
+  /**
+   * Get active lockout of a user (computed in SQL to avoid timezone issues)
+   */
+  public static async getLockout(
+    userId: number
+  ): Promise<{ locked_until: Date; minutes_remaining: number } | null> {
+    const result = await database.executeQuery<{ locked_until: Date; minutes_remaining: number }>(
+      `SELECT locked_until, DATEDIFF(MINUTE, GETDATE(), locked_until) + 1 AS minutes_remaining
+       FROM users
+       WHERE user_id = @userId AND locked_until > GETDATE()`,
+      { userId }
+    );
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Count a failed login and return the updated counters
+   */
+  public static async incrementFailedLogins(
+    userId: number
+  ): Promise<{ failed_login_attempts: number; lockout_count: number }> {
+    const result = await database.executeQuery<{ failed_login_attempts: number; lockout_count: number }>(
+      `UPDATE users
+       SET failed_login_attempts = ISNULL(failed_login_attempts, 0) + 1
+       OUTPUT INSERTED.failed_login_attempts, ISNULL(INSERTED.lockout_count, 0) AS lockout_count
+       WHERE user_id = @userId`,
+      { userId }
+    );
+
+    return result.recordset[0];
+  }
+
+  /**
+   * Lock the account for a number of minutes
+   */
+  public static async lock(userId: number, minutes: number): Promise<void> {
+    await database.executeQuery(
+      `UPDATE users
+       SET locked_until = DATEADD(MINUTE, @minutes, GETDATE()),
+           lockout_count = ISNULL(lockout_count, 0) + 1,
+           failed_login_attempts = 0
+       WHERE user_id = @userId`,
+      { userId, minutes }
+    );
+  }
+
+  /**
+   * Clear failed login counters and any lockout
+   */
+  public static async resetLockout(userId: number): Promise<void> {
+    await database.executeQuery(
+      `UPDATE users
+       SET failed_login_attempts = 0, lockout_count = 0, locked_until = NULL
+       WHERE user_id = @userId`,
+      { userId }
+    );
+  }
+
   public static async findByUserType(
     userType: UserType,
     page: number = 1,
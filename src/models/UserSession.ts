@@ -0,0 +1,221 @@
+import database from '../config/database';
+import sql from 'mssql';
+
+export interface IUserSession {
+  session_id: string;
+  user_id: number;
+  refresh_token_hash: string;
+  previous_token_hash?: string;
+  user_agent?: string;
+  ip_address?: string;
+  expires_at: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  created_at: Date;
+}
+
+export interface ICreateUserSession {
+  session_id: string;
+  user_id: number;
+  refresh_token_hash: string;
+  expires_in_seconds: number;
+  user_agent?: string;
+  ip_address?: string;
+}
+
+export class UserSessionModel {
+  /**
+   * Create a new session (one per signed-in device)
+   */
+  public static async create(session: ICreateUserSession): Promise<IUserSession> {
+    // Use SQL Server's DATEADD to avoid timezone issues
+    const result = await database.getPool().request()
+      .input('sessionId', sql.VarChar(36), session.session_id)
+      .input('userId', sql.BigInt, session.user_id)
+      .input('tokenHash', sql.VarChar(64), session.refresh_token_hash)
+      .input('expirySeconds', sql.Int, session.expires_in_seconds)
+      .input('userAgent', sql.NVarChar(500), session.user_agent || null)
+      .input('ipAddress', sql.VarChar(50), session.ip_address || null)
+      .query(`
+        INSERT INTO user_sessions (
+          session_id, user_id, refresh_token_hash, user_agent, ip_address, expires_at, last_used_at
+        )
+        OUTPUT INSERTED.*
+        VALUES (
+          @sessionId, @userId, @tokenHash, @userAgent, @ipAddress,
+          DATEADD(SECOND, @expirySeconds, GETDATE()), GETDATE()
+        )
+      `);
+
+    return result.recordset[0];
+  }
+
+  /**
+   * Get session by ID
+   */
+  public static async findById(sessionId: string): Promise<IUserSession | null> {
+    const result = await database.getPool().request()
+      .input('sessionId', sql.VarChar(36), sessionId)
+      .query('SELECT * FROM user_sessions WHERE session_id = @sessionId');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Check whether a session is still usable (not revoked, not expired)
+   */
+  public static async isActive(sessionId: string): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('sessionId', sql.VarChar(36), sessionId)
+      .query(`
+        SELECT COUNT(*) as count FROM user_sessions
+        WHERE session_id = @sessionId
+          AND revoked_at IS NULL
+          AND expires_at > GETDATE()
+      `);
+
+    return result.recordset[0].count > 0;
+  }
+
+  /**
+   * Find the session currently holding a refresh token
+   */
+  public static async findByRefreshTokenHash(tokenHash: string): Promise<IUserSession | null> {
+    const result = await database.getPool().request()
+      .input('tokenHash', sql.VarChar(64), tokenHash)
+      .query('SELECT TOP 1 * FROM user_sessions WHERE refresh_token_hash = @tokenHash');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Find a session whose previous (already rotated) refresh token matches.
+   * A hit here means a refresh token was replayed.
+   */
+  public static async findByPreviousTokenHash(tokenHash: string): Promise<IUserSession | null> {
+    const result = await database.getPool().request()
+      .input('tokenHash', sql.VarChar(64), tokenHash)
+      .query('SELECT TOP 1 * FROM user_sessions WHERE previous_token_hash = @tokenHash');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Get active sessions for a user
+   */
+  public static async getActiveByUser(userId: number): Promise<IUserSession[]> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query(`
+        SELECT session_id, user_id, user_agent, ip_address, expires_at, last_used_at, created_at
+        FROM user_sessions
+        WHERE user_id = @userId
+          AND revoked_at IS NULL
+          AND expires_at > GETDATE()
+        ORDER BY last_used_at DESC
+      `);
+
+    return result.recordset;
+  }
+
+  /**
+   * Rotate the refresh token of a session and extend its expiry.
+   * Only succeeds if the caller still holds the current token.
+   */
+  public static async rotate(
+    sessionId: string,
+    currentHash: string,
+    newHash: string,
+    expiresInSeconds: number
+  ): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('sessionId', sql.VarChar(36), sessionId)
+      .input('currentHash', sql.VarChar(64), currentHash)
+      .input('newHash', sql.VarChar(64), newHash)
+      .input('expirySeconds', sql.Int, expiresInSeconds)
+      .query(`
+        UPDATE user_sessions
+        SET previous_token_hash = refresh_token_hash,
+            refresh_token_hash = @newHash,
+            expires_at = DATEADD(SECOND, @expirySeconds, GETDATE()),
+            last_used_at = GETDATE()
+        WHERE session_id = @sessionId
+          AND refresh_token_hash = @currentHash
+          AND revoked_at IS NULL
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Revoke a single session
+   */
+  public static async revoke(sessionId: string, reason: string): Promise<void> {
+    await database.getPool().request()
+      .input('sessionId', sql.VarChar(36), sessionId)
+      .input('reason', sql.VarChar(100), reason)
+      .query(`
+        UPDATE user_sessions
+        SET revoked_at = GETDATE(), revoked_reason = @reason
+        WHERE session_id = @sessionId AND revoked_at IS NULL
+      `);
+  }
+
+  /**
+   * Revoke all sessions of a user, optionally keeping one (e.g. the caller's)
+   */
+  public static async revokeAllForUser(
+    userId: number,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .input('reason', sql.VarChar(100), reason)
+      .input('exceptSessionId', sql.VarChar(36), exceptSessionId || null)
+      .query(`
+        UPDATE user_sessions
+        SET revoked_at = GETDATE(), revoked_reason = @reason
+        WHERE user_id = @userId
+          AND revoked_at IS NULL
+          AND (@exceptSessionId IS NULL OR session_id <> @exceptSessionId)
+      `);
+
+    return result.rowsAffected[0];
+  }
+
+  /**
+   * Revoke all sessions of a parish's church admins and parishioners
+   */
+  public static async revokeAllForParish(parishId: number, reason: string): Promise<number> {
+    const result = await database.getPool().request()
+      .input('parishId', sql.BigInt, parishId)
+      .input('reason', sql.VarChar(100), reason)
+      .query(`
+        UPDATE user_sessions
+        SET revoked_at = GETDATE(), revoked_reason = @reason
+        WHERE revoked_at IS NULL
+          AND user_id IN (
+            SELECT user_id FROM church_admins WHERE parish_id = @parishId
+            UNION
+            SELECT user_id FROM parishioners WHERE parish_id = @parishId AND user_id IS NOT NULL
+          )
+      `);
+
+    return result.rowsAffected[0];
+  }
+
+  /**
+   * Clean up sessions that expired or were revoked more than 30 days ago
+   */
+  public static async cleanupExpired(): Promise<number> {
+    const result = await database.getPool().request().query(`
+      DELETE FROM user_sessions
+      WHERE expires_at < DATEADD(day, -30, GETDATE())
+         OR revoked_at < DATEADD(day, -30, GETDATE())
+    `);
+
+    return result.rowsAffected[0];
+  }
+}
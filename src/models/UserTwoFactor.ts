@@ -0,0 +1,173 @@
+import database from '../config/database';
+import sql from 'mssql';
+
+export interface IUserTwoFactor {
+  user_id: number;
+  secret_encrypted: string;
+  is_enabled: boolean;
+  enabled_at?: Date;
+  last_used_step?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IUserRecoveryCode {
+  recovery_code_id: number;
+  user_id: number;
+  code_hash: string;
+  used_at?: Date;
+  created_at: Date;
+}
+
+export class UserTwoFactorModel {
+  /**
+   * Get 2FA settings for a user
+   */
+  public static async findByUserId(userId: number): Promise<IUserTwoFactor | null> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('SELECT * FROM user_two_factor WHERE user_id = @userId');
+
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Check whether a user has 2FA enabled
+   */
+  public static async isEnabled(userId: number): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('SELECT COUNT(*) as count FROM user_two_factor WHERE user_id = @userId AND is_enabled = 1');
+
+    return result.recordset[0].count > 0;
+  }
+
+  /**
+   * Store a new (not yet enabled) secret, replacing any pending enrolment
+   */
+  public static async savePendingSecret(userId: number, secretEncrypted: string): Promise<void> {
+    await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .input('secret', sql.VarChar(500), secretEncrypted)
+      .query(`
+        MERGE user_two_factor AS target
+        USING (SELECT @userId AS user_id) AS source
+        ON target.user_id = source.user_id
+        WHEN MATCHED THEN
+          UPDATE SET secret_encrypted = @secret, is_enabled = 0, enabled_at = NULL,
+                     last_used_step = NULL, updated_at = GETDATE()
+        WHEN NOT MATCHED THEN
+          INSERT (user_id, secret_encrypted, is_enabled)
+          VALUES (@userId, @secret, 0);
+      `);
+  }
+
+  /**
+   * Enable 2FA after the first code was confirmed
+   */
+  public static async enable(userId: number, timeStep: number): Promise<void> {
+    await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .input('timeStep', sql.BigInt, timeStep)
+      .query(`
+        UPDATE user_two_factor
+        SET is_enabled = 1, enabled_at = GETDATE(), last_used_step = @timeStep, updated_at = GETDATE()
+        WHERE user_id = @userId
+      `);
+  }
+
+  /**
+   * Record the time step of an accepted code.
+   * Only succeeds for a newer step, so a code cannot be used twice.
+   */
+  public static async markStepUsed(userId: number, timeStep: number): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .input('timeStep', sql.BigInt, timeStep)
+      .query(`
+        UPDATE user_two_factor
+        SET last_used_step = @timeStep, updated_at = GETDATE()
+        WHERE user_id = @userId
+          AND (last_used_step IS NULL OR last_used_step < @timeStep)
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Disable 2FA and remove the secret
+   */
+  public static async delete(userId: number): Promise<void> {
+    await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('DELETE FROM user_two_factor WHERE user_id = @userId');
+  }
+}
+
+export class UserRecoveryCodeModel {
+  /**
+   * Replace all recovery codes of a user
+   */
+  public static async replaceAll(userId: number, codeHashes: string[]): Promise<void> {
+    const transaction = await database.beginTransaction();
+
+    try {
+      await transaction.request()
+        .input('userId', sql.BigInt, userId)
+        .query('DELETE FROM user_recovery_codes WHERE user_id = @userId');
+
+      for (const codeHash of codeHashes) {
+        await transaction.request()
+          .input('userId', sql.BigInt, userId)
+          .input('codeHash', sql.VarChar(64), codeHash)
+          .query('INSERT INTO user_recovery_codes (user_id, code_hash) VALUES (@userId, @codeHash)');
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Consume an unused recovery code. Returns false if it does not exist or was used.
+   */
+  public static async consume(userId: number, codeHash: string): Promise<boolean> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .input('codeHash', sql.VarChar(64), codeHash)
+      .query(`
+        UPDATE user_recovery_codes
+        SET used_at = GETDATE()
+        WHERE user_id = @userId AND code_hash = @codeHash AND used_at IS NULL
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Count unused recovery codes
+   */
+  public static async countRemaining(userId: number): Promise<number> {
+    const result = await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('SELECT COUNT(*) as count FROM user_recovery_codes WHERE user_id = @userId AND used_at IS NULL');
+
+    return result.recordset[0].count;
+  }
+
+  /**
+   * Delete all recovery codes of a user
+   */
+  public static async deleteAll(userId: number): Promise<void> {
+    await database.getPool().request()
+      .input('userId', sql.BigInt, userId)
+      .query('DELETE FROM user_recovery_codes WHERE user_id = @userId');
+  }
+}
+
+export default {
+  UserTwoFactorModel,
+  UserRecoveryCodeModel,
+};
@@ -152,7 +152,7 @@ export class WardRoleModel {
       params.isPrimary = updates.is_primary;
     }
     if (updates.expires_at !== undefined) {
-      updateFields.push('expires_at = @expiresAt');
+      updateFields.push('expires_at = @expiresAt', 'expiry_reminder_sent_at = NULL');
       params.expiresAt = updates.expires_at;
     }
     if (updates.notes !== undefined) {
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { AccountController } from '../controllers/account.controller';
 import { validate } from '../middleware/validate';
 import { authenticate, requireChurchAdmin } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import { requirePlanFeature } from '../middleware/subscription';
 import {
   createCategorySchema,
   updateCategorySchema,
@@ -18,6 +20,7 @@ import {
   getSummarySchema,
   exportCSVSchema,
   importCSVSchema,
+  verifyJournalSchema,
 } from '../validators/account.validator';
 
 const router = Router();
@@ -134,7 +137,7 @@ router.delete('/categories/:id', authenticate, requireChurchAdmin, validate(cate
  *   get:
  *     summary: Get financial summary for a parish
  *     tags: [Accounts]
- *     description: Get total income, total expenses, current balance, and pending transactions
+ *     description: Get total income, total expenses, current balance, and pending transactions, with the parish's currency setting
  *     parameters:
  *       - in: path
  *         name: parishId
@@ -311,7 +314,7 @@ router.get('/parish/:parishId/search', validate(searchAccountsSchema), AccountCo
  *   get:
  *     summary: Export transactions to CSV
  *     tags: [Accounts]
- *     description: Download all transactions as CSV file
+ *     description: Download all transactions as CSV file with the parish's currency (premium and enterprise plans)
  *     parameters:
  *       - in: path
  *         name: parishId
@@ -326,7 +329,7 @@ router.get('/parish/:parishId/search', validate(searchAccountsSchema), AccountCo
  *             schema:
  *               type: string
  */
-router.get('/parish/:parishId/export-csv', validate(exportCSVSchema), AccountController.exportCSV);
+router.get('/parish/:parishId/export-csv', validate(exportCSVSchema), requirePlanFeature('ACCOUNTS_CSV'), AccountController.exportCSV);
 
 /**
  * @swagger
@@ -336,7 +339,7 @@ router.get('/parish/:parishId/export-csv', validate(exportCSVSchema), AccountCon
  *     tags: [Accounts]
  *     security:
  *       - bearerAuth: []
- *     description: Bulk import transactions from CSV data
+ *     description: Bulk import transactions from CSV data (premium and enterprise plans)
  *     parameters:
  *       - in: path
  *         name: parishId
@@ -357,7 +360,78 @@ router.get('/parish/:parishId/export-csv', validate(exportCSVSchema), AccountCon
  *       200:
  *         description: Import completed
  */
-router.post('/parish/:parishId/import-csv', authenticate, requireChurchAdmin, validate(importCSVSchema), AccountController.importCSV);
+router.post('/parish/:parishId/import-csv', authenticate, requireChurchAdmin, validate(importCSVSchema), requirePlanFeature('ACCOUNTS_CSV'), auditTrail('accounts', { bulk: true, parishParam: 'parishId' }), AccountController.importCSV);
+
+/**
+ * @swagger
+ * /accounts/parish/{parishId}/journal/verify:
+ *   get:
+ *     summary: Verify that the books have not been altered (Church Admin or Super Admin)
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Every create, update and delete of a transaction is appended to a hash-chained journal, where each
+ *       entry holds the hash of the entry before it. This walks the parish's chain, reports the first entry
+ *       that is missing or altered, and lists transactions that differ from the journal (changed, added or
+ *       deleted outside the API). Transactions that existed before the journal are added to it as opening
+ *       entries on the parish's next change.
+ *     parameters:
+ *       - in: path
+ *         name: parishId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     parish_id:
+ *                       type: integer
+ *                     valid:
+ *                       type: boolean
+ *                     entries_checked:
+ *                       type: integer
+ *                     head_hash:
+ *                       type: string
+ *                       description: Hash of the last valid entry
+ *                     first_break:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         sequence_no:
+ *                           type: integer
+ *                         entry_id:
+ *                           type: integer
+ *                         account_id:
+ *                           type: integer
+ *                         reason:
+ *                           type: string
+ *                     mismatched_transactions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           account_id:
+ *                             type: integer
+ *                           reason:
+ *                             type: string
+ *                     verified_at:
+ *                       type: string
+ *                       format: date-time
+ */
+router.get('/parish/:parishId/journal/verify', authenticate, requireChurchAdmin, validate(verifyJournalSchema), AccountController.verifyJournal);
 
 /**
  * @swagger
@@ -395,7 +469,7 @@ router.get('/:id', validate(accountIdSchema), AccountController.getTransactionBy
  *       201:
  *         description: Transaction created successfully
  */
-router.post('/', authenticate, requireChurchAdmin, validate(createAccountSchema), AccountController.create);
+router.post('/', authenticate, requireChurchAdmin, validate(createAccountSchema), auditTrail('accounts'), AccountController.create);
 
 /**
  * @swagger
@@ -421,7 +495,7 @@ router.post('/', authenticate, requireChurchAdmin, validate(createAccountSchema)
  *       200:
  *         description: Transaction updated successfully
  */
-router.put('/:id', authenticate, requireChurchAdmin, validate(accountIdSchema), validate(updateAccountSchema), AccountController.update);
+router.put('/:id', authenticate, requireChurchAdmin, validate(accountIdSchema), validate(updateAccountSchema), auditTrail('accounts', { idParam: 'id' }), AccountController.update);
 
 /**
  * @swagger
@@ -441,7 +515,7 @@ router.put('/:id', authenticate, requireChurchAdmin, validate(accountIdSchema),
  *       200:
  *         description: Transaction deleted successfully
  */
-router.delete('/:id', authenticate, requireChurchAdmin, validate(accountIdSchema), AccountController.delete);
+router.delete('/:id', authenticate, requireChurchAdmin, validate(accountIdSchema), auditTrail('accounts', { idParam: 'id' }), AccountController.delete);
 
 /**
  * @swagger
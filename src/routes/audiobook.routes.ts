@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { AudiobookController } from '../controllers/audiobook.controller';
 import { validate } from '../middleware/validate';
 import { authenticate, requireChurchAdmin } from '../middleware/auth';
+import { targetFrom } from '../middleware/permission';
+import { requirePlanFeature } from '../middleware/subscription';
 import {
   createAudiobookSchema,
   updateAudiobookSchema,
@@ -77,7 +79,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId', validate(audiobooksByParishSchema), AudiobookController.getByParish);
+router.get('/parish/:parishId', validate(audiobooksByParishSchema), requirePlanFeature('AUDIOBOOKS'), AudiobookController.getByParish);
 
 /**
  * @swagger
@@ -121,7 +123,7 @@ router.get('/parish/:parishId', validate(audiobooksByParishSchema), AudiobookCon
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId/search', validate(searchAudiobookSchema), AudiobookController.search);
+router.get('/parish/:parishId/search', validate(searchAudiobookSchema), requirePlanFeature('AUDIOBOOKS'), AudiobookController.search);
 
 /**
  * @swagger
@@ -180,7 +182,7 @@ router.get('/parish/:parishId/search', validate(searchAudiobookSchema), Audioboo
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId/category', validate(audiobooksByCategorySchema), AudiobookController.getByCategory);
+router.get('/parish/:parishId/category', validate(audiobooksByCategorySchema), requirePlanFeature('AUDIOBOOKS'), AudiobookController.getByCategory);
 
 /**
  * @swagger
@@ -239,7 +241,7 @@ router.get('/parish/:parishId/category', validate(audiobooksByCategorySchema), A
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId/author', validate(audiobooksByAuthorSchema), AudiobookController.getByAuthor);
+router.get('/parish/:parishId/author', validate(audiobooksByAuthorSchema), requirePlanFeature('AUDIOBOOKS'), AudiobookController.getByAuthor);
 
 /**
  * @swagger
@@ -277,7 +279,7 @@ router.get('/parish/:parishId/author', validate(audiobooksByAuthorSchema), Audio
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId/categories', validate(getCategoriesSchema), AudiobookController.getCategories);
+router.get('/parish/:parishId/categories', validate(getCategoriesSchema), requirePlanFeature('AUDIOBOOKS'), AudiobookController.getCategories);
 
 /**
  * @swagger
@@ -313,7 +315,7 @@ router.get('/parish/:parishId/categories', validate(getCategoriesSchema), Audiob
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', validate(audiobookIdSchema), AudiobookController.getById);
+router.get('/:id', validate(audiobookIdSchema), requirePlanFeature('AUDIOBOOKS', targetFrom.audiobook('id')), AudiobookController.getById);
 
 /**
  * @swagger
@@ -321,7 +323,7 @@ router.get('/:id', validate(audiobookIdSchema), AudiobookController.getById);
  *   post:
  *     summary: Create a new audiobook
  *     tags: [Audiobooks]
- *     description: Create a new audiobook entry (Church Admin only)
+ *     description: Create a new audiobook entry (Church Admin only). file_size_mb counts towards the plan's audiobook storage quota.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -359,7 +361,7 @@ router.get('/:id', validate(audiobookIdSchema), AudiobookController.getById);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Forbidden - Church Admin access required
+ *         description: Forbidden - Church Admin access required, or audiobooks are not included in the parish's plan
  *         content:
  *           application/json:
  *             schema:
@@ -370,6 +372,7 @@ router.post(
   authenticate,
   requireChurchAdmin,
   validate(createAudiobookSchema),
+  requirePlanFeature('AUDIOBOOKS'),
   AudiobookController.create
 );
 
@@ -424,7 +427,7 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Forbidden - Church Admin access required
+ *         description: Forbidden - Church Admin access required, or audiobooks are not included in the parish's plan
  *         content:
  *           application/json:
  *             schema:
@@ -442,6 +445,7 @@ router.put(
   requireChurchAdmin,
   validate(audiobookIdSchema),
   validate(updateAudiobookSchema),
+  requirePlanFeature('AUDIOBOOKS', targetFrom.audiobook('id')),
   AudiobookController.update
 );
 
@@ -482,7 +486,7 @@ router.put(
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Forbidden - Church Admin access required
+ *         description: Forbidden - Church Admin access required, or audiobooks are not included in the parish's plan
  *         content:
  *           application/json:
  *             schema:
@@ -499,6 +503,7 @@ router.delete(
   authenticate,
   requireChurchAdmin,
   validate(audiobookIdSchema),
+  requirePlanFeature('AUDIOBOOKS', targetFrom.audiobook('id')),
   AudiobookController.delete
 );
 
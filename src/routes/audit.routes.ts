@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/audit.controller';
+import { validate } from '../middleware/validate';
+import { authenticate, requireChurchAdmin } from '../middleware/auth';
+import { auditLogsQuerySchema, auditLogsExportSchema } from '../validators/audit.validator';
+
+const router = Router();
+
+// Audit logs are reviewed by church admins (and super admins)
+router.use(authenticate, requireChurchAdmin);
+
+/**
+ * @swagger
+ * /audit-logs:
+ *   get:
+ *     summary: List changes to parish data (Church Admin or Super Admin)
+ *     description: |
+ *       Every create, update and delete of parishes, families, parishioners, accounts, roles and ward roles,
+ *       newest first, with who made it and the record before and after the change.
+ *       Church admins only see their own parish.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: parish_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: integer
+ *         description: User who made the change
+ *       - in: query
+ *         name: table_name
+ *         schema:
+ *           type: string
+ *           enum: [parishes, parish_settings, families, parishioners, accounts, roles, role_permissions, user_roles, ward_roles]
+ *       - in: query
+ *         name: record_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [CREATE, UPDATE, DELETE, BULK_CREATE, RESTORE]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Audit log entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedAuditLogResponse'
+ */
+router.get('/', validate(auditLogsQuerySchema), AuditController.getAll);
+
+/**
+ * @swagger
+ * /audit-logs/export:
+ *   get:
+ *     summary: Export changes to parish data as CSV (Church Admin or Super Admin)
+ *     description: Takes the same filters as the list endpoint and returns at most 10,000 entries, newest first.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: parish_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: table_name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: record_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: CSV file download
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+router.get('/export', validate(auditLogsExportSchema), AuditController.exportCSV);
+
+export default router;
@@ -1,12 +1,30 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
+import { TwoFactorController } from '../controllers/twoFactor.controller';
+import { ImpersonationController } from '../controllers/impersonation.controller';
 import { validate } from '../middleware/validate';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuth, requireSuperAdmin, requireChurchAdmin } from '../middleware/auth';
 import { authLimiter } from '../middleware/rateLimiter';
+import { uploadAvatar } from '../config/multer';
 import {
   registerSchema,
   loginSchema,
   changePasswordSchema,
+  refreshTokenSchema,
+  sessionIdSchema,
+  userIdParamSchema,
+  twoFactorSetupSchema,
+  twoFactorEnableSchema,
+  twoFactorVerifySchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  loginAttemptsQuerySchema,
+  lockedAccountsQuerySchema,
+  acceptInvitationSchema,
+  updateProfileSchema,
+  startImpersonationSchema,
+  impersonationsQuerySchema,
+  impersonationIdSchema,
 } from '../validators/auth.validator';
 
 const router = Router();
@@ -26,7 +44,7 @@ const router = Router();
  *             $ref: '#/components/schemas/UserRegistration'
  *     responses:
  *       201:
- *         description: User successfully registered
+ *         description: User successfully registered. A verification code is emailed to the user; when EMAIL_VERIFICATION_ENFORCEMENT is 'login' no tokens are issued until the email is verified
  *         content:
  *           application/json:
  *             schema:
@@ -67,17 +85,32 @@ router.post('/register', authLimiter, validate(registerSchema), AuthController.r
  *             $ref: '#/components/schemas/UserLogin'
  *     responses:
  *       200:
- *         description: Successfully authenticated
+ *         description: Successfully authenticated. Admins with two-factor authentication (or whose parish requires it) receive a TwoFactorChallenge instead and complete login via /auth/2fa/verify or /auth/2fa/enable
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthResponse'
+ *                 - $ref: '#/components/schemas/TwoFactorChallenge'
+ *                 - $ref: '#/components/schemas/PasswordChangeChallenge'
  *       401:
  *         description: Unauthorized - Invalid credentials
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Email address not verified (when EMAIL_VERIFICATION_ENFORCEMENT is 'login')
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       423:
+ *         description: Account temporarily locked after repeated failed logins
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       429:
  *         description: Too many requests
  *         content:
@@ -87,6 +120,53 @@ router.post('/register', authLimiter, validate(registerSchema), AuthController.r
  */
 router.post('/login', authLimiter, validate(loginSchema), AuthController.login);
 
+/**
+ * @swagger
+ * /auth/accept-invite:
+ *   post:
+ *     summary: Set a password from an invitation
+ *     tags: [Authentication]
+ *     description: Accepts the token from an invitation email, or the password_change_token returned by login when the account must change its password. Each token can only be used once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 example: NewSecurePass123!
+ *     responses:
+ *       200:
+ *         description: Password set successfully
+ *       400:
+ *         description: Password does not meet the strength requirements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid or expired invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Invitation has already been used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/accept-invite', authLimiter, validate(acceptInvitationSchema), AuthController.acceptInvitation);
+
 /**
  * @swagger
  * /auth/profile:
@@ -157,6 +237,86 @@ router.post('/login', authLimiter, validate(loginSchema), AuthController.login);
  */
 router.get('/profile', authenticate, AuthController.getProfile);
 
+/**
+ * @swagger
+ * /auth/profile:
+ *   patch:
+ *     summary: Update own profile
+ *     tags: [Authentication]
+ *     description: Edit your own name, phone, address and emergency contact. Fields locked by your parish (locked_profile_fields) can only be changed by a parish administrator.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProfileUpdate'
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SelfProfileResponse'
+ *       400:
+ *         description: Bad request - Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - One or more fields are locked by the parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/profile', authenticate, validate(updateProfileSchema), AuthController.updateProfile);
+
+/**
+ * @swagger
+ * /auth/profile/avatar:
+ *   post:
+ *     summary: Upload own profile picture
+ *     tags: [Authentication]
+ *     description: Upload a JPEG, PNG, GIF or WebP image (max 2MB by default). Updates the user's profile_image_url and, for parishioners, photo_url.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - avatar
+ *             properties:
+ *               avatar:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Profile picture updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SelfProfileResponse'
+ *       400:
+ *         description: Bad request - Missing or unsupported image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Profile picture is locked by the parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/profile/avatar', authenticate, uploadAvatar.single('avatar'), AuthController.uploadAvatar);
+
 /**
  * @swagger
  * /auth/change-password:
@@ -194,4 +354,960 @@ router.get('/profile', authenticate, AuthController.getProfile);
  */
 router.post('/change-password', authenticate, validate(changePasswordSchema), AuthController.changePassword);
 
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     tags: [Authentication]
+ *     description: Exchange a refresh token for a new access token and a new refresh token. Each refresh token can only be used once; replaying an already used refresh token revokes the session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refresh_token
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/refresh', authLimiter, validate(refreshTokenSchema), AuthController.refresh);
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Logout
+ *     tags: [Authentication]
+ *     description: Revoke the current session. The access token and refresh token of this session stop working immediately.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout', authenticate, AuthController.logout);
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Logout from all devices
+ *     tags: [Authentication]
+ *     description: Revoke every session of the currently authenticated user, including the current one
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked_sessions:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout-all', authenticate, AuthController.logoutAll);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: Get active sessions
+ *     tags: [Authentication]
+ *     description: List the active sessions (signed-in devices) of the currently authenticated user
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       session_id:
+ *                         type: string
+ *                         format: uuid
+ *                       user_agent:
+ *                         type: string
+ *                       ip_address:
+ *                         type: string
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *                       last_used_at:
+ *                         type: string
+ *                         format: date-time
+ *                       expires_at:
+ *                         type: string
+ *                         format: date-time
+ *                       is_current:
+ *                         type: boolean
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/sessions', authenticate, AuthController.getSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session
+ *     tags: [Authentication]
+ *     description: Sign out one of the current user's devices
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/sessions/:sessionId', authenticate, validate(sessionIdSchema), AuthController.revokeSession);
+
+/**
+ * @swagger
+ * /auth/users/{userId}/revoke-sessions:
+ *   post:
+ *     summary: Revoke all sessions of a user (Super Admin only)
+ *     tags: [Authentication]
+ *     description: Sign a user out of every device, e.g. when a device is lost or the account is compromised
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: User sessions revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Super admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:userId/revoke-sessions',
+  authenticate,
+  requireSuperAdmin,
+  validate(userIdParamSchema),
+  AuthController.revokeUserSessions
+);
+
+/**
+ * @swagger
+ * /auth/2fa/status:
+ *   get:
+ *     summary: Get two-factor authentication status
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     mandatory:
+ *                       type: boolean
+ *                       description: Whether the user's parish requires church admins to use 2FA
+ *                     recovery_codes_remaining:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/2fa/status', authenticate, TwoFactorController.getStatus);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrolment
+ *     tags: [Two-Factor Authentication]
+ *     description: Generate an authenticator secret and an otpauth:// provisioning URI to render as a QR code. Available to church admins and super admins. Authenticate with an access token, or pass the two_factor_token returned by login when setup is required.
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               two_factor_token:
+ *                 type: string
+ *                 description: Setup token from login (only when not using an access token)
+ *     responses:
+ *       200:
+ *         description: Enrolment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *                     otpauth_url:
+ *                       type: string
+ *                       example: otpauth://totp/Parish%20Nexus%3Aadmin%40parish.com?secret=JBSWY3DPEHPK3PXP&issuer=Parish+Nexus
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Two-factor authentication is only available for administrators
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/setup', authLimiter, optionalAuth, validate(twoFactorSetupSchema), TwoFactorController.setup);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrolment
+ *     tags: [Two-Factor Authentication]
+ *     description: Confirm enrolment with the first code from the authenticator app. Returns one-time recovery codes. When enrolling with a setup token from login, the response also contains the session tokens.
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^[0-9]{6}$'
+ *                 example: "123456"
+ *               two_factor_token:
+ *                 type: string
+ *                 description: Setup token from login (only when not using an access token)
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recovery_codes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         example: 3f9a1-c27b4
+ *       400:
+ *         description: Invalid code or setup not started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/enable', authLimiter, optionalAuth, validate(twoFactorEnableSchema), TwoFactorController.enable);
+
+/**
+ * @swagger
+ * /auth/2fa/verify:
+ *   post:
+ *     summary: Complete login with two-factor authentication
+ *     tags: [Two-Factor Authentication]
+ *     description: Second login step. Exchange the two_factor_token from /auth/login or /otp/verify-login and an authenticator code (or a recovery code) for access and refresh tokens.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - two_factor_token
+ *             properties:
+ *               two_factor_token:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 pattern: '^[0-9]{6}$'
+ *                 example: "123456"
+ *               recovery_code:
+ *                 type: string
+ *                 example: 3f9a1-c27b4
+ *     responses:
+ *       200:
+ *         description: Successfully authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       401:
+ *         description: Invalid code or expired two-factor token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/verify', authLimiter, validate(twoFactorVerifySchema), TwoFactorController.verify);
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     tags: [Two-Factor Authentication]
+ *     description: Replace all recovery codes. Previous codes stop working.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^[0-9]{6}$'
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated successfully
+ *       401:
+ *         description: Invalid authentication code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  validate(twoFactorCodeSchema),
+  TwoFactorController.regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Two-Factor Authentication]
+ *     description: Disable 2FA with an authenticator code or a recovery code. Not allowed when the parish requires 2FA for church admins.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^[0-9]{6}$'
+ *               recovery_code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       401:
+ *         description: Invalid authentication code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Two-factor authentication is mandatory for this parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/2fa/disable', authenticate, validate(twoFactorDisableSchema), TwoFactorController.disable);
+
+/**
+ * @swagger
+ * /auth/login-attempts:
+ *   get:
+ *     summary: Review sign-in activity (Church Admin or Super Admin)
+ *     tags: [Authentication]
+ *     description: Paginated login attempt history. Church admins only see users of their own parish; super admins can filter by any parish or see all. Returns failed attempts only unless failed_only=false.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: parish_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: failed_only
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - in: query
+ *         name: days
+ *         description: Only attempts from the last N days
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Login attempts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       attempt_id:
+ *                         type: integer
+ *                       user_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       email:
+ *                         type: string
+ *                       ip_address:
+ *                         type: string
+ *                       user_agent:
+ *                         type: string
+ *                       login_method:
+ *                         type: string
+ *                         enum: [password, otp, two_factor]
+ *                       outcome:
+ *                         type: string
+ *                         enum: [success, unknown_user, invalid_password, invalid_otp, invalid_two_factor, account_disabled, account_locked]
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *                 pagination:
+ *                   type: object
+ *       403:
+ *         description: Forbidden - Admin access required or parish mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/login-attempts',
+  authenticate,
+  requireChurchAdmin,
+  validate(loginAttemptsQuerySchema),
+  AuthController.getLoginAttempts
+);
+
+/**
+ * @swagger
+ * /auth/locked-accounts:
+ *   get:
+ *     summary: Get locked accounts (Church Admin or Super Admin)
+ *     tags: [Authentication]
+ *     description: Accounts currently locked after repeated failed logins. Church admins only see users of their own parish.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: parish_id
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Locked accounts retrieved successfully
+ *       403:
+ *         description: Forbidden - Admin access required or parish mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/locked-accounts',
+  authenticate,
+  requireChurchAdmin,
+  validate(lockedAccountsQuerySchema),
+  AuthController.getLockedAccounts
+);
+
+/**
+ * @swagger
+ * /auth/users/{userId}/unlock:
+ *   post:
+ *     summary: Unlock a user account (Church Admin or Super Admin)
+ *     tags: [Authentication]
+ *     description: Lift a lockout caused by repeated failed logins. Church admins can only unlock users of their own parish. Users can also unlock themselves by signing in with an email OTP.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: User account unlocked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       403:
+ *         description: Forbidden - User belongs to another parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:userId/unlock',
+  authenticate,
+  requireChurchAdmin,
+  validate(userIdParamSchema),
+  AuthController.unlockUser
+);
+
+/**
+ * @swagger
+ * /auth/users/{userId}/invite:
+ *   post:
+ *     summary: Resend an account invitation (Church Admin or Super Admin)
+ *     tags: [Authentication]
+ *     description: Email a new invitation link to a member who has not set their password yet. Church admins can only invite users of their own parish.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Invitation sent successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       403:
+ *         description: Forbidden - User belongs to another parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: User has already set a password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/users/:userId/invite',
+  authenticate,
+  requireChurchAdmin,
+  validate(userIdParamSchema),
+  AuthController.resendInvitation
+);
+
+/**
+ * @swagger
+ * /auth/impersonate:
+ *   post:
+ *     summary: View the app as another user (Super Admin only)
+ *     tags: [Authentication]
+ *     description: |
+ *       Returns a short-lived access token for the target user. The token carries both identities
+ *       (the target user, plus the super admin under `impersonation`) and cannot be refreshed.
+ *       Sessions are read-only unless `read_only` is false - write requests are rejected with 403.
+ *       Every request made with the token is audited. Signing out of the super admin session ends the impersonation.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [user_id, reason]
+ *             properties:
+ *               user_id:
+ *                 type: integer
+ *                 example: 42
+ *               reason:
+ *                 type: string
+ *                 minLength: 5
+ *                 maxLength: 500
+ *                 example: Support ticket - ward list looks empty
+ *               read_only:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Impersonation started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     expires_in:
+ *                       type: integer
+ *                       example: 900
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
+ *                     impersonation_id:
+ *                       type: string
+ *                       format: uuid
+ *                     read_only:
+ *                       type: boolean
+ *                     user:
+ *                       type: object
+ *       400:
+ *         description: Cannot impersonate yourself or a disabled account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Super admin access required, target is a super admin, or already impersonating
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/impersonate',
+  authenticate,
+  requireSuperAdmin,
+  validate(startImpersonationSchema),
+  ImpersonationController.start
+);
+
+/**
+ * @swagger
+ * /auth/impersonations:
+ *   get:
+ *     summary: List impersonation sessions (Super Admin only)
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: impersonator_user_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: target_user_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: active_only
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Impersonation sessions retrieved successfully, with the number of requests made in each
+ *       403:
+ *         description: Forbidden - Super admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/impersonations',
+  authenticate,
+  requireSuperAdmin,
+  validate(impersonationsQuerySchema),
+  ImpersonationController.getAll
+);
+
+/**
+ * @swagger
+ * /auth/impersonations/{impersonationId}:
+ *   get:
+ *     summary: Get an impersonation session and its audit trail (Super Admin only)
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: impersonationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Impersonation session with every request made during it (method, path, status code, whether it was blocked)
+ *       404:
+ *         description: Impersonation session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/impersonations/:impersonationId',
+  authenticate,
+  requireSuperAdmin,
+  validate(impersonationIdSchema),
+  ImpersonationController.getById
+);
+
+/**
+ * @swagger
+ * /auth/impersonations/{impersonationId}/end:
+ *   post:
+ *     summary: End an impersonation session (Super Admin only)
+ *     tags: [Authentication]
+ *     description: Call with the super admin's own access token. The impersonation token stops working immediately.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: impersonationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Impersonation ended successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       404:
+ *         description: Impersonation session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Impersonation session has already ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/impersonations/:impersonationId/end',
+  authenticate,
+  requireSuperAdmin,
+  validate(impersonationIdSchema),
+  ImpersonationController.end
+);
+
 export default router;
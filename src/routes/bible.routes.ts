@@ -398,7 +398,7 @@ router.get('/parish/:parishId/todays-reading', validate(parishIdSchema), BibleCo
  *                 example: 17
  *               translation:
  *                 type: string
- *                 default: kjv
+ *                 description: Defaults to the parish's bible_translation setting (kjv unless changed)
  *     responses:
  *       201:
  *         description: Daily reading created successfully
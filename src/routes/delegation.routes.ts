@@ -0,0 +1,158 @@
+import { Router } from 'express';
+import { DelegationController } from '../controllers/delegation.controller';
+import { validate } from '../middleware/validate';
+import { authenticate, requireChurchAdmin } from '../middleware/auth';
+import { createDelegationSchema, delegationsQuerySchema, delegationIdSchema } from '../validators/role.validator';
+
+const router = Router();
+
+// Delegations are managed by church admins (and super admins)
+router.use(authenticate, requireChurchAdmin);
+
+/**
+ * @swagger
+ * /delegations:
+ *   post:
+ *     summary: Temporarily delegate permissions to a parish member (Church Admin or Super Admin)
+ *     description: |
+ *       The delegate gets the permissions for the parish between starts_at and ends_at only.
+ *       Church admins can only delegate permissions they hold themselves. The delegation ends
+ *       automatically at ends_at.
+ *     tags: [Delegations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - delegate_user_id
+ *               - permission_ids
+ *               - reason
+ *               - ends_at
+ *             properties:
+ *               delegate_user_id:
+ *                 type: integer
+ *               permission_ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               reason:
+ *                 type: string
+ *                 example: Parish priest on retreat
+ *               starts_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *               ends_at:
+ *                 type: string
+ *                 format: date-time
+ *               parish_id:
+ *                 type: integer
+ *                 description: Required for super admins
+ *     responses:
+ *       201:
+ *         description: Permissions delegated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/PermissionDelegation'
+ *       403:
+ *         description: The admin does not hold all of the permissions
+ */
+router.post('/', validate(createDelegationSchema), DelegationController.create);
+
+/**
+ * @swagger
+ * /delegations:
+ *   get:
+ *     summary: List delegations (Church Admin or Super Admin)
+ *     description: Church admins only see delegations of their own parish.
+ *     tags: [Delegations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: parish_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: delegate_user_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, REVOKED, EXPIRED]
+ *     responses:
+ *       200:
+ *         description: Delegations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PermissionDelegation'
+ */
+router.get('/', validate(delegationsQuerySchema), DelegationController.getAll);
+
+/**
+ * @swagger
+ * /delegations/{delegationId}:
+ *   get:
+ *     summary: Get a delegation with its permissions
+ *     tags: [Delegations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: delegationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Delegation retrieved successfully
+ *       404:
+ *         description: Delegation not found
+ */
+router.get('/:delegationId', validate(delegationIdSchema), DelegationController.getById);
+
+/**
+ * @swagger
+ * /delegations/{delegationId}:
+ *   delete:
+ *     summary: Revoke a delegation before its end date
+ *     tags: [Delegations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: delegationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Delegation revoked successfully
+ *       409:
+ *         description: Delegation is no longer active
+ */
+router.delete('/:delegationId', validate(delegationIdSchema), DelegationController.revoke);
+
+export default router;
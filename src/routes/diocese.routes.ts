@@ -0,0 +1,453 @@
+import { Router } from 'express';
+import { DioceseController } from '../controllers/diocese.controller';
+import { validate } from '../middleware/validate';
+import { authenticate } from '../middleware/auth';
+import { permissionGuard } from '../middleware/routeGuard';
+import {
+  dioceseIdSchema,
+  createDioceseSchema,
+  updateDioceseSchema,
+  dioceseParishSchema,
+  dioceseParishIdSchema,
+  dioceseStatsSchema,
+  dioceseAdminSchema,
+  dioceseAdminIdSchema,
+} from '../validators/diocese.validator';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /dioceses:
+ *   get:
+ *     summary: List dioceses
+ *     tags: [Dioceses]
+ *     description: Super admins see every diocese, diocese admins the dioceses they administer
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Dioceses retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Diocese'
+ */
+router.get('/', permissionGuard('GET /dioceses'), DioceseController.getAll);
+
+/**
+ * @swagger
+ * /dioceses:
+ *   post:
+ *     summary: Create a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateDiocese'
+ *     responses:
+ *       201:
+ *         description: Diocese created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Diocese created successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/Diocese'
+ */
+router.post('/', permissionGuard('POST /dioceses'), validate(createDioceseSchema), DioceseController.create);
+
+/**
+ * @swagger
+ * /dioceses/{id}:
+ *   get:
+ *     summary: Get a diocese
+ *     tags: [Dioceses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *     responses:
+ *       200:
+ *         description: Diocese retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Diocese'
+ *       403:
+ *         description: The user does not administer this diocese
+ *       404:
+ *         description: Diocese not found
+ */
+router.get('/:id', permissionGuard('GET /dioceses/:id'), validate(dioceseIdSchema), DioceseController.getById);
+
+/**
+ * @swagger
+ * /dioceses/{id}:
+ *   put:
+ *     summary: Update a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     description: A new name is also copied to the diocese field of its parishes. Diocese admins lose access to an inactive diocese.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateDiocese'
+ *     responses:
+ *       200:
+ *         description: Diocese updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Diocese updated successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/Diocese'
+ *       404:
+ *         description: Diocese not found
+ */
+router.put('/:id', permissionGuard('PUT /dioceses/:id'), validate(updateDioceseSchema), DioceseController.update);
+
+/**
+ * @swagger
+ * /dioceses/{id}/parishes:
+ *   get:
+ *     summary: List the parishes of a diocese
+ *     tags: [Dioceses]
+ *     description: Diocese admins can view these parishes (GET /parishes/{id} and similar) but not edit them
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *     responses:
+ *       200:
+ *         description: Parishes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Parish'
+ *       403:
+ *         description: The user does not administer this diocese
+ */
+router.get(
+  '/:id/parishes',
+  permissionGuard('GET /dioceses/:id/parishes'),
+  validate(dioceseIdSchema),
+  DioceseController.getParishes
+);
+
+/**
+ * @swagger
+ * /dioceses/{id}/parishes:
+ *   post:
+ *     summary: Assign a parish to a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     description: The parish leaves its current diocese, if any
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parish_id
+ *             properties:
+ *               parish_id:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Parish assigned; returns the parishes of the diocese
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Parish'
+ *       404:
+ *         description: Diocese or parish not found
+ */
+router.post(
+  '/:id/parishes',
+  permissionGuard('POST /dioceses/:id/parishes'),
+  validate(dioceseParishSchema),
+  DioceseController.assignParish
+);
+
+/**
+ * @swagger
+ * /dioceses/{id}/parishes/{parishId}:
+ *   delete:
+ *     summary: Remove a parish from a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *       - in: path
+ *         name: parishId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     responses:
+ *       200:
+ *         description: Parish removed from the diocese
+ *       404:
+ *         description: Parish not found in this diocese
+ */
+router.delete(
+  '/:id/parishes/:parishId',
+  permissionGuard('DELETE /dioceses/:id/parishes/:parishId'),
+  validate(dioceseParishIdSchema),
+  DioceseController.removeParish
+);
+
+/**
+ * @swagger
+ * /dioceses/{id}/stats:
+ *   get:
+ *     summary: Get statistics across the parishes of a diocese
+ *     tags: [Dioceses]
+ *     description: |
+ *       Parishioner, family and ward counts, sacraments and account totals of each parish with their totals.
+ *       Sacraments and account totals can be limited to a date range. Account totals are summed per currency
+ *       (the currency setting of each parish).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DioceseStats'
+ *       403:
+ *         description: The user does not administer this diocese
+ */
+router.get('/:id/stats', permissionGuard('GET /dioceses/:id/stats'), validate(dioceseStatsSchema), DioceseController.getStats);
+
+/**
+ * @swagger
+ * /dioceses/{id}/admins:
+ *   get:
+ *     summary: List the administrators of a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *     responses:
+ *       200:
+ *         description: Administrators retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DioceseAdmin'
+ */
+router.get('/:id/admins', permissionGuard('GET /dioceses/:id/admins'), validate(dioceseIdSchema), DioceseController.getAdmins);
+
+/**
+ * @swagger
+ * /dioceses/{id}/admins:
+ *   post:
+ *     summary: Add an administrator to a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     description: The user must be of type DIOCESE_ADMIN
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - user_id
+ *             properties:
+ *               user_id:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Administrator added; returns the administrators of the diocese
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DioceseAdmin'
+ *       400:
+ *         description: The user is not a diocese admin
+ *       404:
+ *         description: Diocese or user not found
+ */
+router.post('/:id/admins', permissionGuard('POST /dioceses/:id/admins'), validate(dioceseAdminSchema), DioceseController.addAdmin);
+
+/**
+ * @swagger
+ * /dioceses/{id}/admins/{userId}:
+ *   delete:
+ *     summary: Remove an administrator from a diocese (Super Admin only)
+ *     tags: [Dioceses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Diocese ID
+ *       - in: path
+ *         name: userId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: User ID of the administrator
+ *     responses:
+ *       200:
+ *         description: Administrator removed
+ *       404:
+ *         description: The user is not an admin of this diocese
+ */
+router.delete(
+  '/:id/admins/:userId',
+  permissionGuard('DELETE /dioceses/:id/admins/:userId'),
+  validate(dioceseAdminIdSchema),
+  DioceseController.removeAdmin
+);
+
+export default router;
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { FamilyController } from '../controllers/family.controller';
 import { validate } from '../middleware/validate';
 import { authenticate } from '../middleware/auth';
-import { requirePermission } from '../middleware/permission';
+import { permissionGuard } from '../middleware/routeGuard';
+import { auditTrail } from '../middleware/audit';
 import {
   createFamilySchema,
   updateFamilySchema,
@@ -59,7 +60,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId', authenticate, requirePermission('VIEW_FAMILIES'), validate(familiesByParishSchema), FamilyController.getByParishId);
+router.get('/parish/:parishId', authenticate, permissionGuard('GET /families/parish/:parishId'), validate(familiesByParishSchema), FamilyController.getByParishId);
 
 /**
  * @swagger
@@ -91,7 +92,7 @@ router.get('/parish/:parishId', authenticate, requirePermission('VIEW_FAMILIES')
  *                   items:
  *                     $ref: '#/components/schemas/Family'
  */
-router.get('/parish/:parishId/all', authenticate, requirePermission('VIEW_FAMILIES'), FamilyController.getAllByParish);
+router.get('/parish/:parishId/all', authenticate, permissionGuard('GET /families/parish/:parishId/all'), FamilyController.getAllByParish);
 
 /**
  * @swagger
@@ -129,7 +130,7 @@ router.get('/parish/:parishId/all', authenticate, requirePermission('VIEW_FAMILI
  *                   items:
  *                     $ref: '#/components/schemas/Family'
  */
-router.get('/parish/:parishId/search', authenticate, requirePermission('VIEW_FAMILIES'), validate(searchFamilySchema), FamilyController.search);
+router.get('/parish/:parishId/search', authenticate, permissionGuard('GET /families/parish/:parishId/search'), validate(searchFamilySchema), FamilyController.search);
 
 /**
  * @swagger
@@ -174,7 +175,7 @@ router.get('/parish/:parishId/search', authenticate, requirePermission('VIEW_FAM
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/ward/:wardId', authenticate, requirePermission('VIEW_FAMILIES'), validate(familiesByWardSchema), FamilyController.getByWardId);
+router.get('/ward/:wardId', authenticate, permissionGuard('GET /families/ward/:wardId'), validate(familiesByWardSchema), FamilyController.getByWardId);
 
 /**
  * @swagger
@@ -210,7 +211,7 @@ router.get('/ward/:wardId', authenticate, requirePermission('VIEW_FAMILIES'), va
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, requirePermission('VIEW_FAMILIES'), validate(familyIdSchema), FamilyController.getById);
+router.get('/:id', authenticate, permissionGuard('GET /families/:id'), validate(familyIdSchema), FamilyController.getById);
 
 /**
  * @swagger
@@ -218,7 +219,7 @@ router.get('/:id', authenticate, requirePermission('VIEW_FAMILIES'), validate(fa
  *   post:
  *     summary: Bulk create/update family with members and ward
  *     tags: [Families]
- *     description: Create or use existing family and ward, then add members in a single transaction (Church Admin only)
+ *     description: Create or use existing family and ward, then add members in a single transaction (Church Admin only). Each new member is emailed an expiring invitation link to set their password.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -312,7 +313,7 @@ router.get('/:id', authenticate, requirePermission('VIEW_FAMILIES'), validate(fa
  *                       example: "john.smith@example.com"
  *                     password:
  *                       type: string
- *                       description: Password (defaults to Parish@123 if not provided)
+ *                       description: Optional temporary password. Members always receive an emailed invitation and must set their own password before their first login
  *                       example: "SecurePass@123"
  *                     phone:
  *                       type: string
@@ -373,7 +374,7 @@ router.get('/:id', authenticate, requirePermission('VIEW_FAMILIES'), validate(fa
  *       403:
  *         description: Forbidden - Admin access required
  */
-router.post('/bulk-create', authenticate, requirePermission('MANAGE_FAMILIES'), validate(bulkCreateSchema), FamilyController.bulkCreate);
+router.post('/bulk-create', authenticate, permissionGuard('POST /families/bulk-create'), validate(bulkCreateSchema), auditTrail('families', { bulk: true }), FamilyController.bulkCreate);
 
 /**
  * @swagger
@@ -381,7 +382,7 @@ router.post('/bulk-create', authenticate, requirePermission('MANAGE_FAMILIES'),
  *   post:
  *     summary: Bulk upload families and members from CSV file
  *     tags: [Families]
- *     description: Upload a CSV file to create multiple families and members in a single operation (Church Admin only)
+ *     description: Upload a CSV file to create multiple families and members in a single operation (Church Admin only). Each new member is emailed an expiring invitation link to set their password.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -447,7 +448,7 @@ router.post('/bulk-create', authenticate, requirePermission('MANAGE_FAMILIES'),
  *       403:
  *         description: Forbidden - Admin access required
  */
-router.post('/bulk-upload-csv', authenticate, requirePermission('MANAGE_FAMILIES'), uploadCSV.single('file'), FamilyController.bulkUploadCSV);
+router.post('/bulk-upload-csv', authenticate, permissionGuard('POST /families/bulk-upload-csv'), uploadCSV.single('file'), auditTrail('families', { bulk: true }), FamilyController.bulkUploadCSV);
 
 /**
  * @swagger
@@ -499,7 +500,7 @@ router.post('/bulk-upload-csv', authenticate, requirePermission('MANAGE_FAMILIES
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticate, requirePermission('MANAGE_FAMILIES'), validate(createFamilySchema), FamilyController.create);
+router.post('/', authenticate, permissionGuard('POST /families'), validate(createFamilySchema), auditTrail('families'), FamilyController.create);
 
 /**
  * @swagger
@@ -546,7 +547,7 @@ router.post('/', authenticate, requirePermission('MANAGE_FAMILIES'), validate(cr
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', authenticate, requirePermission('MANAGE_FAMILIES'), validate(familyIdSchema), validate(updateFamilySchema), FamilyController.update);
+router.put('/:id', authenticate, permissionGuard('PUT /families/:id'), validate(familyIdSchema), validate(updateFamilySchema), auditTrail('families', { idParam: 'id' }), FamilyController.update);
 
 /**
  * @swagger
@@ -585,6 +586,6 @@ router.put('/:id', authenticate, requirePermission('MANAGE_FAMILIES'), validate(
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', authenticate, requirePermission('MANAGE_FAMILIES'), validate(familyIdSchema), FamilyController.delete);
+router.delete('/:id', authenticate, permissionGuard('DELETE /families/:id'), validate(familyIdSchema), auditTrail('families', { idParam: 'id' }), FamilyController.delete);
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import authRoutes from './auth.routes';
 import parishRoutes from './parish.routes';
+import dioceseRoutes from './diocese.routes';
 import wardRoutes from './ward.routes';
 import familyRoutes from './family.routes';
 import parishionerRoutes from './parishioner.routes';
@@ -9,7 +10,11 @@ import prayerRequestRoutes from './prayerRequest.routes';
 import accountRoutes from './account.routes';
 import bibleRoutes from './bible.routes';
 import roleRoutes from './role.routes';
+import roleTemplateRoutes from './roleTemplate.routes';
+import delegationRoutes from './delegation.routes';
+import auditRoutes from './audit.routes';
 import otpRoutes from './otp.routes';
+import privacyRoutes from './privacy.routes';
 // Import other route modules here as they are created
 // etc.
 
@@ -41,6 +46,7 @@ router.get('/health', (_req, res) => {
 // Mount route modules
 router.use('/auth', authRoutes);
 router.use('/parishes', parishRoutes);
+router.use('/dioceses', dioceseRoutes);
 router.use('/wards', wardRoutes);
 router.use('/families', familyRoutes);
 router.use('/parishioners', parishionerRoutes);
@@ -49,7 +55,11 @@ router.use('/prayer-requests', prayerRequestRoutes);
 router.use('/accounts', accountRoutes);
 router.use('/bible', bibleRoutes);
 router.use('/roles', roleRoutes);
+router.use('/role-templates', roleTemplateRoutes);
+router.use('/delegations', delegationRoutes);
+router.use('/audit-logs', auditRoutes);
 router.use('/otp', otpRoutes);
+router.use('/privacy', privacyRoutes);
 // Add more routes as needed
 
 export default router;
@@ -12,6 +12,8 @@ import {
   verifyLoginOTPSchema,
   requestPasswordResetOTPSchema,
   verifyPasswordResetOTPSchema,
+  requestEmailVerificationOTPSchema,
+  verifyEmailOTPSchema,
   resendOTPSchema,
 } from '../validators/otp.validator';
 import { authenticate } from '../middleware/auth';
@@ -30,7 +32,7 @@ const router = Router();
  * /otp/request-login:
  *   post:
  *     summary: Request OTP for login
- *     description: Send an OTP to the user's email for authentication
+ *     description: Send an OTP to the user's email (or phone, with delivery_method sms) for authentication
  *     tags: [OTP Authentication]
  *     requestBody:
  *       required: true
@@ -45,6 +47,11 @@ const router = Router();
  *                 type: string
  *                 format: email
  *                 example: john.doe@example.com
+ *               delivery_method:
+ *                 type: string
+ *                 enum: [email, sms]
+ *                 default: email
+ *                 description: Send the code by SMS to the phone number on the account
  *     responses:
  *       200:
  *         description: OTP sent successfully
@@ -65,6 +72,13 @@ const router = Router();
  *                     email:
  *                       type: string
  *                       example: j***e@example.com
+ *                     phone:
+ *                       type: string
+ *                       description: Masked phone number (SMS delivery only)
+ *                       example: +9-XXX-XXXX-3210
+ *                     delivery_method:
+ *                       type: string
+ *                       enum: [email, sms]
  *                     expiresIn:
  *                       type: string
  *                       example: 10 minutes
@@ -82,7 +96,9 @@ router.post(
  * /otp/verify-login:
  *   post:
  *     summary: Verify OTP and login
- *     description: Verify the OTP code and receive JWT tokens for authentication
+ *     description: |
+ *       Verify the OTP code and receive JWT tokens for authentication. Accounts that must set a new password
+ *       (invited users) receive a password_change_token for /auth/accept-invite instead, as with a password login.
  *     tags: [OTP Authentication]
  *     requestBody:
  *       required: true
@@ -150,7 +166,7 @@ router.post(
  * /otp/request-reset:
  *   post:
  *     summary: Request OTP for password reset
- *     description: Send an OTP to the user's email for password reset
+ *     description: Send an OTP to the user's email (or phone, with delivery_method sms) for password reset
  *     tags: [OTP Authentication]
  *     requestBody:
  *       required: true
@@ -165,6 +181,11 @@ router.post(
  *                 type: string
  *                 format: email
  *                 example: john.doe@example.com
+ *               delivery_method:
+ *                 type: string
+ *                 enum: [email, sms]
+ *                 default: email
+ *                 description: Send the code by SMS to the phone number on the account
  *     responses:
  *       200:
  *         description: Password reset OTP sent successfully
@@ -185,6 +206,13 @@ router.post(
  *                     email:
  *                       type: string
  *                       example: j***e@example.com
+ *                     phone:
+ *                       type: string
+ *                       description: Masked phone number (SMS delivery only)
+ *                       example: +9-XXX-XXXX-3210
+ *                     delivery_method:
+ *                       type: string
+ *                       enum: [email, sms]
  *                     expiresIn:
  *                       type: string
  *                       example: 15 minutes
@@ -254,12 +282,92 @@ router.post(
   OtpController.verifyPasswordResetOTP
 );
 
+/**
+ * @swagger
+ * /otp/request-verification:
+ *   post:
+ *     summary: Request email verification OTP
+ *     description: |
+ *       Send a verification code (and verify link) to the user's email address. The response is the same
+ *       whether or not the email is registered or already verified.
+ *     tags: [OTP Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@example.com
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: If this email is registered and not yet verified, a verification OTP has been sent.
+ */
+router.post(
+  '/request-verification',
+  validate({ body: requestEmailVerificationOTPSchema }),
+  OtpController.requestEmailVerificationOTP
+);
+
+/**
+ * @swagger
+ * /otp/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     description: Verify the OTP code sent to the user's email address and mark the email as verified
+ *     tags: [OTP Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - otp_code
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@example.com
+ *               otp_code:
+ *                 type: string
+ *                 pattern: '^[0-9]{6}$'
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       401:
+ *         description: Invalid or expired OTP
+ */
+router.post(
+  '/verify-email',
+  validate({ body: verifyEmailOTPSchema }),
+  OtpController.verifyEmailOTP
+);
+
 /**
  * @swagger
  * /otp/resend:
  *   post:
  *     summary: Resend OTP
- *     description: Resend OTP for login or password reset
+ *     description: Resend OTP for login, password reset or email verification
  *     tags: [OTP Authentication]
  *     requestBody:
  *       required: true
@@ -277,8 +385,13 @@ router.post(
  *                 example: john.doe@example.com
  *               otp_type:
  *                 type: string
- *                 enum: [login, password_reset]
+ *                 enum: [login, password_reset, verification]
  *                 example: login
+ *               delivery_method:
+ *                 type: string
+ *                 enum: [email, sms]
+ *                 default: email
+ *                 description: SMS is available for login and password_reset codes
  *     responses:
  *       200:
  *         description: OTP resent successfully
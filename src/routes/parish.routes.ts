@@ -2,11 +2,18 @@ import { Router } from 'express';
 import { ParishController } from '../controllers/parish.controller';
 import { validate } from '../middleware/validate';
 import { authenticate } from '../middleware/auth';
-import { requirePermission } from '../middleware/permission';
+import { permissionGuard } from '../middleware/routeGuard';
+import { auditTrail } from '../middleware/audit';
 import {
   createParishSchema,
   updateParishSchema,
   parishIdSchema,
+  deleteParishSchema,
+  updateParishSettingsSchema,
+  inviteChurchAdminSchema,
+  updateChurchAdminSchema,
+  deactivateChurchAdminSchema,
+  transferPrimaryAdminSchema,
   paginationSchema,
   searchParishSchema,
 } from '../validators/parish.validator';
@@ -44,7 +51,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/PaginatedParishResponse'
  */
-router.get('/', authenticate, requirePermission('VIEW_PARISHES'), validate(paginationSchema), ParishController.getAll);
+router.get('/', authenticate, permissionGuard('GET /parishes'), validate(paginationSchema), ParishController.getAll);
 
 /**
  * @swagger
@@ -82,7 +89,34 @@ router.get('/', authenticate, requirePermission('VIEW_PARISHES'), validate(pagin
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/search', authenticate, requirePermission('VIEW_PARISHES'), validate(searchParishSchema), ParishController.search);
+router.get('/search', authenticate, permissionGuard('GET /parishes/search'), validate(searchParishSchema), ParishController.search);
+
+/**
+ * @swagger
+ * /parishes/pending-deletion:
+ *   get:
+ *     summary: List parishes pending deletion (Super Admin only)
+ *     tags: [Parishes]
+ *     description: Deleted parishes that can still be restored, soonest purge first (see deletion_scheduled_for)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Parishes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Parish'
+ */
+router.get('/pending-deletion', authenticate, permissionGuard('GET /parishes/pending-deletion'), ParishController.getPendingDeletion);
 
 /**
  * @swagger
@@ -118,7 +152,7 @@ router.get('/search', authenticate, requirePermission('VIEW_PARISHES'), validate
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, requirePermission('VIEW_PARISHES'), validate(parishIdSchema), ParishController.getById);
+router.get('/:id', authenticate, permissionGuard('GET /parishes/:id'), validate(parishIdSchema), ParishController.getById);
 
 /**
  * @swagger
@@ -154,7 +188,441 @@ router.get('/:id', authenticate, requirePermission('VIEW_PARISHES'), validate(pa
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id/stats', authenticate, requirePermission('VIEW_PARISHES'), validate(parishIdSchema), ParishController.getStats);
+router.get('/:id/stats', authenticate, permissionGuard('GET /parishes/:id/stats'), validate(parishIdSchema), ParishController.getStats);
+
+/**
+ * @swagger
+ * /parishes/{id}/subscription:
+ *   get:
+ *     summary: Get parish subscription
+ *     tags: [Parishes]
+ *     description: |
+ *       The parish's plan with its features and quotas, current usage, and expiry state. After the
+ *       expiry date the parish is read-only for SUBSCRIPTION_GRACE_DAYS (default 14), then suspended until renewed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     responses:
+ *       200:
+ *         description: Subscription retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ParishSubscription'
+ *       404:
+ *         description: Parish not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/subscription', authenticate, permissionGuard('GET /parishes/:id/subscription'), validate(parishIdSchema), ParishController.getSubscription);
+
+/**
+ * @swagger
+ * /parishes/{id}/settings:
+ *   get:
+ *     summary: Get parish settings
+ *     tags: [Parishes]
+ *     description: The parish's effective settings, the defaults, and which settings the parish has changed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     responses:
+ *       200:
+ *         description: Settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ParishSettingsView'
+ *       404:
+ *         description: Parish not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/settings', authenticate, permissionGuard('GET /parishes/:id/settings'), validate(parishIdSchema), ParishController.getSettings);
+
+/**
+ * @swagger
+ * /parishes/{id}/settings:
+ *   put:
+ *     summary: Update parish settings
+ *     tags: [Parishes]
+ *     description: Change some settings of a parish (Super Admin or Church Admin of that parish). Send null to return a setting to its default.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateParishSettings'
+ *     responses:
+ *       200:
+ *         description: Settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Parish settings updated successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/ParishSettingsView'
+ *       400:
+ *         description: Invalid setting value
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Parish not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put(
+  '/:id/settings',
+  authenticate,
+  permissionGuard('PUT /parishes/:id/settings'),
+  validate(parishIdSchema),
+  validate(updateParishSettingsSchema),
+  auditTrail('parish_settings', { idParam: 'id' }),
+  ParishController.updateSettings
+);
+
+/**
+ * @swagger
+ * /parishes/{id}/admins:
+ *   get:
+ *     summary: List church admins of a parish
+ *     tags: [Parishes]
+ *     description: Active church admins (staff) of a parish, primary admin first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     responses:
+ *       200:
+ *         description: Church admins retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChurchAdmin'
+ *       404:
+ *         description: Parish not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/admins', authenticate, permissionGuard('GET /parishes/:id/admins'), validate(parishIdSchema), ParishController.getAdmins);
+
+/**
+ * @swagger
+ * /parishes/{id}/admins:
+ *   post:
+ *     summary: Invite a church admin
+ *     tags: [Parishes]
+ *     description: |
+ *       Create a church admin account for the parish (Super Admin or Church Admin of that parish).
+ *       The new admin receives an invitation email to set their password. Inviting the email of an
+ *       admin of this parish who was deactivated reactivates them.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InviteChurchAdmin'
+ *     responses:
+ *       201:
+ *         description: Church admin invited successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Church admin invited successfully. An invitation email has been sent.
+ *                 data:
+ *                   $ref: '#/components/schemas/ChurchAdmin'
+ *       403:
+ *         description: Only church admins of this parish can manage its admins
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Email already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/:id/admins',
+  authenticate,
+  permissionGuard('POST /parishes/:id/admins'),
+  validate(inviteChurchAdminSchema),
+  ParishController.inviteAdmin
+);
+
+/**
+ * @swagger
+ * /parishes/{id}/admins/transfer-primary:
+ *   post:
+ *     summary: Transfer the primary admin role
+ *     tags: [Parishes]
+ *     description: Make another church admin of the parish its primary admin (current primary admin or Super Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - church_admin_id
+ *             properties:
+ *               church_admin_id:
+ *                 type: integer
+ *                 description: Admin who becomes the primary admin
+ *     responses:
+ *       200:
+ *         description: Primary admin transferred; returns the admins of the parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Primary admin transferred successfully
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChurchAdmin'
+ *       403:
+ *         description: Only the primary admin can transfer the primary admin role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Church admin not found in this parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/:id/admins/transfer-primary',
+  authenticate,
+  permissionGuard('POST /parishes/:id/admins/transfer-primary'),
+  validate(transferPrimaryAdminSchema),
+  ParishController.transferPrimaryAdmin
+);
+
+/**
+ * @swagger
+ * /parishes/{id}/admins/{adminId}:
+ *   put:
+ *     summary: Update a church admin
+ *     tags: [Parishes]
+ *     description: Change the staff role, department or hire date of a church admin (Super Admin or Church Admin of that parish)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *       - in: path
+ *         name: adminId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Church admin ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 example: Parish Secretary
+ *               department:
+ *                 type: string
+ *               hire_date:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Church admin updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Church admin updated successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/ChurchAdmin'
+ *       404:
+ *         description: Church admin not found in this parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put(
+  '/:id/admins/:adminId',
+  authenticate,
+  permissionGuard('PUT /parishes/:id/admins/:adminId'),
+  validate(updateChurchAdminSchema),
+  ParishController.updateAdmin
+);
+
+/**
+ * @swagger
+ * /parishes/{id}/admins/{adminId}:
+ *   delete:
+ *     summary: Deactivate a church admin
+ *     tags: [Parishes]
+ *     description: |
+ *       Deactivate a church admin and their account, ending their sessions (Super Admin or Church Admin of that parish).
+ *       The primary admin can only be removed by themselves or a Super Admin, naming another admin of the parish
+ *       as successor_admin_id, who becomes the primary admin.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *       - in: path
+ *         name: adminId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Church admin ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               successor_admin_id:
+ *                 type: integer
+ *                 description: New primary admin (required when removing the primary admin)
+ *     responses:
+ *       200:
+ *         description: Church admin deactivated successfully
+ *       400:
+ *         description: A successor is required to remove the primary admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Church admin not found in this parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  '/:id/admins/:adminId',
+  authenticate,
+  permissionGuard('DELETE /parishes/:id/admins/:adminId'),
+  validate(deactivateChurchAdminSchema),
+  ParishController.deactivateAdmin
+);
 
 /**
  * @swagger
@@ -209,8 +677,9 @@ router.get('/:id/stats', authenticate, requirePermission('VIEW_PARISHES'), valid
 router.post(
   '/',
   authenticate,
-  requirePermission('CREATE_PARISH'),
+  permissionGuard('POST /parishes'),
   validate(createParishSchema),
+  auditTrail('parishes'),
   ParishController.create
 );
 
@@ -280,9 +749,10 @@ router.post(
 router.put(
   '/:id',
   authenticate,
-  requirePermission('EDIT_PARISH'),
+  permissionGuard('PUT /parishes/:id'),
   validate(parishIdSchema),
   validate(updateParishSchema),
+  auditTrail('parishes', { idParam: 'id' }),
   ParishController.update
 );
 
@@ -292,7 +762,10 @@ router.put(
  *   delete:
  *     summary: Delete a parish
  *     tags: [Parishes]
- *     description: Soft delete a parish (Super Admin only)
+ *     description: |
+ *       Marks the parish pending deletion (Super Admin only). The parish is hidden, its members are signed out
+ *       and cannot sign in, and it is purged with everything that belongs to it once the grace period
+ *       (PARISH_DELETION_GRACE_DAYS, default 30) ends. Until then it can be restored.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -302,6 +775,16 @@ router.put(
  *           type: integer
  *         required: true
  *         description: Parish ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 255
  *     responses:
  *       200:
  *         description: Parish deleted successfully
@@ -315,7 +798,9 @@ router.put(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Parish deleted successfully
+ *                   example: Parish scheduled for deletion. It can be restored until 2025-12-01T10:00:00.000Z
+ *                 data:
+ *                   $ref: '#/components/schemas/Parish'
  *       401:
  *         description: Unauthorized - Invalid or missing token
  *         content:
@@ -338,9 +823,56 @@ router.put(
 router.delete(
   '/:id',
   authenticate,
-  requirePermission('DELETE_PARISH'),
+  permissionGuard('DELETE /parishes/:id'),
   validate(parishIdSchema),
+  validate(deleteParishSchema),
+  auditTrail('parishes', { idParam: 'id' }),
   ParishController.delete
 );
 
+/**
+ * @swagger
+ * /parishes/{id}/restore:
+ *   post:
+ *     summary: Restore a parish pending deletion
+ *     tags: [Parishes]
+ *     description: Cancels the deletion (Super Admin only). The parish and everything that belongs to it are active again and members can sign in.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Parish ID
+ *     responses:
+ *       200:
+ *         description: Parish restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Parish'
+ *       404:
+ *         description: Parish not found (it may already have been purged)
+ *       409:
+ *         description: Parish is not pending deletion
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  permissionGuard('POST /parishes/:id/restore'),
+  validate(parishIdSchema),
+  auditTrail('parishes', { idParam: 'id', action: 'RESTORE' }),
+  ParishController.restore
+);
+
 export default router;
@@ -3,7 +3,8 @@ import { ParishionerController } from '../controllers/parishioner.controller';
 import { WardController } from '../controllers/ward.controller';
 import { validate } from '../middleware/validate';
 import { authenticate } from '../middleware/auth';
-import { requirePermission } from '../middleware/permission';
+import { permissionGuard } from '../middleware/routeGuard';
+import { auditTrail } from '../middleware/audit';
 import {
   createParishionerSchema,
   updateParishionerSchema,
@@ -59,7 +60,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId', authenticate, requirePermission('VIEW_PARISHIONERS'), validate(parishionersByParishSchema), ParishionerController.getByParishId);
+router.get('/parish/:parishId', authenticate, permissionGuard('GET /parishioners/parish/:parishId'), validate(parishionersByParishSchema), ParishionerController.getByParishId);
 
 /**
  * @swagger
@@ -91,7 +92,7 @@ router.get('/parish/:parishId', authenticate, requirePermission('VIEW_PARISHIONE
  *                   items:
  *                     $ref: '#/components/schemas/Parishioner'
  */
-router.get('/parish/:parishId/all', authenticate, requirePermission('VIEW_PARISHIONERS'), ParishionerController.getAllByParish);
+router.get('/parish/:parishId/all', authenticate, permissionGuard('GET /parishioners/parish/:parishId/all'), ParishionerController.getAllByParish);
 
 /**
  * @swagger
@@ -129,7 +130,7 @@ router.get('/parish/:parishId/all', authenticate, requirePermission('VIEW_PARISH
  *                   items:
  *                     $ref: '#/components/schemas/Parishioner'
  */
-router.get('/parish/:parishId/search', authenticate, requirePermission('VIEW_PARISHIONERS'), validate(searchParishionerSchema), ParishionerController.search);
+router.get('/parish/:parishId/search', authenticate, permissionGuard('GET /parishioners/parish/:parishId/search'), validate(searchParishionerSchema), ParishionerController.search);
 
 /**
  * @swagger
@@ -174,7 +175,7 @@ router.get('/parish/:parishId/search', authenticate, requirePermission('VIEW_PAR
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/ward/:wardId', authenticate, requirePermission('VIEW_PARISHIONERS'), validate(parishionersByWardSchema), ParishionerController.getByWardId);
+router.get('/ward/:wardId', authenticate, permissionGuard('GET /parishioners/ward/:wardId'), validate(parishionersByWardSchema), ParishionerController.getByWardId);
 
 /**
  * @swagger
@@ -212,7 +213,7 @@ router.get('/ward/:wardId', authenticate, requirePermission('VIEW_PARISHIONERS')
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/family/:familyId', authenticate, requirePermission('VIEW_PARISHIONERS'), validate(parishionersByFamilySchema), ParishionerController.getByFamilyId);
+router.get('/family/:familyId', authenticate, permissionGuard('GET /parishioners/family/:familyId'), validate(parishionersByFamilySchema), ParishionerController.getByFamilyId);
 
 /**
  * @swagger
@@ -248,7 +249,7 @@ router.get('/family/:familyId', authenticate, requirePermission('VIEW_PARISHIONE
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, requirePermission('VIEW_PARISHIONERS'), validate(parishionerIdSchema), ParishionerController.getById);
+router.get('/:id', authenticate, permissionGuard('GET /parishioners/:id'), validate(parishionerIdSchema), ParishionerController.getById);
 
 /**
  * @swagger
@@ -300,7 +301,7 @@ router.get('/:id', authenticate, requirePermission('VIEW_PARISHIONERS'), validat
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticate, requirePermission('CREATE_PARISHIONER'), validate(createParishionerSchema), ParishionerController.create);
+router.post('/', authenticate, permissionGuard('POST /parishioners'), validate(createParishionerSchema), auditTrail('parishioners'), ParishionerController.create);
 
 /**
  * @swagger
@@ -347,7 +348,7 @@ router.post('/', authenticate, requirePermission('CREATE_PARISHIONER'), validate
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', authenticate, requirePermission('EDIT_PARISHIONER'), validate(parishionerIdSchema), validate(updateParishionerSchema), ParishionerController.update);
+router.put('/:id', authenticate, permissionGuard('PUT /parishioners/:id'), validate(parishionerIdSchema), validate(updateParishionerSchema), auditTrail('parishioners', { idParam: 'id' }), ParishionerController.update);
 
 /**
  * @swagger
@@ -386,7 +387,7 @@ router.put('/:id', authenticate, requirePermission('EDIT_PARISHIONER'), validate
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', authenticate, requirePermission('DELETE_PARISHIONER'), validate(parishionerIdSchema), ParishionerController.delete);
+router.delete('/:id', authenticate, permissionGuard('DELETE /parishioners/:id'), validate(parishionerIdSchema), auditTrail('parishioners', { idParam: 'id' }), ParishionerController.delete);
 
 /**
  * @swagger
@@ -418,6 +419,6 @@ router.delete('/:id', authenticate, requirePermission('DELETE_PARISHIONER'), val
  *                   items:
  *                     type: object
  */
-router.get('/:parishionerId/ward-roles', authenticate, requirePermission('VIEW_PARISHIONERS'), WardController.getParishionerWardRoles);
+router.get('/:parishionerId/ward-roles', authenticate, permissionGuard('GET /parishioners/:parishionerId/ward-roles'), WardController.getParishionerWardRoles);
 
 export default router;
@@ -1,8 +1,8 @@
 import { Router } from 'express';
 import { PrayerRequestController } from '../controllers/prayerRequest.controller';
 import { validate } from '../middleware/validate';
-import { authenticate } from '../middleware/auth';
-import { requirePermission } from '../middleware/permission';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth';
+import { permissionGuard } from '../middleware/routeGuard';
 import { createPrayerRequestSchema, parishIdSchema } from '../validators/prayerRequest.validator';
 
 const router = Router();
@@ -40,7 +40,7 @@ const router = Router();
 router.get(
   '/parish/:parishId/active',
   authenticate,
-  requirePermission('VIEW_PRAYER_REQUESTS'),
+  permissionGuard('GET /prayer-requests/parish/:parishId/active'),
   validate(parishIdSchema),
   PrayerRequestController.getActiveRequests
 );
@@ -78,7 +78,7 @@ router.get(
 router.get(
   '/parish/:parishId/past',
   authenticate,
-  requirePermission('VIEW_PRAYER_REQUESTS'),
+  permissionGuard('GET /prayer-requests/parish/:parishId/past'),
   validate(parishIdSchema),
   PrayerRequestController.getPastRequests
 );
@@ -156,7 +156,8 @@ router.get(
 router.post(
   '/',
   authenticate,
-  requirePermission('CREATE_PRAYER_REQUEST'),
+  requireVerifiedEmail,
+  permissionGuard('POST /prayer-requests'),
   validate(createPrayerRequestSchema),
   PrayerRequestController.create
 );
@@ -197,7 +198,7 @@ router.post(
 router.patch(
   '/:id/approve',
   authenticate,
-  requirePermission('MANAGE_PRAYER_REQUESTS'),
+  permissionGuard('PATCH /prayer-requests/:id/approve'),
   PrayerRequestController.approve
 );
 
@@ -237,7 +238,7 @@ router.patch(
 router.patch(
   '/:id/close',
   authenticate,
-  requirePermission('MANAGE_PRAYER_REQUESTS'),
+  permissionGuard('PATCH /prayer-requests/:id/close'),
   PrayerRequestController.close
 );
 
@@ -247,7 +248,7 @@ router.patch(
  *   post:
  *     summary: Manually trigger auto-archive (Testing/Admin)
  *     tags: [Prayer Requests]
- *     description: Manually archive prayer requests older than specified days (Admin only)
+ *     description: Manually archive prayer requests older than specified days (Admin only). Without daysOld each parish's prayer_request_archive_days setting applies.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -255,8 +256,7 @@ router.patch(
  *         name: daysOld
  *         schema:
  *           type: integer
- *           default: 10
- *         description: Number of days old to archive (default 10)
+ *         description: Number of days old to archive (default each parish's setting, 10 unless changed)
  *     responses:
  *       200:
  *         description: Auto-archive completed successfully
@@ -279,12 +279,14 @@ router.patch(
  *                       example: 5
  *                     days_threshold:
  *                       type: integer
+ *                       nullable: true
  *                       example: 10
+ *                       description: null when each parish's setting was applied
  */
 router.post(
   '/auto-archive',
   authenticate,
-  requirePermission('MANAGE_PRAYER_REQUESTS'),
+  permissionGuard('POST /prayer-requests/auto-archive'),
   PrayerRequestController.manualArchive
 );
 
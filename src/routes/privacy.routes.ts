@@ -0,0 +1,420 @@
+import { Router } from 'express';
+import { PrivacyController } from '../controllers/privacy.controller';
+import { validate } from '../middleware/validate';
+import { authenticate, requireChurchAdmin } from '../middleware/auth';
+import {
+  exportQuerySchema,
+  userExportSchema,
+  createErasureRequestSchema,
+  erasureRequestsQuerySchema,
+  erasureRequestIdSchema,
+  reviewErasureRequestSchema,
+} from '../validators/privacy.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /privacy/export:
+ *   get:
+ *     summary: Download your personal data
+ *     tags: [Data Privacy]
+ *     description: Download everything stored about you - account, parishioner record, family, ward roles, prayer requests, bible bookmarks, reading history and the emails sent to you. The ZIP archive contains one JSON file per section. Email bodies are not included.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, zip]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Personal data export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/export', authenticate, validate(exportQuerySchema), PrivacyController.exportOwnData);
+
+/**
+ * @swagger
+ * /privacy/users/{userId}/export:
+ *   get:
+ *     summary: Download a user's personal data (Church Admin or Super Admin)
+ *     tags: [Data Privacy]
+ *     description: Export a member's data on their behalf, e.g. for members without app access. Church admins can only export users of their own parish.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, zip]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Personal data export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Forbidden - User belongs to another parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  '/users/:userId/export',
+  authenticate,
+  requireChurchAdmin,
+  validate(userExportSchema),
+  PrivacyController.exportUserData
+);
+
+/**
+ * @swagger
+ * /privacy/erasure-requests:
+ *   post:
+ *     summary: Request erasure of your account
+ *     tags: [Data Privacy]
+ *     description: Ask your parish to erase your personal data. Once approved, the account is anonymised and can no longer sign in. Sacramental dates and financial entries the parish is obliged to retain are kept.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Erasure request submitted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DataErasureRequest'
+ *       400:
+ *         description: Administrator accounts cannot request erasure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: An erasure request is already pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   get:
+ *     summary: List erasure requests (Church Admin or Super Admin)
+ *     tags: [Data Privacy]
+ *     description: Church admins only see requests of their own parish.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, rejected, cancelled]
+ *       - in: query
+ *         name: parish_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Erasure requests retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DataErasureRequest'
+ *                 pagination:
+ *                   type: object
+ *       403:
+ *         description: Forbidden - Admin access required or parish mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/erasure-requests',
+  authenticate,
+  validate(createErasureRequestSchema),
+  PrivacyController.requestErasure
+);
+router.get(
+  '/erasure-requests',
+  authenticate,
+  requireChurchAdmin,
+  validate(erasureRequestsQuerySchema),
+  PrivacyController.getErasureRequests
+);
+
+/**
+ * @swagger
+ * /privacy/erasure-requests/me:
+ *   get:
+ *     summary: Get your erasure requests
+ *     tags: [Data Privacy]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Erasure requests retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DataErasureRequest'
+ */
+router.get('/erasure-requests/me', authenticate, PrivacyController.getOwnErasureRequests);
+
+/**
+ * @swagger
+ * /privacy/erasure-requests/{requestId}:
+ *   delete:
+ *     summary: Cancel your pending erasure request
+ *     tags: [Data Privacy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Erasure request cancelled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       404:
+ *         description: Erasure request not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Erasure request has already been processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  '/erasure-requests/:requestId',
+  authenticate,
+  validate(erasureRequestIdSchema),
+  PrivacyController.cancelErasureRequest
+);
+
+/**
+ * @swagger
+ * /privacy/erasure-requests/{requestId}/approve:
+ *   post:
+ *     summary: Approve an erasure request (Church Admin or Super Admin)
+ *     tags: [Data Privacy]
+ *     description: |
+ *       Anonymises the account in a single transaction:
+ *       - The user's name, email, phone and avatar are replaced and the account is deactivated
+ *       - Contact details, address, emergency contact and notes are cleared from the parishioner record
+ *       - Sacramental dates are kept; the parishioner's name and date of birth are only kept when a sacramental date is recorded
+ *       - Prayer requests are anonymised, ward roles deactivated, bookmarks and reading history deleted
+ *       - Email log bodies are removed and all sessions, OTPs and two-factor data are deleted
+ *       - Audit log entries about the parishioner, or mentioning their email, keep who and when but lose their record values
+ *       - Financial entries are not changed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Personal data erased successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DataErasureRequest'
+ *       403:
+ *         description: Forbidden - Request belongs to another parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Erasure request not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Erasure request has already been processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/erasure-requests/:requestId/approve',
+  authenticate,
+  requireChurchAdmin,
+  validate(reviewErasureRequestSchema),
+  PrivacyController.approveErasureRequest
+);
+
+/**
+ * @swagger
+ * /privacy/erasure-requests/{requestId}/reject:
+ *   post:
+ *     summary: Reject an erasure request (Church Admin or Super Admin)
+ *     tags: [Data Privacy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Erasure request rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DataErasureRequest'
+ *       403:
+ *         description: Forbidden - Request belongs to another parish
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Erasure request not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Erasure request has already been processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/erasure-requests/:requestId/reject',
+  authenticate,
+  requireChurchAdmin,
+  validate(reviewErasureRequestSchema),
+  PrivacyController.rejectErasureRequest
+);
+
+export default router;
@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import { RoleController } from '../controllers/role.controller';
-import { authenticate } from '../middleware/auth';
-import { requirePermission } from '../middleware/permission';
+import { authenticate, requireSuperAdmin } from '../middleware/auth';
+import { permissionGuard } from '../middleware/routeGuard';
+import { auditTrail, recordsFrom } from '../middleware/audit';
+import { validate } from '../middleware/validate';
+import { permissionMatrixSchema, updatePermissionMatrixSchema, cloneRoleSchema } from '../validators/role.validator';
 
 const router = Router();
 
@@ -106,7 +109,7 @@ router.get('/:roleId/permissions', RoleController.getRolePermissions);
  *       201:
  *         description: Role created successfully
  */
-router.post('/', requirePermission('roles.create'), RoleController.createRole);
+router.post('/', permissionGuard('POST /roles'), auditTrail('roles'), RoleController.createRole);
 
 /**
  * @swagger
@@ -141,7 +144,7 @@ router.post('/', requirePermission('roles.create'), RoleController.createRole);
  *       200:
  *         description: Role updated successfully
  */
-router.put('/:roleId', requirePermission('roles.update'), RoleController.updateRole);
+router.put('/:roleId', permissionGuard('PUT /roles/:roleId'), auditTrail('roles', { idParam: 'roleId' }), RoleController.updateRole);
 
 /**
  * @swagger
@@ -161,7 +164,7 @@ router.put('/:roleId', requirePermission('roles.update'), RoleController.updateR
  *       200:
  *         description: Role deleted successfully
  */
-router.delete('/:roleId', requirePermission('roles.delete'), RoleController.deleteRole);
+router.delete('/:roleId', permissionGuard('DELETE /roles/:roleId'), auditTrail('roles', { idParam: 'roleId' }), RoleController.deleteRole);
 
 /**
  * @swagger
@@ -192,7 +195,7 @@ router.delete('/:roleId', requirePermission('roles.delete'), RoleController.dele
  *       201:
  *         description: Permission assigned successfully
  */
-router.post('/:roleId/permissions', requirePermission('permissions.manage'), RoleController.assignPermissionToRole);
+router.post('/:roleId/permissions', permissionGuard('POST /roles/:roleId/permissions'), auditTrail('role_permissions', { idParam: 'roleId', action: 'UPDATE', reload: true }), RoleController.assignPermissionToRole);
 
 /**
  * @swagger
@@ -217,7 +220,47 @@ router.post('/:roleId/permissions', requirePermission('permissions.manage'), Rol
  *       200:
  *         description: Permission removed successfully
  */
-router.delete('/:roleId/permissions/:permissionId', requirePermission('permissions.manage'), RoleController.removePermissionFromRole);
+router.delete('/:roleId/permissions/:permissionId', permissionGuard('DELETE /roles/:roleId/permissions/:permissionId'), auditTrail('role_permissions', { idParam: 'roleId', action: 'UPDATE', reload: true }), RoleController.removePermissionFromRole);
+
+/**
+ * @swagger
+ * /roles/{roleId}/clone:
+ *   post:
+ *     summary: Copy a role and its permissions into a parish
+ *     description: Church admins can clone shared roles and roles of their own parish. Roles created from a template stay linked to it.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parish_id
+ *             properties:
+ *               parish_id:
+ *                 type: integer
+ *               role_name:
+ *                 type: string
+ *                 description: Defaults to the source role name
+ *               role_code:
+ *                 type: string
+ *                 description: Defaults to the source role code
+ *     responses:
+ *       201:
+ *         description: Role cloned successfully
+ *       409:
+ *         description: The parish already has a role with this code
+ */
+router.post('/:roleId/clone', permissionGuard('POST /roles/:roleId/clone'), validate(cloneRoleSchema), auditTrail('roles'), RoleController.cloneRole);
 
 /**
  * @swagger
@@ -237,7 +280,7 @@ router.delete('/:roleId/permissions/:permissionId', requirePermission('permissio
  *       200:
  *         description: Users retrieved successfully
  */
-router.get('/:roleId/users', requirePermission('users.view'), RoleController.getUsersByRole);
+router.get('/:roleId/users', permissionGuard('GET /roles/:roleId/users'), RoleController.getUsersByRole);
 
 // =====================================================
 // PERMISSION ROUTES
@@ -278,6 +321,125 @@ router.get('/permissions/all', RoleController.getAllPermissions);
  */
 router.get('/permissions/module/:module', RoleController.getPermissionsByModule);
 
+/**
+ * @swagger
+ * /roles/permissions/route-coverage:
+ *   get:
+ *     summary: Report which routes have no permission guard (Super Admin only)
+ *     description: |
+ *       Lists every API route with what protects it: a permission from the route registry (permission),
+ *       a user type check such as requireChurchAdmin (role), authentication only (authenticated) or nothing (public).
+ *       unmounted_route_keys lists registry entries that no route uses.
+ *     tags: [Permissions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Route coverage report
+ *       403:
+ *         description: Super admin access required
+ */
+router.get('/permissions/route-coverage', requireSuperAdmin, RoleController.getRouteCoverage);
+
+// =====================================================
+// PERMISSION MATRIX ROUTES
+// =====================================================
+
+/**
+ * @swagger
+ * /roles/parish/{parishId}/permission-matrix:
+ *   get:
+ *     summary: Get every role of a parish against every permission, grouped by module
+ *     tags: [Permissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: parishId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Permission matrix retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PermissionMatrix'
+ *       403:
+ *         description: Requires permissions.manage in this parish
+ */
+router.get(
+  '/parish/:parishId/permission-matrix',
+  permissionGuard('GET /roles/parish/:parishId/permission-matrix'),
+  validate(permissionMatrixSchema),
+  RoleController.getPermissionMatrix
+);
+
+/**
+ * @swagger
+ * /roles/parish/{parishId}/permission-matrix:
+ *   put:
+ *     summary: Grant and remove role permissions in bulk
+ *     description: |
+ *       Applies all changes in a single transaction. The whole batch is rejected if any change
+ *       targets a system role, a role of another parish or an unknown permission.
+ *       Roles shared by all parishes can only be changed by super admins.
+ *     tags: [Permissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: parishId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - changes
+ *             properties:
+ *               changes:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - role_id
+ *                     - permission_id
+ *                     - granted
+ *                   properties:
+ *                     role_id:
+ *                       type: integer
+ *                     permission_id:
+ *                       type: integer
+ *                     granted:
+ *                       type: boolean
+ *                       description: false removes the permission from the role
+ *     responses:
+ *       200:
+ *         description: Changes applied; returns the counts and the updated matrix
+ *       400:
+ *         description: Invalid change (unknown role or permission)
+ *       403:
+ *         description: A change targets a system role or a shared role
+ */
+router.put(
+  '/parish/:parishId/permission-matrix',
+  permissionGuard('PUT /roles/parish/:parishId/permission-matrix'),
+  validate(updatePermissionMatrixSchema),
+  auditTrail('role_permissions', { recordIds: recordsFrom.matrixRoles }),
+  RoleController.updatePermissionMatrix
+);
+
 // =====================================================
 // USER ROLE ROUTES
 // =====================================================
@@ -328,13 +490,16 @@ router.get('/user/my-permissions', RoleController.getMyPermissions);
  *       200:
  *         description: Roles retrieved successfully
  */
-router.get('/user/:userId/roles', requirePermission('users.view'), RoleController.getUserRoles);
+router.get('/user/:userId/roles', permissionGuard('GET /roles/user/:userId/roles'), RoleController.getUserRoles);
 
 /**
  * @swagger
  * /roles/user/{userId}/permissions:
  *   get:
  *     summary: Get user's permissions
+ *     description: |
+ *       Each permission lists the sources it comes from: ROLE, DIRECT (direct grant),
+ *       WARD_ROLE (ward office) or DELEGATION (temporary delegation by a church admin, with its reason and end date).
  *     tags: [User Roles]
  *     security:
  *       - bearerAuth: []
@@ -348,7 +513,7 @@ router.get('/user/:userId/roles', requirePermission('users.view'), RoleControlle
  *       200:
  *         description: Permissions retrieved successfully
  */
-router.get('/user/:userId/permissions', requirePermission('users.view'), RoleController.getUserPermissions);
+router.get('/user/:userId/permissions', permissionGuard('GET /roles/user/:userId/permissions'), RoleController.getUserPermissions);
 
 /**
  * @swagger
@@ -386,7 +551,7 @@ router.get('/user/:userId/permissions', requirePermission('users.view'), RoleCon
  *       201:
  *         description: Role assigned successfully
  */
-router.post('/user/:userId/roles', requirePermission('roles.assign'), RoleController.assignRoleToUser);
+router.post('/user/:userId/roles', permissionGuard('POST /roles/user/:userId/roles'), auditTrail('user_roles', { idParam: 'userId', action: 'UPDATE', reload: true }), RoleController.assignRoleToUser);
 
 /**
  * @swagger
@@ -411,7 +576,7 @@ router.post('/user/:userId/roles', requirePermission('roles.assign'), RoleContro
  *       200:
  *         description: Role removed successfully
  */
-router.delete('/user/:userId/roles/:roleId', requirePermission('roles.assign'), RoleController.removeRoleFromUser);
+router.delete('/user/:userId/roles/:roleId', permissionGuard('DELETE /roles/user/:userId/roles/:roleId'), auditTrail('user_roles', { idParam: 'userId', action: 'UPDATE', reload: true }), RoleController.removeRoleFromUser);
 
 /**
  * @swagger
@@ -447,7 +612,7 @@ router.delete('/user/:userId/roles/:roleId', requirePermission('roles.assign'),
  *       201:
  *         description: Permission granted successfully
  */
-router.post('/user/:userId/permissions/grant', requirePermission('permissions.manage'), RoleController.grantPermissionToUser);
+router.post('/user/:userId/permissions/grant', permissionGuard('POST /roles/user/:userId/permissions/grant'), RoleController.grantPermissionToUser);
 
 /**
  * @swagger
@@ -480,7 +645,7 @@ router.post('/user/:userId/permissions/grant', requirePermission('permissions.ma
  *       200:
  *         description: Permission revoked successfully
  */
-router.post('/user/:userId/permissions/revoke', requirePermission('permissions.manage'), RoleController.revokePermissionFromUser);
+router.post('/user/:userId/permissions/revoke', permissionGuard('POST /roles/user/:userId/permissions/revoke'), RoleController.revokePermissionFromUser);
 
 /**
  * @swagger
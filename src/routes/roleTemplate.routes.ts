@@ -0,0 +1,240 @@
+import { Router } from 'express';
+import { RoleTemplateController } from '../controllers/roleTemplate.controller';
+import { validate } from '../middleware/validate';
+import { authenticate, requireSuperAdmin, requireChurchAdmin } from '../middleware/auth';
+import { permissionGuard } from '../middleware/routeGuard';
+import { auditTrail, recordsFrom } from '../middleware/audit';
+import {
+  roleTemplatesQuerySchema,
+  roleTemplateIdSchema,
+  createRoleTemplateSchema,
+  updateRoleTemplateSchema,
+  instantiateRoleTemplateSchema,
+} from '../validators/role.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /role-templates:
+ *   get:
+ *     summary: Get all role templates (Church Admin or Super Admin)
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: include_inactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Role templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RoleTemplate'
+ */
+router.get('/', authenticate, requireChurchAdmin, validate(roleTemplatesQuerySchema), RoleTemplateController.getAll);
+
+/**
+ * @swagger
+ * /role-templates/{templateId}:
+ *   get:
+ *     summary: Get a role template with its permissions and the roles created from it
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Role template retrieved successfully
+ *       404:
+ *         description: Role template not found
+ */
+router.get('/:templateId', authenticate, requireChurchAdmin, validate(roleTemplateIdSchema), RoleTemplateController.getById);
+
+/**
+ * @swagger
+ * /role-templates:
+ *   post:
+ *     summary: Create a role template (Super Admin only)
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - template_name
+ *               - template_code
+ *             properties:
+ *               template_name:
+ *                 type: string
+ *                 example: Parish Council Secretary
+ *               template_code:
+ *                 type: string
+ *                 example: PARISH_COUNCIL_SECRETARY
+ *               description:
+ *                 type: string
+ *               priority:
+ *                 type: integer
+ *               permission_ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       201:
+ *         description: Role template created successfully
+ *       409:
+ *         description: Template code already exists
+ */
+router.post('/', authenticate, requireSuperAdmin, validate(createRoleTemplateSchema), RoleTemplateController.create);
+
+/**
+ * @swagger
+ * /role-templates/{templateId}:
+ *   put:
+ *     summary: Update a role template (Super Admin only)
+ *     description: permission_ids replaces the template's permission set. Set sync to push the permissions to every role created from the template.
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               template_name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               priority:
+ *                 type: integer
+ *               permission_ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               sync:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Role template updated successfully
+ */
+router.put('/:templateId', authenticate, requireSuperAdmin, validate(updateRoleTemplateSchema), auditTrail('role_permissions', { recordIds: recordsFrom.syncedTemplateRoles }), RoleTemplateController.update);
+
+/**
+ * @swagger
+ * /role-templates/{templateId}:
+ *   delete:
+ *     summary: Deactivate a role template (Super Admin only)
+ *     description: Roles already created from the template keep their permissions.
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Role template deleted successfully
+ */
+router.delete('/:templateId', authenticate, requireSuperAdmin, validate(roleTemplateIdSchema), RoleTemplateController.delete);
+
+/**
+ * @swagger
+ * /role-templates/{templateId}/sync:
+ *   post:
+ *     summary: Sync roles from template (Super Admin only)
+ *     description: Grants and removes permissions so every active role created from the template matches it.
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Number of synced roles and permissions granted/removed
+ */
+router.post('/:templateId/sync', authenticate, requireSuperAdmin, validate(roleTemplateIdSchema), auditTrail('role_permissions', { action: 'UPDATE', recordIds: recordsFrom.templateRoles }), RoleTemplateController.sync);
+
+/**
+ * @swagger
+ * /role-templates/{templateId}/instantiate:
+ *   post:
+ *     summary: Create a parish role from a template
+ *     description: The role gets the template's permissions and stays linked to it, so later template syncs update it.
+ *     tags: [Role Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parish_id
+ *             properties:
+ *               parish_id:
+ *                 type: integer
+ *               role_name:
+ *                 type: string
+ *                 description: Defaults to the template name
+ *               role_code:
+ *                 type: string
+ *                 description: Defaults to the template code
+ *     responses:
+ *       201:
+ *         description: Role created from template successfully
+ *       409:
+ *         description: The parish already has a role with this code
+ */
+router.post(
+  '/:templateId/instantiate',
+  authenticate,
+  permissionGuard('POST /role-templates/:templateId/instantiate'),
+  validate(instantiateRoleTemplateSchema),
+  auditTrail('roles'),
+  RoleTemplateController.instantiate
+);
+
+export default router;
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { WardController } from '../controllers/ward.controller';
 import { validate } from '../middleware/validate';
 import { authenticate } from '../middleware/auth';
-import { requirePermission } from '../middleware/permission';
+import { permissionGuard } from '../middleware/routeGuard';
+import { auditTrail } from '../middleware/audit';
 import {
   createWardSchema,
   updateWardSchema,
@@ -58,7 +59,7 @@ const router = Router();
  *                       priority:
  *                         type: integer
  */
-router.get('/role-types', authenticate, requirePermission('VIEW_WARDS'), WardController.getWardRoleTypes);
+router.get('/role-types', authenticate, permissionGuard('GET /wards/role-types'), WardController.getWardRoleTypes);
 
 /**
  * @swagger
@@ -124,7 +125,7 @@ router.get('/role-types', authenticate, requirePermission('VIEW_WARDS'), WardCon
  *       409:
  *         description: Role code already exists for this parish
  */
-router.post('/role-types', authenticate, requirePermission('CREATE_WARD'), WardController.createWardRoleType);
+router.post('/role-types', authenticate, permissionGuard('POST /wards/role-types'), WardController.createWardRoleType);
 
 /**
  * @swagger
@@ -166,7 +167,7 @@ router.post('/role-types', authenticate, requirePermission('CREATE_WARD'), WardC
  *       404:
  *         description: Ward role assignment not found
  */
-router.put('/roles/:wardRoleId', authenticate, requirePermission('EDIT_WARD'), WardController.updateWardRole);
+router.put('/roles/:wardRoleId', authenticate, permissionGuard('PUT /wards/roles/:wardRoleId'), auditTrail('ward_roles', { idParam: 'wardRoleId' }), WardController.updateWardRole);
 
 /**
  * @swagger
@@ -190,7 +191,7 @@ router.put('/roles/:wardRoleId', authenticate, requirePermission('EDIT_WARD'), W
  *       404:
  *         description: Ward role assignment not found
  */
-router.delete('/roles/:wardRoleId', authenticate, requirePermission('DELETE_WARD'), WardController.removeWardRole);
+router.delete('/roles/:wardRoleId', authenticate, permissionGuard('DELETE /wards/roles/:wardRoleId'), auditTrail('ward_roles', { idParam: 'wardRoleId' }), WardController.removeWardRole);
 
 /**
  * @swagger
@@ -235,7 +236,7 @@ router.delete('/roles/:wardRoleId', authenticate, requirePermission('DELETE_WARD
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/parish/:parishId', authenticate, requirePermission('VIEW_WARDS'), validate(wardsByParishSchema), WardController.getByParishId);
+router.get('/parish/:parishId', authenticate, permissionGuard('GET /wards/parish/:parishId'), validate(wardsByParishSchema), WardController.getByParishId);
 
 /**
  * @swagger
@@ -267,7 +268,7 @@ router.get('/parish/:parishId', authenticate, requirePermission('VIEW_WARDS'), v
  *                   items:
  *                     $ref: '#/components/schemas/Ward'
  */
-router.get('/parish/:parishId/all', authenticate, requirePermission('VIEW_WARDS'), WardController.getAllByParish);
+router.get('/parish/:parishId/all', authenticate, permissionGuard('GET /wards/parish/:parishId/all'), WardController.getAllByParish);
 
 /**
  * @swagger
@@ -305,7 +306,7 @@ router.get('/parish/:parishId/all', authenticate, requirePermission('VIEW_WARDS'
  *                   items:
  *                     $ref: '#/components/schemas/Ward'
  */
-router.get('/parish/:parishId/search', authenticate, requirePermission('VIEW_WARDS'), validate(searchWardSchema), WardController.search);
+router.get('/parish/:parishId/search', authenticate, permissionGuard('GET /wards/parish/:parishId/search'), validate(searchWardSchema), WardController.search);
 
 /**
  * @swagger
@@ -341,7 +342,7 @@ router.get('/parish/:parishId/search', authenticate, requirePermission('VIEW_WAR
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, requirePermission('VIEW_WARDS'), validate(wardIdSchema), WardController.getById);
+router.get('/:id', authenticate, permissionGuard('GET /wards/:id'), validate(wardIdSchema), WardController.getById);
 
 /**
  * @swagger
@@ -399,7 +400,7 @@ router.get('/:id', authenticate, requirePermission('VIEW_WARDS'), validate(wardI
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticate, requirePermission('CREATE_WARD'), validate(createWardSchema), WardController.create);
+router.post('/', authenticate, permissionGuard('POST /wards'), validate(createWardSchema), WardController.create);
 
 /**
  * @swagger
@@ -446,7 +447,7 @@ router.post('/', authenticate, requirePermission('CREATE_WARD'), validate(create
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', authenticate, requirePermission('EDIT_WARD'), validate(wardIdSchema), validate(updateWardSchema), WardController.update);
+router.put('/:id', authenticate, permissionGuard('PUT /wards/:id'), validate(wardIdSchema), validate(updateWardSchema), WardController.update);
 
 /**
  * @swagger
@@ -485,7 +486,7 @@ router.put('/:id', authenticate, requirePermission('EDIT_WARD'), validate(wardId
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', authenticate, requirePermission('DELETE_WARD'), validate(wardIdSchema), WardController.delete);
+router.delete('/:id', authenticate, permissionGuard('DELETE /wards/:id'), validate(wardIdSchema), WardController.delete);
 
 /**
  * @swagger
@@ -529,7 +530,7 @@ router.delete('/:id', authenticate, requirePermission('DELETE_WARD'), validate(w
  *             schema:
  *               $ref: '#/components/schemas/SuccessResponse'
  */
-router.patch('/:id/counts', authenticate, requirePermission('EDIT_WARD'), validate(updateWardCountsSchema), WardController.updateCounts);
+router.patch('/:id/counts', authenticate, permissionGuard('PATCH /wards/:id/counts'), validate(updateWardCountsSchema), WardController.updateCounts);
 
 // Ward role routes for /:wardId/roles (these must come after /:id routes)
 /**
@@ -550,7 +551,7 @@ router.patch('/:id/counts', authenticate, requirePermission('EDIT_WARD'), valida
  *       200:
  *         description: Ward roles retrieved successfully
  */
-router.get('/:wardId/roles', authenticate, requirePermission('VIEW_WARDS'), WardController.getWardRoles);
+router.get('/:wardId/roles', authenticate, permissionGuard('GET /wards/:wardId/roles'), WardController.getWardRoles);
 
 /**
  * @swagger
@@ -595,7 +596,7 @@ router.get('/:wardId/roles', authenticate, requirePermission('VIEW_WARDS'), Ward
  *       201:
  *         description: Ward role assigned successfully
  */
-router.post('/:wardId/roles', authenticate, requirePermission('MANAGE_WARDS'), WardController.assignWardRole);
+router.post('/:wardId/roles', authenticate, permissionGuard('POST /wards/:wardId/roles'), auditTrail('ward_roles'), WardController.assignWardRole);
 
 /**
  * @swagger
@@ -619,6 +620,6 @@ router.post('/:wardId/roles', authenticate, requirePermission('MANAGE_WARDS'), W
  *       200:
  *         description: Ward role members retrieved successfully
  */
-router.get('/:wardId/roles/:roleId/members', authenticate, requirePermission('VIEW_WARDS'), WardController.getWardRoleMembers);
+router.get('/:wardId/roles/:roleId/members', authenticate, permissionGuard('GET /wards/:wardId/roles/:roleId/members'), WardController.getWardRoleMembers);
 
 export default router;
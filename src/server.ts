@@ -4,7 +4,9 @@ import config from './config';
 import database from './config/database';
 import logger from './utils/logger';
 import { emailService } from './services/email/email.service';
+import { smsService } from './services/sms/sms.service';
 import { SchedulerService } from './services/scheduler.service';
+import { RoutePermissionService } from './services/routePermission.service';
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error: Error) => {
@@ -27,6 +29,13 @@ async function startServer(): Promise<void> {
     await database.connect();
     logger.info('Database connection established');
 
+    // Create permissions used by the route registry that the database does not have yet
+    try {
+      await RoutePermissionService.seedMissingPermissions();
+    } catch (error) {
+      logger.warn('Could not seed route permissions - routes requiring them will deny access', error);
+    }
+
     // Initialize email service
     const emailServiceReady = await emailService.initialize();
     if (emailServiceReady) {
@@ -35,6 +44,12 @@ async function startServer(): Promise<void> {
       logger.warn('Email service initialization failed - emails will not be sent');
     }
 
+    // Initialize SMS service
+    const smsServiceReady = await smsService.initialize();
+    if (!smsServiceReady) {
+      logger.warn('SMS service initialization failed - SMS OTPs will not be delivered');
+    }
+
     // Initialize scheduled jobs
     SchedulerService.init();
     logger.info('Scheduled jobs initialized successfully');
@@ -0,0 +1,143 @@
+import { AccountJournalModel, GENESIS_HASH } from '../models/AccountJournal';
+import { AccountModel } from '../models/Account';
+import { ParishModel } from '../models/Parish';
+import { LoginSecurityService } from './loginSecurity.service';
+import { ApiError } from '../utils/apiError';
+import { ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+export interface IJournalBreak {
+  sequence_no: number;
+  entry_id: number;
+  account_id: number;
+  reason: string;
+}
+
+export interface IJournalMismatch {
+  account_id: number;
+  reason: string;
+}
+
+export interface IJournalVerification {
+  parish_id: number;
+  valid: boolean;
+  entries_checked: number;
+  head_hash: string; // Hash of the last valid entry; record it to detect later rewrites of the whole chain
+  first_break: IJournalBreak | null;
+  mismatched_transactions: IJournalMismatch[];
+  verified_at: Date;
+}
+
+/**
+ * Account Journal Service
+ * Every change to a parish's transactions is appended to a hash chain (account_journal), each entry
+ * holding the hash of the one before. Verification recomputes the chain and compares its result with
+ * the accounts table, so any edit or delete made outside the API shows up.
+ */
+export class AccountJournalService {
+  /**
+   * Walk a parish's journal and report the first break, plus transactions that differ from it
+   */
+  public static async verify(parishId: number, admin: ITokenPayload): Promise<IJournalVerification> {
+    await LoginSecurityService.resolveScopeParishId(
+      admin.user_id,
+      admin.user_type === UserType.SUPER_ADMIN,
+      parishId
+    );
+
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    const entries = await AccountJournalModel.findByParish(parishId);
+
+    let previousHash = GENESIS_HASH;
+    let entriesChecked = 0;
+    let firstBreak: IJournalBreak | null = null;
+    // Snapshot each transaction should have now; null once deleted
+    const expected = new Map<number, string | null>();
+
+    for (const entry of entries) {
+      const sequenceNo = Number(entry.sequence_no);
+      let reason: string | null = null;
+
+      if (sequenceNo !== entriesChecked + 1) {
+        reason = `Entries ${entriesChecked + 1} to ${sequenceNo - 1} are missing`;
+      } else if (entry.previous_hash !== previousHash) {
+        reason = 'Entry does not link to the previous entry';
+      } else if (AccountJournalModel.computeHash(entry) !== entry.entry_hash) {
+        reason = 'Entry has been altered since it was recorded';
+      }
+
+      if (reason) {
+        firstBreak = {
+          sequence_no: sequenceNo,
+          entry_id: Number(entry.entry_id),
+          account_id: Number(entry.account_id),
+          reason,
+        };
+        break;
+      }
+
+      entriesChecked++;
+      previousHash = entry.entry_hash;
+      expected.set(Number(entry.account_id), entry.operation === 'DELETE' ? null : entry.snapshot);
+    }
+
+    // The transactions can only be compared with an intact chain
+    const mismatched = firstBreak ? [] : await this.compareTransactions(parishId, expected);
+    const valid = !firstBreak && mismatched.length === 0;
+
+    if (!valid) {
+      logger.warn(`Account journal verification failed for parish: ${parishId}`, {
+        firstBreak,
+        mismatched: mismatched.length,
+        verifiedBy: admin.user_id,
+      });
+    }
+
+    return {
+      parish_id: parishId,
+      valid,
+      entries_checked: entriesChecked,
+      head_hash: previousHash,
+      first_break: firstBreak,
+      mismatched_transactions: mismatched,
+      verified_at: new Date(),
+    };
+  }
+
+  private static async compareTransactions(
+    parishId: number,
+    expected: Map<number, string | null>
+  ): Promise<IJournalMismatch[]> {
+    const mismatched: IJournalMismatch[] = [];
+    const accounts = await AccountModel.getAllForExport(parishId);
+    const present = new Set<number>();
+
+    for (const account of accounts) {
+      const accountId = Number(account.account_id);
+      present.add(accountId);
+
+      const snapshot = expected.get(accountId);
+      if (snapshot === undefined) {
+        mismatched.push({ account_id: accountId, reason: 'Transaction is not in the journal' });
+      } else if (snapshot === null) {
+        mismatched.push({ account_id: accountId, reason: 'Transaction was deleted but still exists' });
+      } else if (snapshot !== AccountJournalModel.snapshot(account)) {
+        mismatched.push({ account_id: accountId, reason: 'Transaction was changed outside the journal' });
+      }
+    }
+
+    for (const [accountId, snapshot] of expected) {
+      if (snapshot !== null && !present.has(accountId)) {
+        mismatched.push({ account_id: accountId, reason: 'Transaction was deleted outside the journal' });
+      }
+    }
+
+    return mismatched.sort((a, b) => a.account_id - b.account_id);
+  }
+}
+
+export default AccountJournalService;
@@ -0,0 +1,112 @@
+import { AssignmentExpiryModel, IExpiringAssignment } from '../models/AssignmentExpiry';
+import { ChurchAdminModel, IChurchAdminContact } from '../models/ChurchAdmin';
+import { PermissionCacheService } from './permissionCache.service';
+import { ParishSettingsService } from './parishSettings.service';
+import { emailService } from './email/email.service';
+import logger from '../utils/logger';
+
+export interface IExpiryReminderResult {
+  assignments: number;
+  emails: number;
+}
+
+/**
+ * Assignment Expiry Service
+ * Deactivates role, permission and ward role assignments once their expires_at has passed,
+ * and reminds the holder and their parish admins ahead of time (e.g. for annual ward committee rotations).
+ */
+export class AssignmentExpiryService {
+  /**
+   * Deactivate expired assignments. Each one gets a permission audit entry.
+   */
+  public static async deactivateExpired(): Promise<number> {
+    const expired = await AssignmentExpiryModel.deactivateExpired();
+
+    for (const assignment of expired) {
+      if (assignment.user_id) {
+        PermissionCacheService.invalidateUser(assignment.user_id);
+      }
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Email the holder and the parish admins of every assignment expiring within the given days.
+   * Each assignment is only reminded once; a failed holder email is retried on the next run.
+   */
+  public static async sendExpiryReminders(days: number = 7): Promise<IExpiryReminderResult> {
+    const assignments = await AssignmentExpiryModel.findExpiringSoon(days);
+    const adminsByParish = new Map<number, IChurchAdminContact[]>();
+    let emails = 0;
+
+    for (const assignment of assignments) {
+      const variables = await this.reminderVariables(assignment);
+
+      const holderReminded = await this.sendReminder(assignment.email, 'ROLE_EXPIRY_REMINDER', {
+        ...variables,
+        firstName: assignment.first_name,
+      });
+      if (!holderReminded) {
+        continue;
+      }
+      emails++;
+
+      const parishId = assignment.parish_id ? Number(assignment.parish_id) : null;
+      if (parishId) {
+        if (!adminsByParish.has(parishId)) {
+          adminsByParish.set(parishId, await ChurchAdminModel.findContactsByParishId(parishId));
+        }
+
+        for (const admin of adminsByParish.get(parishId) || []) {
+          if (Number(admin.user_id) === Number(assignment.user_id)) {
+            continue;
+          }
+
+          const adminNotified = await this.sendReminder(admin.email, 'ROLE_EXPIRY_ADMIN_NOTICE', {
+            ...variables,
+            firstName: admin.first_name,
+          });
+          if (adminNotified) {
+            emails++;
+          }
+        }
+      }
+
+      await AssignmentExpiryModel.markReminderSent(assignment.assignment_type, assignment.assignment_id);
+    }
+
+    return { assignments: assignments.length, emails };
+  }
+
+  private static async sendReminder(
+    to: string,
+    templateCode: string,
+    variables: Record<string, string>
+  ): Promise<boolean> {
+    try {
+      const result = await emailService.sendTemplateEmail({ to, templateCode, variables });
+      if (!result.success) {
+        logger.error(`Failed to send ${templateCode} email to ${to}`, { error: result.error });
+      }
+      return result.success;
+    } catch (error) {
+      logger.error(`Failed to send ${templateCode} email to ${to}`, { error });
+      return false;
+    }
+  }
+
+  private static async reminderVariables(assignment: IExpiringAssignment): Promise<Record<string, string>> {
+    return {
+      holderName: `${assignment.first_name} ${assignment.last_name}`,
+      assignmentName: assignment.ward_name
+        ? `${assignment.assignment_name} (${assignment.ward_name})`
+        : assignment.assignment_name,
+      expiryDate: new Date(assignment.expires_at).toDateString(),
+      parishName: assignment.parish_name || 'Parish Nexus',
+      loginUrl: await ParishSettingsService.getLoginUrl(assignment.parish_id ? Number(assignment.parish_id) : null),
+    };
+  }
+}
+
+export default AssignmentExpiryService;
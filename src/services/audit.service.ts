@@ -0,0 +1,262 @@
+import Papa from 'papaparse';
+import { AuditLogModel, AuditAction, IAuditLogFilters } from '../models/AuditLog';
+import { ParishModel } from '../models/Parish';
+import { FamilyModel } from '../models/Family';
+import { ParishionerModel } from '../models/Parishioner';
+import { AccountModel } from '../models/Account';
+import { RoleModel, UserRoleModel } from '../models/Role';
+import { UserModel } from '../models/User';
+import { WardModel } from '../models/Ward';
+import { WardRoleModel } from '../models/WardRole';
+import { ParishSettingsService } from './parishSettings.service';
+import { LoginSecurityService } from './loginSecurity.service';
+import { IAuditLog, ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+// Most rows a CSV export returns
+const MAX_EXPORT_ROWS = 10000;
+
+// Never written to the audit log, whatever the table
+const REDACTED_FIELDS = /password|token|secret/i;
+
+type AuditRecord = Record<string, unknown>;
+
+export type AuditedTable =
+  | 'parishes'
+  | 'parish_settings'
+  | 'families'
+  | 'parishioners'
+  | 'accounts'
+  | 'roles'
+  | 'role_permissions'
+  | 'user_roles'
+  | 'ward_roles';
+
+interface IAuditedTable {
+  primaryKey: string;
+  load: (recordId: number) => Promise<object | null>;
+  // The record in the response data, when the controller wraps it
+  fromResponse?: (data: AuditRecord) => unknown;
+}
+
+const AUDITED_TABLES: Record<AuditedTable, IAuditedTable> = {
+  parishes: {
+    primaryKey: 'parish_id',
+    load: (recordId) => ParishModel.findById(recordId),
+    fromResponse: (data) => data.parish,
+  },
+  parish_settings: {
+    // One record per parish: the settings it overrides
+    primaryKey: 'parish_id',
+    load: async (recordId) => ({ parish_id: recordId, settings: await ParishSettingsService.getSettings(recordId) }),
+    fromResponse: (data) => ({ parish_id: data.parish_id, settings: data.settings }),
+  },
+  families: {
+    primaryKey: 'family_id',
+    load: (recordId) => FamilyModel.findById(recordId),
+  },
+  parishioners: {
+    primaryKey: 'parishioner_id',
+    load: (recordId) => ParishionerModel.findById(recordId),
+  },
+  accounts: {
+    primaryKey: 'account_id',
+    load: (recordId) => AccountModel.findById(recordId),
+  },
+  roles: {
+    primaryKey: 'role_id',
+    load: (recordId) => RoleModel.getRoleById(recordId),
+  },
+  role_permissions: {
+    // One record per role: the permissions it grants
+    primaryKey: 'role_id',
+    load: async (recordId) => {
+      const role = await RoleModel.getRoleById(recordId);
+      if (!role) {
+        return null;
+      }
+
+      const permissions = await RoleModel.getRolePermissions(recordId);
+      return {
+        role_id: recordId,
+        parish_id: role.parish_id,
+        role_code: role.role_code,
+        permissions: permissions.map((permission) => permission.permission_code),
+      };
+    },
+  },
+  user_roles: {
+    // One record per user: the roles assigned to them
+    primaryKey: 'user_id',
+    load: async (recordId) => {
+      const [parishId, roles] = await Promise.all([
+        UserModel.findParishId(recordId),
+        UserRoleModel.getUserRoles(recordId),
+      ]);
+      return {
+        user_id: recordId,
+        parish_id: parishId,
+        roles: roles.map((role) => ({ role_id: Number(role.role_id), role_code: role.role_code })),
+      };
+    },
+  },
+  ward_roles: {
+    primaryKey: 'ward_role_id',
+    load: (recordId) => WardRoleModel.getWardRoleById(recordId),
+  },
+};
+
+export interface IAuditChange {
+  table: AuditedTable;
+  action: AuditAction;
+  record_id?: number;
+  parish_id?: number; // Resolved from the record when not given
+  old_values?: object | null;
+  new_values?: unknown;
+  user_id?: number;
+  ip_address?: string;
+}
+
+export interface IAuditLogPage {
+  logs: IAuditLog[];
+  totalRecords: number;
+}
+
+/**
+ * Audit Service
+ * Records who created, changed or deleted parish data (parishes and their settings, families, parishioners,
+ * accounts, roles and their permissions, user roles and ward roles), with the record before and after the change, so parish councils can review it.
+ */
+export class AuditService {
+  /**
+   * Load a record as it is before a change
+   */
+  public static async loadRecord(table: AuditedTable, recordId: number): Promise<object | null> {
+    return AUDITED_TABLES[table].load(recordId);
+  }
+
+  /**
+   * Record a change. Failures are logged, never thrown, so auditing cannot break the request.
+   */
+  public static async recordChange(change: IAuditChange): Promise<void> {
+    try {
+      const definition = AUDITED_TABLES[change.table];
+      const oldValues = change.old_values ? (change.old_values as AuditRecord) : undefined;
+      const newValues = this.extractRecord(definition, change.new_values);
+
+      const recordId =
+        change.record_id ?? (newValues ? this.toId(newValues[definition.primaryKey]) : undefined);
+
+      await AuditLogModel.create({
+        parish_id: change.parish_id ?? (await this.resolveParishId(change.table, recordId, newValues || oldValues)),
+        user_id: change.user_id,
+        action: change.action,
+        table_name: change.table,
+        record_id: recordId,
+        old_values: oldValues ? this.serialize(oldValues) : undefined,
+        new_values: change.new_values !== undefined ? this.serialize(newValues ?? change.new_values) : undefined,
+        ip_address: change.ip_address,
+      });
+    } catch (error) {
+      logger.error('Failed to write audit log', {
+        table: change.table,
+        action: change.action,
+        recordId: change.record_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * List audit log entries. Church admins only see their own parish.
+   */
+  public static async listLogs(
+    filters: IAuditLogFilters,
+    admin: ITokenPayload,
+    page: number,
+    limit: number
+  ): Promise<IAuditLogPage> {
+    const scopedFilters = await this.scopeFilters(filters, admin);
+
+    const logs = await AuditLogModel.find(scopedFilters, page, limit);
+    const totalRecords = await AuditLogModel.count(scopedFilters);
+
+    return { logs, totalRecords };
+  }
+
+  /**
+   * Export audit log entries as CSV (newest first, at most MAX_EXPORT_ROWS rows)
+   */
+  public static async exportCsv(filters: IAuditLogFilters, admin: ITokenPayload): Promise<string> {
+    const logs = await AuditLogModel.find(await this.scopeFilters(filters, admin), 1, MAX_EXPORT_ROWS);
+
+    return Papa.unparse(
+      logs.map((log) => ({
+        Timestamp: new Date(log.timestamp).toISOString(),
+        'Parish ID': log.parish_id || '',
+        'User ID': log.user_id || '',
+        User: log.user_name ? log.user_name.trim() : '',
+        Email: log.user_email || '',
+        Action: log.action,
+        Table: log.table_name || '',
+        'Record ID': log.record_id || '',
+        'Old Values': log.old_values || '',
+        'New Values': log.new_values || '',
+        'IP Address': log.ip_address || '',
+      }))
+    );
+  }
+
+  private static async scopeFilters(filters: IAuditLogFilters, admin: ITokenPayload): Promise<IAuditLogFilters> {
+    const parishId = await LoginSecurityService.resolveScopeParishId(
+      admin.user_id,
+      admin.user_type === UserType.SUPER_ADMIN,
+      filters.parish_id
+    );
+
+    return { ...filters, parish_id: parishId };
+  }
+
+  private static extractRecord(definition: IAuditedTable, data: unknown): AuditRecord | undefined {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return undefined;
+    }
+
+    const record = definition.fromResponse ? definition.fromResponse(data as AuditRecord) : data;
+    return record && typeof record === 'object' ? (record as AuditRecord) : undefined;
+  }
+
+  private static async resolveParishId(
+    table: AuditedTable,
+    recordId: number | undefined,
+    values: AuditRecord | undefined
+  ): Promise<number | undefined> {
+    if (table === 'parishes' || table === 'parish_settings') {
+      return recordId;
+    }
+
+    if (values?.parish_id) {
+      return this.toId(values.parish_id);
+    }
+
+    // Ward roles belong to the parish of their ward
+    const wardId = this.toId(values?.ward_id);
+    if (wardId) {
+      const ward = await WardModel.findById(wardId);
+      return ward ? this.toId(ward.parish_id) : undefined;
+    }
+
+    return undefined;
+  }
+
+  private static serialize(values: unknown): string {
+    return JSON.stringify(values, (key, value) => (key && REDACTED_FIELDS.test(key) ? '[REDACTED]' : value));
+  }
+
+  private static toId(value: unknown): number | undefined {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : undefined;
+  }
+}
+
+export default AuditService;
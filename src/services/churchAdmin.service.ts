@@ -0,0 +1,254 @@
+import { ChurchAdminModel, IChurchAdminDetails } from '../models/ChurchAdmin';
+import { ParishModel } from '../models/Parish';
+import { UserModel } from '../models/User';
+import { RoleModel, UserRoleModel } from '../models/Role';
+import { InvitationService } from './invitation.service';
+import { SessionService } from './session.service';
+import { PermissionCacheService } from './permissionCache.service';
+import { ApiError } from '../utils/apiError';
+import { IChurchAdmin, IParish, ITokenPayload, UserType } from '../types';
+import { SYSTEM_ROLES } from '../constants/roles';
+import logger from '../utils/logger';
+
+export interface IInviteChurchAdminData {
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone?: string;
+  role?: string;
+  department?: string;
+  hire_date?: Date;
+}
+
+export interface IUpdateChurchAdminData {
+  role?: string;
+  department?: string;
+  hire_date?: Date;
+}
+
+/**
+ * Church Admin Service
+ * A parish can have several church admins (staff). Exactly one of them is the primary admin, who is the
+ * parish's contact and the only admin (besides super admins) who can hand that role to someone else.
+ */
+export class ChurchAdminService {
+  /**
+   * List the active admins of a parish, primary admin first
+   */
+  public static async listAdmins(parishId: number): Promise<IChurchAdminDetails[]> {
+    await this.getParish(parishId);
+    return ChurchAdminModel.findDetailsByParishId(parishId);
+  }
+
+  /**
+   * Create a church admin account for a parish and email them an invitation to set their password.
+   * An admin of this parish who was deactivated is reactivated and invited again.
+   */
+  public static async inviteAdmin(
+    parishId: number,
+    data: IInviteChurchAdminData,
+    user: ITokenPayload
+  ): Promise<IChurchAdminDetails> {
+    const parish = await this.getParish(parishId);
+    await this.assertCanManage(parishId, user);
+
+    const existingUser = await UserModel.findByEmail(data.email);
+    let churchAdminId: number;
+
+    if (existingUser) {
+      const existingAdmin = await ChurchAdminModel.findByUserId(existingUser.user_id);
+      if (!existingAdmin || Number(existingAdmin.parish_id) !== parishId || existingAdmin.is_active) {
+        throw ApiError.conflict(`Email ${data.email} already exists`);
+      }
+
+      await ChurchAdminModel.reactivate(existingAdmin.church_admin_id, {
+        role: data.role || existingAdmin.role,
+        department: data.department,
+      });
+      await UserModel.update(existingUser.user_id, {
+        password_hash: await InvitationService.createPlaceholderPasswordHash(),
+        must_change_password: true,
+      });
+      PermissionCacheService.invalidateUser(existingUser.user_id);
+      churchAdminId = Number(existingAdmin.church_admin_id);
+
+      logger.info('Church admin reactivated', { churchAdminId, parishId, invitedBy: user.user_id });
+    } else {
+      const churchAdminRole = await RoleModel.getRoleByCode(SYSTEM_ROLES.CHURCH_ADMIN);
+      if (!churchAdminRole) {
+        logger.error('CHURCH_ADMIN role not found during church admin invitation', { parishId });
+        throw ApiError.internal('Unable to invite church admin. Role not found.');
+      }
+
+      const newUser = await UserModel.create({
+        email: data.email,
+        password_hash: await InvitationService.createPlaceholderPasswordHash(),
+        first_name: data.first_name,
+        last_name: data.last_name,
+        phone: data.phone,
+        user_type: UserType.CHURCH_ADMIN,
+        must_change_password: true,
+      });
+
+      try {
+        await UserRoleModel.assignRoleToUser(newUser.user_id, churchAdminRole.role_id, user.user_id);
+
+        const churchAdmin = await ChurchAdminModel.create({
+          user_id: newUser.user_id,
+          parish_id: parishId,
+          role: data.role || 'Administrator',
+          department: data.department,
+          hire_date: data.hire_date,
+          is_primary_admin: false,
+        });
+        churchAdminId = Number(churchAdmin.church_admin_id);
+      } catch (adminError) {
+        logger.error('Failed to set up invited church admin', {
+          userId: newUser.user_id,
+          parishId,
+          error: adminError instanceof Error ? adminError.message : String(adminError),
+        });
+        await UserModel.delete(newUser.user_id);
+        throw adminError;
+      }
+
+      logger.info('Church admin invited', { churchAdminId, parishId, invitedBy: user.user_id });
+    }
+
+    const invitedUser = await UserModel.findByEmail(data.email);
+    if (invitedUser) {
+      InvitationService.sendInvitationInBackground(invitedUser, {
+        parishId,
+        parishName: parish.parish_name,
+      });
+    }
+
+    return this.getAdminDetails(parishId, churchAdminId);
+  }
+
+  /**
+   * Change an admin's staff role, department or hire date
+   */
+  public static async updateAdmin(
+    parishId: number,
+    churchAdminId: number,
+    updates: IUpdateChurchAdminData,
+    user: ITokenPayload
+  ): Promise<IChurchAdminDetails> {
+    await this.getParish(parishId);
+    await this.assertCanManage(parishId, user);
+    await this.getParishAdmin(parishId, churchAdminId);
+
+    await ChurchAdminModel.update(churchAdminId, updates);
+
+    return this.getAdminDetails(parishId, churchAdminId);
+  }
+
+  /**
+   * Deactivate an admin, ending their sessions. The primary admin can only be deactivated
+   * together with a successor, who becomes the primary admin.
+   */
+  public static async deactivateAdmin(
+    parishId: number,
+    churchAdminId: number,
+    user: ITokenPayload,
+    successorAdminId?: number
+  ): Promise<void> {
+    await this.getParish(parishId);
+    const actingAdmin = await this.assertCanManage(parishId, user);
+    const admin = await this.getParishAdmin(parishId, churchAdminId);
+
+    if (admin.is_primary_admin) {
+      if (actingAdmin && !actingAdmin.is_primary_admin) {
+        throw ApiError.forbidden('Only the primary admin can remove the primary admin');
+      }
+      if (!successorAdminId) {
+        throw ApiError.badRequest('successor_admin_id is required to remove the primary admin');
+      }
+      if (successorAdminId === churchAdminId) {
+        throw ApiError.badRequest('The successor must be another admin of this parish');
+      }
+      await this.getParishAdmin(parishId, successorAdminId);
+    } else {
+      // A successor only applies when the primary admin is removed
+      successorAdminId = undefined;
+    }
+
+    await ChurchAdminModel.deactivate(churchAdminId, successorAdminId);
+    await SessionService.revokeAllSessions(Number(admin.user_id), 'account_deactivated');
+    PermissionCacheService.invalidateUser(Number(admin.user_id));
+
+    logger.info('Church admin deactivated', {
+      churchAdminId,
+      parishId,
+      successorAdminId,
+      deactivatedBy: user.user_id,
+    });
+  }
+
+  /**
+   * Make another admin of the parish the primary admin (current primary admin or super admin only)
+   */
+  public static async transferPrimary(
+    parishId: number,
+    churchAdminId: number,
+    user: ITokenPayload
+  ): Promise<IChurchAdminDetails[]> {
+    await this.getParish(parishId);
+    const actingAdmin = await this.assertCanManage(parishId, user);
+    if (actingAdmin && !actingAdmin.is_primary_admin) {
+      throw ApiError.forbidden('Only the primary admin can transfer the primary admin role');
+    }
+
+    const admin = await this.getParishAdmin(parishId, churchAdminId);
+    if (admin.is_primary_admin) {
+      throw ApiError.badRequest('This admin is already the primary admin');
+    }
+
+    await ChurchAdminModel.transferPrimary(parishId, churchAdminId);
+
+    logger.info('Primary church admin transferred', { churchAdminId, parishId, transferredBy: user.user_id });
+
+    return ChurchAdminModel.findDetailsByParishId(parishId);
+  }
+
+  private static async getParish(parishId: number): Promise<IParish> {
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+    return parish;
+  }
+
+  /**
+   * Only super admins and the parish's own church admins manage its admins, so a custom role
+   * holding EDIT_PARISH cannot be used to create church admin accounts.
+   * Returns the acting church admin, or null for super admins.
+   */
+  private static async assertCanManage(parishId: number, user: ITokenPayload): Promise<IChurchAdmin | null> {
+    if (user.user_type === UserType.SUPER_ADMIN) {
+      return null;
+    }
+
+    const actingAdmin = await ChurchAdminModel.findByUserId(user.user_id);
+    if (!actingAdmin || !actingAdmin.is_active || Number(actingAdmin.parish_id) !== parishId) {
+      throw ApiError.forbidden('Only church admins of this parish can manage its admins');
+    }
+    return actingAdmin;
+  }
+
+  private static async getParishAdmin(parishId: number, churchAdminId: number): Promise<IChurchAdmin> {
+    const admin = await ChurchAdminModel.findById(churchAdminId);
+    if (!admin || !admin.is_active || Number(admin.parish_id) !== parishId) {
+      throw ApiError.notFound('Church admin not found in this parish');
+    }
+    return admin;
+  }
+
+  private static async getAdminDetails(parishId: number, churchAdminId: number): Promise<IChurchAdminDetails> {
+    const admins = await ChurchAdminModel.findDetailsByParishId(parishId);
+    return admins.find((admin) => Number(admin.church_admin_id) === churchAdminId) as IChurchAdminDetails;
+  }
+}
+
+export default ChurchAdminService;
@@ -0,0 +1,254 @@
+import { UserModel } from '../models/User';
+import { ParishionerModel } from '../models/Parishioner';
+import { FamilyModel } from '../models/Family';
+import { PersonalDataModel, IWardRoleRecord, IEmailLogRecord } from '../models/PersonalData';
+import { DataErasureRequestModel, IDataErasureRequest } from '../models/DataErasureRequest';
+import { InvitationService } from './invitation.service';
+import { ProfileService } from './profile.service';
+import { LoginSecurityService } from './loginSecurity.service';
+import { PermissionCacheService } from './permissionCache.service';
+import { ZipUtil } from '../utils/zip.util';
+import { ApiError } from '../utils/apiError';
+import {
+  IBibleBookmark,
+  IBibleReadingHistory,
+  IFamily,
+  IParishioner,
+  IPrayerRequest,
+  ITokenPayload,
+  IUser,
+  UserType,
+} from '../types';
+import logger from '../utils/logger';
+
+export type ExportFormat = 'json' | 'zip';
+
+export interface IPersonalDataExport {
+  generated_at: string;
+  user: Omit<IUser, 'password_hash'>;
+  parishioner: IParishioner | null;
+  family: IFamily | null;
+  ward_roles: IWardRoleRecord[];
+  prayer_requests: IPrayerRequest[];
+  bible_bookmarks: IBibleBookmark[];
+  bible_reading_history: IBibleReadingHistory[];
+  email_logs: IEmailLogRecord[];
+}
+
+export interface IExportFile {
+  file_name: string;
+  content_type: string;
+  content: Buffer;
+}
+
+/**
+ * Data Privacy Service
+ * Personal data exports and erasure requests for parishioners.
+ * Erasure anonymises the account instead of deleting it, so sacramental dates and
+ * financial entries the parish must retain stay intact.
+ */
+export class DataPrivacyService {
+  /**
+   * Compile everything stored about a user
+   */
+  public static async compileExport(userId: number): Promise<IPersonalDataExport> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    const parishioner = await ParishionerModel.findByUserId(userId);
+    const family = parishioner?.family_id ? await FamilyModel.findById(parishioner.family_id) : null;
+
+    const [wardRoles, prayerRequests, bookmarks, readingHistory, emailLogs] = await Promise.all([
+      parishioner ? PersonalDataModel.getWardRoles(parishioner.parishioner_id) : [],
+      parishioner ? PersonalDataModel.getPrayerRequests(parishioner.parishioner_id) : [],
+      PersonalDataModel.getBookmarks(userId),
+      PersonalDataModel.getReadingHistory(userId),
+      PersonalDataModel.getEmailLogs(user.email),
+    ]);
+
+    const userData: Partial<IUser> = { ...user };
+    delete userData.password_hash;
+
+    return {
+      generated_at: new Date().toISOString(),
+      user: userData as Omit<IUser, 'password_hash'>,
+      parishioner,
+      family,
+      ward_roles: wardRoles,
+      prayer_requests: prayerRequests,
+      bible_bookmarks: bookmarks,
+      bible_reading_history: readingHistory,
+      email_logs: emailLogs,
+    };
+  }
+
+  /**
+   * Build the downloadable export. The ZIP contains one JSON file per section.
+   */
+  public static async buildExportFile(userId: number, format: ExportFormat): Promise<IExportFile> {
+    const data = await this.compileExport(userId);
+    const baseName = `personal-data-${userId}-${data.generated_at.slice(0, 10)}`;
+
+    logger.info(`Personal data export generated for user: ${userId}`, { format });
+
+    if (format === 'json') {
+      return {
+        file_name: `${baseName}.json`,
+        content_type: 'application/json',
+        content: Buffer.from(JSON.stringify(data, null, 2), 'utf8'),
+      };
+    }
+
+    const entries = Object.entries(data)
+      .filter(([section]) => section !== 'generated_at')
+      .map(([section, value]) => ({
+        name: `${section}.json`,
+        content: JSON.stringify(value, null, 2),
+      }));
+
+    entries.unshift({
+      name: 'README.txt',
+      content: `Personal data export for user ${userId}, generated ${data.generated_at}.\n` +
+        'Each file contains one section of your data in JSON format.\n',
+    });
+
+    return {
+      file_name: `${baseName}.zip`,
+      content_type: 'application/zip',
+      content: ZipUtil.create(entries),
+    };
+  }
+
+  /**
+   * Church admins may only act on users of their own parish
+   */
+  public static async assertCanManageUser(admin: ITokenPayload, userId: number): Promise<void> {
+    if (admin.user_type === UserType.SUPER_ADMIN) {
+      return;
+    }
+
+    const adminParishId = await LoginSecurityService.resolveScopeParishId(admin.user_id, false);
+    const userParishId = await UserModel.findParishId(userId);
+
+    if (userParishId !== adminParishId) {
+      throw ApiError.forbidden('You can only manage users of your own parish');
+    }
+  }
+
+  /**
+   * Ask the parish to erase the user's account
+   */
+  public static async requestErasure(userId: number, reason?: string): Promise<IDataErasureRequest> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if (user.user_type !== UserType.PARISHIONER) {
+      throw ApiError.badRequest('Administrator accounts must be removed by a super admin');
+    }
+
+    const pending = await DataErasureRequestModel.findPendingByUser(userId);
+    if (pending) {
+      throw ApiError.conflict('An erasure request is already pending');
+    }
+
+    const request = await DataErasureRequestModel.create(userId, await UserModel.findParishId(userId), reason);
+
+    logger.info(`Data erasure requested by user: ${user.email}`, { requestId: request.request_id });
+
+    return request;
+  }
+
+  /**
+   * Withdraw a pending erasure request
+   */
+  public static async cancelErasure(userId: number, requestId: number): Promise<void> {
+    const request = await DataErasureRequestModel.findById(requestId);
+    if (!request || Number(request.user_id) !== Number(userId)) {
+      throw ApiError.notFound('Erasure request not found');
+    }
+
+    if (!(await DataErasureRequestModel.close(requestId, 'cancelled', userId))) {
+      throw ApiError.conflict('Erasure request has already been processed');
+    }
+  }
+
+  /**
+   * Approve a request and anonymise the account
+   */
+  public static async approveErasure(
+    requestId: number,
+    admin: ITokenPayload,
+    notes?: string
+  ): Promise<IDataErasureRequest> {
+    const request = await this.findReviewableRequest(requestId, admin);
+
+    const user = await UserModel.findById(request.user_id);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    const parishioner = await ParishionerModel.findByUserId(user.user_id);
+
+    await PersonalDataModel.anonymise({
+      user_id: user.user_id,
+      parishioner_id: parishioner ? parishioner.parishioner_id : null,
+      email: user.email,
+      erased_email: `erased-${user.user_id}@erased.invalid`,
+      password_hash: await InvitationService.createPlaceholderPasswordHash(),
+    });
+
+    PermissionCacheService.invalidateUser(user.user_id);
+    ProfileService.removeStoredAvatar(user.profile_image_url);
+
+    await DataErasureRequestModel.close(requestId, 'completed', admin.user_id, notes);
+
+    logger.info(`Personal data erased for user: ${user.user_id}`, {
+      requestId,
+      approvedBy: admin.user_id,
+    });
+
+    return (await DataErasureRequestModel.findById(requestId)) as IDataErasureRequest;
+  }
+
+  /**
+   * Reject a request (e.g. the parish must keep the account active for now)
+   */
+  public static async rejectErasure(
+    requestId: number,
+    admin: ITokenPayload,
+    notes?: string
+  ): Promise<IDataErasureRequest> {
+    await this.findReviewableRequest(requestId, admin);
+    await DataErasureRequestModel.close(requestId, 'rejected', admin.user_id, notes);
+
+    logger.info(`Data erasure request rejected: ${requestId}`, { rejectedBy: admin.user_id });
+
+    return (await DataErasureRequestModel.findById(requestId)) as IDataErasureRequest;
+  }
+
+  private static async findReviewableRequest(requestId: number, admin: ITokenPayload): Promise<IDataErasureRequest> {
+    const request = await DataErasureRequestModel.findById(requestId);
+    if (!request) {
+      throw ApiError.notFound('Erasure request not found');
+    }
+
+    if (admin.user_type !== UserType.SUPER_ADMIN) {
+      const adminParishId = await LoginSecurityService.resolveScopeParishId(admin.user_id, false);
+      if (Number(request.parish_id) !== adminParishId) {
+        throw ApiError.forbidden('You can only review requests of your own parish');
+      }
+    }
+
+    if (request.status !== 'pending') {
+      throw ApiError.conflict('Erasure request has already been processed');
+    }
+
+    return request;
+  }
+}
+
+export default DataPrivacyService;
@@ -0,0 +1,231 @@
+import { DioceseModel, DioceseData, IDiocese, IDioceseAdmin, IDioceseParishStats } from '../models/Diocese';
+import { ParishModel } from '../models/Parish';
+import { UserModel } from '../models/User';
+import { ParishSettingsService } from './parishSettings.service';
+import { PermissionCacheService } from './permissionCache.service';
+import { ApiError } from '../utils/apiError';
+import { IParish, ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+export interface IDioceseStatsParish extends IDioceseParishStats {
+  currency: string;
+}
+
+export interface IDioceseStats {
+  diocese_id: number;
+  diocese_name: string;
+  start_date: Date | null;
+  end_date: Date | null;
+  totals: {
+    parishes: number;
+    parishioners: number;
+    active_parishioners: number;
+    families: number;
+    wards: number;
+    baptisms: number;
+    first_communions: number;
+    confirmations: number;
+    marriages: number;
+  };
+  // One entry per currency, as parishes keep their accounts in their own currency
+  finances: {
+    currency: string;
+    total_income: number;
+    total_expenses: number;
+    net: number;
+  }[];
+  parishes: IDioceseStatsParish[];
+}
+
+const COUNTED_FIGURES = [
+  'parishioners',
+  'active_parishioners',
+  'families',
+  'wards',
+  'baptisms',
+  'first_communions',
+  'confirmations',
+  'marriages',
+] as const;
+
+/**
+ * Diocese Service
+ * Dioceses group parishes. Super admins manage them; diocese admins (user type DIOCESE_ADMIN) can view
+ * the dioceses they are assigned to, their parishes and statistics across them, but not change anything.
+ * Their DIOCESE_ADMIN role applies to each parish of their dioceses (see PermissionModel.getEffectivePermissions).
+ */
+export class DioceseService {
+  /**
+   * List all dioceses (super admins) or the dioceses the user administers
+   */
+  public static async listDioceses(user: ITokenPayload): Promise<IDiocese[]> {
+    return DioceseModel.findAll(user.user_type === UserType.SUPER_ADMIN ? undefined : user.user_id);
+  }
+
+  /**
+   * Get a diocese the user may view
+   */
+  public static async getDiocese(dioceseId: number, user: ITokenPayload): Promise<IDiocese> {
+    const diocese = await DioceseModel.findById(dioceseId);
+    if (!diocese) {
+      throw ApiError.notFound('Diocese not found');
+    }
+
+    if (user.user_type !== UserType.SUPER_ADMIN) {
+      if (!diocese.is_active || !(await DioceseModel.isAdmin(dioceseId, user.user_id))) {
+        throw ApiError.forbidden('You can only access the dioceses you administer');
+      }
+    }
+
+    return diocese;
+  }
+
+  public static async createDiocese(data: DioceseData & { diocese_name: string }): Promise<IDiocese> {
+    const diocese = await DioceseModel.create(data);
+    logger.info(`Diocese created: ${diocese.diocese_id}`, { dioceseName: diocese.diocese_name });
+    return diocese;
+  }
+
+  /**
+   * Update a diocese. Activating or deactivating it changes what its admins can see.
+   */
+  public static async updateDiocese(dioceseId: number, updates: DioceseData): Promise<IDiocese> {
+    const diocese = await DioceseModel.update(dioceseId, updates);
+    if (!diocese) {
+      throw ApiError.notFound('Diocese not found');
+    }
+
+    if (updates.is_active !== undefined) {
+      PermissionCacheService.invalidateAll();
+    }
+
+    return diocese;
+  }
+
+  public static async getParishes(dioceseId: number, user: ITokenPayload): Promise<IParish[]> {
+    await this.getDiocese(dioceseId, user);
+    return DioceseModel.findParishes(dioceseId);
+  }
+
+  /**
+   * Assign a parish to a diocese (moving it from its current diocese, if any)
+   */
+  public static async assignParish(dioceseId: number, parishId: number, user: ITokenPayload): Promise<IParish[]> {
+    await this.getDiocese(dioceseId, user);
+
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    await DioceseModel.setParishDiocese(parishId, dioceseId);
+    // Diocese admins gain (and the previous diocese's admins lose) access to the parish
+    PermissionCacheService.invalidateAll();
+
+    logger.info(`Parish ${parishId} assigned to diocese ${dioceseId}`, { previousDioceseId: parish.diocese_id });
+
+    return DioceseModel.findParishes(dioceseId);
+  }
+
+  public static async removeParish(dioceseId: number, parishId: number, user: ITokenPayload): Promise<void> {
+    await this.getDiocese(dioceseId, user);
+
+    const parish = await ParishModel.findById(parishId);
+    if (!parish || Number(parish.diocese_id) !== dioceseId) {
+      throw ApiError.notFound('Parish not found in this diocese');
+    }
+
+    await DioceseModel.setParishDiocese(parishId, null);
+    PermissionCacheService.invalidateAll();
+
+    logger.info(`Parish ${parishId} removed from diocese ${dioceseId}`);
+  }
+
+  /**
+   * Figures of each parish of a diocese and their totals. Sacraments and finances can be limited to a date range.
+   */
+  public static async getStats(
+    dioceseId: number,
+    user: ITokenPayload,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<IDioceseStats> {
+    const diocese = await this.getDiocese(dioceseId, user);
+    const parishStats = await DioceseModel.getParishStats(dioceseId, startDate, endDate);
+
+    const parishes: IDioceseStatsParish[] = [];
+    for (const stats of parishStats) {
+      parishes.push({ ...stats, currency: await ParishSettingsService.getSetting(stats.parish_id, 'currency') });
+    }
+
+    const totals = { parishes: parishes.length } as IDioceseStats['totals'];
+    for (const figure of COUNTED_FIGURES) {
+      totals[figure] = parishes.reduce((sum, parish) => sum + parish[figure], 0);
+    }
+
+    const finances = new Map<string, IDioceseStats['finances'][number]>();
+    for (const parish of parishes) {
+      const entry = finances.get(parish.currency) || {
+        currency: parish.currency,
+        total_income: 0,
+        total_expenses: 0,
+        net: 0,
+      };
+      entry.total_income += parish.total_income;
+      entry.total_expenses += parish.total_expenses;
+      entry.net = entry.total_income - entry.total_expenses;
+      finances.set(parish.currency, entry);
+    }
+
+    return {
+      diocese_id: Number(diocese.diocese_id),
+      diocese_name: diocese.diocese_name,
+      start_date: startDate || null,
+      end_date: endDate || null,
+      totals,
+      finances: [...finances.values()],
+      parishes,
+    };
+  }
+
+  public static async getAdmins(dioceseId: number, user: ITokenPayload): Promise<IDioceseAdmin[]> {
+    await this.getDiocese(dioceseId, user);
+    return DioceseModel.findAdmins(dioceseId);
+  }
+
+  /**
+   * Make a diocese admin user an administrator of a diocese
+   */
+  public static async addAdmin(dioceseId: number, userId: number, user: ITokenPayload): Promise<IDioceseAdmin[]> {
+    await this.getDiocese(dioceseId, user);
+
+    const adminUser = await UserModel.findById(userId);
+    if (!adminUser || !adminUser.is_active) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if (adminUser.user_type !== UserType.DIOCESE_ADMIN) {
+      throw ApiError.badRequest('Only users of type DIOCESE_ADMIN can administer a diocese');
+    }
+
+    await DioceseModel.addAdmin(dioceseId, userId, user.user_id);
+    PermissionCacheService.invalidateUser(userId);
+
+    logger.info(`Diocese admin added: user ${userId} to diocese ${dioceseId}`, { assignedBy: user.user_id });
+
+    return DioceseModel.findAdmins(dioceseId);
+  }
+
+  public static async removeAdmin(dioceseId: number, userId: number, user: ITokenPayload): Promise<void> {
+    await this.getDiocese(dioceseId, user);
+
+    if (!(await DioceseModel.removeAdmin(dioceseId, userId))) {
+      throw ApiError.notFound('User is not an admin of this diocese');
+    }
+    PermissionCacheService.invalidateUser(userId);
+
+    logger.info(`Diocese admin removed: user ${userId} from diocese ${dioceseId}`, { removedBy: user.user_id });
+  }
+}
+
+export default DioceseService;
@@ -0,0 +1,111 @@
+import { OtpModel } from '../models/Otp';
+import { UserModel } from '../models/User';
+import { emailService } from './email/email.service';
+import { OtpUtil } from '../utils/otp.util';
+import { ApiError } from '../utils/apiError';
+import { IUser, UserType } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Email Verification Service
+ * Sends verification codes (with a one-click link) and confirms users' email addresses.
+ */
+export class EmailVerificationService {
+  /**
+   * Whether the user must verify their email before logging in
+   */
+  public static isLoginBlocked(user: IUser): boolean {
+    return config.emailVerification.enforcement === 'login' && this.isUnverified(user);
+  }
+
+  /**
+   * Whether the user must verify their email before using guarded routes
+   */
+  public static isAccessRestricted(user: IUser): boolean {
+    return config.emailVerification.enforcement !== 'none' && this.isUnverified(user);
+  }
+
+  /**
+   * Super admins are never treated as unverified so the platform cannot be locked out
+   */
+  private static isUnverified(user: IUser): boolean {
+    return !user.email_verified && user.user_type !== UserType.SUPER_ADMIN;
+  }
+
+  /**
+   * Generate a verification code and email it to the user
+   */
+  public static async sendVerification(user: IUser): Promise<void> {
+    if (user.email_verified) {
+      throw ApiError.badRequest('Email address is already verified');
+    }
+
+    // Check rate limiting (15 minutes window)
+    const canSendOTP = await OtpModel.checkRateLimit(user.user_id, 15);
+    if (!canSendOTP) {
+      throw ApiError.badRequest('Too many OTP requests. Please wait before requesting again.');
+    }
+
+    // Only the latest code stays valid
+    await OtpModel.invalidateUserOtps(user.user_id, 'verification');
+
+    const expiryMinutes = config.emailVerification.expiryMinutes;
+    const otpCode = OtpUtil.generateOTP(6);
+
+    await OtpModel.create({
+      user_id: user.user_id,
+      otp_code: otpCode,
+      otp_type: 'verification',
+      delivery_method: 'email',
+      email: user.email,
+      expires_at: OtpUtil.calculateExpiryTime(expiryMinutes),
+    });
+
+    try {
+      await emailService.sendTemplateEmail({
+        to: user.email,
+        templateCode: 'email_verification',
+        variables: {
+          firstName: user.first_name,
+          lastName: user.last_name,
+          otpCode: otpCode,
+          expiryMinutes: expiryMinutes,
+          parishName: 'Parish Nexus',
+          recipientName: `${user.first_name} ${user.last_name}`,
+          verifyLink: `${process.env.FRONTEND_URL}/verify-email?email=${encodeURIComponent(user.email)}&code=${otpCode}`,
+        },
+      });
+
+      logger.info(`Email verification code sent to user: ${user.email}`);
+    } catch (emailError) {
+      logger.error('Failed to send email verification', { emailError });
+      throw ApiError.internal('Failed to send verification email. Please try again.');
+    }
+  }
+
+  /**
+   * Confirm a verification code and mark the user's email as verified
+   */
+  public static async verify(user: IUser, otpCode: string): Promise<void> {
+    if (user.email_verified) {
+      return;
+    }
+
+    const otpRecord = await OtpModel.verify(user.user_id, otpCode, 'verification');
+    if (!otpRecord) {
+      const latestOtp = await OtpModel.getLatestByUser(user.user_id, 'verification');
+      if (latestOtp) {
+        await OtpModel.incrementAttempts(latestOtp.otp_id);
+      }
+      throw ApiError.unauthorized('Invalid or expired OTP');
+    }
+
+    await OtpModel.markAsVerified(otpRecord.otp_id);
+    await UserModel.verifyEmail(user.user_id);
+
+    logger.info(`Email verified for user: ${user.email}`);
+  }
+}
+
+export default EmailVerificationService;
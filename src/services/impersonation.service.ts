@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ImpersonationSessionModel, ImpersonationAuditModel } from '../models/Impersonation';
+import { UserModel } from '../models/User';
+import { SessionService, ISessionContext } from './session.service';
+import { JwtUtil, IGeneratedToken } from '../utils/jwt';
+import { ApiError } from '../utils/apiError';
+import { IImpersonationClaims, ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface IImpersonationStart extends IGeneratedToken {
+  impersonation_id: string;
+  read_only: boolean;
+  user: {
+    user_id: number;
+    email: string;
+    first_name: string;
+    last_name: string;
+    user_type: UserType;
+  };
+}
+
+/**
+ * Impersonation Service
+ * Lets super admins see the app as another user. Tokens are short-lived, cannot be refreshed,
+ * are read-only unless requested otherwise, and every request made with them is audited.
+ */
+export class ImpersonationService {
+  /**
+   * Start viewing as another user
+   */
+  public static async start(
+    admin: ITokenPayload,
+    targetUserId: number,
+    reason: string,
+    readOnly: boolean,
+    context: ISessionContext
+  ): Promise<IImpersonationStart> {
+    if (admin.impersonation) {
+      throw ApiError.forbidden('End the current impersonation before starting another one');
+    }
+
+    if (!admin.session_id) {
+      throw ApiError.unauthorized('Session has been revoked. Please log in again');
+    }
+
+    if (targetUserId === Number(admin.user_id)) {
+      throw ApiError.badRequest('You cannot impersonate yourself');
+    }
+
+    const target = await UserModel.findById(targetUserId);
+    if (!target) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if (target.user_type === UserType.SUPER_ADMIN) {
+      throw ApiError.forbidden('Super admins cannot be impersonated');
+    }
+
+    if (!target.is_active) {
+      throw ApiError.badRequest('Cannot impersonate a disabled account');
+    }
+
+    const impersonationId = uuidv4();
+    const claims: IImpersonationClaims = {
+      impersonation_id: impersonationId,
+      impersonator_user_id: admin.user_id,
+      impersonator_email: admin.email,
+      read_only: readOnly,
+    };
+
+    // Bound to the admin's own session, so signing out also ends the impersonation
+    const accessToken = JwtUtil.generateImpersonationToken({
+      ...SessionService.buildTokenPayload(target),
+      session_id: admin.session_id,
+      impersonation: claims,
+    });
+
+    await ImpersonationSessionModel.create({
+      impersonation_id: impersonationId,
+      impersonator_user_id: admin.user_id,
+      target_user_id: target.user_id,
+      session_id: admin.session_id,
+      reason,
+      read_only: readOnly,
+      expires_in_seconds: accessToken.expires_in,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+    });
+
+    logger.warn('Impersonation started', {
+      impersonationId,
+      impersonator: admin.email,
+      target: target.email,
+      readOnly,
+      reason,
+    });
+
+    return {
+      ...accessToken,
+      impersonation_id: impersonationId,
+      read_only: readOnly,
+      user: {
+        user_id: target.user_id,
+        email: target.email,
+        first_name: target.first_name,
+        last_name: target.last_name,
+        user_type: target.user_type,
+      },
+    };
+  }
+
+  /**
+   * End an impersonation session (its tokens stop working immediately)
+   */
+  public static async end(impersonationId: string, admin: ITokenPayload): Promise<void> {
+    const session = await ImpersonationSessionModel.findById(impersonationId);
+    if (!session) {
+      throw ApiError.notFound('Impersonation session not found');
+    }
+
+    if (!(await ImpersonationSessionModel.end(impersonationId))) {
+      throw ApiError.conflict('Impersonation session has already ended');
+    }
+
+    logger.info('Impersonation ended', { impersonationId, endedBy: admin.email });
+  }
+
+  /**
+   * Check a request made with an impersonation token.
+   * The request is audited once the response is sent, including blocked writes.
+   */
+  public static async authorizeRequest(req: Request, res: Response, claims: IImpersonationClaims): Promise<void> {
+    if (!(await ImpersonationSessionModel.isActive(claims.impersonation_id))) {
+      throw ApiError.unauthorized('Impersonation session has ended');
+    }
+
+    const blocked = claims.read_only && !READ_ONLY_METHODS.includes(req.method);
+
+    res.on('finish', () => {
+      ImpersonationAuditModel.create({
+        impersonation_id: claims.impersonation_id,
+        method: req.method,
+        path: req.originalUrl.substring(0, 500),
+        status_code: res.statusCode,
+        blocked,
+        ip_address: req.ip,
+      }).catch((error) => {
+        logger.error('Failed to record impersonation audit entry', {
+          impersonationId: claims.impersonation_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+
+    if (blocked) {
+      throw ApiError.forbidden('This impersonation session is read-only');
+    }
+  }
+}
+
+export default ImpersonationService;
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { UserModel } from '../models/User';
+import { emailService } from './email/email.service';
+import { SessionService } from './session.service';
+import { ParishSettingsService } from './parishSettings.service';
+import { JwtUtil, IInvitationTokenPayload } from '../utils/jwt';
+import { PasswordUtil } from '../utils/password';
+import { ApiError } from '../utils/apiError';
+import { IUser, UserType } from '../types';
+import logger from '../utils/logger';
+
+export interface IPasswordChangeChallenge {
+  password_change_required: true;
+  password_change_token: string;
+  expires_in: number;
+  expires_at: string;
+}
+
+export interface IInvitationDetails {
+  parishId?: number; // Parish whose login_url setting the email links to
+  parishName: string;
+  familyName?: string;
+  wardName?: string;
+}
+
+/**
+ * Invitation Service
+ * Members created by admins receive an expiring invitation link and set their own password,
+ * instead of sharing a default password.
+ */
+export class InvitationService {
+  /**
+   * Password hash for a new invited account. The password itself is random and never shared,
+   * so the account can only be activated through the invitation (or an OTP login).
+   */
+  public static async createPlaceholderPasswordHash(): Promise<string> {
+    return PasswordUtil.hash(crypto.randomBytes(32).toString('hex'));
+  }
+
+  /**
+   * Email an invitation link using the church_admin_invitation template for church admins,
+   * or the welcome_parishioner template otherwise
+   */
+  public static async sendInvitation(user: IUser, details: IInvitationDetails): Promise<void> {
+    const { token, expires_at } = JwtUtil.generateInvitationToken(
+      user.user_id,
+      user.password_hash,
+      'account_invite'
+    );
+    const frontendUrl = process.env.FRONTEND_URL || 'https://parishnexus.com';
+
+    await emailService.sendTemplateEmail({
+      to: user.email,
+      templateCode: user.user_type === UserType.CHURCH_ADMIN ? 'church_admin_invitation' : 'welcome_parishioner',
+      variables: {
+        firstName: user.first_name,
+        lastName: user.last_name,
+        email: user.email,
+        recipientName: `${user.first_name} ${user.last_name}`,
+        parishName: details.parishName,
+        parishAddress: '',
+        familyName: details.familyName || 'Parish Family',
+        wardName: details.wardName || '',
+        inviteLink: `${frontendUrl}/accept-invite?token=${encodeURIComponent(token)}`,
+        inviteExpiresAt: new Date(expires_at).toDateString(),
+        loginUrl: await ParishSettingsService.getLoginUrl(details.parishId),
+      },
+    });
+
+    logger.info(`Invitation sent to ${user.email}`);
+  }
+
+  /**
+   * Send an invitation without blocking the caller (failures are only logged)
+   */
+  public static sendInvitationInBackground(user: IUser, details: IInvitationDetails): void {
+    this.sendInvitation(user, details).catch((emailError) => {
+      logger.error(`Failed to send invitation to ${user.email}`, { emailError });
+    });
+  }
+
+  /**
+   * Users flagged with must_change_password cannot finish a password login
+   * until they choose a new password. Returns null when no change is required.
+   */
+  public static getPasswordChangeChallenge(user: IUser): IPasswordChangeChallenge | null {
+    if (!user.must_change_password) {
+      return null;
+    }
+
+    const { token, expires_in, expires_at } = JwtUtil.generateInvitationToken(
+      user.user_id,
+      user.password_hash,
+      'password_change'
+    );
+
+    return {
+      password_change_required: true,
+      password_change_token: token,
+      expires_in,
+      expires_at,
+    };
+  }
+
+  /**
+   * Set the password from an invitation or password change token
+   */
+  public static async acceptInvitation(token: string, password: string): Promise<IUser> {
+    let payload: IInvitationTokenPayload;
+    try {
+      payload = JwtUtil.verifyInvitationToken(token);
+    } catch (error) {
+      throw ApiError.unauthorized('Invalid or expired invitation');
+    }
+
+    const user = await UserModel.findById(payload.user_id);
+    if (!user || !user.is_active) {
+      throw ApiError.unauthorized('Invalid or expired invitation');
+    }
+
+    // The token is bound to the password it was issued for, so it can only be used once
+    if (
+      !user.must_change_password ||
+      JwtUtil.fingerprintPasswordHash(user.password_hash) !== payload.password_fingerprint
+    ) {
+      throw ApiError.conflict('This invitation has already been used');
+    }
+
+    const passwordValidation = PasswordUtil.validateStrength(password);
+    if (!passwordValidation.isValid) {
+      throw ApiError.badRequest(passwordValidation.errors.join(', '));
+    }
+
+    const password_hash = await PasswordUtil.hash(password);
+    const updatedUser = await UserModel.update(user.user_id, {
+      password_hash,
+      must_change_password: false,
+    });
+
+    // The invitation link was delivered by email, which proves access to the mailbox
+    if (payload.purpose === 'account_invite' && !user.email_verified) {
+      await UserModel.verifyEmail(user.user_id);
+    }
+
+    await SessionService.revokeAllSessions(user.user_id, 'password_changed');
+
+    logger.info(`Invitation accepted, password set for user: ${user.email}`);
+
+    return updatedUser;
+  }
+}
+
+export default InvitationService;
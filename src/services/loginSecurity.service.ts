@@ -0,0 +1,148 @@
+import { LoginAttemptModel, LoginMethod, LoginOutcome } from '../models/LoginAttempt';
+import { UserModel } from '../models/User';
+import { ISessionContext } from './session.service';
+import { ApiError } from '../utils/apiError';
+import { IUser } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Login Security Service
+ * Records every sign-in attempt and applies progressive account lockout
+ * after repeated failures (independent of the client's IP address).
+ */
+export class LoginSecurityService {
+  /**
+   * Record a login attempt. Never fails the login itself.
+   */
+  public static async recordAttempt(
+    email: string,
+    method: LoginMethod,
+    outcome: LoginOutcome,
+    context: ISessionContext,
+    user?: IUser | null
+  ): Promise<void> {
+    try {
+      await LoginAttemptModel.create({
+        user_id: user?.user_id,
+        email,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        login_method: method,
+        outcome,
+      });
+    } catch (error) {
+      logger.error('Failed to record login attempt', {
+        email,
+        outcome,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Reject the login if the account is currently locked
+   */
+  public static async assertNotLocked(
+    user: IUser,
+    method: LoginMethod,
+    context: ISessionContext
+  ): Promise<void> {
+    const lockout = await UserModel.getLockout(user.user_id);
+    if (!lockout) {
+      return;
+    }
+
+    await this.recordAttempt(user.email, method, 'account_locked', context, user);
+
+    throw ApiError.locked(
+      `Account is temporarily locked due to too many failed login attempts. Try again in ${lockout.minutes_remaining} minutes or sign in with an OTP`
+    );
+  }
+
+  /**
+   * Record a failed attempt and lock the account once the threshold is reached.
+   * Each consecutive lockout doubles the lock duration, up to the configured maximum.
+   */
+  public static async registerFailure(
+    user: IUser,
+    method: LoginMethod,
+    outcome: LoginOutcome,
+    context: ISessionContext
+  ): Promise<void> {
+    await this.recordAttempt(user.email, method, outcome, context, user);
+
+    const { maxFailedAttempts, baseLockMinutes, maxLockMinutes } = config.accountLockout;
+    const counters = await UserModel.incrementFailedLogins(user.user_id);
+
+    if (!counters || counters.failed_login_attempts < maxFailedAttempts) {
+      return;
+    }
+
+    const lockMinutes = Math.min(baseLockMinutes * 2 ** counters.lockout_count, maxLockMinutes);
+    // Only new logins are blocked: anyone who knows the email could otherwise sign the user out everywhere
+    await UserModel.lock(user.user_id, lockMinutes);
+
+    logger.warn('Account locked after repeated failed logins', {
+      userId: user.user_id,
+      email: user.email,
+      lockMinutes,
+      lockoutCount: counters.lockout_count + 1,
+      ipAddress: context.ip_address,
+    });
+  }
+
+  /**
+   * Record a successful login and clear failure counters
+   */
+  public static async registerSuccess(
+    user: IUser,
+    method: LoginMethod,
+    context: ISessionContext
+  ): Promise<void> {
+    await this.recordAttempt(user.email, method, 'success', context, user);
+
+    if (user.failed_login_attempts || user.lockout_count || user.locked_until) {
+      await UserModel.resetLockout(user.user_id);
+    }
+  }
+
+  /**
+   * Lift a lockout (after OTP verification or by an admin)
+   */
+  public static async unlock(user: IUser, unlockedBy: string): Promise<void> {
+    await UserModel.resetLockout(user.user_id);
+
+    logger.info('Account lockout lifted', {
+      userId: user.user_id,
+      email: user.email,
+      unlockedBy,
+    });
+  }
+
+  /**
+   * Resolve which parish an admin may review. Super admins may pick any parish (or all).
+   */
+  public static async resolveScopeParishId(
+    adminUserId: number,
+    isSuperAdmin: boolean,
+    requestedParishId?: number
+  ): Promise<number | undefined> {
+    if (isSuperAdmin) {
+      return requestedParishId;
+    }
+
+    const parishId = await UserModel.findParishId(adminUserId);
+    if (!parishId) {
+      throw ApiError.forbidden('You are not assigned to a parish');
+    }
+
+    if (requestedParishId && requestedParishId !== parishId) {
+      throw ApiError.forbidden('You can only access data from your own parish');
+    }
+
+    return parishId;
+  }
+}
+
+export default LoginSecurityService;
@@ -0,0 +1,112 @@
+import { ParishModel } from '../models/Parish';
+import { UserModel } from '../models/User';
+import { UserSessionModel } from '../models/UserSession';
+import { ApiError } from '../utils/apiError';
+import { IParish, ITokenPayload } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Parish Deletion Service
+ * Deleting a parish is two-phase: it is first marked pending deletion, which hides it and signs out
+ * and blocks its members, and is purged by the scheduler once the grace period ends.
+ * Until then a super admin can restore it with everything that belongs to it.
+ */
+export class ParishDeletionService {
+  /**
+   * Mark a parish for deletion after the grace period
+   */
+  public static async scheduleDeletion(parishId: number, admin: ITokenPayload, reason?: string): Promise<IParish> {
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    const graceDays = config.parishDeletion.gracePeriodDays;
+    if (!(await ParishModel.markPendingDeletion(parishId, admin.user_id, graceDays, reason))) {
+      throw ApiError.conflict('Parish is already scheduled for deletion');
+    }
+
+    const revokedSessions = await UserSessionModel.revokeAllForParish(parishId, 'parish_pending_deletion');
+
+    logger.warn(`Parish scheduled for deletion: ${parishId}`, {
+      parishName: parish.parish_name,
+      requestedBy: admin.user_id,
+      graceDays,
+      revokedSessions,
+    });
+
+    return this.getParish(parishId);
+  }
+
+  /**
+   * Cancel a pending deletion. Members can sign in again.
+   */
+  public static async restore(parishId: number, admin: ITokenPayload): Promise<IParish> {
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found. It may already have been purged');
+    }
+
+    if (!(await ParishModel.restore(parishId))) {
+      throw ApiError.conflict('Parish is not scheduled for deletion');
+    }
+
+    logger.info(`Parish restored: ${parishId}`, { parishName: parish.parish_name, restoredBy: admin.user_id });
+
+    return this.getParish(parishId);
+  }
+
+  /**
+   * List parishes pending deletion
+   */
+  public static async listPending(): Promise<IParish[]> {
+    return ParishModel.findPendingDeletion();
+  }
+
+  /**
+   * Purge parishes whose grace period has ended (run by the scheduler)
+   */
+  public static async purgeDue(): Promise<number> {
+    const parishIds = await ParishModel.findDueForPurge();
+    let purgedCount = 0;
+
+    for (const parishId of parishIds) {
+      try {
+        await ParishModel.purge(parishId);
+        purgedCount++;
+        logger.warn(`Parish purged: ${parishId}`);
+      } catch (error) {
+        logger.error(`Failed to purge parish: ${parishId}`, error);
+      }
+    }
+
+    return purgedCount;
+  }
+
+  /**
+   * Reject sign-ins of members of a parish pending deletion
+   */
+  public static async assertUserParishAvailable(userId: number): Promise<void> {
+    const parishId = await UserModel.findParishId(userId);
+    if (!parishId) {
+      return;
+    }
+
+    const parish = await ParishModel.findById(parishId);
+    if (parish?.deletion_scheduled_for) {
+      throw ApiError.forbidden('Your parish has been scheduled for deletion. Please contact support');
+    }
+  }
+
+  private static async getParish(parishId: number): Promise<IParish> {
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    return parish;
+  }
+}
+
+export default ParishDeletionService;
@@ -0,0 +1,132 @@
+import { ParishSettingModel } from '../models/ParishSetting';
+import { ParishModel } from '../models/Parish';
+import {
+  IParishSettings,
+  PARISH_SETTING_DEFAULTS,
+  PARISH_SETTING_KEYS,
+  ParishSettingKey,
+} from '../constants/parishSettings';
+import { ApiError } from '../utils/apiError';
+import logger from '../utils/logger';
+
+// null returns a setting to its default
+export type ParishSettingsUpdate = { [K in ParishSettingKey]?: IParishSettings[K] | null };
+
+export interface IParishSettingsView {
+  parish_id: number;
+  settings: IParishSettings;
+  defaults: IParishSettings;
+  overridden: ParishSettingKey[];
+}
+
+const isSettingKey = (key: string): key is ParishSettingKey => PARISH_SETTING_KEYS.includes(key as ParishSettingKey);
+
+/**
+ * Parish Settings Service
+ * Typed per-parish settings (see constants/parishSettings). Only values a parish changed are stored;
+ * everything else falls back to the defaults, so new settings need no migration of existing parishes.
+ */
+export class ParishSettingsService {
+  /**
+   * Get the effective settings of a parish
+   */
+  public static async getSettings(parishId: number): Promise<IParishSettings> {
+    return (await this.load(parishId)).settings;
+  }
+
+  /**
+   * Get one effective setting of a parish
+   */
+  public static async getSetting<K extends ParishSettingKey>(parishId: number, key: K): Promise<IParishSettings[K]> {
+    return (await this.getSettings(parishId))[key];
+  }
+
+  /**
+   * Sign-in link for emails: the parish's login_url, else the frontend's login page
+   */
+  public static async getLoginUrl(parishId?: number | null): Promise<string> {
+    const loginUrl = parishId ? await this.getSetting(parishId, 'login_url') : null;
+    return loginUrl || `${process.env.FRONTEND_URL || 'https://parishnexus.com'}/login`;
+  }
+
+  /**
+   * Get a parish's settings with the defaults and which of them the parish overrides
+   */
+  public static async getView(parishId: number): Promise<IParishSettingsView> {
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    const { settings, overridden } = await this.load(parishId);
+
+    return {
+      parish_id: parishId,
+      settings,
+      defaults: PARISH_SETTING_DEFAULTS,
+      overridden,
+    };
+  }
+
+  /**
+   * Change settings of a parish. Values equal to the default (or null) are reset rather than stored.
+   */
+  public static async update(
+    parishId: number,
+    changes: ParishSettingsUpdate,
+    updatedBy?: number
+  ): Promise<IParishSettingsView> {
+    const parish = await ParishModel.findById(parishId);
+    if (!parish) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    const values: Partial<Record<ParishSettingKey, string>> = {};
+    const resetKeys: ParishSettingKey[] = [];
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (!isSettingKey(key) || value === undefined) {
+        continue;
+      }
+
+      if (value === null || value === PARISH_SETTING_DEFAULTS[key]) {
+        resetKeys.push(key);
+      } else {
+        values[key] = JSON.stringify(value);
+      }
+    }
+
+    await ParishSettingModel.save(parishId, values, resetKeys, updatedBy);
+
+    logger.info(`Parish settings updated: ${parishId}`, {
+      changed: Object.keys(values),
+      reset: resetKeys,
+      updatedBy,
+    });
+
+    return this.getView(parishId);
+  }
+
+  private static async load(parishId: number): Promise<{ settings: IParishSettings; overridden: ParishSettingKey[] }> {
+    const settings: IParishSettings = { ...PARISH_SETTING_DEFAULTS };
+    const overridden: ParishSettingKey[] = [];
+    const stored = await ParishSettingModel.findByParishId(parishId);
+
+    for (const row of stored) {
+      if (!isSettingKey(row.setting_key)) {
+        continue;
+      }
+
+      try {
+        (settings as unknown as Record<string, unknown>)[row.setting_key] = JSON.parse(row.setting_value);
+        overridden.push(row.setting_key);
+      } catch (error) {
+        logger.warn(`Ignoring invalid parish setting ${row.setting_key} of parish ${parishId}`, { error });
+      }
+    }
+
+    return { settings, overridden };
+  }
+}
+
+export default ParishSettingsService;
@@ -0,0 +1,201 @@
+import { PermissionModel } from '../models/Role';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface IPermissionScope {
+  global: boolean;
+  parish_wide: boolean; // Granted by anything other than a ward office
+  parish_ids: Set<number>;
+  ward_ids: Set<number>;
+}
+
+/**
+ * What a request targets. Ward grants only count when the ward is known.
+ */
+export interface IPermissionTarget {
+  parish_id?: number;
+  ward_id?: number;
+  shared?: boolean; // Shared by every parish (e.g. a role without a parish): only global grants count
+}
+
+export type PermissionScopes = Map<string, IPermissionScope>;
+
+interface ICachedPermissions {
+  scopes: PermissionScopes;
+  expiresAt: number;
+}
+
+/**
+ * Permission Cache Service
+ * Caches each user's effective permission codes so permission checks cost at most
+ * one query per user per TTL. Role and permission changes invalidate entries;
+ * the TTL covers changes made by other processes or directly in the database.
+ * Checks given a parish only honour permissions granted globally or for that parish;
+ * permissions of ward office bearers only count for requests targeting their ward.
+ */
+export class PermissionCacheService {
+  private static entries = new Map<number, ICachedPermissions>();
+  private static pending = new Map<number, Promise<PermissionScopes>>();
+
+  /**
+   * Get a user's effective permissions with the parishes and wards each one applies to
+   */
+  public static async getPermissionScopes(userId: number): Promise<PermissionScopes> {
+    // Token payloads may carry BIGINT ids as strings
+    const key = Number(userId);
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.scopes;
+    }
+
+    // Concurrent requests of the same user share one lookup
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const lookup: Promise<PermissionScopes> = PermissionModel.getEffectivePermissions(key)
+      .then((permissions) => {
+        const scopes: PermissionScopes = new Map();
+
+        for (const permission of permissions) {
+          let scope = scopes.get(permission.permission_code);
+          if (!scope) {
+            scope = { global: false, parish_wide: false, parish_ids: new Set(), ward_ids: new Set() };
+            scopes.set(permission.permission_code, scope);
+          }
+
+          if (permission.ward_id !== null) {
+            scope.ward_ids.add(permission.ward_id);
+            continue;
+          }
+
+          scope.parish_wide = true;
+          if (permission.is_global) {
+            scope.global = true;
+          } else if (permission.parish_id !== null) {
+            scope.parish_ids.add(permission.parish_id);
+          }
+        }
+
+        // Only cache if the entry was not invalidated while the query was running
+        if (this.pending.get(key) === lookup) {
+          this.store(key, scopes);
+        }
+
+        return scopes;
+      });
+    this.pending.set(key, lookup);
+
+    try {
+      return await lookup;
+    } finally {
+      if (this.pending.get(key) === lookup) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get a user's effective permission codes, regardless of parish (ward office permissions excluded)
+   */
+  public static async getPermissionCodes(userId: number): Promise<Set<string>> {
+    const scopes = await this.getPermissionScopes(userId);
+    return new Set([...scopes.keys()].filter((code) => this.allows(scopes, code, {})));
+  }
+
+  /**
+   * Check a single permission, optionally for a specific parish or ward
+   */
+  public static async hasPermission(
+    userId: number,
+    permissionCode: string,
+    target: IPermissionTarget = {}
+  ): Promise<boolean> {
+    const scopes = await this.getPermissionScopes(userId);
+    return this.allows(scopes, permissionCode, target);
+  }
+
+  /**
+   * Check that the user has at least one of the permissions
+   */
+  public static async hasAnyPermission(
+    userId: number,
+    permissionCodes: string[],
+    target: IPermissionTarget = {}
+  ): Promise<boolean> {
+    const scopes = await this.getPermissionScopes(userId);
+    return permissionCodes.some((code) => this.allows(scopes, code, target));
+  }
+
+  /**
+   * Get the permissions the user is missing (empty when the user has all of them)
+   */
+  public static async getMissingPermissions(
+    userId: number,
+    permissionCodes: string[],
+    target: IPermissionTarget = {}
+  ): Promise<string[]> {
+    const scopes = await this.getPermissionScopes(userId);
+    return permissionCodes.filter((code) => !this.allows(scopes, code, target));
+  }
+
+  /**
+   * Drop the cached permissions of a user (after role or permission assignment changes)
+   */
+  public static invalidateUser(userId: number): void {
+    this.entries.delete(Number(userId));
+    this.pending.delete(Number(userId));
+  }
+
+  /**
+   * Drop every cached entry (after a role itself or its permissions change)
+   */
+  public static invalidateAll(): void {
+    this.entries.clear();
+    this.pending.clear();
+    logger.debug('Permission cache cleared');
+  }
+
+  /**
+   * Without a target parish any parish grant counts, otherwise only global grants or grants for that parish.
+   * Ward grants additionally count when the target is their ward. Shared targets need a global grant.
+   */
+  private static allows(scopes: PermissionScopes, permissionCode: string, target: IPermissionTarget): boolean {
+    const scope = scopes.get(permissionCode);
+    if (!scope) {
+      return false;
+    }
+
+    if (target.shared) {
+      return scope.global;
+    }
+
+    if (target.ward_id !== undefined && scope.ward_ids.has(target.ward_id)) {
+      return true;
+    }
+
+    if (target.parish_id === undefined) {
+      return scope.parish_wide;
+    }
+
+    return scope.global || scope.parish_ids.has(target.parish_id);
+  }
+
+  private static store(userId: number, scopes: PermissionScopes): void {
+    const { ttlSeconds, maxEntries } = config.permissionCache;
+
+    if (this.entries.size >= maxEntries) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      const oldestUserId = this.entries.keys().next().value;
+      if (oldestUserId !== undefined) {
+        this.entries.delete(oldestUserId);
+      }
+    }
+
+    this.entries.delete(userId);
+    this.entries.set(userId, { scopes, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+}
+
+export default PermissionCacheService;
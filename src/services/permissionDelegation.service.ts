@@ -0,0 +1,181 @@
+import { PermissionModel } from '../models/Role';
+import {
+  PermissionDelegationModel,
+  IPermissionDelegation,
+  IPermissionDelegationFilters,
+} from '../models/PermissionDelegation';
+import { UserModel } from '../models/User';
+import { LoginSecurityService } from './loginSecurity.service';
+import { PermissionCacheService } from './permissionCache.service';
+import { ApiError } from '../utils/apiError';
+import { ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+export interface IDelegationRequest {
+  delegate_user_id: number;
+  permission_ids: number[];
+  reason: string;
+  starts_at?: Date;
+  ends_at: Date;
+  parish_id?: number; // Required for super admins; church admins always delegate within their own parish
+}
+
+/**
+ * Permission Delegation Service
+ * Church admins hand a subset of their own permissions to another member of the parish for a date range
+ * (e.g. while the parish priest is away), instead of making them a full church admin.
+ * Delegations apply to their parish only and end automatically at their end date.
+ */
+export class PermissionDelegationService {
+  /**
+   * Delegate permissions to a user of the admin's parish
+   */
+  public static async delegate(data: IDelegationRequest, admin: ITokenPayload): Promise<IPermissionDelegation> {
+    const isSuperAdmin = admin.user_type === UserType.SUPER_ADMIN;
+    const parishId = await LoginSecurityService.resolveScopeParishId(admin.user_id, isSuperAdmin, data.parish_id);
+    if (!parishId) {
+      throw ApiError.badRequest('parish_id is required');
+    }
+
+    if (Number(data.delegate_user_id) === Number(admin.user_id)) {
+      throw ApiError.badRequest('You cannot delegate permissions to yourself');
+    }
+
+    const delegate = await UserModel.findById(data.delegate_user_id);
+    if (!delegate || !delegate.is_active) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if ((await UserModel.findParishId(data.delegate_user_id)) !== parishId) {
+      throw ApiError.badRequest('Permissions can only be delegated to members of the same parish');
+    }
+
+    const startsAt = data.starts_at ? new Date(data.starts_at) : new Date();
+    const endsAt = new Date(data.ends_at);
+    if (endsAt <= startsAt || endsAt <= new Date()) {
+      throw ApiError.badRequest('The end date must be in the future and after the start date');
+    }
+
+    const permissionCodes = await this.resolvePermissionCodes(data.permission_ids);
+    if (!isSuperAdmin) {
+      const missing = await PermissionCacheService.getMissingPermissions(admin.user_id, permissionCodes, {
+        parish_id: parishId,
+      });
+      if (missing.length > 0) {
+        throw ApiError.forbidden(`You can only delegate permissions you hold yourself: ${missing.join(', ')}`);
+      }
+    }
+
+    const created = await PermissionDelegationModel.create(
+      {
+        parish_id: parishId,
+        delegator_user_id: admin.user_id,
+        delegate_user_id: data.delegate_user_id,
+        reason: data.reason,
+        starts_at: startsAt,
+        ends_at: endsAt,
+      },
+      data.permission_ids
+    );
+    PermissionCacheService.invalidateUser(data.delegate_user_id);
+
+    logger.info(`Permissions delegated to user: ${data.delegate_user_id}`, {
+      delegationId: created.delegation_id,
+      delegatedBy: admin.user_id,
+      permissions: permissionCodes,
+      endsAt,
+    });
+
+    return this.getDelegation(created.delegation_id, admin);
+  }
+
+  /**
+   * List delegations. Church admins only see their own parish.
+   */
+  public static async listDelegations(
+    filters: IPermissionDelegationFilters,
+    admin: ITokenPayload
+  ): Promise<IPermissionDelegation[]> {
+    const parishId = await LoginSecurityService.resolveScopeParishId(
+      admin.user_id,
+      admin.user_type === UserType.SUPER_ADMIN,
+      filters.parish_id
+    );
+
+    return PermissionDelegationModel.find({ ...filters, parish_id: parishId });
+  }
+
+  /**
+   * Get a delegation with its permissions
+   */
+  public static async getDelegation(delegationId: number, admin: ITokenPayload): Promise<IPermissionDelegation> {
+    const delegation = await this.findAccessibleDelegation(delegationId, admin);
+
+    return {
+      ...delegation,
+      permissions: await PermissionDelegationModel.getPermissions(delegationId),
+    };
+  }
+
+  /**
+   * End a delegation before its end date
+   */
+  public static async revoke(delegationId: number, admin: ITokenPayload): Promise<IPermissionDelegation> {
+    const delegation = await this.findAccessibleDelegation(delegationId, admin);
+
+    if (!(await PermissionDelegationModel.revoke(delegationId, admin.user_id))) {
+      throw ApiError.conflict('Delegation is no longer active');
+    }
+    PermissionCacheService.invalidateUser(delegation.delegate_user_id);
+
+    logger.info(`Delegation revoked: ${delegationId}`, { revokedBy: admin.user_id });
+
+    return this.getDelegation(delegationId, admin);
+  }
+
+  /**
+   * Expire delegations past their end date (run by the scheduler)
+   */
+  public static async expireEnded(): Promise<number> {
+    const delegateUserIds = await PermissionDelegationModel.expireEnded();
+
+    for (const userId of delegateUserIds) {
+      PermissionCacheService.invalidateUser(userId);
+    }
+
+    return delegateUserIds.length;
+  }
+
+  private static async findAccessibleDelegation(
+    delegationId: number,
+    admin: ITokenPayload
+  ): Promise<IPermissionDelegation> {
+    const delegation = await PermissionDelegationModel.findById(delegationId);
+    if (!delegation) {
+      throw ApiError.notFound('Delegation not found');
+    }
+
+    if (admin.user_type !== UserType.SUPER_ADMIN) {
+      const adminParishId = await LoginSecurityService.resolveScopeParishId(admin.user_id, false);
+      if (Number(delegation.parish_id) !== adminParishId) {
+        throw ApiError.notFound('Delegation not found');
+      }
+    }
+
+    return delegation;
+  }
+
+  private static async resolvePermissionCodes(permissionIds: number[]): Promise<string[]> {
+    const permissions = await PermissionModel.getAllPermissions();
+    const codes = new Map(permissions.map((permission) => [Number(permission.permission_id), permission.permission_code]));
+
+    const unknown = permissionIds.filter((permissionId) => !codes.has(permissionId));
+    if (unknown.length > 0) {
+      throw ApiError.badRequest(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+
+    return permissionIds.map((permissionId) => codes.get(permissionId) as string);
+  }
+}
+
+export default PermissionDelegationService;
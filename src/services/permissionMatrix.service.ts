@@ -0,0 +1,169 @@
+import { RoleModel, PermissionModel, IRole, IPermission, IRolePermissionChange } from '../models/Role';
+import { PermissionCacheService } from './permissionCache.service';
+import { ApiError } from '../utils/apiError';
+import { ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+export interface IPermissionMatrixRole {
+  role_id: number;
+  parish_id: number | null;
+  role_name: string;
+  role_code: string;
+  is_system_role: boolean;
+  editable: boolean;
+}
+
+export interface IPermissionMatrixPermission {
+  permission_id: number;
+  permission_name: string;
+  permission_code: string;
+  description?: string;
+  action: string;
+  granted_role_ids: number[];
+}
+
+export interface IPermissionMatrixModule {
+  module: string;
+  permissions: IPermissionMatrixPermission[];
+}
+
+export interface IPermissionMatrix {
+  parish_id: number;
+  roles: IPermissionMatrixRole[];
+  modules: IPermissionMatrixModule[];
+}
+
+export interface IPermissionMatrixUpdate {
+  granted: number;
+  revoked: number;
+  matrix: IPermissionMatrix;
+}
+
+/**
+ * Permission Matrix Service
+ * Every role of a parish against every permission, for the admin permission grid.
+ * System roles are read-only; shared (non-parish) roles can only be changed by super admins.
+ */
+export class PermissionMatrixService {
+  /**
+   * Build the matrix of a parish, grouped by permission module
+   */
+  public static async getMatrix(parishId: number, editor: ITokenPayload): Promise<IPermissionMatrix> {
+    const [roles, permissions, pairs] = await Promise.all([
+      RoleModel.getAllRoles(parishId),
+      PermissionModel.getAllPermissions(),
+      RoleModel.getRolePermissionPairs(parishId),
+    ]);
+
+    const grantedRoles = new Map<number, number[]>();
+    for (const pair of pairs) {
+      const roleIds = grantedRoles.get(pair.permission_id) || [];
+      roleIds.push(pair.role_id);
+      grantedRoles.set(pair.permission_id, roleIds);
+    }
+
+    const modules = new Map<string, IPermissionMatrixPermission[]>();
+    for (const permission of permissions) {
+      const modulePermissions = modules.get(permission.module) || [];
+      modulePermissions.push({
+        permission_id: Number(permission.permission_id),
+        permission_name: permission.permission_name,
+        permission_code: permission.permission_code,
+        description: permission.description,
+        action: permission.action,
+        granted_role_ids: grantedRoles.get(Number(permission.permission_id)) || [],
+      });
+      modules.set(permission.module, modulePermissions);
+    }
+
+    return {
+      parish_id: parishId,
+      roles: roles.map((role) => ({
+        role_id: Number(role.role_id),
+        parish_id: role.parish_id ? Number(role.parish_id) : null,
+        role_name: role.role_name,
+        role_code: role.role_code,
+        is_system_role: Boolean(role.is_system_role),
+        editable: this.canEditRole(role, editor),
+      })),
+      modules: Array.from(modules, ([module, modulePermissions]) => ({ module, permissions: modulePermissions })),
+    };
+  }
+
+  /**
+   * Apply a diff of grant/remove changes in a single transaction.
+   * The whole diff is rejected if any change targets a role or permission it may not.
+   */
+  public static async applyChanges(
+    parishId: number,
+    changes: IRolePermissionChange[],
+    editor: ITokenPayload
+  ): Promise<IPermissionMatrixUpdate> {
+    const [roles, permissions] = await Promise.all([
+      RoleModel.getAllRoles(parishId),
+      PermissionModel.getAllPermissions(),
+    ]);
+
+    const rolesById = new Map<number, IRole>(roles.map((role) => [Number(role.role_id), role]));
+    const permissionsById = new Map<number, IPermission>(
+      permissions.map((permission) => [Number(permission.permission_id), permission])
+    );
+    const seen = new Map<string, boolean>();
+
+    for (const change of changes) {
+      const role = rolesById.get(change.role_id);
+      if (!role) {
+        throw ApiError.badRequest(`Role ${change.role_id} does not belong to this parish`);
+      }
+
+      if (role.is_system_role) {
+        throw ApiError.forbidden(`Cannot change permissions of system role ${role.role_code}`);
+      }
+
+      if (!this.canEditRole(role, editor)) {
+        throw ApiError.forbidden(
+          `Role ${role.role_code} is shared by all parishes and can only be changed by a super admin`
+        );
+      }
+
+      if (!permissionsById.has(change.permission_id)) {
+        throw ApiError.badRequest(`Permission ${change.permission_id} not found`);
+      }
+
+      const key = `${change.role_id}:${change.permission_id}`;
+      if (seen.has(key) && seen.get(key) !== change.granted) {
+        throw ApiError.badRequest(
+          `Permission ${change.permission_id} is both granted and removed for role ${change.role_id}`
+        );
+      }
+      seen.set(key, change.granted);
+    }
+
+    const result = await RoleModel.applyPermissionChanges(changes, editor.user_id);
+    PermissionCacheService.invalidateAll();
+
+    logger.info(`Permission matrix updated for parish: ${parishId}`, {
+      updatedBy: editor.user_id,
+      changes: changes.length,
+      ...result,
+    });
+
+    return {
+      ...result,
+      matrix: await this.getMatrix(parishId, editor),
+    };
+  }
+
+  /**
+   * System roles are never edited; roles shared by every parish only by super admins
+   */
+  public static canEditRole(role: IRole, editor: ITokenPayload): boolean {
+    if (role.is_system_role) {
+      return false;
+    }
+
+    return Boolean(role.parish_id) || editor.user_type === UserType.SUPER_ADMIN;
+  }
+}
+
+export default PermissionMatrixService;
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { UserModel } from '../models/User';
+import { ParishionerModel } from '../models/Parishioner';
+import { ParishModel } from '../models/Parish';
+import { ApiError } from '../utils/apiError';
+import { IParishioner, IUser } from '../types';
+import {
+  USER_PROFILE_FIELDS,
+  PARISHIONER_PROFILE_FIELDS,
+  LOCKABLE_PROFILE_FIELDS,
+  ProfileField,
+  AVATAR_DIRECTORY,
+  AVATAR_URL_PREFIX,
+} from '../constants/profile';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface ISelfProfile {
+  user: Omit<IUser, 'password_hash'>;
+  parishioner: IParishioner | null;
+  locked_fields: ProfileField[];
+}
+
+/**
+ * Profile Service
+ * Self-service profile edits, limited to the fields the user's parish has not locked
+ */
+export class ProfileService {
+  /**
+   * Parse the locked fields of a parish (stored as a comma-separated list)
+   */
+  public static async getLockedFields(parishId: number | null): Promise<ProfileField[]> {
+    if (!parishId) {
+      return [];
+    }
+
+    const parish = await ParishModel.findById(parishId);
+    if (!parish?.locked_profile_fields) {
+      return [];
+    }
+
+    return parish.locked_profile_fields
+      .split(',')
+      .map((field) => field.trim())
+      .filter((field): field is ProfileField => (LOCKABLE_PROFILE_FIELDS as readonly string[]).includes(field));
+  }
+
+  /**
+   * Update the signed-in user's own profile
+   */
+  public static async updateProfile(
+    userId: number,
+    updates: Partial<Record<ProfileField, string | null>>
+  ): Promise<ISelfProfile> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    const parishioner = await ParishionerModel.findByUserId(userId);
+    const lockedFields = await this.getLockedFields(
+      parishioner ? parishioner.parish_id : await UserModel.findParishId(userId)
+    );
+    this.assertEditable(Object.keys(updates) as ProfileField[], lockedFields);
+
+    const userUpdates = this.pick(updates, USER_PROFILE_FIELDS);
+    const parishionerUpdates = this.pick(updates, PARISHIONER_PROFILE_FIELDS);
+
+    if (Object.keys(parishionerUpdates).length > 0 && !parishioner) {
+      throw ApiError.badRequest('Address and emergency contact can only be set on a parishioner profile');
+    }
+
+    const updatedUser = Object.keys(userUpdates).length > 0
+      ? await UserModel.update(userId, userUpdates as Partial<IUser>)
+      : user;
+
+    let updatedParishioner = parishioner;
+    if (parishioner) {
+      // Parishioner records keep a copy of the user's name and phone
+      const { first_name, last_name, phone } = userUpdates;
+      updatedParishioner = await ParishionerModel.update(parishioner.parishioner_id, {
+        ...parishionerUpdates,
+        first_name,
+        last_name,
+        phone,
+      } as Partial<IParishioner>);
+    }
+
+    logger.info(`Profile updated by user: ${user.email}`, { fields: Object.keys(updates) });
+
+    return this.toSelfProfile(updatedUser, updatedParishioner, lockedFields);
+  }
+
+  /**
+   * Store a new avatar and point users.profile_image_url / parishioners.photo_url at it
+   */
+  public static async updateAvatar(userId: number, file: Express.Multer.File): Promise<ISelfProfile> {
+    try {
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw ApiError.notFound('User not found');
+      }
+
+      const parishioner = await ParishionerModel.findByUserId(userId);
+      const lockedFields = await this.getLockedFields(
+        parishioner ? parishioner.parish_id : await UserModel.findParishId(userId)
+      );
+      this.assertEditable(['profile_image_url'], lockedFields);
+
+      const imageUrl = `${config.upload.publicUrl}${AVATAR_URL_PREFIX}/${file.filename}`;
+
+      const updatedUser = await UserModel.update(userId, { profile_image_url: imageUrl });
+      const updatedParishioner = parishioner
+        ? await ParishionerModel.update(parishioner.parishioner_id, { photo_url: imageUrl })
+        : null;
+
+      this.removeStoredAvatar(user.profile_image_url);
+
+      return this.toSelfProfile(updatedUser, updatedParishioner, lockedFields);
+    } catch (error) {
+      // Don't keep files for rejected uploads
+      fs.promises.unlink(file.path).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private static assertEditable(fields: ProfileField[], lockedFields: ProfileField[]): void {
+    const blocked = fields.filter((field) => lockedFields.includes(field));
+    if (blocked.length > 0) {
+      throw ApiError.forbidden(
+        `The following fields can only be changed by a parish administrator: ${blocked.join(', ')}`
+      );
+    }
+  }
+
+  private static pick<K extends ProfileField>(
+    updates: Partial<Record<ProfileField, string | null>>,
+    fields: readonly K[]
+  ): Partial<Record<K, string | null>> {
+    const picked: Partial<Record<K, string | null>> = {};
+    fields.forEach((field) => {
+      if (updates[field] !== undefined) {
+        picked[field] = updates[field];
+      }
+    });
+    return picked;
+  }
+
+  /**
+   * Delete the previous avatar if it was uploaded here (external URLs are left alone)
+   */
+  public static removeStoredAvatar(imageUrl?: string): void {
+    const prefix = `${config.upload.publicUrl}${AVATAR_URL_PREFIX}/`;
+    if (!imageUrl || !imageUrl.startsWith(prefix)) {
+      return;
+    }
+
+    const fileName = path.basename(imageUrl.slice(prefix.length));
+    const filePath = path.join(config.upload.uploadPath, AVATAR_DIRECTORY, fileName);
+
+    fs.promises.unlink(filePath).catch((error) => {
+      logger.warn('Failed to delete previous avatar', { filePath, error: error.message });
+    });
+  }
+
+  private static toSelfProfile(
+    user: IUser,
+    parishioner: IParishioner | null,
+    lockedFields: ProfileField[]
+  ): ISelfProfile {
+    // Remove sensitive data
+    const userProfile: Partial<IUser> = { ...user };
+    delete userProfile.password_hash;
+
+    return {
+      user: userProfile as Omit<IUser, 'password_hash'>,
+      parishioner,
+      locked_fields: lockedFields,
+    };
+  }
+}
+
+export default ProfileService;
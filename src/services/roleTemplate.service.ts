@@ -0,0 +1,229 @@
+import { RoleModel, PermissionModel, IRole, IPermission } from '../models/Role';
+import {
+  RoleTemplateModel,
+  IRoleTemplate,
+  IRoleTemplateInput,
+  ITemplateSyncResult,
+} from '../models/RoleTemplate';
+import { ParishModel } from '../models/Parish';
+import { PermissionCacheService } from './permissionCache.service';
+import { ApiError } from '../utils/apiError';
+import { ITokenPayload, UserType } from '../types';
+import logger from '../utils/logger';
+
+export interface IRoleTemplateDetails extends IRoleTemplate {
+  permissions: IPermission[];
+  derived_roles: IRole[];
+}
+
+export interface IRoleNaming {
+  role_name?: string;
+  role_code?: string;
+}
+
+/**
+ * Role Template Service
+ * Super admins define role templates once; parishes create their own roles from them
+ * or clone existing roles. Syncing a template pushes its permission set to every derived role.
+ */
+export class RoleTemplateService {
+  /**
+   * Get a template with its permissions and derived roles
+   */
+  public static async getTemplate(templateId: number): Promise<IRoleTemplateDetails> {
+    const template = await this.findTemplate(templateId);
+
+    const [permissions, derivedRoles] = await Promise.all([
+      RoleTemplateModel.getPermissions(templateId),
+      RoleTemplateModel.getDerivedRoles(templateId),
+    ]);
+
+    return {
+      ...template,
+      permissions,
+      derived_roles: derivedRoles,
+    };
+  }
+
+  /**
+   * Create a template (Super Admin only)
+   */
+  public static async createTemplate(
+    data: IRoleTemplateInput,
+    permissionIds: number[],
+    admin: ITokenPayload
+  ): Promise<IRoleTemplateDetails> {
+    if (data.template_code && (await RoleTemplateModel.findByCode(data.template_code))) {
+      throw ApiError.conflict('A role template with this code already exists');
+    }
+
+    await this.assertPermissionsExist(permissionIds);
+
+    const template = await RoleTemplateModel.create({ ...data, created_by: admin.user_id }, permissionIds);
+
+    logger.info(`Role template created: ${template.template_code}`, { createdBy: admin.user_id });
+
+    return this.getTemplate(template.template_id);
+  }
+
+  /**
+   * Update a template, optionally pushing its permissions to the derived roles (Super Admin only)
+   */
+  public static async updateTemplate(
+    templateId: number,
+    data: IRoleTemplateInput,
+    permissionIds: number[] | undefined,
+    sync: boolean,
+    admin: ITokenPayload
+  ): Promise<{ template: IRoleTemplateDetails; sync: ITemplateSyncResult | null }> {
+    await this.findTemplate(templateId);
+
+    if (permissionIds) {
+      await this.assertPermissionsExist(permissionIds);
+    }
+
+    await RoleTemplateModel.update(templateId, data, permissionIds);
+
+    logger.info(`Role template updated: ${templateId}`, { updatedBy: admin.user_id });
+
+    return {
+      sync: sync ? await this.syncTemplate(templateId, admin) : null,
+      template: await this.getTemplate(templateId),
+    };
+  }
+
+  /**
+   * Deactivate a template. Derived roles stay, but can no longer be synced.
+   */
+  public static async deleteTemplate(templateId: number, admin: ITokenPayload): Promise<void> {
+    await this.findTemplate(templateId);
+    await RoleTemplateModel.deactivate(templateId);
+
+    logger.info(`Role template deactivated: ${templateId}`, { deactivatedBy: admin.user_id });
+  }
+
+  /**
+   * Make every derived role's permissions match the template
+   */
+  public static async syncTemplate(templateId: number, admin: ITokenPayload): Promise<ITemplateSyncResult> {
+    const template = await this.findTemplate(templateId);
+    if (!template.is_active) {
+      throw ApiError.badRequest('Cannot sync an inactive role template');
+    }
+
+    const result = await RoleTemplateModel.syncDerivedRoles(templateId, admin.user_id);
+    PermissionCacheService.invalidateAll();
+
+    logger.info(`Role template synced: ${template.template_code}`, { syncedBy: admin.user_id, ...result });
+
+    return result;
+  }
+
+  /**
+   * Create a parish role from a template
+   */
+  public static async instantiate(
+    templateId: number,
+    parishId: number,
+    naming: IRoleNaming,
+    user: ITokenPayload
+  ): Promise<IRole> {
+    const template = await this.findTemplate(templateId);
+    if (!template.is_active) {
+      throw ApiError.badRequest('This role template is no longer available');
+    }
+
+    const roleCode = naming.role_code || template.template_code;
+    await this.assertRoleCodeAvailable(parishId, roleCode);
+
+    const role = await RoleTemplateModel.instantiate(template, {
+      parish_id: parishId,
+      role_name: naming.role_name || template.template_name,
+      role_code: roleCode,
+      created_by: user.user_id,
+    });
+
+    logger.info(`Role created from template: ${template.template_code}`, {
+      roleId: role.role_id,
+      parishId,
+      createdBy: user.user_id,
+    });
+
+    return role;
+  }
+
+  /**
+   * Copy a role and its permissions into a parish.
+   * Church admins may clone shared roles and roles of the target parish only.
+   */
+  public static async cloneRole(
+    roleId: number,
+    parishId: number,
+    naming: IRoleNaming,
+    user: ITokenPayload
+  ): Promise<IRole> {
+    const source = await RoleModel.getRoleById(roleId);
+    if (!source || !source.is_active) {
+      throw ApiError.notFound('Role not found');
+    }
+
+    if (
+      source.parish_id &&
+      Number(source.parish_id) !== parishId &&
+      user.user_type !== UserType.SUPER_ADMIN
+    ) {
+      throw ApiError.forbidden('You can only clone shared roles or roles of your own parish');
+    }
+
+    const roleCode = naming.role_code || source.role_code;
+    await this.assertRoleCodeAvailable(parishId, roleCode);
+
+    const role = await RoleModel.cloneRole(
+      source,
+      parishId,
+      naming.role_name || source.role_name,
+      roleCode,
+      user.user_id
+    );
+
+    logger.info(`Role cloned: ${source.role_code}`, {
+      sourceRoleId: roleId,
+      roleId: role.role_id,
+      parishId,
+      createdBy: user.user_id,
+    });
+
+    return role;
+  }
+
+  private static async findTemplate(templateId: number): Promise<IRoleTemplate> {
+    const template = await RoleTemplateModel.findById(templateId);
+    if (!template) {
+      throw ApiError.notFound('Role template not found');
+    }
+
+    return template;
+  }
+
+  private static async assertPermissionsExist(permissionIds: number[]): Promise<void> {
+    const permissions = await PermissionModel.getAllPermissions();
+    const known = new Set(permissions.map((permission) => Number(permission.permission_id)));
+
+    const unknown = permissionIds.filter((permissionId) => !known.has(permissionId));
+    if (unknown.length > 0) {
+      throw ApiError.badRequest(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+  }
+
+  private static async assertRoleCodeAvailable(parishId: number, roleCode: string): Promise<void> {
+    if (!(await ParishModel.findById(parishId))) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    if (await RoleModel.getRoleByCode(roleCode, parishId)) {
+      throw ApiError.conflict(`A role with code ${roleCode} already exists in this parish`);
+    }
+  }
+}
+
+export default RoleTemplateService;
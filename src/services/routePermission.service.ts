@@ -0,0 +1,193 @@
+import { Application, RequestHandler } from 'express';
+import { PERMISSIONS, ROUTE_PERMISSIONS, PermissionCode } from '../config/routePermissions';
+import { getGuardRouteKey } from '../middleware/routeGuard';
+import {
+  authenticate,
+  optionalAuth,
+  requireSuperAdmin,
+  requireChurchAdmin,
+  requireSameParish,
+  requireVerifiedEmail,
+} from '../middleware/auth';
+import { RoleModel, PermissionModel } from '../models/Role';
+import config from '../config';
+import logger from '../utils/logger';
+
+export type RouteGuardType = 'permission' | 'role' | 'authenticated' | 'public';
+
+export interface IRouteCoverage {
+  method: string;
+  path: string;
+  guard: RouteGuardType;
+  route_key?: string; // Registry key when guarded by permissionGuard
+  permissions: string[];
+  middleware: string[]; // Recognised auth middleware, in mount order
+}
+
+export interface IRouteCoverageReport {
+  summary: Record<RouteGuardType, number> & { total: number };
+  unguarded: IRouteCoverage[];
+  unmounted_route_keys: string[]; // Registry entries no route uses
+  routes: IRouteCoverage[];
+}
+
+// Minimal shape of Express 4 router internals walked by the coverage report
+interface IExpressLayer {
+  name: string;
+  handle: RequestHandler & { stack?: IExpressLayer[] };
+  regexp: RegExp & { fast_slash?: boolean };
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: IExpressLayer[];
+  };
+}
+
+const AUTH_MIDDLEWARE = new Map<RequestHandler, string>([
+  [authenticate as RequestHandler, 'authenticate'],
+  [optionalAuth as RequestHandler, 'optionalAuth'],
+  [requireSuperAdmin as RequestHandler, 'requireSuperAdmin'],
+  [requireChurchAdmin as RequestHandler, 'requireChurchAdmin'],
+  [requireSameParish as RequestHandler, 'requireSameParish'],
+  [requireVerifiedEmail as RequestHandler, 'requireVerifiedEmail'],
+]);
+
+const ROLE_MIDDLEWARE = new Set(['requireSuperAdmin', 'requireChurchAdmin', 'requireSameParish']);
+
+/**
+ * Route Permission Service
+ * Keeps the permissions table in line with the route registry (config/routePermissions)
+ * and reports which API routes are not protected by a permission check.
+ */
+export class RoutePermissionService {
+  /**
+   * Create the permissions the route registry uses but the database does not have yet.
+   * New permissions are granted to the Super Admin role, which holds every permission.
+   */
+  public static async seedMissingPermissions(): Promise<string[]> {
+    const existing = await PermissionModel.getAllPermissions();
+    const known = new Set(existing.map((permission) => permission.permission_code));
+
+    const missing = (Object.keys(PERMISSIONS) as PermissionCode[]).filter((code) => !known.has(code));
+    if (missing.length === 0) {
+      return [];
+    }
+
+    const superAdminRole = await RoleModel.getRoleByCode('SUPER_ADMIN');
+
+    for (const code of missing) {
+      const permission = await PermissionModel.createPermission({ ...PERMISSIONS[code], permission_code: code });
+
+      if (superAdminRole) {
+        await RoleModel.assignPermissionToRole(superAdminRole.role_id, permission.permission_id);
+      }
+    }
+
+    logger.info(`Seeded ${missing.length} missing permissions: ${missing.join(', ')}`);
+
+    return missing;
+  }
+
+  /**
+   * List every API route with what protects it
+   */
+  public static getCoverageReport(app: Application): IRouteCoverageReport {
+    const appRouter = (app as unknown as { _router?: { stack: IExpressLayer[] } })._router;
+    const apiPrefix = `/api/${config.apiVersion}`;
+
+    const routes = this.collectRoutes(appRouter ? appRouter.stack : [], '', [])
+      .filter((route) => route.path.startsWith(apiPrefix))
+      .map((route) => ({ ...route, path: route.path.slice(apiPrefix.length) || '/' }));
+
+    const mountedKeys = new Set(routes.map((route) => route.route_key));
+
+    const summary = { total: routes.length, permission: 0, role: 0, authenticated: 0, public: 0 };
+    for (const route of routes) {
+      summary[route.guard]++;
+    }
+
+    return {
+      summary,
+      unguarded: routes.filter((route) => route.guard !== 'permission'),
+      unmounted_route_keys: Object.keys(ROUTE_PERMISSIONS).filter((key) => !mountedKeys.has(key)),
+      routes,
+    };
+  }
+
+  /**
+   * Walk a router stack. Middleware mounted with router.use() applies to the routes after it.
+   */
+  private static collectRoutes(
+    stack: IExpressLayer[],
+    prefix: string,
+    inherited: RequestHandler[]
+  ): IRouteCoverage[] {
+    const routes: IRouteCoverage[] = [];
+    const middleware = [...inherited];
+
+    for (const layer of stack) {
+      if (layer.route) {
+        const handlers = [...middleware, ...layer.route.stack.map((routeLayer) => routeLayer.handle)];
+        const path = `${prefix}${layer.route.path}`.replace(/\/$/, '') || '/';
+
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push(this.describeRoute(method.toUpperCase(), path, handlers));
+        }
+      } else if (layer.name === 'router' && layer.handle.stack) {
+        routes.push(...this.collectRoutes(layer.handle.stack, `${prefix}${this.mountPath(layer)}`, middleware));
+      } else if (layer.regexp.fast_slash) {
+        middleware.push(layer.handle);
+      }
+    }
+
+    return routes;
+  }
+
+  private static describeRoute(method: string, path: string, handlers: RequestHandler[]): IRouteCoverage {
+    const names: string[] = [];
+    const permissions: string[] = [];
+    let routeKey: string | undefined;
+
+    for (const handler of handlers) {
+      const guardKey = getGuardRouteKey(handler);
+      if (guardKey) {
+        routeKey = guardKey;
+        permissions.push(...ROUTE_PERMISSIONS[guardKey].permissions);
+        names.push('permissionGuard');
+        continue;
+      }
+
+      const name = AUTH_MIDDLEWARE.get(handler);
+      if (name) {
+        names.push(name);
+      }
+    }
+
+    let guard: RouteGuardType = 'public';
+    if (routeKey) {
+      guard = 'permission';
+    } else if (names.some((name) => ROLE_MIDDLEWARE.has(name))) {
+      guard = 'role';
+    } else if (names.includes('authenticate')) {
+      guard = 'authenticated';
+    }
+
+    return { method, path, guard, route_key: routeKey, permissions, middleware: names };
+  }
+
+  /**
+   * Mount path of a router layer, rebuilt from the regexp Express compiled it to (e.g. /^\/roles\/?(?=\/|$)/i)
+   */
+  private static mountPath(layer: IExpressLayer): string {
+    if (layer.regexp.fast_slash) {
+      return '';
+    }
+
+    return layer.regexp.source
+      .replace(/^\^/, '')
+      .replace('\\/?(?=\\/|$)', '')
+      .replace(/\\\//g, '/');
+  }
+}
+
+export default RoutePermissionService;
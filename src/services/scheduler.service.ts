@@ -1,5 +1,11 @@
 import cron from 'node-cron';
 import { PrayerRequestModel } from '../models/PrayerRequest';
+import { UserSessionModel } from '../models/UserSession';
+import { LoginAttemptModel } from '../models/LoginAttempt';
+import { AssignmentExpiryService } from './assignmentExpiry.service';
+import { PermissionDelegationService } from './permissionDelegation.service';
+import { ParishDeletionService } from './parishDeletion.service';
+import { SubscriptionService } from './subscription.service';
 import logger from '../utils/logger';
 
 /**
@@ -16,12 +22,27 @@ export class SchedulerService {
     // Auto-archive old prayer requests
     this.scheduleAutoArchivePrayerRequests();
 
+    // Remove expired/revoked user sessions
+    this.scheduleUserSessionCleanup();
+    this.scheduleLoginAttemptCleanup();
+
+    // Deactivate expired role/permission/ward role assignments and send expiry reminders
+    this.scheduleAssignmentExpiry();
+    this.scheduleDelegationExpiry();
+
+    // Purge parishes whose deletion grace period has ended
+    this.schedulePurgeDeletedParishes();
+
+    // Remind primary admins to renew expiring subscriptions
+    this.scheduleSubscriptionRenewalReminders();
+
     logger.info('All scheduled jobs initialized successfully');
   }
 
   /**
    * Schedule auto-archive job for prayer requests
-   * Runs daily at 2:00 AM to archive prayer requests older than 10 days
+   * Runs daily at 2:00 AM to archive prayer requests older than each parish's prayer_request_archive_days
+   * setting (default 10)
    */
   private static scheduleAutoArchivePrayerRequests(): void {
     // Run every day at 2:00 AM
@@ -29,7 +50,7 @@ export class SchedulerService {
       try {
         logger.info('Running auto-archive job for prayer requests...');
 
-        const archivedCount = await PrayerRequestModel.autoArchiveOldRequests(10);
+        const archivedCount = await PrayerRequestModel.autoArchiveOldRequests();
 
         logger.info(`Auto-archive job completed: ${archivedCount} prayer requests archived`);
       } catch (error) {
@@ -40,13 +61,147 @@ export class SchedulerService {
     logger.info('Auto-archive prayer requests job scheduled (runs daily at 2:00 AM)');
   }
 
+  /**
+   * Schedule cleanup job for user sessions
+   * Runs daily at 3:00 AM to delete sessions expired or revoked more than 30 days ago
+   */
+  private static scheduleUserSessionCleanup(): void {
+    // Run every day at 3:00 AM
+    cron.schedule('0 3 * * *', async () => {
+      try {
+        logger.info('Running cleanup job for user sessions...');
+
+        const deletedCount = await UserSessionModel.cleanupExpired();
+
+        logger.info(`User session cleanup completed: ${deletedCount} sessions deleted`);
+      } catch (error) {
+        logger.error('Error in user session cleanup job:', error);
+      }
+    });
+
+    logger.info('User session cleanup job scheduled (runs daily at 3:00 AM)');
+  }
+
+  /**
+   * Schedule cleanup job for login attempt history
+   * Runs daily at 3:30 AM to delete attempts older than 90 days
+   */
+  private static scheduleLoginAttemptCleanup(): void {
+    // Run every day at 3:30 AM
+    cron.schedule('30 3 * * *', async () => {
+      try {
+        logger.info('Running cleanup job for login attempts...');
+
+        const deletedCount = await LoginAttemptModel.cleanupOld(90);
+
+        logger.info(`Login attempt cleanup completed: ${deletedCount} attempts deleted`);
+      } catch (error) {
+        logger.error('Error in login attempt cleanup job:', error);
+      }
+    });
+
+    logger.info('Login attempt cleanup job scheduled (runs daily at 3:30 AM)');
+  }
+
+  /**
+   * Schedule expiry job for role, permission and ward role assignments
+   * Runs daily at 1:00 AM to deactivate expired assignments and remind holders and parish admins
+   * of assignments expiring within 7 days
+   */
+  private static scheduleAssignmentExpiry(): void {
+    // Run every day at 1:00 AM
+    cron.schedule('0 1 * * *', async () => {
+      try {
+        logger.info('Running expiry job for role assignments...');
+
+        const expiredCount = await AssignmentExpiryService.deactivateExpired();
+        const reminders = await AssignmentExpiryService.sendExpiryReminders(7);
+
+        logger.info(
+          `Assignment expiry job completed: ${expiredCount} assignments deactivated, ` +
+            `${reminders.assignments} expiring soon (${reminders.emails} reminder emails sent)`
+        );
+      } catch (error) {
+        logger.error('Error in assignment expiry job:', error);
+      }
+    });
+
+    logger.info('Assignment expiry job scheduled (runs daily at 1:00 AM)');
+  }
+
+  /**
+   * Schedule expiry job for permission delegations
+   * Runs every hour so delegations end close to their end date
+   */
+  private static scheduleDelegationExpiry(): void {
+    // Run at the start of every hour
+    cron.schedule('0 * * * *', async () => {
+      try {
+        const expiredCount = await PermissionDelegationService.expireEnded();
+
+        if (expiredCount > 0) {
+          logger.info(`Delegation expiry job completed: ${expiredCount} delegates lost their delegated permissions`);
+        }
+      } catch (error) {
+        logger.error('Error in delegation expiry job:', error);
+      }
+    });
+
+    logger.info('Delegation expiry job scheduled (runs hourly)');
+  }
+
+  /**
+   * Schedule purge job for parishes pending deletion
+   * Runs daily at 4:00 AM to permanently delete parishes whose grace period has ended
+   */
+  private static schedulePurgeDeletedParishes(): void {
+    // Run every day at 4:00 AM
+    cron.schedule('0 4 * * *', async () => {
+      try {
+        logger.info('Running purge job for deleted parishes...');
+
+        const purgedCount = await ParishDeletionService.purgeDue();
+
+        logger.info(`Parish purge job completed: ${purgedCount} parishes purged`);
+      } catch (error) {
+        logger.error('Error in parish purge job:', error);
+      }
+    });
+
+    logger.info('Parish purge job scheduled (runs daily at 4:00 AM)');
+  }
+
+  /**
+   * Schedule renewal reminder job for parish subscriptions
+   * Runs daily at 8:00 AM to email primary admins on each reminder day before expiry and once it expires
+   */
+  private static scheduleSubscriptionRenewalReminders(): void {
+    // Run every day at 8:00 AM
+    cron.schedule('0 8 * * *', async () => {
+      try {
+        logger.info('Running renewal reminder job for subscriptions...');
+
+        const reminders = await SubscriptionService.sendRenewalReminders();
+
+        logger.info(
+          `Subscription renewal reminder job completed: ${reminders.parishes} parishes due ` +
+            `(${reminders.emails} reminder emails sent)`
+        );
+      } catch (error) {
+        logger.error('Error in subscription renewal reminder job:', error);
+      }
+    });
+
+    logger.info('Subscription renewal reminder job scheduled (runs daily at 8:00 AM)');
+  }
+
   /**
    * Manual trigger for auto-archive (useful for testing)
-   * @param daysOld - Number of days old for archiving (default: 10)
+   * @param daysOld - Number of days old for archiving (default: each parish's setting)
    */
-  public static async manualArchivePrayerRequests(daysOld: number = 10): Promise<number> {
+  public static async manualArchivePrayerRequests(daysOld?: number): Promise<number> {
     try {
-      logger.info(`Manually triggering auto-archive for prayer requests older than ${daysOld} days...`);
+      logger.info(`Manually triggering auto-archive for prayer requests older than ${daysOld ?? 'the parish setting of'} days...`);
 
       const archivedCount = await PrayerRequestModel.autoArchiveOldRequests(daysOld);
 
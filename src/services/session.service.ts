@@ -0,0 +1,188 @@
+import { Request } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { UserSessionModel, IUserSession } from '../models/UserSession';
+import { UserModel } from '../models/User';
+import { ParishDeletionService } from './parishDeletion.service';
+import { SubscriptionService } from './subscription.service';
+import { JwtUtil, IGeneratedToken } from '../utils/jwt';
+import { ApiError } from '../utils/apiError';
+import { IUser, ITokenPayload } from '../types';
+import logger from '../utils/logger';
+
+export interface ISessionTokens extends IGeneratedToken {
+  refresh_token: string;
+  refresh_expires_at: string; // ISO timestamp
+  session_id: string;
+}
+
+export interface ISessionContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+/**
+ * Session Service
+ * Issues short-lived access tokens backed by server-side sessions with
+ * rotating refresh tokens, so any device can be signed out at any time.
+ */
+export class SessionService {
+  /**
+   * Extract client details stored against a session
+   */
+  public static getRequestContext(req: Request): ISessionContext {
+    return {
+      ip_address: req.ip,
+      user_agent: req.get('user-agent')?.substring(0, 500),
+    };
+  }
+
+  /**
+   * Build the access token payload for a user. user_id is a BIGINT, which the driver returns
+   * as a string, so it is stored as a number for later comparisons with route and record IDs.
+   */
+  public static buildTokenPayload(user: IUser): ITokenPayload {
+    return {
+      user_id: Number(user.user_id),
+      email: user.email,
+      user_type: user.user_type,
+    };
+  }
+
+  /**
+   * Start a new session and issue its first access/refresh token pair
+   */
+  public static async createSession(
+    payload: ITokenPayload,
+    context: ISessionContext = {}
+  ): Promise<ISessionTokens> {
+    // Members of a parish pending deletion cannot sign in until it is restored
+    await ParishDeletionService.assertUserParishAvailable(payload.user_id);
+    // ...nor once their parish's subscription has been suspended
+    await SubscriptionService.assertSignInAllowed(payload.user_id);
+
+    const sessionId = uuidv4();
+    const refreshToken = JwtUtil.generateRefreshToken();
+
+    await UserSessionModel.create({
+      session_id: sessionId,
+      user_id: payload.user_id,
+      refresh_token_hash: refreshToken.token_hash,
+      expires_in_seconds: refreshToken.expires_in,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+    });
+
+    const accessToken = JwtUtil.generateAccessToken({ ...payload, session_id: sessionId });
+
+    return {
+      ...accessToken,
+      refresh_token: refreshToken.token,
+      refresh_expires_at: refreshToken.expires_at,
+      session_id: sessionId,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (refresh token rotation).
+   * Replaying an already-rotated refresh token revokes the whole session.
+   */
+  public static async refreshSession(
+    refreshToken: string
+  ): Promise<{ tokens: ISessionTokens; user: IUser }> {
+    const tokenHash = JwtUtil.hashRefreshToken(refreshToken);
+
+    const session = await UserSessionModel.findByRefreshTokenHash(tokenHash);
+    if (!session) {
+      const replayed = await UserSessionModel.findByPreviousTokenHash(tokenHash);
+      if (replayed) {
+        await UserSessionModel.revoke(replayed.session_id, 'refresh_token_reuse');
+        logger.warn('Refresh token reuse detected, session revoked', {
+          sessionId: replayed.session_id,
+          userId: replayed.user_id,
+        });
+      }
+      throw ApiError.unauthorized('Invalid or expired refresh token');
+    }
+
+    if (session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      throw ApiError.unauthorized('Invalid or expired refresh token');
+    }
+
+    const user = await UserModel.findById(session.user_id);
+    if (!user || !user.is_active) {
+      await UserSessionModel.revoke(session.session_id, 'account_disabled');
+      throw ApiError.unauthorized('Account is disabled');
+    }
+
+    const nextRefreshToken = JwtUtil.generateRefreshToken();
+    const rotated = await UserSessionModel.rotate(
+      session.session_id,
+      tokenHash,
+      nextRefreshToken.token_hash,
+      nextRefreshToken.expires_in
+    );
+
+    // Another request rotated the token first
+    if (!rotated) {
+      throw ApiError.unauthorized('Invalid or expired refresh token');
+    }
+
+    const accessToken = JwtUtil.generateAccessToken({
+      ...this.buildTokenPayload(user),
+      session_id: session.session_id,
+    });
+
+    return {
+      tokens: {
+        ...accessToken,
+        refresh_token: nextRefreshToken.token,
+        refresh_expires_at: nextRefreshToken.expires_at,
+        session_id: session.session_id,
+      },
+      user,
+    };
+  }
+
+  /**
+   * Check whether the session behind an access token is still valid
+   */
+  public static async isSessionActive(sessionId: string): Promise<boolean> {
+    return UserSessionModel.isActive(sessionId);
+  }
+
+  /**
+   * List a user's active sessions (devices)
+   */
+  public static async getActiveSessions(userId: number): Promise<IUserSession[]> {
+    return UserSessionModel.getActiveByUser(userId);
+  }
+
+  /**
+   * Revoke a single session belonging to a user
+   */
+  public static async revokeSession(userId: number, sessionId: string, reason: string): Promise<void> {
+    const session = await UserSessionModel.findById(sessionId);
+    if (!session || Number(session.user_id) !== Number(userId)) {
+      throw ApiError.notFound('Session not found');
+    }
+
+    await UserSessionModel.revoke(sessionId, reason);
+  }
+
+  /**
+   * Revoke every session of a user ("sign out of all devices")
+   */
+  public static async revokeAllSessions(
+    userId: number,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const revokedCount = await UserSessionModel.revokeAllForUser(userId, reason, exceptSessionId);
+
+    logger.info('User sessions revoked', { userId, reason, revokedCount });
+
+    return revokedCount;
+  }
+}
+
+export default SessionService;
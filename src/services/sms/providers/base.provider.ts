@@ -0,0 +1,58 @@
+/**
+ * Base SMS Provider Interface
+ *
+ * This interface defines the contract that all SMS providers must implement.
+ * Supports a development console/file provider, a generic HTTP gateway, or any custom SMS service.
+ */
+
+export interface SmsPayload {
+  to: string;
+  message: string;
+  from?: string;
+}
+
+export interface SmsResult {
+  success: boolean;
+  messageId?: string;
+  provider: string;
+  error?: string;
+  response?: any;
+  timestamp: Date;
+}
+
+export interface SmsProviderConfig {
+  provider: 'console' | 'http';
+  senderId: string;
+
+  // Console specific (development only)
+  console?: {
+    outboxPath?: string; // Append messages to this file in addition to the log
+  };
+
+  // HTTP gateway specific
+  http?: {
+    url: string;
+    apiKey: string;
+    timeoutMs: number;
+  };
+}
+
+/**
+ * Base interface that all SMS providers must implement
+ */
+export interface ISmsProvider {
+  /**
+   * Send a single SMS
+   */
+  send(sms: SmsPayload): Promise<SmsResult>;
+
+  /**
+   * Verify that the provider is configured correctly
+   */
+  verifyConfiguration(): Promise<boolean>;
+
+  /**
+   * Get the provider name
+   */
+  getProviderName(): string;
+}
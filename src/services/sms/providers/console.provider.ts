@@ -0,0 +1,83 @@
+/**
+ * Console SMS Provider
+ *
+ * Development provider that writes messages to the application log
+ * (and optionally to an outbox file) instead of sending them.
+ * Never use in production - message contents include OTP codes.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ISmsProvider, SmsPayload, SmsResult, SmsProviderConfig } from './base.provider';
+import logger from '../../../utils/logger';
+
+export class ConsoleSmsProvider implements ISmsProvider {
+  private config: SmsProviderConfig;
+
+  constructor(config: SmsProviderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * "Send" an SMS by logging it
+   */
+  async send(sms: SmsPayload): Promise<SmsResult> {
+    const messageId = uuidv4();
+    const from = sms.from || this.config.senderId;
+
+    logger.info('SMS (console provider)', {
+      messageId,
+      from,
+      to: sms.to,
+      message: sms.message,
+    });
+
+    const outboxPath = this.config.console?.outboxPath;
+    if (outboxPath) {
+      try {
+        await fs.promises.mkdir(path.dirname(outboxPath), { recursive: true });
+        await fs.promises.appendFile(
+          outboxPath,
+          `[${new Date().toISOString()}] ${messageId} ${from} -> ${sms.to}: ${sms.message}\n`
+        );
+      } catch (error: any) {
+        logger.error('Failed to write SMS to outbox file', {
+          outboxPath,
+          error: error.message,
+        });
+
+        return {
+          success: false,
+          provider: 'console',
+          error: error.message,
+          timestamp: new Date(),
+        };
+      }
+    }
+
+    return {
+      success: true,
+      messageId,
+      provider: 'console',
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Nothing to verify for the console provider
+   */
+  async verifyConfiguration(): Promise<boolean> {
+    if (process.env.NODE_ENV === 'production') {
+      logger.warn('Console SMS provider is in use in production - SMS messages are not delivered');
+    }
+    return true;
+  }
+
+  /**
+   * Get provider name
+   */
+  getProviderName(): string {
+    return 'console';
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * HTTP SMS Provider
+ *
+ * Generic provider for SMS gateways with a JSON HTTP API.
+ * Posts { to, from, message } with a bearer API key - adapt the request
+ * body and response mapping below to the gateway in use.
+ */
+
+import axios from 'axios';
+import { ISmsProvider, SmsPayload, SmsResult, SmsProviderConfig } from './base.provider';
+import logger from '../../../utils/logger';
+
+export class HttpSmsProvider implements ISmsProvider {
+  private config: SmsProviderConfig;
+  private gateway: NonNullable<SmsProviderConfig['http']>;
+
+  constructor(config: SmsProviderConfig) {
+    if (!config.http?.url) {
+      throw new Error('SMS_HTTP_URL is required for HttpSmsProvider');
+    }
+
+    this.config = config;
+    this.gateway = config.http;
+  }
+
+  /**
+   * Send a single SMS via the HTTP gateway
+   */
+  async send(sms: SmsPayload): Promise<SmsResult> {
+    const { url, apiKey, timeoutMs } = this.gateway;
+
+    try {
+      const response = await axios.post(
+        url,
+        {
+          to: sms.to,
+          from: sms.from || this.config.senderId,
+          message: sms.message,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: timeoutMs,
+        }
+      );
+
+      // Gateways differ here - map the message id from the response as needed
+      const messageId = response.data?.message_id || response.data?.id;
+
+      logger.info('SMS sent successfully via HTTP gateway', {
+        messageId,
+        to: sms.to,
+      });
+
+      return {
+        success: true,
+        messageId,
+        provider: 'http',
+        response: response.data,
+        timestamp: new Date(),
+      };
+    } catch (error: any) {
+      logger.error('Failed to send SMS via HTTP gateway', {
+        error: error.message,
+        status: error.response?.status,
+        to: sms.to,
+      });
+
+      return {
+        success: false,
+        provider: 'http',
+        error: error.message,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Verify HTTP gateway configuration
+   */
+  async verifyConfiguration(): Promise<boolean> {
+    if (!this.gateway.apiKey) {
+      logger.error('SMS HTTP gateway API key is not configured');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get provider name
+   */
+  getProviderName(): string {
+    return 'http';
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * SMS Service
+ *
+ * Sends text messages (OTP codes) through a pluggable provider:
+ * - console: logs messages / writes them to an outbox file (development)
+ * - http: generic JSON HTTP gateway
+ *
+ * This is a singleton service - use SmsService.getInstance()
+ */
+
+import { ISmsProvider, SmsResult, SmsProviderConfig } from './providers/base.provider';
+import { ConsoleSmsProvider } from './providers/console.provider';
+import { HttpSmsProvider } from './providers/http.provider';
+import logger from '../../utils/logger';
+
+export class SmsService {
+  private static instance: SmsService;
+  private provider: ISmsProvider;
+  private config: SmsProviderConfig;
+  private isInitialized: boolean = false;
+
+  private constructor() {
+    // Private constructor for singleton
+    this.config = this.loadConfiguration();
+    this.provider = this.initializeProvider();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): SmsService {
+    if (!SmsService.instance) {
+      SmsService.instance = new SmsService();
+    }
+    return SmsService.instance;
+  }
+
+  /**
+   * Load SMS configuration from environment variables
+   */
+  private loadConfiguration(): SmsProviderConfig {
+    const provider = (process.env.SMS_PROVIDER || 'console') as 'console' | 'http';
+
+    const config: SmsProviderConfig = {
+      provider,
+      senderId: process.env.SMS_SENDER_ID || 'ParishNexus',
+    };
+
+    if (provider === 'console') {
+      config.console = {
+        outboxPath: process.env.SMS_OUTBOX_PATH,
+      };
+    }
+
+    if (provider === 'http') {
+      config.http = {
+        url: process.env.SMS_HTTP_URL || '',
+        apiKey: process.env.SMS_HTTP_API_KEY || '',
+        timeoutMs: parseInt(process.env.SMS_HTTP_TIMEOUT_MS || '10000', 10),
+      };
+    }
+
+    return config;
+  }
+
+  /**
+   * Initialize the SMS provider based on configuration
+   */
+  private initializeProvider(): ISmsProvider {
+    switch (this.config.provider) {
+      case 'console':
+        return new ConsoleSmsProvider(this.config);
+      case 'http':
+        return new HttpSmsProvider(this.config);
+      default:
+        throw new Error(`Unsupported SMS provider: ${this.config.provider}`);
+    }
+  }
+
+  /**
+   * Initialize and verify SMS service
+   */
+  async initialize(): Promise<boolean> {
+    if (this.isInitialized) {
+      return true;
+    }
+
+    try {
+      logger.info('Initializing SMS service...');
+      const isValid = await this.provider.verifyConfiguration();
+
+      if (!isValid) {
+        logger.error('SMS service configuration is invalid');
+        return false;
+      }
+
+      this.isInitialized = true;
+      logger.info(`SMS service initialized successfully (provider: ${this.provider.getProviderName()})`);
+      return true;
+    } catch (error) {
+      logger.error('Failed to initialize SMS service', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Send a text message
+   */
+  async sendSms(to: string, message: string): Promise<SmsResult> {
+    return this.provider.send({ to, message });
+  }
+
+  /**
+   * Check if SMS service is ready
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  /**
+   * Get current provider name
+   */
+  getProviderName(): string {
+    return this.provider.getProviderName();
+  }
+}
+
+// Export singleton instance
+export const smsService = SmsService.getInstance();
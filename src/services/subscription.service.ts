@@ -0,0 +1,309 @@
+import { ParishModel, IParishSubscription } from '../models/Parish';
+import { ParishionerModel } from '../models/Parishioner';
+import { AudiobookModel } from '../models/Audiobook';
+import { ChurchAdminModel } from '../models/ChurchAdmin';
+import { LoginSecurityService } from './loginSecurity.service';
+import { ParishSettingsService } from './parishSettings.service';
+import { emailService } from './email/email.service';
+import {
+  DEFAULT_SUBSCRIPTION_PLAN,
+  IPlanQuotas,
+  PLAN_DEFINITIONS,
+  PLAN_FEATURES,
+  PlanFeature,
+  SUBSCRIPTION_PLANS,
+  SubscriptionPlan,
+} from '../constants/subscription';
+import { ApiError } from '../utils/apiError';
+import { ITokenPayload, UserType } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+// active: full access, read_only: expired but in the grace period, suspended: grace period over
+export type SubscriptionState = 'active' | 'read_only' | 'suspended';
+
+export interface ISubscriptionStatus {
+  parish_id: number;
+  plan: SubscriptionPlan;
+  expires_on: Date | null;
+  days_until_expiry: number | null;
+  state: SubscriptionState;
+  grace_days_remaining: number | null;
+  features: PlanFeature[];
+  quotas: IPlanQuotas;
+}
+
+export interface ISubscriptionOverview extends ISubscriptionStatus {
+  usage: {
+    parishioners: number;
+    audiobook_storage_mb: number;
+  };
+}
+
+export interface IRenewalReminderResult {
+  parishes: number;
+  emails: number;
+}
+
+// Routers members can still write to while their parish is read-only or suspended (sign out, privacy requests)
+const SUBSCRIPTION_EXEMPT_ROUTERS = ['/auth', '/otp', '/privacy'];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Subscription Service
+ * Enforces the plan stored on the parish (parishes.subscription_plan): feature gates, quotas and expiry.
+ * After subscription_expiry the parish is read-only for the grace period, then suspended until renewed.
+ * Super admins are never restricted.
+ */
+export class SubscriptionService {
+  /**
+   * Work out the plan and state of a parish's subscription
+   */
+  public static getStatus(subscription: IParishSubscription): ISubscriptionStatus {
+    const plan = this.resolvePlan(subscription.subscription_plan);
+    const daysUntilExpiry = subscription.days_until_expiry === null ? null : Number(subscription.days_until_expiry);
+    let state: SubscriptionState = 'active';
+    let graceDaysRemaining: number | null = null;
+
+    if (daysUntilExpiry !== null && daysUntilExpiry < 0) {
+      graceDaysRemaining = config.subscription.gracePeriodDays + daysUntilExpiry;
+      state = graceDaysRemaining >= 0 ? 'read_only' : 'suspended';
+      graceDaysRemaining = Math.max(graceDaysRemaining, 0);
+    }
+
+    return {
+      parish_id: Number(subscription.parish_id),
+      plan,
+      expires_on: subscription.subscription_expiry,
+      days_until_expiry: daysUntilExpiry,
+      state,
+      grace_days_remaining: graceDaysRemaining,
+      features: PLAN_DEFINITIONS[plan].features,
+      quotas: PLAN_DEFINITIONS[plan].quotas,
+    };
+  }
+
+  /**
+   * Get a parish's subscription with its current usage of the plan's quotas
+   */
+  public static async getOverview(parishId: number, user: ITokenPayload): Promise<ISubscriptionOverview> {
+    await LoginSecurityService.resolveScopeParishId(
+      user.user_id,
+      user.user_type === UserType.SUPER_ADMIN,
+      parishId
+    );
+
+    const subscription = await ParishModel.findSubscription(parishId);
+    if (!subscription) {
+      throw ApiError.notFound('Parish not found');
+    }
+
+    return {
+      ...this.getStatus(subscription),
+      usage: {
+        parishioners: await ParishionerModel.countByParishId(parishId),
+        audiobook_storage_mb: await AudiobookModel.getStorageUsedMb(parishId),
+      },
+    };
+  }
+
+  /**
+   * Reject requests of members of a read-only parish that change data, and all requests once suspended
+   * @param baseUrl - Mount path of the router handling the request (req.baseUrl)
+   */
+  public static async assertRequestAllowed(user: ITokenPayload, method: string, baseUrl: string): Promise<void> {
+    if (user.user_type === UserType.SUPER_ADMIN) {
+      return;
+    }
+
+    if (SUBSCRIPTION_EXEMPT_ROUTERS.some((router) => baseUrl.endsWith(router))) {
+      return;
+    }
+
+    const subscription = await ParishModel.findSubscriptionByUser(user.user_id);
+    if (!subscription) {
+      return;
+    }
+
+    const { state } = this.getStatus(subscription);
+    if (state === 'suspended') {
+      throw ApiError.forbidden('Your parish subscription has expired. Please contact your parish administrator');
+    }
+
+    if (state === 'read_only' && !READ_METHODS.includes(method.toUpperCase())) {
+      throw ApiError.forbidden('Your parish subscription has expired and the parish is read-only until it is renewed');
+    }
+  }
+
+  /**
+   * Reject sign-ins of members of a parish whose subscription is suspended
+   */
+  public static async assertSignInAllowed(userId: number): Promise<void> {
+    const subscription = await ParishModel.findSubscriptionByUser(userId);
+    if (subscription && this.getStatus(subscription).state === 'suspended') {
+      throw ApiError.forbidden('Your parish subscription has expired. Please contact your parish administrator');
+    }
+  }
+
+  /**
+   * Reject use of a feature the parish's plan does not include
+   */
+  public static async assertFeature(parishId: number, feature: PlanFeature): Promise<void> {
+    const subscription = await ParishModel.findSubscription(parishId);
+    if (!subscription) {
+      return;
+    }
+
+    const { plan, features } = this.getStatus(subscription);
+    if (!features.includes(feature)) {
+      throw ApiError.forbidden(`${PLAN_FEATURES[feature]} are not included in the ${plan} plan. Please upgrade the subscription`);
+    }
+  }
+
+  /**
+   * Reject adding parishioners beyond the plan's limit
+   */
+  public static async assertParishionerQuota(parishId: number, adding: number): Promise<void> {
+    const subscription = await ParishModel.findSubscription(parishId);
+    if (!subscription) {
+      return;
+    }
+
+    const { plan, quotas } = this.getStatus(subscription);
+    if (quotas.max_parishioners === null) {
+      return;
+    }
+
+    const current = await ParishionerModel.countByParishId(parishId);
+    if (current + adding > quotas.max_parishioners) {
+      throw ApiError.forbidden(
+        `The ${plan} plan allows up to ${quotas.max_parishioners} parishioners ` +
+          `(${current} registered, ${adding} to add). Please upgrade the subscription`
+      );
+    }
+  }
+
+  /**
+   * Reject audiobooks beyond the plan's storage limit
+   * @param replacingAudiobookId - Audiobook being updated, whose current size is not counted
+   */
+  public static async assertAudiobookStorageQuota(
+    parishId: number,
+    sizeMb: number | null | undefined,
+    replacingAudiobookId?: number
+  ): Promise<void> {
+    if (!sizeMb) {
+      return;
+    }
+
+    const subscription = await ParishModel.findSubscription(parishId);
+    if (!subscription) {
+      return;
+    }
+
+    const { plan, quotas } = this.getStatus(subscription);
+    if (quotas.audiobook_storage_mb === null) {
+      return;
+    }
+
+    const used = await AudiobookModel.getStorageUsedMb(parishId, replacingAudiobookId);
+    if (used + sizeMb > quotas.audiobook_storage_mb) {
+      throw ApiError.forbidden(
+        `The ${plan} plan allows up to ${quotas.audiobook_storage_mb} MB of audiobooks ` +
+          `(${used} MB used). Please upgrade the subscription`
+      );
+    }
+  }
+
+  /**
+   * Email the primary admin of every parish whose subscription reaches a reminder day
+   * (SUBSCRIPTION_REMINDER_DAYS before expiry) and once more when it expires. Each stage is sent once;
+   * a failed email is retried on the next run.
+   */
+  public static async sendRenewalReminders(): Promise<IRenewalReminderResult> {
+    const reminderDays = [...config.subscription.reminderDays].sort((a, b) => a - b);
+    const subscriptions = await ParishModel.findSubscriptionsExpiring(
+      Math.max(0, ...reminderDays),
+      config.subscription.gracePeriodDays
+    );
+    let parishes = 0;
+    let emails = 0;
+
+    for (const subscription of subscriptions) {
+      const daysUntilExpiry = Number(subscription.days_until_expiry);
+      const lastReminder =
+        subscription.reminder_days_before_expiry === null ? null : Number(subscription.reminder_days_before_expiry);
+
+      const expired = daysUntilExpiry < 0;
+      // Before expiry: the latest reminder day reached, due unless a reminder was sent since that day
+      const stage = expired ? -1 : reminderDays.find((days) => days >= daysUntilExpiry);
+      if (stage === undefined || (lastReminder !== null && lastReminder <= stage)) {
+        continue;
+      }
+
+      parishes++;
+      const parishId = Number(subscription.parish_id);
+      const admin = await ChurchAdminModel.findPrimaryContactByParishId(parishId);
+      if (!admin) {
+        logger.warn(`No primary admin to remind of subscription renewal for parish: ${parishId}`);
+        continue;
+      }
+
+      const sent = await this.sendReminder(
+        admin.email,
+        expired ? 'SUBSCRIPTION_EXPIRED_NOTICE' : 'SUBSCRIPTION_RENEWAL_REMINDER',
+        {
+          ...(await this.reminderVariables(subscription)),
+          firstName: admin.first_name,
+        }
+      );
+      if (sent) {
+        emails++;
+        await ParishModel.markRenewalReminderSent(parishId);
+      }
+    }
+
+    return { parishes, emails };
+  }
+
+  private static resolvePlan(plan: string | null): SubscriptionPlan {
+    const normalized = plan?.toLowerCase();
+    return SUBSCRIPTION_PLANS.find((known) => known === normalized) || DEFAULT_SUBSCRIPTION_PLAN;
+  }
+
+  private static async sendReminder(
+    to: string,
+    templateCode: string,
+    variables: Record<string, string>
+  ): Promise<boolean> {
+    try {
+      const result = await emailService.sendTemplateEmail({ to, templateCode, variables });
+      if (!result.success) {
+        logger.error(`Failed to send ${templateCode} email to ${to}`, { error: result.error });
+      }
+      return result.success;
+    } catch (error) {
+      logger.error(`Failed to send ${templateCode} email to ${to}`, { error });
+      return false;
+    }
+  }
+
+  private static async reminderVariables(subscription: IParishSubscription): Promise<Record<string, string>> {
+    const expiry = new Date(subscription.subscription_expiry as Date);
+    const graceEnd = new Date(expiry.getTime() + config.subscription.gracePeriodDays * DAY_MS);
+
+    return {
+      parishName: subscription.parish_name,
+      planName: this.resolvePlan(subscription.subscription_plan),
+      expiryDate: expiry.toDateString(),
+      daysRemaining: String(Math.max(Number(subscription.days_until_expiry), 0)),
+      graceEndDate: graceEnd.toDateString(),
+      loginUrl: await ParishSettingsService.getLoginUrl(Number(subscription.parish_id)),
+    };
+  }
+}
+
+export default SubscriptionService;
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { UserTwoFactorModel, UserRecoveryCodeModel } from '../models/UserTwoFactor';
+import { ChurchAdminModel } from '../models/ChurchAdmin';
+import { ParishModel } from '../models/Parish';
+import { TotpUtil } from '../utils/totp.util';
+import { JwtUtil } from '../utils/jwt';
+import { ApiError } from '../utils/apiError';
+import { IUser, UserType } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface ITwoFactorChallenge {
+  two_factor_required: true;
+  two_factor_setup_required: boolean;
+  two_factor_token: string;
+  expires_in: number;
+  expires_at: string;
+}
+
+export interface ITwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface ITwoFactorStatus {
+  enabled: boolean;
+  mandatory: boolean;
+  recovery_codes_remaining: number;
+}
+
+/**
+ * Two-Factor Authentication Service
+ * TOTP (authenticator app) enrolment and verification for church, diocese and super admins
+ */
+export class TwoFactorService {
+  private static readonly ELIGIBLE_USER_TYPES = [UserType.SUPER_ADMIN, UserType.CHURCH_ADMIN, UserType.DIOCESE_ADMIN];
+
+  /**
+   * Only admins can enrol in 2FA
+   */
+  public static isEligible(user: IUser): boolean {
+    return this.ELIGIBLE_USER_TYPES.includes(user.user_type);
+  }
+
+  /**
+   * Whether the user's parish requires church admins to use 2FA
+   */
+  public static async isMandatory(user: IUser): Promise<boolean> {
+    if (user.user_type !== UserType.CHURCH_ADMIN) {
+      return false;
+    }
+
+    const churchAdmin = await ChurchAdminModel.findByUserId(user.user_id);
+    if (!churchAdmin) {
+      return false;
+    }
+
+    const parish = await ParishModel.findById(churchAdmin.parish_id);
+    return !!parish?.require_admin_2fa;
+  }
+
+  /**
+   * Decide whether a login needs a second step.
+   * Returns null when the password/OTP step is enough.
+   */
+  public static async getLoginChallenge(user: IUser): Promise<ITwoFactorChallenge | null> {
+    if (!this.isEligible(user)) {
+      return null;
+    }
+
+    if (await UserTwoFactorModel.isEnabled(user.user_id)) {
+      return this.buildChallenge(user, false);
+    }
+
+    if (await this.isMandatory(user)) {
+      return this.buildChallenge(user, true);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get 2FA status of a user
+   */
+  public static async getStatus(user: IUser): Promise<ITwoFactorStatus> {
+    const enabled = await UserTwoFactorModel.isEnabled(user.user_id);
+
+    return {
+      enabled,
+      mandatory: await this.isMandatory(user),
+      recovery_codes_remaining: enabled ? await UserRecoveryCodeModel.countRemaining(user.user_id) : 0,
+    };
+  }
+
+  /**
+   * Start enrolment: generate a secret and the provisioning URI for the QR code
+   */
+  public static async beginSetup(user: IUser): Promise<ITwoFactorSetup> {
+    if (!this.isEligible(user)) {
+      throw ApiError.forbidden('Two-factor authentication is only available for administrators');
+    }
+
+    if (await UserTwoFactorModel.isEnabled(user.user_id)) {
+      throw ApiError.conflict('Two-factor authentication is already enabled');
+    }
+
+    const secret = TotpUtil.generateSecret();
+    await UserTwoFactorModel.savePendingSecret(user.user_id, this.encryptSecret(secret));
+
+    return {
+      secret,
+      otpauth_url: TotpUtil.buildProvisioningUri(secret, user.email, config.twoFactor.issuer),
+    };
+  }
+
+  /**
+   * Finish enrolment with the first code from the authenticator app
+   * Returns the recovery codes (shown to the user only once)
+   */
+  public static async enable(user: IUser, code: string): Promise<string[]> {
+    const twoFactor = await UserTwoFactorModel.findByUserId(user.user_id);
+    if (!twoFactor) {
+      throw ApiError.badRequest('Two-factor setup has not been started');
+    }
+
+    if (twoFactor.is_enabled) {
+      throw ApiError.conflict('Two-factor authentication is already enabled');
+    }
+
+    const timeStep = TotpUtil.verifyCode(this.decryptSecret(twoFactor.secret_encrypted), code);
+    if (timeStep === null) {
+      throw ApiError.badRequest('Invalid authentication code');
+    }
+
+    await UserTwoFactorModel.enable(user.user_id, timeStep);
+    const recoveryCodes = await this.issueRecoveryCodes(user.user_id);
+
+    logger.info('Two-factor authentication enabled', { userId: user.user_id });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code or a one-time recovery code
+   */
+  public static async verify(user: IUser, code?: string, recoveryCode?: string): Promise<void> {
+    const twoFactor = await UserTwoFactorModel.findByUserId(user.user_id);
+    if (!twoFactor || !twoFactor.is_enabled) {
+      throw ApiError.badRequest('Two-factor authentication is not enabled');
+    }
+
+    if (code) {
+      const timeStep = TotpUtil.verifyCode(this.decryptSecret(twoFactor.secret_encrypted), code);
+
+      // Reject codes that were already used (replay)
+      if (timeStep === null || !(await UserTwoFactorModel.markStepUsed(user.user_id, timeStep))) {
+        throw ApiError.unauthorized('Invalid authentication code');
+      }
+      return;
+    }
+
+    if (recoveryCode) {
+      const consumed = await UserRecoveryCodeModel.consume(
+        user.user_id,
+        this.hashRecoveryCode(TotpUtil.normalizeRecoveryCode(recoveryCode))
+      );
+      if (!consumed) {
+        throw ApiError.unauthorized('Invalid recovery code');
+      }
+
+      logger.warn('Recovery code used for two-factor authentication', { userId: user.user_id });
+      return;
+    }
+
+    throw ApiError.badRequest('Authentication code or recovery code is required');
+  }
+
+  /**
+   * Generate a fresh set of recovery codes (old ones stop working)
+   */
+  public static async regenerateRecoveryCodes(user: IUser, code: string): Promise<string[]> {
+    await this.verify(user, code);
+    return this.issueRecoveryCodes(user.user_id);
+  }
+
+  /**
+   * Disable 2FA (not allowed when the parish policy makes it mandatory)
+   */
+  public static async disable(user: IUser, code?: string, recoveryCode?: string): Promise<void> {
+    if (await this.isMandatory(user)) {
+      throw ApiError.forbidden('Two-factor authentication is mandatory for administrators of your parish');
+    }
+
+    await this.verify(user, code, recoveryCode);
+
+    await UserRecoveryCodeModel.deleteAll(user.user_id);
+    await UserTwoFactorModel.delete(user.user_id);
+
+    logger.info('Two-factor authentication disabled', { userId: user.user_id });
+  }
+
+  private static buildChallenge(user: IUser, setupRequired: boolean): ITwoFactorChallenge {
+    const { token, expires_in, expires_at } = JwtUtil.generateTwoFactorToken(
+      user.user_id,
+      setupRequired ? 'two_factor_setup' : 'two_factor_login'
+    );
+
+    return {
+      two_factor_required: true,
+      two_factor_setup_required: setupRequired,
+      two_factor_token: token,
+      expires_in,
+      expires_at,
+    };
+  }
+
+  private static async issueRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = TotpUtil.generateRecoveryCodes(10);
+    await UserRecoveryCodeModel.replaceAll(
+      userId,
+      codes.map((code) => this.hashRecoveryCode(code))
+    );
+    return codes;
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return crypto.createHmac('sha256', config.twoFactor.encryptionKey).update(code).digest('hex');
+  }
+
+  /**
+   * Secrets are stored encrypted (AES-256-GCM) as iv:authTag:ciphertext
+   */
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('hex')).join(':');
+  }
+
+  private static decryptSecret(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'hex'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private static getEncryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.twoFactor.encryptionKey).digest();
+  }
+}
+
+export default TwoFactorService;
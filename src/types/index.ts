@@ -5,6 +5,7 @@ import { Request } from 'express';
 export enum UserType {
   SUPER_ADMIN = 'SUPER_ADMIN',
   CHURCH_ADMIN = 'CHURCH_ADMIN',
+  DIOCESE_ADMIN = 'DIOCESE_ADMIN',
   PARISHIONER = 'parishioner',
 }
 
@@ -20,6 +21,11 @@ export interface IUser {
   is_active: boolean;
   email_verified: boolean;
   last_login?: Date;
+  failed_login_attempts?: number;
+  lockout_count?: number;
+  locked_until?: Date;
+  must_change_password?: boolean;
+  erased_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
@@ -28,10 +34,19 @@ export interface IAuthRequest extends Request {
   user?: ITokenPayload;
 }
 
+export interface IImpersonationClaims {
+  impersonation_id: string;
+  impersonator_user_id: number;
+  impersonator_email: string;
+  read_only: boolean;
+}
+
 export interface ITokenPayload {
   user_id: number;
   email: string;
   user_type: UserType;
+  session_id?: string;
+  impersonation?: IImpersonationClaims; // Set when a super admin is viewing as this user
   parish_id?: number;
   is_church_admin?: boolean;
   permissions?: Array<{
@@ -54,6 +69,8 @@ export interface IAuthResponse {
     token: string;
     expires_in: number; // in seconds
     expires_at: string; // ISO timestamp
+    refresh_token: string;
+    refresh_expires_at: string; // ISO timestamp
     user: {
       user_id: number;
       email: string;
@@ -68,7 +85,8 @@ export interface IAuthResponse {
 export interface IParish {
   parish_id: number;
   parish_name: string;
-  diocese?: string;
+  diocese?: string; // Name of the diocese; kept in line with diocese_id when one is assigned
+  diocese_id?: number;
   address_line1?: string;
   address_line2?: string;
   city?: string;
@@ -82,8 +100,15 @@ export interface IParish {
   patron_saint?: string;
   timezone: string;
   subscription_plan?: string;
-  subscription_expiry?: Date;
+  subscription_expiry?: Date; // Last day of the subscription; read-only grace mode follows
+  subscription_reminder_sent_at?: Date;
+  require_admin_2fa?: boolean;
+  locked_profile_fields?: string; // Comma-separated fields members cannot edit themselves
   is_active: boolean;
+  deletion_requested_at?: Date;
+  deletion_requested_by?: number;
+  deletion_scheduled_for?: Date; // Set while pending deletion; the parish is purged after this date
+  deletion_reason?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -545,6 +570,7 @@ export interface IAccountSummary {
 // Audit Log
 export interface IAuditLog {
   log_id: number;
+  parish_id?: number;
   user_id?: number;
   action: string;
   table_name?: string;
@@ -553,6 +579,8 @@ export interface IAuditLog {
   new_values?: string;
   ip_address?: string;
   timestamp: Date;
+  user_email?: string;
+  user_name?: string;
 }
 
 // Pagination
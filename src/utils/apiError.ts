@@ -34,6 +34,10 @@ export class ApiError extends Error {
     return new ApiError(422, message);
   }
 
+  public static locked(message: string): ApiError {
+    return new ApiError(423, message);
+  }
+
   public static internal(message = 'Internal server error'): ApiError {
     return new ApiError(500, message, false);
   }
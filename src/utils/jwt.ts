@@ -1,4 +1,5 @@
 import jwt from "jsonwebtoken";
+import crypto from "crypto";
 import config from "../config";
 import { ITokenPayload } from "../types";
 
@@ -8,6 +9,23 @@ export interface IGeneratedToken {
   expires_at: string; // ISO timestamp
 }
 
+export interface IGeneratedRefreshToken {
+  token: string; // opaque value handed to the client
+  token_hash: string; // value persisted server-side
+  expires_in: number; // in seconds
+  expires_at: string; // ISO timestamp
+}
+
+export type TwoFactorTokenPurpose = "two_factor_login" | "two_factor_setup";
+
+export type InvitationTokenPurpose = "account_invite" | "password_change";
+
+export interface IInvitationTokenPayload {
+  user_id: number;
+  purpose: InvitationTokenPurpose;
+  password_fingerprint: string;
+}
+
 export class JwtUtil {
   /**
    * Generate access token with expiry info
@@ -40,6 +58,136 @@ console.log(expiresInSeconds,"expiresInSeconds")
     }
   }
 
+  /**
+   * Generate a short-lived access token for a super admin viewing as another user.
+   * The payload carries the impersonated user plus the real identity in `impersonation`.
+   */
+  public static generateImpersonationToken(payload: ITokenPayload): IGeneratedToken {
+    const expiresInString = config.impersonation.expiresIn;
+    const expiresInSeconds = this.parseExpiryToSeconds(expiresInString);
+
+    const token = jwt.sign(payload as object, config.jwt.secret, {
+      expiresIn: expiresInString,
+    } as jwt.SignOptions);
+
+    return {
+      token,
+      expires_in: expiresInSeconds,
+      expires_at: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Generate an opaque refresh token. Only the hash is ever stored.
+   */
+  public static generateRefreshToken(): IGeneratedRefreshToken {
+    const expiresInSeconds = this.parseExpiryToSeconds(config.jwt.refreshExpiresIn);
+    const token = crypto.randomBytes(48).toString("hex");
+
+    return {
+      token,
+      token_hash: this.hashRefreshToken(token),
+      expires_in: expiresInSeconds,
+      expires_at: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Hash a refresh token for lookup (HMAC so a leaked table cannot be replayed)
+   */
+  public static hashRefreshToken(token: string): string {
+    return crypto.createHmac("sha256", config.jwt.refreshSecret).update(token).digest("hex");
+  }
+
+  /**
+   * Generate a short-lived token for the second login step (2FA challenge / enrolment)
+   */
+  public static generateTwoFactorToken(
+    userId: number,
+    purpose: TwoFactorTokenPurpose
+  ): IGeneratedToken {
+    const expiresInString = config.twoFactor.challengeExpiresIn;
+    const expiresInSeconds = this.parseExpiryToSeconds(expiresInString);
+
+    const token = jwt.sign({ user_id: userId, purpose }, config.jwt.secret, {
+      expiresIn: expiresInString,
+    } as jwt.SignOptions);
+
+    return {
+      token,
+      expires_in: expiresInSeconds,
+      expires_at: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Verify a 2FA token and return the user ID it was issued for
+   */
+  public static verifyTwoFactorToken(token: string, purpose: TwoFactorTokenPurpose): number {
+    try {
+      const payload = jwt.verify(token, config.jwt.secret) as { user_id: number; purpose?: string };
+      if (payload.purpose !== purpose) {
+        throw new Error("Invalid token purpose");
+      }
+      return payload.user_id;
+    } catch (error) {
+      throw new Error("Invalid or expired two-factor token");
+    }
+  }
+
+  /**
+   * Generate a token that lets a user set their own password
+   * (emailed invitation, or the password change step of login).
+   * Bound to the current password hash, so it stops working once the password is set.
+   */
+  public static generateInvitationToken(
+    userId: number,
+    passwordHash: string,
+    purpose: InvitationTokenPurpose
+  ): IGeneratedToken {
+    const expiresInString =
+      purpose === "account_invite" ? config.invitation.expiresIn : config.invitation.passwordChangeExpiresIn;
+    const expiresInSeconds = this.parseExpiryToSeconds(expiresInString);
+
+    const token = jwt.sign(
+      { user_id: userId, purpose, password_fingerprint: this.fingerprintPasswordHash(passwordHash) },
+      config.jwt.secret,
+      { expiresIn: expiresInString } as jwt.SignOptions
+    );
+
+    return {
+      token,
+      expires_in: expiresInSeconds,
+      expires_at: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Verify an invitation / password change token
+   */
+  public static verifyInvitationToken(token: string): IInvitationTokenPayload {
+    try {
+      const payload = jwt.verify(token, config.jwt.secret) as Partial<IInvitationTokenPayload>;
+      if (
+        (payload.purpose !== "account_invite" && payload.purpose !== "password_change") ||
+        !payload.user_id ||
+        !payload.password_fingerprint
+      ) {
+        throw new Error("Invalid token purpose");
+      }
+      return payload as IInvitationTokenPayload;
+    } catch (error) {
+      throw new Error("Invalid or expired invitation token");
+    }
+  }
+
+  /**
+   * Short, non-reversible fingerprint of a password hash
+   */
+  public static fingerprintPasswordHash(passwordHash: string): string {
+    return crypto.createHmac("sha256", config.jwt.secret).update(passwordHash).digest("hex").slice(0, 32);
+  }
+
   /**
    * Decode token without verification (for debugging)
    */
@@ -1,3 +1,6 @@
+import crypto from 'crypto';
+import config from '../config';
+
 /**
  * OTP Utility Functions
  * Generate and validate one-time passwords
@@ -5,21 +8,40 @@
 
 export class OtpUtil {
   /**
-   * Generate random 6-digit OTP
+   * Generate random 6-digit OTP using a cryptographically secure generator
    */
   public static generateOTP(length: number = 6): string {
-    const digits = '0123456789';
-    let otp = '';
-
-    for (let i = 0; i < length; i++) {
-      const randomIndex = Math.floor(Math.random() * digits.length);
-      otp += digits[randomIndex];
-    }
+    const otp = crypto.randomInt(0, 10 ** length).toString();
 
     // Ensure it's exactly the specified length
     return otp.padStart(length, '0');
   }
 
+  /**
+   * Generate a random per-code salt
+   */
+  public static generateSalt(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Hash an OTP with its salt (HMAC-SHA256 keyed with the server-side OTP secret).
+   * Only the hash and salt are stored; the plaintext code is never persisted.
+   */
+  public static hashOTP(otp: string, salt: string): string {
+    return crypto.createHmac('sha256', config.otp.hashSecret).update(`${salt}:${otp}`).digest('hex');
+  }
+
+  /**
+   * Compare an OTP against a stored hash in constant time
+   */
+  public static compareOTP(otp: string, salt: string, hash: string): boolean {
+    const expected = Buffer.from(hash, 'hex');
+    const actual = Buffer.from(this.hashOTP(otp, salt), 'hex');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
   /**
    * Validate OTP format
    */
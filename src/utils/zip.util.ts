@@ -0,0 +1,100 @@
+/**
+ * ZIP Utility Functions
+ * Build small in-memory ZIP archives (deflate, no ZIP64) for downloads
+ */
+
+import zlib from 'zlib';
+
+export interface IZipEntry {
+  name: string;
+  content: string | Buffer;
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_value, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+export class ZipUtil {
+  /**
+   * Create a ZIP archive from a list of files
+   */
+  public static create(entries: IZipEntry[], modifiedAt: Date = new Date()): Buffer {
+    const { time, date } = this.toDosDateTime(modifiedAt);
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    entries.forEach((entry) => {
+      const name = Buffer.from(entry.name, 'utf8');
+      const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+      const compressed = zlib.deflateRawSync(data);
+      const crc = this.crc32(data);
+
+      const localHeader = Buffer.alloc(30);
+      localHeader.writeUInt32LE(0x04034b50, 0); // Local file header signature
+      localHeader.writeUInt16LE(20, 4); // Version needed to extract
+      localHeader.writeUInt16LE(0x0800, 6); // UTF-8 file names
+      localHeader.writeUInt16LE(8, 8); // Deflate
+      localHeader.writeUInt16LE(time, 10);
+      localHeader.writeUInt16LE(date, 12);
+      localHeader.writeUInt32LE(crc, 14);
+      localHeader.writeUInt32LE(compressed.length, 18);
+      localHeader.writeUInt32LE(data.length, 22);
+      localHeader.writeUInt16LE(name.length, 26);
+      localHeader.writeUInt16LE(0, 28);
+
+      const centralHeader = Buffer.alloc(46);
+      centralHeader.writeUInt32LE(0x02014b50, 0); // Central directory signature
+      centralHeader.writeUInt16LE(20, 4); // Version made by
+      centralHeader.writeUInt16LE(20, 6); // Version needed to extract
+      centralHeader.writeUInt16LE(0x0800, 8);
+      centralHeader.writeUInt16LE(8, 10);
+      centralHeader.writeUInt16LE(time, 12);
+      centralHeader.writeUInt16LE(date, 14);
+      centralHeader.writeUInt32LE(crc, 16);
+      centralHeader.writeUInt32LE(compressed.length, 20);
+      centralHeader.writeUInt32LE(data.length, 24);
+      centralHeader.writeUInt16LE(name.length, 28);
+      centralHeader.writeUInt32LE(offset, 42); // Offset of the local header
+
+      localParts.push(localHeader, name, compressed);
+      centralParts.push(centralHeader, name);
+      offset += localHeader.length + name.length + compressed.length;
+    });
+
+    const centralDirectory = Buffer.concat(centralParts);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  /**
+   * ZIP entries store timestamps in MS-DOS format (2 second resolution, from 1980)
+   */
+  private static toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+
+    return {
+      time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+      date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+  }
+}
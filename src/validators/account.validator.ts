@@ -139,3 +139,10 @@ export const exportCSVSchema = {
     parishId: Joi.number().integer().positive().required(),
   }),
 };
+
+// Journal Verification Validator
+export const verifyJournalSchema = {
+  params: Joi.object({
+    parishId: Joi.number().integer().positive().required(),
+  }),
+};
@@ -0,0 +1,35 @@
+import Joi from 'joi';
+
+const auditFilters = {
+  parish_id: Joi.number().integer().positive().optional(),
+  user_id: Joi.number().integer().positive().optional(),
+  table_name: Joi.string()
+    .valid(
+      'parishes',
+      'parish_settings',
+      'families',
+      'parishioners',
+      'accounts',
+      'roles',
+      'role_permissions',
+      'user_roles',
+      'ward_roles'
+    )
+    .optional(),
+  record_id: Joi.number().integer().positive().optional(),
+  action: Joi.string().valid('CREATE', 'UPDATE', 'DELETE', 'BULK_CREATE', 'RESTORE').optional(),
+  from: Joi.date().optional(),
+  to: Joi.date().min(Joi.ref('from')).optional(),
+};
+
+export const auditLogsQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional().default(1),
+    limit: Joi.number().integer().min(1).max(100).optional().default(20),
+    ...auditFilters,
+  }),
+};
+
+export const auditLogsExportSchema = {
+  query: Joi.object(auditFilters),
+};
@@ -28,3 +28,122 @@ export const changePasswordSchema = {
     newPassword: Joi.string().min(8).required(),
   }),
 };
+
+export const refreshTokenSchema = {
+  body: Joi.object({
+    refresh_token: Joi.string().required(),
+  }),
+};
+
+export const sessionIdSchema = {
+  params: Joi.object({
+    sessionId: Joi.string().guid({ version: 'uuidv4' }).required(),
+  }),
+};
+
+export const userIdParamSchema = {
+  params: Joi.object({
+    userId: Joi.number().integer().positive().required(),
+  }),
+};
+
+const totpCode = Joi.string().length(6).pattern(/^[0-9]+$/);
+
+export const twoFactorSetupSchema = {
+  body: Joi.object({
+    two_factor_token: Joi.string().optional(),
+  }),
+};
+
+export const twoFactorEnableSchema = {
+  body: Joi.object({
+    code: totpCode.required(),
+    two_factor_token: Joi.string().optional(),
+  }),
+};
+
+export const twoFactorVerifySchema = {
+  body: Joi.object({
+    two_factor_token: Joi.string().required(),
+    code: totpCode.optional(),
+    recovery_code: Joi.string().max(20).optional(),
+  }).xor('code', 'recovery_code'),
+};
+
+export const twoFactorCodeSchema = {
+  body: Joi.object({
+    code: totpCode.required(),
+  }),
+};
+
+export const twoFactorDisableSchema = {
+  body: Joi.object({
+    code: totpCode.optional(),
+    recovery_code: Joi.string().max(20).optional(),
+  }).xor('code', 'recovery_code'),
+};
+
+export const loginAttemptsQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional().default(1),
+    limit: Joi.number().integer().min(1).max(100).optional().default(20),
+    parish_id: Joi.number().integer().positive().optional(),
+    user_id: Joi.number().integer().positive().optional(),
+    failed_only: Joi.boolean().optional().default(true),
+    days: Joi.number().integer().min(1).max(365).optional(),
+  }),
+};
+
+export const lockedAccountsQuerySchema = {
+  query: Joi.object({
+    parish_id: Joi.number().integer().positive().optional(),
+  }),
+};
+
+export const acceptInvitationSchema = {
+  body: Joi.object({
+    token: Joi.string().required(),
+    password: Joi.string().min(8).required(),
+  }),
+};
+
+export const updateProfileSchema = {
+  body: Joi.object({
+    first_name: Joi.string().min(2).max(100).optional(),
+    last_name: Joi.string().min(2).max(100).optional(),
+    middle_name: Joi.string().max(100).optional().allow(null, ''),
+    phone: Joi.string().max(20).optional().allow(null, ''),
+    address_line1: Joi.string().max(255).optional().allow(null, ''),
+    address_line2: Joi.string().max(255).optional().allow(null, ''),
+    city: Joi.string().max(100).optional().allow(null, ''),
+    state: Joi.string().max(100).optional().allow(null, ''),
+    country: Joi.string().max(100).optional().allow(null, ''),
+    postal_code: Joi.string().max(20).optional().allow(null, ''),
+    emergency_contact_name: Joi.string().max(200).optional().allow(null, ''),
+    emergency_contact_phone: Joi.string().max(20).optional().allow(null, ''),
+  }).min(1), // At least one field must be provided
+};
+
+export const startImpersonationSchema = {
+  body: Joi.object({
+    user_id: Joi.number().integer().positive().required(),
+    reason: Joi.string().min(5).max(500).required(),
+    read_only: Joi.boolean().optional().default(true),
+  }),
+};
+
+export const impersonationsQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional().default(1),
+    limit: Joi.number().integer().min(1).max(100).optional().default(20),
+    impersonator_user_id: Joi.number().integer().positive().optional(),
+    target_user_id: Joi.number().integer().positive().optional(),
+    active_only: Joi.boolean().optional().default(false),
+  }),
+};
+
+export const impersonationIdSchema = {
+  params: Joi.object({
+    impersonationId: Joi.string().guid({ version: 'uuidv4' }).required(),
+  }),
+};
@@ -9,7 +9,7 @@ export const createDailyReadingSchema = {
     chapter: Joi.number().integer().min(1).required(),
     verse_start: Joi.number().integer().min(1).optional(),
     verse_end: Joi.number().integer().min(1).optional(),
-    translation: Joi.string().max(20).optional().default('kjv'),
+    translation: Joi.string().max(20).optional(), // Defaults to the parish's bible_translation setting
   }),
 };
 
@@ -0,0 +1,69 @@
+import Joi from 'joi';
+
+const dioceseIdParams = {
+  id: Joi.number().integer().positive().required(),
+};
+
+export const dioceseIdSchema = {
+  params: Joi.object(dioceseIdParams),
+};
+
+export const createDioceseSchema = {
+  body: Joi.object({
+    diocese_name: Joi.string().min(2).max(200).required(),
+    bishop_name: Joi.string().max(200).optional(),
+    country: Joi.string().max(100).optional(),
+    email: Joi.string().email().optional(),
+    phone: Joi.string().max(20).optional(),
+    website_url: Joi.string().uri().max(500).optional(),
+  }),
+};
+
+export const updateDioceseSchema = {
+  params: Joi.object(dioceseIdParams),
+  body: Joi.object({
+    diocese_name: Joi.string().min(2).max(200).optional(),
+    bishop_name: Joi.string().max(200).optional(),
+    country: Joi.string().max(100).optional(),
+    email: Joi.string().email().optional(),
+    phone: Joi.string().max(20).optional(),
+    website_url: Joi.string().uri().max(500).optional(),
+    is_active: Joi.boolean().optional(),
+  }).min(1), // At least one field must be provided
+};
+
+export const dioceseParishSchema = {
+  params: Joi.object(dioceseIdParams),
+  body: Joi.object({
+    parish_id: Joi.number().integer().positive().required(),
+  }),
+};
+
+export const dioceseParishIdSchema = {
+  params: Joi.object({
+    ...dioceseIdParams,
+    parishId: Joi.number().integer().positive().required(),
+  }),
+};
+
+export const dioceseStatsSchema = {
+  params: Joi.object(dioceseIdParams),
+  query: Joi.object({
+    from: Joi.date().optional(),
+    to: Joi.date().min(Joi.ref('from')).optional(),
+  }),
+};
+
+export const dioceseAdminSchema = {
+  params: Joi.object(dioceseIdParams),
+  body: Joi.object({
+    user_id: Joi.number().integer().positive().required(),
+  }),
+};
+
+export const dioceseAdminIdSchema = {
+  params: Joi.object({
+    ...dioceseIdParams,
+    userId: Joi.number().integer().positive().required(),
+  }),
+};
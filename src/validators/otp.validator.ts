@@ -19,6 +19,12 @@ export const requestLoginOTPSchema = Joi.object({
       'string.email': 'Please provide a valid email address',
       'any.required': 'Email is required',
     }),
+  delivery_method: Joi.string()
+    .valid('email', 'sms')
+    .default('email')
+    .messages({
+      'any.only': 'Delivery method must be either "email" or "sms"',
+    }),
 });
 
 /**
@@ -58,6 +64,12 @@ export const requestPasswordResetOTPSchema = Joi.object({
       'string.email': 'Please provide a valid email address',
       'any.required': 'Email is required',
     }),
+  delivery_method: Joi.string()
+    .valid('email', 'sms')
+    .default('email')
+    .messages({
+      'any.only': 'Delivery method must be either "email" or "sms"',
+    }),
 });
 
 /**
@@ -84,6 +96,45 @@ export const verifyPasswordResetOTPSchema = Joi.object({
     }),
 });
 
+/**
+ * Request email verification OTP
+ */
+export const requestEmailVerificationOTPSchema = Joi.object({
+  email: Joi.string()
+    .email()
+    .required()
+    .trim()
+    .lowercase()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required',
+    }),
+});
+
+/**
+ * Verify email OTP
+ */
+export const verifyEmailOTPSchema = Joi.object({
+  email: Joi.string()
+    .email()
+    .required()
+    .trim()
+    .lowercase()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required',
+    }),
+  otp_code: Joi.string()
+    .length(6)
+    .pattern(/^[0-9]+$/)
+    .required()
+    .messages({
+      'string.length': 'OTP must be 6 digits',
+      'string.pattern.base': 'OTP must contain only numbers',
+      'any.required': 'OTP code is required',
+    }),
+});
+
 /**
  * Resend OTP
  */
@@ -98,10 +149,16 @@ export const resendOTPSchema = Joi.object({
       'any.required': 'Email is required',
     }),
   otp_type: Joi.string()
-    .valid('login', 'password_reset')
+    .valid('login', 'password_reset', 'verification')
     .required()
     .messages({
-      'any.only': 'OTP type must be either "login" or "password_reset"',
+      'any.only': 'OTP type must be one of "login", "password_reset" or "verification"',
       'any.required': 'OTP type is required',
     }),
+  delivery_method: Joi.string()
+    .valid('email', 'sms')
+    .default('email')
+    .messages({
+      'any.only': 'Delivery method must be either "email" or "sms"',
+    }),
 });
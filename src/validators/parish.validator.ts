@@ -1,4 +1,6 @@
 import Joi from 'joi';
+import { LOCKABLE_PROFILE_FIELDS } from '../constants/profile';
+import { SUBSCRIPTION_PLANS } from '../constants/subscription';
 
 export const createParishSchema = {
   body: Joi.object({
@@ -17,7 +19,7 @@ export const createParishSchema = {
     established_date: Joi.date().optional(),
     patron_saint: Joi.string().max(200).optional(),
     timezone: Joi.string().max(50).optional().default('UTC'),
-    subscription_plan: Joi.string().max(50).optional(),
+    subscription_plan: Joi.string().valid(...SUBSCRIPTION_PLANS).optional(),
     subscription_expiry: Joi.date().optional(),
     // Optional Church Admin user fields
     admin_email: Joi.string().email().optional(),
@@ -46,8 +48,14 @@ export const updateParishSchema = {
     established_date: Joi.date().optional(),
     patron_saint: Joi.string().max(200).optional(),
     timezone: Joi.string().max(50).optional(),
-    subscription_plan: Joi.string().max(50).optional(),
+    subscription_plan: Joi.string().valid(...SUBSCRIPTION_PLANS).optional(),
     subscription_expiry: Joi.date().optional(),
+    require_admin_2fa: Joi.boolean().optional(),
+    locked_profile_fields: Joi.array()
+      .items(Joi.string().valid(...LOCKABLE_PROFILE_FIELDS))
+      .unique()
+      .optional()
+      .custom((fields: string[]) => fields.join(',')), // Stored as a comma-separated list
     is_active: Joi.boolean().optional(),
   }).min(1), // At least one field must be provided
 };
@@ -58,6 +66,70 @@ export const parishIdSchema = {
   }),
 };
 
+export const deleteParishSchema = {
+  body: Joi.object({
+    reason: Joi.string().max(255).optional().allow(''),
+  }),
+};
+
+// null returns a setting to its default (see constants/parishSettings)
+export const updateParishSettingsSchema = {
+  body: Joi.object({
+    prayer_request_archive_days: Joi.number().integer().min(1).max(365).allow(null).optional(),
+    bible_translation: Joi.string().max(20).allow(null).optional(),
+    login_url: Joi.string().uri({ scheme: ['http', 'https'] }).max(500).allow(null).optional(),
+    currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).allow(null).optional().messages({
+      'string.pattern.base': 'currency must be a three-letter ISO 4217 code',
+    }),
+  }).min(1), // At least one setting must be provided
+};
+
+const churchAdminIdParams = {
+  id: Joi.number().integer().positive().required(),
+  adminId: Joi.number().integer().positive().required(),
+};
+
+export const inviteChurchAdminSchema = {
+  params: Joi.object({
+    id: Joi.number().integer().positive().required(),
+  }),
+  body: Joi.object({
+    email: Joi.string().email().required(),
+    first_name: Joi.string().min(2).max(100).required(),
+    last_name: Joi.string().min(2).max(100).required(),
+    phone: Joi.string().max(20).optional(),
+    role: Joi.string().max(100).optional(),
+    department: Joi.string().max(100).optional(),
+    hire_date: Joi.date().optional(),
+  }),
+};
+
+export const updateChurchAdminSchema = {
+  params: Joi.object(churchAdminIdParams),
+  body: Joi.object({
+    role: Joi.string().max(100).optional(),
+    department: Joi.string().max(100).allow(null, '').optional(),
+    hire_date: Joi.date().allow(null).optional(),
+  }).min(1), // At least one field must be provided
+};
+
+export const deactivateChurchAdminSchema = {
+  params: Joi.object(churchAdminIdParams),
+  body: Joi.object({
+    // Required when removing the primary admin
+    successor_admin_id: Joi.number().integer().positive().optional(),
+  }),
+};
+
+export const transferPrimaryAdminSchema = {
+  params: Joi.object({
+    id: Joi.number().integer().positive().required(),
+  }),
+  body: Joi.object({
+    church_admin_id: Joi.number().integer().positive().required(),
+  }),
+};
+
 export const paginationSchema = {
   query: Joi.object({
     page: Joi.number().integer().min(1).optional().default(1),
@@ -0,0 +1,48 @@
+import Joi from 'joi';
+
+const exportFormat = Joi.string().valid('json', 'zip').optional().default('json');
+
+export const exportQuerySchema = {
+  query: Joi.object({
+    format: exportFormat,
+  }),
+};
+
+export const userExportSchema = {
+  params: Joi.object({
+    userId: Joi.number().integer().positive().required(),
+  }),
+  query: Joi.object({
+    format: exportFormat,
+  }),
+};
+
+export const createErasureRequestSchema = {
+  body: Joi.object({
+    reason: Joi.string().max(1000).optional().allow(''),
+  }),
+};
+
+export const erasureRequestsQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional().default(1),
+    limit: Joi.number().integer().min(1).max(100).optional().default(20),
+    parish_id: Joi.number().integer().positive().optional(),
+    status: Joi.string().valid('pending', 'completed', 'rejected', 'cancelled').optional(),
+  }),
+};
+
+export const erasureRequestIdSchema = {
+  params: Joi.object({
+    requestId: Joi.number().integer().positive().required(),
+  }),
+};
+
+export const reviewErasureRequestSchema = {
+  params: Joi.object({
+    requestId: Joi.number().integer().positive().required(),
+  }),
+  body: Joi.object({
+    notes: Joi.string().max(1000).optional().allow(''),
+  }),
+};
@@ -0,0 +1,120 @@
+import Joi from 'joi';
+
+const parishIdParams = Joi.object({
+  parishId: Joi.number().integer().positive().required(),
+});
+
+export const permissionMatrixSchema = {
+  params: parishIdParams,
+};
+
+export const updatePermissionMatrixSchema = {
+  params: parishIdParams,
+  body: Joi.object({
+    changes: Joi.array()
+      .items(
+        Joi.object({
+          role_id: Joi.number().integer().positive().required(),
+          permission_id: Joi.number().integer().positive().required(),
+          granted: Joi.boolean().required(),
+        })
+      )
+      .min(1)
+      .max(1000)
+      .required(),
+  }),
+};
+
+const code = Joi.string()
+  .pattern(/^[A-Z0-9_]+$/)
+  .max(50)
+  .messages({
+    'string.pattern.base': '{#label} may only contain uppercase letters, digits and underscores',
+  });
+
+const roleNaming = {
+  role_name: Joi.string().min(2).max(100).optional(),
+  role_code: code.optional(),
+};
+
+export const cloneRoleSchema = {
+  params: Joi.object({
+    roleId: Joi.number().integer().positive().required(),
+  }),
+  body: Joi.object({
+    parish_id: Joi.number().integer().positive().required(),
+    ...roleNaming,
+  }),
+};
+
+export const roleTemplatesQuerySchema = {
+  query: Joi.object({
+    include_inactive: Joi.boolean().optional().default(false),
+  }),
+};
+
+export const roleTemplateIdSchema = {
+  params: Joi.object({
+    templateId: Joi.number().integer().positive().required(),
+  }),
+};
+
+export const createRoleTemplateSchema = {
+  body: Joi.object({
+    template_name: Joi.string().min(2).max(100).required(),
+    template_code: code.required(),
+    description: Joi.string().max(1000).optional().allow(''),
+    priority: Joi.number().integer().min(0).max(100).optional(),
+    permission_ids: Joi.array().items(Joi.number().integer().positive()).unique().default([]),
+  }),
+};
+
+export const updateRoleTemplateSchema = {
+  params: Joi.object({
+    templateId: Joi.number().integer().positive().required(),
+  }),
+  body: Joi.object({
+    template_name: Joi.string().min(2).max(100).optional(),
+    description: Joi.string().max(1000).optional().allow(''),
+    priority: Joi.number().integer().min(0).max(100).optional(),
+    permission_ids: Joi.array().items(Joi.number().integer().positive()).unique().optional(),
+    sync: Joi.boolean().optional().default(false),
+  }),
+};
+
+export const instantiateRoleTemplateSchema = {
+  params: Joi.object({
+    templateId: Joi.number().integer().positive().required(),
+  }),
+  body: Joi.object({
+    parish_id: Joi.number().integer().positive().required(),
+    ...roleNaming,
+  }),
+};
+
+const delegationIdParams = Joi.object({
+  delegationId: Joi.number().integer().positive().required(),
+});
+
+export const createDelegationSchema = {
+  body: Joi.object({
+    delegate_user_id: Joi.number().integer().positive().required(),
+    permission_ids: Joi.array().items(Joi.number().integer().positive()).unique().min(1).max(100).required(),
+    reason: Joi.string().trim().min(3).max(500).required(),
+    starts_at: Joi.date().iso().optional(),
+    ends_at: Joi.date().iso().required(),
+    parish_id: Joi.number().integer().positive().optional(),
+  }),
+};
+
+export const delegationsQuerySchema = {
+  query: Joi.object({
+    parish_id: Joi.number().integer().positive().optional(),
+    delegate_user_id: Joi.number().integer().positive().optional(),
+    status: Joi.string().valid('ACTIVE', 'REVOKED', 'EXPIRED').optional(),
+  }),
+};
+
+export const delegationIdSchema = {
+  params: delegationIdParams,
+};
@@ -0,0 +1,142 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { auditTrail, recordsFrom } from '../../src/middleware/audit';
+import { AuditService } from '../../src/services/audit.service';
+import { RoleTemplateModel } from '../../src/models/RoleTemplate';
+import { IRole } from '../../src/models/Role';
+import { IAuthRequest, UserType } from '../../src/types';
+
+jest.mock('../../src/services/audit.service');
+jest.mock('../../src/models/RoleTemplate');
+
+const mockedAudit = jest.mocked(AuditService);
+const mockedTemplates = jest.mocked(RoleTemplateModel);
+
+const request = (
+  method: string,
+  params: Record<string, string>,
+  body: unknown = {}
+): IAuthRequest =>
+  ({
+    method,
+    params,
+    body,
+    ip: '10.0.0.1',
+    user: { user_id: 3, email: 'admin@example.com', user_type: UserType.SUPER_ADMIN },
+  }) as unknown as IAuthRequest;
+
+const response = (): Response => {
+  const res = new EventEmitter() as EventEmitter & { statusCode: number; json: jest.Mock };
+  res.statusCode = 200;
+  res.json = jest.fn().mockReturnValue(res);
+  return res as unknown as Response;
+};
+
+// Run the middleware, let the handler answer, then wait for the audit entries to be written
+const runAudited = async (
+  middleware: ReturnType<typeof auditTrail>,
+  req: IAuthRequest,
+  body: unknown
+): Promise<void> => {
+  const res = response();
+  await middleware(req, res, jest.fn());
+  res.json(body);
+  res.emit('finish');
+  await new Promise((resolve) => setImmediate(resolve));
+};
+
+describe('auditTrail', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('records the record loaded again after the change when reload is set', async () => {
+    mockedAudit.loadRecord
+      .mockResolvedValueOnce({ role_id: 5, permissions: ['VIEW_FAMILY'] })
+      .mockResolvedValueOnce({ role_id: 5, permissions: ['VIEW_FAMILY', 'EDIT_FAMILY'] });
+
+    await runAudited(
+      auditTrail('role_permissions', { idParam: 'roleId', action: 'UPDATE', reload: true }),
+      request('POST', { roleId: '5' }, { permission_id: 9 }),
+      { success: true, data: { role_id: 5, permission_id: 9 } }
+    );
+
+    expect(mockedAudit.recordChange).toHaveBeenCalledWith({
+      table: 'role_permissions',
+      action: 'UPDATE',
+      record_id: 5,
+      parish_id: undefined,
+      old_values: { role_id: 5, permissions: ['VIEW_FAMILY'] },
+      new_values: { role_id: 5, permissions: ['VIEW_FAMILY', 'EDIT_FAMILY'] },
+      user_id: 3,
+      ip_address: '10.0.0.1',
+    });
+  });
+
+  it('records every record a request changes', async () => {
+    mockedAudit.loadRecord.mockImplementation(async (_table, recordId) => ({ role_id: recordId }));
+
+    await runAudited(
+      auditTrail('role_permissions', { recordIds: recordsFrom.matrixRoles }),
+      request(
+        'PUT',
+        { parishId: '1' },
+        {
+          changes: [
+            { role_id: 5, permission_id: 9, granted: true },
+            { role_id: 6, permission_id: 9, granted: false },
+            { role_id: 5, permission_id: 10, granted: true },
+          ],
+        }
+      ),
+      { success: true, data: { granted: 2, revoked: 1 } }
+    );
+
+    expect(mockedAudit.recordChange).toHaveBeenCalledTimes(2);
+    expect(mockedAudit.recordChange).toHaveBeenCalledWith(
+      expect.objectContaining({ table: 'role_permissions', action: 'UPDATE', record_id: 5 })
+    );
+    expect(mockedAudit.recordChange).toHaveBeenCalledWith(
+      expect.objectContaining({ table: 'role_permissions', action: 'UPDATE', record_id: 6 })
+    );
+  });
+
+  it('does not record a failed request', async () => {
+    await runAudited(
+      auditTrail('user_roles', { idParam: 'userId', action: 'UPDATE', reload: true }),
+      request('POST', { userId: '8' }, { role_id: 5 }),
+      { success: false, message: 'Role not found' }
+    );
+
+    expect(mockedAudit.recordChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordsFrom.syncedTemplateRoles', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('returns the derived roles when the template update syncs them', async () => {
+    mockedTemplates.getDerivedRoles.mockResolvedValue([
+      { role_id: '5' },
+      { role_id: '6' },
+    ] as unknown as IRole[]);
+
+    const roleIds = await recordsFrom.syncedTemplateRoles(
+      request('PUT', { templateId: '2' }, { sync: true })
+    );
+
+    expect(mockedTemplates.getDerivedRoles).toHaveBeenCalledWith(2);
+    expect(roleIds).toEqual([5, 6]);
+  });
+
+  it('returns no roles when the template update does not sync', async () => {
+    const roleIds = await recordsFrom.syncedTemplateRoles(
+      request('PUT', { templateId: '2' }, { sync: false })
+    );
+
+    expect(mockedTemplates.getDerivedRoles).not.toHaveBeenCalled();
+    expect(roleIds).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import roleRoutes from '../../src/routes/role.routes';
+import roleTemplateRoutes from '../../src/routes/roleTemplate.routes';
+
+// Tag each audit middleware with its table so the route stacks can be inspected
+jest.mock('../../src/middleware/audit', () => ({
+  recordsFrom: {},
+  auditTrail: (table: string) => Object.assign(jest.fn(), { auditedTable: table }),
+}));
+
+interface IRouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: { auditedTable?: string } }>;
+  };
+}
+
+const auditedTableOf = (router: Router, method: string, path: string): string | undefined => {
+  const layer = (router.stack as IRouteLayer[]).find(
+    (candidate) => candidate.route?.path === path && candidate.route.methods[method]
+  );
+  if (!layer?.route) {
+    throw new Error(`Route not found: ${method.toUpperCase()} ${path}`);
+  }
+
+  return layer.route.stack.find((handler) => handler.handle.auditedTable)?.handle.auditedTable;
+};
+
+describe('role routes audit trail', () => {
+  it.each([
+    ['post', '/', 'roles'],
+    ['put', '/:roleId', 'roles'],
+    ['delete', '/:roleId', 'roles'],
+    ['post', '/:roleId/clone', 'roles'],
+    ['post', '/:roleId/permissions', 'role_permissions'],
+    ['delete', '/:roleId/permissions/:permissionId', 'role_permissions'],
+    ['put', '/parish/:parishId/permission-matrix', 'role_permissions'],
+    ['post', '/user/:userId/roles', 'user_roles'],
+    ['delete', '/user/:userId/roles/:roleId', 'user_roles'],
+  ])('audits %s /roles%s', (method, path, table) => {
+    expect(auditedTableOf(roleRoutes, method, path)).toBe(table);
+  });
+});
+
+describe('role template routes audit trail', () => {
+  it.each([
+    ['put', '/:templateId', 'role_permissions'],
+    ['post', '/:templateId/sync', 'role_permissions'],
+    ['post', '/:templateId/instantiate', 'roles'],
+  ])('audits %s /role-templates%s', (method, path, table) => {
+    expect(auditedTableOf(roleTemplateRoutes, method, path)).toBe(table);
+  });
+});
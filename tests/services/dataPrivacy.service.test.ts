@@ -0,0 +1,44 @@
+import { DataPrivacyService } from '../../src/services/dataPrivacy.service';
+import { DataErasureRequestModel, IDataErasureRequest } from '../../src/models/DataErasureRequest';
+
+jest.mock('../../src/models/DataErasureRequest');
+
+const mockedRequests = jest.mocked(DataErasureRequestModel);
+
+// mssql returns BIGINT columns as strings
+const pendingRequest = (userId: string): IDataErasureRequest =>
+  ({
+    request_id: '7',
+    user_id: userId,
+    status: 'pending',
+    requested_at: new Date(),
+  }) as unknown as IDataErasureRequest;
+
+describe('DataPrivacyService.cancelErasure', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('cancels the request of the user when the model returns user_id as a string', async () => {
+    mockedRequests.findById.mockResolvedValue(pendingRequest('42'));
+    mockedRequests.close.mockResolvedValue(true);
+
+    await DataPrivacyService.cancelErasure(42, 7);
+
+    expect(mockedRequests.close).toHaveBeenCalledWith(7, 'cancelled', 42);
+  });
+
+  it("does not cancel another user's request", async () => {
+    mockedRequests.findById.mockResolvedValue(pendingRequest('43'));
+
+    await expect(DataPrivacyService.cancelErasure(42, 7)).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockedRequests.close).not.toHaveBeenCalled();
+  });
+
+  it('reports a request that was already processed', async () => {
+    mockedRequests.findById.mockResolvedValue(pendingRequest('42'));
+    mockedRequests.close.mockResolvedValue(false);
+
+    await expect(DataPrivacyService.cancelErasure(42, 7)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});